@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ParkedSale" (
+    "id" SERIAL NOT NULL,
+    "label" TEXT NOT NULL,
+    "cashierId" TEXT NOT NULL,
+    "terminalId" TEXT,
+    "items" JSON NOT NULL,
+    "discount" JSON,
+    "itemCount" INTEGER NOT NULL DEFAULT 0,
+    "totalAmount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ParkedSale_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParkedSale_cashierId_idx" ON "ParkedSale"("cashierId");
+
+-- CreateIndex
+CREATE INDEX "ParkedSale_terminalId_idx" ON "ParkedSale"("terminalId");
+
+-- AddForeignKey
+ALTER TABLE "ParkedSale" ADD CONSTRAINT "ParkedSale_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ProductBarcode" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductBarcode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductBarcode_code_key" ON "ProductBarcode"("code");
+
+-- CreateIndex
+CREATE INDEX "ProductBarcode_productId_idx" ON "ProductBarcode"("productId");
+
+-- AddForeignKey
+ALTER TABLE "ProductBarcode" ADD CONSTRAINT "ProductBarcode_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
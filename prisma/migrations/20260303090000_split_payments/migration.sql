@@ -0,0 +1,25 @@
+-- DropIndex
+DROP INDEX "Payment_transactionId_key";
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "orderId" TEXT,
+ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "snapRedirectUrl" TEXT,
+ADD COLUMN     "snapToken" TEXT;
+
+-- Backfill gateway order IDs and Snap tokens for existing single-tender payments
+UPDATE "Payment" p
+SET "orderId" = t."invoiceNo",
+    "snapToken" = t."snapToken",
+    "snapRedirectUrl" = t."snapRedirectUrl"
+FROM "Transaction" t
+WHERE p."transactionId" = t."id" AND p."paymentType" = 'MIDTRANS';
+
+UPDATE "Payment" p
+SET "paidAt" = t."paidAt"
+FROM "Transaction" t
+WHERE p."transactionId" = t."id" AND p."paymentStatus" IN ('settlement', 'capture');
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_orderId_key" ON "Payment"("orderId");
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ShiftStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "shiftId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Shift" (
+    "id" SERIAL NOT NULL,
+    "cashierId" TEXT NOT NULL,
+    "terminalId" TEXT,
+    "status" "ShiftStatus" NOT NULL DEFAULT 'OPEN',
+    "openingFloat" INTEGER NOT NULL,
+    "expectedCash" INTEGER,
+    "countedCash" INTEGER,
+    "variance" INTEGER,
+    "closingNote" TEXT,
+    "report" JSON,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Shift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shift_cashierId_status_idx" ON "Shift"("cashierId", "status");
+
+-- CreateIndex
+CREATE INDEX "Shift_openedAt_idx" ON "Shift"("openedAt");
+
+-- CreateIndex
+CREATE INDEX "Transaction_shiftId_idx" ON "Transaction"("shiftId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shift" ADD CONSTRAINT "Shift_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "offlineId" TEXT,
+ADD COLUMN     "offlineSoldAt" TIMESTAMP(3),
+ADD COLUMN     "provisionalInvoiceNo" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_offlineId_key" ON "Transaction"("offlineId");
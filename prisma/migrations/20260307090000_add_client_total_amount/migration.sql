@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "clientTotalAmount" INTEGER;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('BUY_X_GET_Y', 'BUNDLE_PRICE', 'CATEGORY_PERCENT', 'MIN_SPEND');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "promotionDiscount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "promotionNames" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "TransactionItem" ADD COLUMN     "promotionDiscount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "promotionNames" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "PromotionType" NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "stackable" BOOLEAN NOT NULL DEFAULT false,
+    "productIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "categoryId" INTEGER,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "bundleQuantity" INTEGER,
+    "bundlePrice" INTEGER,
+    "minSpend" INTEGER,
+    "discountType" TEXT,
+    "discountValue" DOUBLE PRECISION,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "daysOfWeek" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Promotion_isActive_idx" ON "Promotion"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "LoyaltyEntryType" AS ENUM ('EARN', 'REDEEM', 'REVERSAL');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "customerId" INTEGER,
+ADD COLUMN     "pointsDiscount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pointsEarned" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pointsRedeemed" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Customer" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "email" TEXT,
+    "notes" TEXT,
+    "pointsBalance" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Customer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoyaltyPointEntry" (
+    "id" SERIAL NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "transactionId" INTEGER,
+    "type" "LoyaltyEntryType" NOT NULL,
+    "points" INTEGER NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoyaltyPointEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_customerId_idx" ON "Transaction"("customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Customer_phone_key" ON "Customer"("phone");
+
+-- CreateIndex
+CREATE INDEX "Customer_name_idx" ON "Customer"("name");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyPointEntry_customerId_idx" ON "LoyaltyPointEntry"("customerId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyPointEntry_transactionId_idx" ON "LoyaltyPointEntry"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyPointEntry" ADD CONSTRAINT "LoyaltyPointEntry_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyPointEntry" ADD CONSTRAINT "LoyaltyPointEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "RefundMethod" AS ENUM ('CASH', 'STORE_CREDIT');
+
+-- AlterEnum
+ALTER TYPE "LoyaltyEntryType" ADD VALUE 'RETURN';
+
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "storeCredit" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TransactionItem" ADD COLUMN     "returnedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "SalesReturn" (
+    "id" SERIAL NOT NULL,
+    "returnNo" TEXT NOT NULL,
+    "transactionId" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "refundMethod" "RefundMethod" NOT NULL,
+    "refundAmount" INTEGER NOT NULL,
+    "customerId" INTEGER,
+    "shiftId" INTEGER,
+    "pointsReversed" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SalesReturn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalesReturnItem" (
+    "id" SERIAL NOT NULL,
+    "returnId" INTEGER NOT NULL,
+    "transactionItemId" INTEGER NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "productName" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "refundAmount" INTEGER NOT NULL,
+    "restock" BOOLEAN NOT NULL,
+
+    CONSTRAINT "SalesReturnItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalesReturn_returnNo_key" ON "SalesReturn"("returnNo");
+
+-- CreateIndex
+CREATE INDEX "SalesReturn_transactionId_idx" ON "SalesReturn"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "SalesReturn_createdAt_idx" ON "SalesReturn"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SalesReturn_shiftId_idx" ON "SalesReturn"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "SalesReturnItem_returnId_idx" ON "SalesReturnItem"("returnId");
+
+-- CreateIndex
+CREATE INDEX "SalesReturnItem_transactionItemId_idx" ON "SalesReturnItem"("transactionItemId");
+
+-- AddForeignKey
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesReturnItem" ADD CONSTRAINT "SalesReturnItem_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "SalesReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesReturnItem" ADD CONSTRAINT "SalesReturnItem_transactionItemId_fkey" FOREIGN KEY ("transactionItemId") REFERENCES "TransactionItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesReturnItem" ADD CONSTRAINT "SalesReturnItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "serviceChargeAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "serviceChargeRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "taxName" TEXT,
+ADD COLUMN     "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TransactionItem" ADD COLUMN     "taxAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxSetting" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "taxEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "taxName" TEXT NOT NULL DEFAULT 'PPN',
+    "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 11,
+    "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+    "serviceChargeEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "serviceChargeRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "TaxSetting_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "receiptToken" TEXT;
+
+-- Give existing transactions a token (gen_random_uuid is built in since PostgreSQL 13)
+UPDATE "Transaction" SET "receiptToken" = replace(gen_random_uuid()::text, '-', '') WHERE "receiptToken" IS NULL;
+
+ALTER TABLE "Transaction" ALTER COLUMN "receiptToken" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_receiptToken_key" ON "Transaction"("receiptToken");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "StoreSetting" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "storeName" TEXT NOT NULL DEFAULT 'POS System',
+    "address" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "logo" TEXT,
+    "receiptHeader" TEXT,
+    "receiptFooter" TEXT,
+    "invoicePattern" TEXT NOT NULL DEFAULT 'INV-{YYYYMMDD}-{SEQ:4}',
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Jakarta',
+    "locale" TEXT NOT NULL DEFAULT 'id-ID',
+    "currency" TEXT NOT NULL DEFAULT 'IDR',
+    "decimals" INTEGER NOT NULL DEFAULT 0,
+    "defaultPaymentMethod" TEXT NOT NULL DEFAULT 'CASH',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "StoreSetting_pkey" PRIMARY KEY ("id")
+);
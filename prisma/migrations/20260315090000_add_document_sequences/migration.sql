@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "StoreSetting" ADD COLUMN     "invoiceReset" TEXT NOT NULL DEFAULT 'DAILY',
+ADD COLUMN     "invoiceScope" TEXT NOT NULL DEFAULT 'STORE';
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "key" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("key")
+);
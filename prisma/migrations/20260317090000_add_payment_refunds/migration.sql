@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "PaymentRefundStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "PaymentRefund" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "refundKey" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "PaymentRefundStatus" NOT NULL DEFAULT 'PENDING',
+    "statusMessage" TEXT,
+    "rawResponse" JSON,
+    "requestedBy" TEXT NOT NULL,
+    "resolvedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentRefund_refundKey_key" ON "PaymentRefund"("refundKey");
+
+-- CreateIndex
+CREATE INDEX "PaymentRefund_paymentId_idx" ON "PaymentRefund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "PaymentRefund_status_idx" ON "PaymentRefund"("status");
+
+-- AddForeignKey
+ALTER TABLE "PaymentRefund" ADD CONSTRAINT "PaymentRefund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
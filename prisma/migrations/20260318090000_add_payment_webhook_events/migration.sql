@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "PaymentWebhookEventStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'DUPLICATE', 'OUT_OF_ORDER', 'UNMATCHED', 'INVALID_SIGNATURE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "PaymentWebhookEvent" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "orderId" TEXT,
+    "transactionStatus" TEXT,
+    "statusCode" TEXT,
+    "signatureValid" BOOLEAN NOT NULL,
+    "status" "PaymentWebhookEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "message" TEXT,
+    "paymentId" INTEGER,
+    "payload" JSON NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentWebhookEvent_orderId_idx" ON "PaymentWebhookEvent"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PaymentWebhookEvent_status_idx" ON "PaymentWebhookEvent"("status");
+
+-- CreateIndex
+CREATE INDEX "PaymentWebhookEvent_createdAt_idx" ON "PaymentWebhookEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentWebhookEvent" ADD CONSTRAINT "PaymentWebhookEvent_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
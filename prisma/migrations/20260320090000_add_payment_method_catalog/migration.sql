@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "feeAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "netAmount" INTEGER,
+ADD COLUMN     "tenderMethod" TEXT;
+
+-- Existing payments: no fee recorded, method taken from the channel the gateway reported
+UPDATE "Payment" SET "netAmount" = "amount",
+  "tenderMethod" = CASE
+    WHEN "paymentType" = 'CASH' THEN 'CASH'
+    WHEN "paymentMethod" = 'qris' THEN 'MIDTRANS_QRIS'
+    WHEN "paymentMethod" IN ('ewallet', 'gopay', 'shopeepay', 'ovo', 'dana', 'linkaja') THEN 'MIDTRANS_EWALLET'
+    WHEN "paymentMethod" IN ('bank_transfer', 'echannel', 'permata') THEN 'MIDTRANS_BANK_TRANSFER'
+    ELSE 'MIDTRANS_ALL'
+  END;
+
+ALTER TABLE "Payment" ALTER COLUMN "netAmount" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "PaymentMethodSetting" (
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "mdrPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "mdrFixed" INTEGER NOT NULL DEFAULT 0,
+    "channels" TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "PaymentMethodSetting_pkey" PRIMARY KEY ("code")
+);
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "SettlementMatchStatus" AS ENUM ('MATCHED', 'AMOUNT_MISMATCH', 'NOT_SETTLED_LOCALLY', 'MISSING_LOCALLY', 'MISSING_IN_FILE', 'DUPLICATE', 'INVALID');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "settlementCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "settlementStatus" "SettlementMatchStatus";
+
+-- CreateTable
+CREATE TABLE "SettlementUpload" (
+    "id" SERIAL NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "periodStart" DATE,
+    "periodEnd" DATE,
+    "totalLines" INTEGER NOT NULL DEFAULT 0,
+    "matchedLines" INTEGER NOT NULL DEFAULT 0,
+    "issueLines" INTEGER NOT NULL DEFAULT 0,
+    "uploadedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SettlementLine" (
+    "id" SERIAL NOT NULL,
+    "uploadId" INTEGER NOT NULL,
+    "rowNumber" INTEGER,
+    "orderId" TEXT,
+    "gatewayTransactionId" TEXT,
+    "amount" INTEGER,
+    "gatewayStatus" TEXT,
+    "paymentType" TEXT,
+    "settledAt" TIMESTAMP(3),
+    "paymentId" INTEGER,
+    "status" "SettlementMatchStatus" NOT NULL,
+    "message" TEXT,
+    "raw" JSON,
+
+    CONSTRAINT "SettlementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SettlementUpload_createdAt_idx" ON "SettlementUpload"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SettlementLine_uploadId_status_idx" ON "SettlementLine"("uploadId", "status");
+
+-- CreateIndex
+CREATE INDEX "SettlementLine_paymentId_idx" ON "SettlementLine"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "SettlementLine" ADD CONSTRAINT "SettlementLine_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "SettlementUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementLine" ADD CONSTRAINT "SettlementLine_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
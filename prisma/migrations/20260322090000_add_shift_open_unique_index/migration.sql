@@ -0,0 +1,13 @@
+-- Close all but the latest open shift of each cashier
+UPDATE "Shift" s
+SET "status" = 'CLOSED', "closedAt" = CURRENT_TIMESTAMP, "closingNote" = 'Ditutup otomatis: shift ganda'
+WHERE s."status" = 'OPEN'
+  AND EXISTS (
+    SELECT 1 FROM "Shift" o
+    WHERE o."cashierId" = s."cashierId"
+      AND o."status" = 'OPEN'
+      AND (o."openedAt", o."id") > (s."openedAt", s."id")
+  );
+
+-- CreateIndex (partial: Prisma schema cannot express it)
+CREATE UNIQUE INDEX "Shift_cashierId_open_key" ON "Shift"("cashierId") WHERE "status" = 'OPEN';
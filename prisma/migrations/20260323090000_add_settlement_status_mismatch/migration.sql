@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SettlementMatchStatus" ADD VALUE 'STATUS_MISMATCH';
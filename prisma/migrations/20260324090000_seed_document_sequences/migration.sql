@@ -0,0 +1,27 @@
+-- Seed running numbers from documents numbered before DocumentSequence existed, for the
+-- default patterns (INV-YYYYMMDD-NNNN and RET-YYYYMMDD-NNNN, counted per day for the store).
+-- Other patterns are caught up by the first sale that finds its number taken.
+
+-- SeedData
+INSERT INTO "DocumentSequence" ("key", "value", "updatedAt")
+SELECT 'INVOICE:STORE:' || substring("invoiceNo" from 5 for 8),
+       MAX(CAST(substring("invoiceNo" from 14) AS INTEGER)),
+       CURRENT_TIMESTAMP
+FROM "Transaction"
+WHERE "invoiceNo" ~ '^INV-[0-9]{8}-[0-9]{1,9}$'
+GROUP BY 1
+ON CONFLICT ("key") DO UPDATE
+SET "value" = GREATEST("DocumentSequence"."value", EXCLUDED."value"),
+    "updatedAt" = CURRENT_TIMESTAMP;
+
+-- SeedData
+INSERT INTO "DocumentSequence" ("key", "value", "updatedAt")
+SELECT 'RETURN:STORE:' || substring("returnNo" from 5 for 8),
+       MAX(CAST(substring("returnNo" from 14) AS INTEGER)),
+       CURRENT_TIMESTAMP
+FROM "SalesReturn"
+WHERE "returnNo" ~ '^RET-[0-9]{8}-[0-9]{1,9}$'
+GROUP BY 1
+ON CONFLICT ("key") DO UPDATE
+SET "value" = GREATEST("DocumentSequence"."value", EXCLUDED."value"),
+    "updatedAt" = CURRENT_TIMESTAMP;
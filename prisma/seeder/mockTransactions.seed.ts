@@ -8,6 +8,7 @@
 import { PrismaClient } from "../../src/generated/prisma/client.js";
 import { PrismaPg } from "@prisma/adapter-pg";
 import * as bcrypt from "bcryptjs";
+import { randomBytes } from "crypto";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -322,6 +323,7 @@ async function seedMockTransactions() {
         const transaction = await prisma.transaction.create({
           data: {
             invoiceNo,
+            receiptToken: randomBytes(24).toString("base64url"),
             totalAmount: transactionTotal,
             status,
             cashierId: cashier.id,
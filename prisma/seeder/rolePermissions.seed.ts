@@ -125,6 +125,131 @@ const permissionDefinitions: PermissionDefinition[] = [
     isActive: true,
     parentCode: null,
   },
+  // Promotions
+  {
+    code: "promotion",
+    label: "Promo",
+    href: "/promotions",
+    description: "Access to promotion management page",
+    icon: "Tag",
+    module: "pos",
+    isSection: false,
+    sequence: 7,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  {
+    code: "voucher",
+    label: "Voucher",
+    href: "/vouchers",
+    description: "Access to voucher campaign management page",
+    icon: "Ticket",
+    module: "pos",
+    isSection: false,
+    sequence: 8,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Customers
+  {
+    code: "customer",
+    label: "Pelanggan",
+    href: "/customers",
+    description: "Access to customer and loyalty management page",
+    icon: "Contact",
+    module: "pos",
+    isSection: false,
+    sequence: 9,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Payment Reconciliation
+  {
+    code: "payment",
+    label: "Rekonsiliasi Pembayaran",
+    href: "/payments",
+    description: "Access to stuck and mismatched online payments",
+    icon: "CreditCard",
+    module: "pos",
+    isSection: false,
+    sequence: 10,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Payment Webhook Events
+  {
+    code: "webhook",
+    label: "Webhook Pembayaran",
+    href: "/payments/webhooks",
+    description: "Access to stored payment gateway notifications and replay",
+    icon: "Webhook",
+    module: "pos",
+    isSection: false,
+    sequence: 11,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Settlement File Reconciliation
+  {
+    code: "settlement_reconcile",
+    label: "Rekonsiliasi Settlement",
+    href: "/payments/settlements",
+    description: "Access to Midtrans settlement file upload and matching",
+    icon: "FileCheck",
+    module: "pos",
+    isSection: false,
+    sequence: 12,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Tax & Service Charge
+  {
+    code: "tax",
+    label: "Pajak & Service",
+    href: "/tax-settings",
+    description: "Access to tax and service charge settings",
+    icon: "Percent",
+    module: "master",
+    isSection: false,
+    sequence: 5,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Payment Methods
+  {
+    code: "payment_method",
+    label: "Metode Pembayaran",
+    href: "/payment-methods",
+    description: "Access to the payment method catalog and gateway fees",
+    icon: "Wallet",
+    module: "master",
+    isSection: false,
+    sequence: 7,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
+  // Store Settings
+  {
+    code: "store",
+    label: "Pengaturan Toko",
+    href: "/store-settings",
+    description: "Access to store profile, receipt and regional settings",
+    icon: "Store",
+    module: "master",
+    isSection: false,
+    sequence: 6,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: null,
+  },
   // Reports Section
   {
     code: "report",
@@ -153,6 +278,20 @@ const permissionDefinitions: PermissionDefinition[] = [
     isActive: true,
     parentCode: "report",
   },
+  // Settlement Report
+  {
+    code: "settlement",
+    label: "Settlement",
+    href: "/reports/settlement",
+    description: "Access to settled payments, gateway fees and net per method per day",
+    icon: "Landmark",
+    module: "report",
+    isSection: false,
+    sequence: 10,
+    showOnSidebar: true,
+    isActive: true,
+    parentCode: "report",
+  },
   // Master Section
   {
     code: "master",
@@ -200,7 +339,7 @@ const permissionDefinitions: PermissionDefinition[] = [
 const rolePermissionMappings: RolePermissionMapping[] = [
   {
     roleName: "SUPERADMIN",
-    permissionCodes: ["dashboard", "master", "user", "role", "pos", "cashier", "product", "transaction", "report", "reports"],
+    permissionCodes: ["dashboard", "master", "user", "role", "tax", "payment_method", "store", "pos", "cashier", "product", "promotion", "voucher", "customer", "transaction", "payment", "webhook", "settlement_reconcile", "report", "reports", "settlement"],
   },
   {
     roleName: "KASIR",
@@ -208,7 +347,7 @@ const rolePermissionMappings: RolePermissionMapping[] = [
   },
   {
     roleName: "MANAGER",
-    permissionCodes: ["dashboard", "pos", "cashier", "product", "transaction", "report", "reports"],
+    permissionCodes: ["dashboard", "pos", "cashier", "product", "promotion", "voucher", "customer", "transaction", "payment", "settlement_reconcile", "report", "reports", "settlement"],
   },
 ];
 
@@ -0,0 +1,204 @@
+#!/usr/bin/env bun
+/**
+ * Stress test for the checkout write path against a local Postgres
+ * Runs many cash sales of the same few products at once through the same checkout as
+ * POST /api/transactions (prepareCheckout, createSale, atomic stock decrement), then checks that:
+ * - stock never goes below zero and every unit taken is on a saved sale
+ * - sales are only rejected for insufficient stock, never for deadlocks or duplicate numbers
+ * - invoice numbers are unique
+ *
+ * Usage: bun scripts/stress-checkout.ts [sales=200] [stockPerProduct=60]
+ * Needs DATABASE_URL pointing at a migrated dev database with at least one user.
+ * Sales go into the user's open shift, or a shift opened for the run. The products, sales
+ * and that shift are removed afterwards; the invoice numbers they used are not handed out
+ * again, so run it on a dev database only.
+ */
+
+import { randomBytes } from "crypto";
+import type { Shift } from "../src/generated/prisma/client";
+import { prisma } from "../src/lib/prisma";
+import { getPaymentMethods } from "../src/lib/payment-method-settings";
+import { parseTenders } from "../src/lib/payments";
+import { getOpenShift } from "../src/lib/shifts";
+import {
+  createSale,
+  prepareCheckout,
+  priceSaleItems,
+  saleProductInclude,
+  type SaleProduct,
+} from "../src/lib/sales";
+import { decrementStock, InsufficientStockError } from "../src/lib/stock";
+
+const SALES = parseInt(process.argv[2] || "200");
+const STOCK_PER_PRODUCT = parseInt(process.argv[3] || "60");
+const PRODUCT_COUNT = 3;
+const PRICE = 10000;
+
+const runId = randomBytes(4).toString("hex").toUpperCase();
+
+function randomInt(min: number, max: number): number {
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+async function createProducts() {
+  const products = [];
+
+  for (let i = 1; i <= PRODUCT_COUNT; i++) {
+    const product = await prisma.product.create({
+      data: {
+        name: `Stress ${runId} #${i}`,
+        sku: `STRESS-${runId}-${i}`,
+        price: PRICE,
+      },
+    });
+    await prisma.stock.create({
+      data: { productId: product.id, number: product.id, quantity: STOCK_PER_PRODUCT },
+    });
+    products.push(product);
+  }
+
+  return prisma.product.findMany({
+    where: { id: { in: products.map((product) => product.id) } },
+    include: saleProductInclude,
+  });
+}
+
+/**
+ * One checkout: a random cart of the test products, lines in random order
+ * The client total is priced like the cashier does, so active promotions and tax apply.
+ */
+async function checkout(products: SaleProduct[], shift: Shift) {
+  const items = products
+    .filter(() => Math.random() < 0.7)
+    .map((product) => ({ productId: product.id, quantity: randomInt(1, 3) }))
+    .sort(() => Math.random() - 0.5);
+  if (items.length === 0) {
+    items.push({ productId: products[0].id, quantity: 1 });
+  }
+
+  const priced = await priceSaleItems(items, products, null, { at: new Date() });
+  if ("error" in priced) throw new Error(priced.error);
+  const totalAmount = priced.totals.finalTotal;
+
+  const draft = await prepareCheckout({
+    items,
+    totalAmount,
+    discount: null,
+    customerId: null,
+    redeemPoints: 0,
+  });
+  if ("rejection" in draft) {
+    throw new Error(`${draft.rejection.error}: ${draft.rejection.details ?? ""}`);
+  }
+
+  const paymentMethods = await getPaymentMethods();
+  const tenderResult = parseTenders(undefined, totalAmount, "CASH", paymentMethods);
+  if ("error" in tenderResult) throw new Error(tenderResult.error);
+
+  return prisma.$transaction(
+    async (tx) => {
+      const transaction = await createSale(tx, {
+        draft,
+        shift,
+        cashierId: shift.cashierId,
+        tenders: tenderResult.tenders,
+        paymentMethods,
+        data: {
+          status: "COMPLETED",
+          paymentType: "CASH",
+          paymentStatus: "PAID",
+          paidAt: new Date(),
+        },
+      });
+      await decrementStock(tx, draft.lines);
+
+      return transaction;
+    },
+    // Far more sales than pool connections are queued on purpose
+    { maxWait: 60_000, timeout: 60_000 }
+  );
+}
+
+async function cleanup(productIds: number[], runShiftId: number | null) {
+  const transactionIds = (
+    await prisma.transactionItem.findMany({
+      where: { productId: { in: productIds } },
+      select: { transactionId: true },
+    })
+  ).map((item) => item.transactionId);
+
+  await prisma.payment.deleteMany({ where: { transactionId: { in: transactionIds } } });
+  await prisma.transactionItem.deleteMany({ where: { transactionId: { in: transactionIds } } });
+  await prisma.transaction.deleteMany({ where: { id: { in: transactionIds } } });
+  await prisma.stock.deleteMany({ where: { productId: { in: productIds } } });
+  await prisma.product.deleteMany({ where: { id: { in: productIds } } });
+  if (runShiftId) {
+    await prisma.shift.delete({ where: { id: runShiftId } });
+  }
+}
+
+const cashier = await prisma.user.findFirst({ select: { id: true } });
+if (!cashier) {
+  console.error("No user found - seed the database first");
+  process.exit(1);
+}
+
+const openShift = await getOpenShift(cashier.id);
+const shift =
+  openShift || (await prisma.shift.create({ data: { cashierId: cashier.id, openingFloat: 0 } }));
+const runShiftId = openShift ? null : shift.id;
+
+const products = await createProducts();
+const productIds = products.map((product) => product.id);
+let failed = false;
+
+try {
+  console.log(
+    `Running ${SALES} concurrent sales of ${PRODUCT_COUNT} products with ${STOCK_PER_PRODUCT} units each...`
+  );
+  const startedAt = Date.now();
+  const results = await Promise.allSettled(
+    Array.from({ length: SALES }, () => checkout(products, shift))
+  );
+  const elapsed = Date.now() - startedAt;
+
+  const completed = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  const rejected = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+  const outOfStock = rejected.filter((r) => r.reason instanceof InsufficientStockError);
+  const unexpected = rejected.filter((r) => !(r.reason instanceof InsufficientStockError));
+
+  const stock = await prisma.stock.findMany({ where: { productId: { in: productIds } } });
+  const sold = await prisma.transactionItem.groupBy({
+    by: ["productId"],
+    where: { productId: { in: productIds } },
+    _sum: { quantity: true },
+  });
+  const invoiceNos = completed.map((transaction) => transaction.invoiceNo);
+
+  console.log(`Done in ${elapsed}ms: ${completed.length} completed, ${outOfStock.length} out of stock`);
+
+  for (const row of stock) {
+    const soldUnits = sold.find((s) => s.productId === row.productId)?._sum.quantity || 0;
+    const ok = row.quantity >= 0 && row.quantity + soldUnits === STOCK_PER_PRODUCT;
+    console.log(
+      `  product ${row.productId}: ${soldUnits} sold, ${row.quantity} left ${ok ? "OK" : "MISMATCH"}`
+    );
+    if (!ok) failed = true;
+  }
+
+  if (new Set(invoiceNos).size !== invoiceNos.length) {
+    console.error("Duplicate invoice numbers");
+    failed = true;
+  }
+
+  if (unexpected.length > 0) {
+    console.error(`${unexpected.length} sales failed unexpectedly, e.g.:`, unexpected[0].reason);
+    failed = true;
+  }
+} finally {
+  await cleanup(productIds, runShiftId);
+  await prisma.$disconnect();
+}
+
+console.log(failed ? "FAILED" : "PASSED");
+process.exit(failed ? 1 : 0);
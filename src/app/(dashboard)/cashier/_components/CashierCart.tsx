@@ -5,11 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Plus, Minus, Trash2, Receipt, Percent } from "lucide-react";
+import { Plus, Minus, Trash2, Receipt, Percent, PauseCircle, Tag, Ticket } from "lucide-react";
 import { CartItem, TransactionDiscount } from "./CashierPageClient";
 import { formatCurrency } from "@/lib/utils";
 import { Input } from "@/components/ui/input";
 import { DiscountDialog } from "./DiscountDialog";
+import type { TaxSummary } from "@/lib/tax";
 
 interface CashierCartProps {
   cart: CartItem[];
@@ -19,13 +20,22 @@ interface CashierCartProps {
   transactionDiscount: TransactionDiscount;
   transactionDiscountAmount: number;
   totalItemDiscounts: number;
+  itemPromotionDiscount: number;
+  cartPromotion: { names: string[]; amount: number };
+  pointsRedemption: { points: number; amount: number };
+  taxes: TaxSummary;
   onUpdateQuantity: (itemId: number, quantity: number) => void;
   onRemove: (itemId: number) => void;
   onClear: () => void;
+  onPark: () => void;
   onCheckout: () => void;
   isCheckingOut: boolean;
   onApplyItemDiscount: (itemId: number, type: 'PERCENTAGE' | 'NOMINAL' | null, value: number) => void;
   onApplyTransactionDiscount: (type: 'PERCENTAGE' | 'NOMINAL' | null, value: number) => void;
+  onApplyVoucher: (code: string) => void;
+  isApplyingVoucher: boolean;
+  /** Vouchers are checked and redeemed by the server, so they need a connection */
+  isOffline: boolean;
 }
 
 export function CashierCart({
@@ -36,18 +46,27 @@ export function CashierCart({
   transactionDiscount,
   transactionDiscountAmount,
   totalItemDiscounts,
+  itemPromotionDiscount,
+  cartPromotion,
+  pointsRedemption,
+  taxes,
   onUpdateQuantity,
   onRemove,
   onClear,
+  onPark,
   onCheckout,
   isCheckingOut,
   onApplyItemDiscount,
   onApplyTransactionDiscount,
+  onApplyVoucher,
+  isApplyingVoucher,
+  isOffline,
 }: CashierCartProps) {
   const [discountDialogOpen, setDiscountDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<CartItem | null>(null);
   const [transactionDiscountMode, setTransactionDiscountMode] = useState<'PERCENTAGE' | 'NOMINAL'>('PERCENTAGE');
   const [transactionDiscountValue, setTransactionDiscountValue] = useState('');
+  const [voucherCode, setVoucherCode] = useState('');
 
   const handleOpenItemDiscount = (item: CartItem) => {
     setSelectedItem(item);
@@ -75,6 +94,16 @@ export function CashierCart({
     setTransactionDiscountValue('');
   };
 
+  const handleApplyVoucher = () => {
+    if (voucherCode.trim()) {
+      onApplyVoucher(voucherCode.trim());
+      setVoucherCode('');
+    }
+  };
+
+  const appliedVoucher = transactionDiscount.voucherCode;
+  const voucherBelowMinimum = !!appliedVoucher && transactionDiscountAmount === 0;
+
   return (
     <>
       <Card className="sticky top-6 h-fit max-h-[calc(100vh-120px)] flex flex-col">
@@ -117,60 +146,113 @@ export function CashierCart({
 
             {/* Transaction Discount Section */}
             <div className="p-4 space-y-3">
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-medium flex items-center gap-2">
-                  <Percent className="w-4 h-4" />
-                  Diskon Transaksi
-                </span>
-                {transactionDiscount.type && transactionDiscount.value > 0 ? (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleRemoveTransactionDiscount}
-                    className="h-6 text-destructive hover:text-destructive"
-                  >
-                    Hapus
-                  </Button>
-                ) : null}
-              </div>
+              {appliedVoucher ? (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium flex items-center gap-2">
+                      <Ticket className="w-4 h-4" />
+                      Voucher {appliedVoucher}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleRemoveTransactionDiscount}
+                      className="h-6 text-destructive hover:text-destructive"
+                    >
+                      Hapus
+                    </Button>
+                  </div>
+                  {voucherBelowMinimum && (
+                    <p className="text-xs text-amber-600">
+                      Minimal belanja {formatCurrency(transactionDiscount.minPurchase || 0)} belum terpenuhi
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium flex items-center gap-2">
+                      <Percent className="w-4 h-4" />
+                      Diskon Transaksi
+                    </span>
+                    {transactionDiscount.type && transactionDiscount.value > 0 ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleRemoveTransactionDiscount}
+                        className="h-6 text-destructive hover:text-destructive"
+                      >
+                        Hapus
+                      </Button>
+                    ) : null}
+                  </div>
 
-              <div className="flex gap-2">
-                <Button
-                  type="button"
-                  variant={transactionDiscountMode === 'PERCENTAGE' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setTransactionDiscountMode('PERCENTAGE')}
-                  className="shrink-0"
-                >
-                  %
-                </Button>
-                <Input
-                  type="number"
-                  placeholder={transactionDiscountMode === 'PERCENTAGE' ? '0' : '0'}
-                  value={
-                    transactionDiscount.type && transactionDiscount.type === transactionDiscountMode
-                      ? transactionDiscount.value.toString()
-                      : transactionDiscountValue
-                  }
-                  onChange={(e) => setTransactionDiscountValue(e.target.value)}
-                  onFocus={() => {
-                    if (transactionDiscount.type && transactionDiscount.type !== transactionDiscountMode) {
-                      setTransactionDiscountValue('');
-                    }
-                  }}
-                  onBlur={handleApplyTransactionDiscount}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') {
-                      handleApplyTransactionDiscount();
-                      e.currentTarget.blur();
-                    }
-                  }}
-                  min={0}
-                  max={transactionDiscountMode === 'PERCENTAGE' ? 100 : subtotal}
-                  step={transactionDiscountMode === 'PERCENTAGE' ? 1 : 1000}
-                  className="flex-1"
-                />
-              </div>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant={transactionDiscountMode === 'PERCENTAGE' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setTransactionDiscountMode('PERCENTAGE')}
+                      className="shrink-0"
+                    >
+                      %
+                    </Button>
+                    <Input
+                      type="number"
+                      placeholder={transactionDiscountMode === 'PERCENTAGE' ? '0' : '0'}
+                      value={
+                        transactionDiscount.type && transactionDiscount.type === transactionDiscountMode
+                          ? transactionDiscount.value.toString()
+                          : transactionDiscountValue
+                      }
+                      onChange={(e) => setTransactionDiscountValue(e.target.value)}
+                      onFocus={() => {
+                        if (transactionDiscount.type && transactionDiscount.type !== transactionDiscountMode) {
+                          setTransactionDiscountValue('');
+                        }
+                      }}
+                      onBlur={handleApplyTransactionDiscount}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleApplyTransactionDiscount();
+                          e.currentTarget.blur();
+                        }
+                      }}
+                      min={0}
+                      max={transactionDiscountMode === 'PERCENTAGE' ? 100 : subtotal}
+                      step={transactionDiscountMode === 'PERCENTAGE' ? 1 : 1000}
+                      className="flex-1"
+                    />
+                  </div>
+
+                  {/* Voucher code */}
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={isOffline ? "Voucher tidak tersedia saat offline" : "Kode voucher"}
+                      value={voucherCode}
+                      onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleApplyVoucher();
+                        }
+                      }}
+                      disabled={isOffline || isApplyingVoucher}
+                      className="flex-1 font-mono"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleApplyVoucher}
+                      disabled={isOffline || isApplyingVoucher || !voucherCode.trim()}
+                      className="shrink-0"
+                    >
+                      <Ticket className="w-4 h-4 mr-1" />
+                      {isApplyingVoucher ? "Cek..." : "Pakai"}
+                    </Button>
+                  </div>
+                </>
+              )}
             </div>
 
             <Separator />
@@ -190,11 +272,25 @@ export function CashierCart({
                   </div>
                 )}
 
+                {/* Automatic Promotions */}
+                {itemPromotionDiscount > 0 && (
+                  <div className="flex justify-between text-sm text-destructive">
+                    <span>Promo Item</span>
+                    <span>-{formatCurrency(itemPromotionDiscount)}</span>
+                  </div>
+                )}
+                {cartPromotion.amount > 0 && (
+                  <div className="flex justify-between text-sm text-destructive">
+                    <span>Promo ({cartPromotion.names.join(", ")})</span>
+                    <span>-{formatCurrency(cartPromotion.amount)}</span>
+                  </div>
+                )}
+
                 {/* Transaction Discount */}
                 {transactionDiscountAmount > 0 && (
                   <div className="flex justify-between text-sm text-destructive">
                     <span>
-                      Diskon Transaksi (
+                      {appliedVoucher ? `Voucher ${appliedVoucher}` : "Diskon Transaksi"} (
                       {transactionDiscount.type === 'PERCENTAGE'
                         ? `${transactionDiscount.value}%`
                         : formatCurrency(transactionDiscount.value)}
@@ -204,6 +300,32 @@ export function CashierCart({
                   </div>
                 )}
 
+                {/* Loyalty Points */}
+                {pointsRedemption.amount > 0 && (
+                  <div className="flex justify-between text-sm text-destructive">
+                    <span>Tukar Poin ({pointsRedemption.points})</span>
+                    <span>-{formatCurrency(pointsRedemption.amount)}</span>
+                  </div>
+                )}
+
+                {/* Service Charge and Tax */}
+                {taxes.serviceChargeAmount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      Service Charge ({taxes.serviceChargeRate}%)
+                    </span>
+                    <span>{formatCurrency(taxes.serviceChargeAmount)}</span>
+                  </div>
+                )}
+                {taxes.taxAmount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {taxes.taxName} {taxes.taxRate}%{taxes.taxInclusive ? " (termasuk)" : ""}
+                    </span>
+                    <span>{formatCurrency(taxes.taxAmount)}</span>
+                  </div>
+                )}
+
                 <Separator />
                 <div className="flex justify-between text-lg font-bold">
                   <span>Total</span>
@@ -222,14 +344,25 @@ export function CashierCart({
                   <Receipt className="w-4 h-4 mr-2" />
                   {isCheckingOut ? "Memproses..." : "Bayar Sekarang"}
                 </Button>
-                <Button
-                  onClick={onClear}
-                  variant="outline"
-                  className="w-full"
-                  size="sm"
-                >
-                  Kosongkan Keranjang
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={onPark}
+                    variant="outline"
+                    className="flex-1"
+                    size="sm"
+                  >
+                    <PauseCircle className="w-4 h-4 mr-2" />
+                    Tahan
+                  </Button>
+                  <Button
+                    onClick={onClear}
+                    variant="outline"
+                    className="flex-1"
+                    size="sm"
+                  >
+                    Kosongkan Keranjang
+                  </Button>
+                </div>
               </div>
             </CardFooter>
           </>
@@ -384,6 +517,17 @@ function CartItemCard({ item, onUpdateQuantity, onRemove, onOpenDiscount }: Cart
         <p className="font-bold text-sm">{formatCurrency(currentPrice * parseInt(quantity) || item.subtotal)}</p>
       </div>
 
+      {/* Automatic promotions on this line */}
+      {item.promotionNames && item.promotionNames.length > 0 && (
+        <div className="flex items-center justify-between gap-2 text-xs text-green-600">
+          <span className="flex items-center gap-1 min-w-0">
+            <Tag className="w-3 h-3 shrink-0" />
+            <span className="truncate">{item.promotionNames.join(", ")}</span>
+          </span>
+          <span className="shrink-0">-{formatCurrency(item.promotionDiscount || 0)}</span>
+        </div>
+      )}
+
       {/* Stock Info */}
       <div className="flex justify-between text-xs text-muted-foreground">
         <span>Stok: {item.stock}</span>
@@ -1,21 +1,45 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Search, ShoppingCart } from "lucide-react";
+import { Search, ShoppingCart, Clock, ScanBarcode, Lock, Wifi, WifiOff, Printer } from "lucide-react";
+import { format } from "date-fns";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import { getTerminalId } from "@/lib/terminal";
+import { priceCart, priceLine } from "@/lib/pricing";
+import type { PromotionRule } from "@/lib/promotions";
+import { isTaxExempt, summarizeTaxes, type TaxRule } from "@/lib/tax";
+import { getSellableQuantity } from "@/lib/stock";
+import { searchProductSnapshot, findSnapshotByBarcode, type QueuedSale } from "@/lib/offline-db";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { useOfflineSync, isNetworkError } from "@/hooks/use-offline-sync";
+import { useStoreSettings } from "@/providers/store-settings-provider";
 import { CashierProductList } from "./CashierProductList";
 import { CashierCart } from "./CashierCart";
 import { PaymentDialog } from "./PaymentDialog";
+import { ParkSaleDialog } from "./ParkSaleDialog";
+import { ParkedSalesDialog, type ParkedSale } from "./ParkedSalesDialog";
+import { OpenShiftCard } from "./OpenShiftCard";
+import { CloseShiftDialog } from "./CloseShiftDialog";
+import { ZReportDialog } from "./ZReportDialog";
+import { OfflineQueueDialog } from "./OfflineQueueDialog";
+import { PrinterSettingsDialog } from "./PrinterSettingsDialog";
+import { CustomerCard } from "./CustomerCard";
+import type { ZReport } from "@/lib/shifts";
 
 export interface CartItem {
   id: number;
   productId: number;
   name: string;
+  categoryId?: number | null;
+  taxExempt?: boolean;
   price: number;
   quantity: number;
   stock: number;
@@ -24,11 +48,24 @@ export interface CartItem {
   discountValue?: number;
   discountedPrice?: number;
   discountAmount?: number;
+  promotionDiscount?: number;
+  promotionNames?: string[];
 }
 
 export interface TransactionDiscount {
   type: 'PERCENTAGE' | 'NOMINAL' | null;
   value: number;
+  /** Set when the discount comes from a voucher; the server applies the campaign rule */
+  voucherCode?: string | null;
+  minPurchase?: number;
+}
+
+/** Member attached to the sale; points are earned and redeemed on the server */
+export interface AttachedCustomer {
+  id: number;
+  name: string;
+  phone: string;
+  pointsBalance: number;
 }
 
 export interface Product {
@@ -38,35 +75,174 @@ export interface Product {
   price: number;
   categoryId: number | null;
   isActive: boolean;
+  taxExempt?: boolean;
   stock?: {
     quantity: number;
+    reserved?: number; // Held for pending online payments
   } | null;
   category?: {
     id: number;
     title: string;
+    taxExempt?: boolean;
   } | null;
+  barcodes?: {
+    id: number;
+    code: string;
+  }[];
   availableStock?: number;
 }
 
+export interface CurrentShift {
+  id: number;
+  openingFloat: number;
+  openedAt: string;
+  summary: ZReport;
+}
+
+/**
+ * Recompute a cart line's amounts for a new quantity, keeping its item discount
+ */
+function repriceItem(item: CartItem, quantity: number) {
+  const line = priceLine(item.price, quantity, {
+    type: item.discountType || null,
+    value: item.discountValue || 0,
+  });
+
+  return {
+    quantity,
+    subtotal: line.subtotal,
+    discountType: item.discountType || null,
+    discountValue: item.discountValue || 0,
+    discountedPrice: line.discountedPrice,
+    discountAmount: line.discountAmount,
+  };
+}
+
 export function CashierPageClient() {
   const [searchQuery, setSearchQuery] = useState("");
   const [cart, setCart] = useState<CartItem[]>([]);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [isParkDialogOpen, setIsParkDialogOpen] = useState(false);
+  const [isParkedListOpen, setIsParkedListOpen] = useState(false);
+  const [isScanMode, setIsScanMode] = useState(false);
+  const [isCloseShiftOpen, setIsCloseShiftOpen] = useState(false);
+  const [zReport, setZReport] = useState<ZReport | null>(null);
+  const [isOfflineQueueOpen, setIsOfflineQueueOpen] = useState(false);
+  const [isPrinterSettingsOpen, setIsPrinterSettingsOpen] = useState(false);
   const [transactionDiscount, setTransactionDiscount] = useState<TransactionDiscount>({
     type: null,
     value: 0,
   });
+  const [customer, setCustomer] = useState<AttachedCustomer | null>(null);
+  const [redeemPoints, setRedeemPoints] = useState(0);
+  // Clock for time-window promotions, refreshed every minute
+  const [now, setNow] = useState(() => new Date());
 
   const queryClient = useQueryClient();
+  const { settings: storeSettings } = useStoreSettings();
 
-  // Fetch products
-  const { data: products = [], isLoading } = useQuery({
-    queryKey: ["products", searchQuery],
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Offline mode: product snapshot and queued cash sales in IndexedDB
+  const offline = useOfflineSync({
+    onSynced: (count) => {
+      toast.success(`${count} transaksi offline tersinkronisasi`);
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["shift"] });
+    },
+  });
+
+  // Active shift of the cashier - selling is blocked without one
+  const { data: currentShift, isLoading: isShiftLoading } = useQuery({
+    queryKey: ["shift", "current"],
     queryFn: async () => {
-      const response = await axiosInstance.get("/api/products", {
-        params: { search: searchQuery, limit: 50 },
+      const response = await axiosInstance.get<{ data: CurrentShift | null }>("/api/shifts/current");
+      return response.data.data;
+    },
+  });
+
+  const openShiftMutation = useMutation({
+    mutationFn: async (openingFloat: number) => {
+      const response = await axiosInstance.post("/api/shifts", {
+        openingFloat,
+        terminalId: getTerminalId(),
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success("Shift dibuka");
+      queryClient.invalidateQueries({ queryKey: ["shift"] });
+    },
+    onError: (error: any) => {
+      toast.error("Gagal membuka shift", {
+        description: error.response?.data?.error || error.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["shift"] });
+    },
+  });
+
+  const closeShiftMutation = useMutation({
+    mutationFn: async (data: { countedCash: number; note?: string }) => {
+      const response = await axiosInstance.post(`/api/shifts/${currentShift?.id}/close`, data);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast.success("Shift ditutup");
+      setIsCloseShiftOpen(false);
+      setZReport(data.data);
+      queryClient.invalidateQueries({ queryKey: ["shift"] });
+    },
+    onError: (error: any) => {
+      toast.error("Gagal menutup shift", {
+        description: error.response?.data?.error || error.message,
       });
-      return response.data.data || [];
+    },
+  });
+
+  // Automatic promotions (the last fetched list is kept while offline)
+  const { data: promotions = [] } = useQuery({
+    queryKey: ["promotions", "active"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: PromotionRule[] }>("/api/promotions/active");
+      return response.data.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Store tax and service charge (the last fetched rule is kept while offline)
+  const { data: taxRule = null } = useQuery({
+    queryKey: ["tax-settings"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: TaxRule }>("/api/tax-settings");
+      return response.data.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Fetch products (from the local snapshot while offline)
+  const { data: products = [], isLoading } = useQuery({
+    queryKey: ["products", searchQuery, offline.isOnline],
+    networkMode: "always",
+    queryFn: async () => {
+      if (!offline.isOnline) {
+        return searchProductSnapshot(searchQuery);
+      }
+
+      try {
+        const response = await axiosInstance.get("/api/products", {
+          params: { search: searchQuery, limit: 50 },
+        });
+        return response.data.data || [];
+      } catch (error) {
+        if (isNetworkError(error)) {
+          return searchProductSnapshot(searchQuery);
+        }
+        throw error;
+      }
     },
   });
 
@@ -83,7 +259,7 @@ export function CashierPageClient() {
   const productsWithAvailableStock = useMemo(() => {
     return products.map((product: Product) => ({
       ...product,
-      availableStock: Math.max(0, (product.stock?.quantity ?? 0) - (reservedStock.get(product.id) || 0)),
+      availableStock: Math.max(0, getSellableQuantity(product.stock) - (reservedStock.get(product.id) || 0)),
     }));
   }, [products, reservedStock]);
 
@@ -118,7 +294,7 @@ export function CashierPageClient() {
 
   const addToCart = useCallback(
     (product: Product) => {
-      const dbStock = product.stock?.quantity ?? 0;
+      const dbStock = getSellableQuantity(product.stock);
       const reserved = reservedStock.get(product.id) || 0;
       const availableStock = dbStock - reserved;
 
@@ -144,8 +320,7 @@ export function CashierPageClient() {
             item.productId === product.id
               ? {
                   ...item,
-                  quantity: newQuantity,
-                  subtotal: item.price * newQuantity,
+                  ...repriceItem(item, newQuantity),
                 }
               : item
           );
@@ -157,6 +332,8 @@ export function CashierPageClient() {
             id: Date.now(),
             productId: product.id,
             name: product.name,
+            categoryId: product.categoryId,
+            taxExempt: isTaxExempt(product),
             price: product.price,
             quantity: 1,
             stock: dbStock,
@@ -186,8 +363,7 @@ export function CashierPageClient() {
             }
             return {
               ...item,
-              quantity: validatedQuantity,
-              subtotal: item.price * validatedQuantity,
+              ...repriceItem(item, validatedQuantity),
             };
           }
           return item;
@@ -201,6 +377,18 @@ export function CashierPageClient() {
 
   const clearCart = useCallback(() => {
     setCart([]);
+    setCustomer(null);
+    setRedeemPoints(0);
+  }, []);
+
+  const attachCustomer = useCallback((attached: AttachedCustomer) => {
+    setCustomer(attached);
+    setRedeemPoints(0);
+  }, []);
+
+  const detachCustomer = useCallback(() => {
+    setCustomer(null);
+    setRedeemPoints(0);
   }, []);
 
   // Apply item discount
@@ -209,25 +397,12 @@ export function CashierPageClient() {
       setCart((prevCart) =>
         prevCart.map((item) => {
           if (item.id === itemId) {
-            let discountAmount = 0;
-            let discountedPrice = item.price;
-
-            if (discountType && discountValue > 0) {
-              if (discountType === 'PERCENTAGE') {
-                discountAmount = Math.round((item.price * discountValue) / 100);
-              } else {
-                discountAmount = Math.min(discountValue, item.price);
-              }
-              discountedPrice = item.price - discountAmount;
-            }
-
             return {
               ...item,
-              discountType,
-              discountValue,
-              discountedPrice,
-              discountAmount,
-              subtotal: discountedPrice * item.quantity,
+              ...repriceItem(
+                { ...item, discountType, discountValue },
+                item.quantity
+              ),
             };
           }
           return item;
@@ -245,33 +420,188 @@ export function CashierPageClient() {
     []
   );
 
+  // Validate a voucher code and use its campaign rule as the transaction discount
+  const applyVoucherMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await axiosInstance.post("/api/vouchers/validate", { code });
+      return response.data.data;
+    },
+    onSuccess: (voucher) => {
+      setTransactionDiscount({
+        type: voucher.discountType,
+        value: voucher.discountValue,
+        voucherCode: voucher.code,
+        minPurchase: voucher.minPurchase,
+      });
+      toast.success(`Voucher ${voucher.code} dipakai`, {
+        description: voucher.campaignName,
+      });
+    },
+    onError: (error: any) => {
+      toast.error("Voucher tidak dapat dipakai", {
+        description: error.response?.data?.error || error.message,
+      });
+    },
+  });
+
   // Calculate totals with discounts
-  const cartCalculations = useMemo(() => {
-    const subtotal = cart.reduce((sum, item) => {
-      return sum + (item.discountedPrice || item.price) * item.quantity;
-    }, 0);
-
-    let transactionDiscountAmount = 0;
-    if (transactionDiscount.type && transactionDiscount.value > 0) {
-      if (transactionDiscount.type === 'PERCENTAGE') {
-        transactionDiscountAmount = Math.round((subtotal * transactionDiscount.value) / 100);
+  const pricing = useMemo(
+    () =>
+      priceCart(
+        cart.map((item) => ({ ...item, categoryId: item.categoryId ?? null })),
+        transactionDiscount,
+        {
+          promotions,
+          at: now,
+          redeemPoints: customer ? redeemPoints : 0,
+          tax: taxRule,
+          timeZone: storeSettings.timezone,
+        }
+      ),
+    [cart, transactionDiscount, promotions, now, customer, redeemPoints, taxRule, storeSettings.timezone]
+  );
+  const cartCalculations = pricing.totals;
+  const taxSummary = useMemo(
+    () => summarizeTaxes(taxRule, pricing.totals),
+    [taxRule, pricing.totals]
+  );
+
+  // Cart lines with the promotions that currently apply
+  const pricedCart = useMemo(
+    () =>
+      cart.map((item, index) => ({
+        ...item,
+        subtotal: pricing.lines[index].subtotal,
+        promotionDiscount: pricing.lines[index].promotionDiscount,
+        promotionNames: pricing.lines[index].promotionNames,
+      })),
+    [cart, pricing]
+  );
+
+  // Park (hold) the current cart on the server
+  const parkSaleMutation = useMutation({
+    mutationFn: async (label: string) => {
+      const response = await axiosInstance.post("/api/parked-sales", {
+        label,
+        items: cart,
+        discount: transactionDiscount,
+        totalAmount: cartCalculations.finalTotal,
+        terminalId: getTerminalId(),
+      });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast.success("Transaksi ditahan", {
+        description: data.data.label,
+      });
+      setCart([]);
+      setTransactionDiscount({ type: null, value: 0 });
+      setIsParkDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["parked-sales"] });
+    },
+    onError: (error: any) => {
+      toast.error("Gagal menahan transaksi", {
+        description: error.response?.data?.error || error.message,
+      });
+    },
+  });
+
+  // Resume a parked cart (server re-validates stock)
+  const resumeSaleMutation = useMutation({
+    mutationFn: async (parkedSale: ParkedSale) => {
+      const response = await axiosInstance.post(`/api/parked-sales/${parkedSale.id}/resume`, {
+        terminalId: getTerminalId(),
+      });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      const { label, items, discount, adjustments } = data.data;
+
+      setCart(items);
+      setTransactionDiscount(discount || { type: null, value: 0 });
+      setIsParkedListOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["parked-sales"] });
+
+      if (adjustments.length > 0) {
+        toast.warning("Sebagian item disesuaikan dengan stok", {
+          description: adjustments
+            .map((a: { name: string; available: number }) =>
+              a.available > 0 ? `${a.name}: tersisa ${a.available}` : `${a.name}: habis`
+            )
+            .join(", "),
+        });
       } else {
-        transactionDiscountAmount = Math.min(transactionDiscount.value, subtotal);
+        toast.success("Transaksi dilanjutkan", { description: label });
       }
-    }
+    },
+    onError: (error: any) => {
+      toast.error("Gagal melanjutkan transaksi", {
+        description: error.response?.data?.error || error.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["parked-sales"] });
+    },
+  });
 
-    const totalItemDiscounts = cart.reduce((sum, item) => sum + (item.discountAmount || 0), 0);
-    const totalDiscount = totalItemDiscounts + transactionDiscountAmount;
-    const finalTotal = subtotal - transactionDiscountAmount;
+  const deleteParkedSaleMutation = useMutation({
+    mutationFn: async (parkedSale: ParkedSale) => {
+      const response = await axiosInstance.delete(`/api/parked-sales/${parkedSale.id}`, {
+        params: { terminalId: getTerminalId() },
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success("Transaksi tertunda dihapus");
+      queryClient.invalidateQueries({ queryKey: ["parked-sales"] });
+    },
+    onError: (error: any) => {
+      toast.error("Gagal menghapus transaksi tertunda", {
+        description: error.response?.data?.error || error.message,
+      });
+    },
+  });
+
+  // Scan mode: look up the exact barcode and add the product to the cart
+  const handleScan = useCallback(
+    async (code: string) => {
+      try {
+        const response = await axiosInstance.get(
+          `/api/products/barcode/${encodeURIComponent(code)}`
+        );
+        addToCart(response.data.data);
+      } catch (error: any) {
+        // Offline: fall back to the local snapshot
+        const product = isNetworkError(error) ? await findSnapshotByBarcode(code) : null;
+        if (product) {
+          addToCart(product);
+          return;
+        }
+
+        toast.error("Barcode tidak ditemukan", {
+          description: error.response?.data?.details || code,
+        });
+      }
+    },
+    [addToCart]
+  );
 
-    return {
-      subtotal,
-      transactionDiscountAmount,
-      totalItemDiscounts,
-      totalDiscount,
-      finalTotal,
-    };
-  }, [cart, transactionDiscount]);
+  useBarcodeScanner({
+    enabled:
+      isScanMode &&
+      !!currentShift &&
+      !isPaymentDialogOpen &&
+      !isParkDialogOpen &&
+      !isParkedListOpen &&
+      !isCloseShiftOpen,
+    onScan: handleScan,
+  });
+
+  const toggleScanMode = () => {
+    if (!isScanMode && document.activeElement instanceof HTMLElement) {
+      // Keep scanner keystrokes out of whatever input had focus
+      document.activeElement.blur();
+    }
+    setIsScanMode(!isScanMode);
+  };
 
   const handleCheckout = () => {
     if (cart.length === 0) {
@@ -286,8 +616,28 @@ export function CashierPageClient() {
 
   const handlePaymentSuccess = () => {
     setCart([]);
+    setCustomer(null);
+    setRedeemPoints(0);
+    if (transactionDiscount.voucherCode) {
+      setTransactionDiscount({ type: null, value: 0 });
+    }
     queryClient.invalidateQueries({ queryKey: ["products"] });
     queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["shift"] });
+    if (offline.isOnline) {
+      offline.refreshSnapshot();
+    }
+  };
+
+  // Resolve a stock conflict by selling only what is still available
+  const handleAdjustOfflineSale = async (sale: QueuedSale) => {
+    const refund = await offline.adjustSale(sale.offlineId);
+    toast.warning("Transaksi disesuaikan dengan stok", {
+      description:
+        refund > 0
+          ? `Kembalikan ${formatCurrency(refund)} ke pelanggan`
+          : sale.provisionalInvoiceNo,
+    });
   };
 
   const totalAmount = cartCalculations.finalTotal;
@@ -301,78 +651,230 @@ export function CashierPageClient() {
           <h1 className="text-3xl font-bold">Kasir</h1>
           <p className="text-muted-foreground">Buat transaksi penjualan</p>
         </div>
-        {cart.length > 0 && (
-          <Badge variant="secondary" className="text-lg px-4 py-2">
-            <ShoppingCart className="w-4 h-4 mr-2" />
-            {totalItems} item
-          </Badge>
-        )}
-      </div>
-
-      <div className="grid gap-6 lg:grid-cols-3">
-        {/* Product Section */}
-        <div className="lg:col-span-2 space-y-4">
-          {/* Search */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Search className="w-5 h-5" />
-                Cari Produk
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Input
-                placeholder="Cari berdasarkan nama atau SKU..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                autoFocus
-              />
-            </CardContent>
-          </Card>
-
-          {/* Product List */}
-          <CashierProductList
-            products={productsWithAvailableStock}
-            isLoading={isLoading}
-            onAddToCart={addToCart}
-            cart={cart}
-          />
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsOfflineQueueOpen(true)}
+            className={offline.isOnline ? "" : "border-destructive text-destructive"}
+          >
+            {offline.isOnline ? (
+              <Wifi className="w-4 h-4 mr-2" />
+            ) : (
+              <WifiOff className="w-4 h-4 mr-2" />
+            )}
+            {offline.isOnline ? "Online" : "Offline"}
+            {offline.queuedSales.length > 0 && (
+              <Badge
+                variant={offline.conflictCount > 0 ? "destructive" : "secondary"}
+                className="ml-2"
+              >
+                {offline.queuedSales.length}
+              </Badge>
+            )}
+          </Button>
+          {currentShift && (
+            <Button variant="outline" onClick={() => setIsCloseShiftOpen(true)}>
+              <Lock className="w-4 h-4 mr-2" />
+              Tutup Shift ({format(new Date(currentShift.openedAt), "HH:mm")})
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setIsParkedListOpen(true)}>
+            <Clock className="w-4 h-4 mr-2" />
+            Transaksi Ditahan
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsPrinterSettingsOpen(true)}
+            title="Printer Thermal"
+          >
+            <Printer className="w-4 h-4" />
+          </Button>
+          {cart.length > 0 && (
+            <Badge variant="secondary" className="text-lg px-4 py-2">
+              <ShoppingCart className="w-4 h-4 mr-2" />
+              {totalItems} item
+            </Badge>
+          )}
         </div>
+      </div>
 
-        {/* Cart Section */}
-        <div className="lg:col-span-1">
-          <CashierCart
-            cart={cart}
-            totalAmount={totalAmount}
-            totalItems={totalItems}
-            subtotal={cartCalculations.subtotal}
-            transactionDiscount={transactionDiscount}
-            transactionDiscountAmount={cartCalculations.transactionDiscountAmount}
-            totalItemDiscounts={cartCalculations.totalItemDiscounts}
-            onUpdateQuantity={updateQuantity}
-            onRemove={removeFromCart}
-            onClear={clearCart}
-            onCheckout={handleCheckout}
-            isCheckingOut={createTransactionMutation.isPending}
-            onApplyItemDiscount={applyItemDiscount}
-            onApplyTransactionDiscount={applyTransactionDiscount}
-          />
+      {isShiftLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : !currentShift ? (
+        <OpenShiftCard
+          isOpening={openShiftMutation.isPending}
+          onOpen={(openingFloat) => openShiftMutation.mutate(openingFloat)}
+        />
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Product Section */}
+          <div className="lg:col-span-2 space-y-4">
+            {/* Search */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="w-5 h-5" />
+                  Cari Produk
+                </CardTitle>
+                <Button
+                  variant={isScanMode ? "default" : "outline"}
+                  size="sm"
+                  onClick={toggleScanMode}
+                >
+                  <ScanBarcode className="w-4 h-4 mr-2" />
+                  {isScanMode ? "Mode Scan Aktif" : "Mode Scan"}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Input
+                  placeholder={
+                    isScanMode
+                      ? "Mode scan aktif - arahkan scanner ke barcode produk"
+                      : "Cari berdasarkan nama, SKU, atau barcode..."
+                  }
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  readOnly={isScanMode}
+                  autoFocus
+                />
+              </CardContent>
+            </Card>
+
+            {/* Product List */}
+            <CashierProductList
+              products={productsWithAvailableStock}
+              isLoading={isLoading}
+              onAddToCart={addToCart}
+              cart={cart}
+            />
+          </div>
+
+          {/* Cart Section */}
+          <div className="lg:col-span-1 space-y-4">
+            <CustomerCard
+              customer={customer}
+              onAttach={attachCustomer}
+              onDetach={detachCustomer}
+              redeemPoints={redeemPoints}
+              pointsDiscount={cartCalculations.pointsDiscount}
+              onRedeemPointsChange={setRedeemPoints}
+              isOffline={!offline.isOnline}
+            />
+            <CashierCart
+              cart={pricedCart}
+              totalAmount={totalAmount}
+              totalItems={totalItems}
+              subtotal={cartCalculations.subtotal}
+              transactionDiscount={transactionDiscount}
+              transactionDiscountAmount={cartCalculations.transactionDiscountAmount}
+              totalItemDiscounts={cartCalculations.totalItemDiscounts}
+              itemPromotionDiscount={cartCalculations.itemPromotionDiscount}
+              cartPromotion={{
+                names: cartCalculations.cartPromotionNames,
+                amount: cartCalculations.cartPromotionDiscount,
+              }}
+              pointsRedemption={{
+                points: cartCalculations.pointsRedeemed,
+                amount: cartCalculations.pointsDiscount,
+              }}
+              taxes={taxSummary}
+              onUpdateQuantity={updateQuantity}
+              onRemove={removeFromCart}
+              onClear={clearCart}
+              onPark={() => setIsParkDialogOpen(true)}
+              onCheckout={handleCheckout}
+              isCheckingOut={createTransactionMutation.isPending}
+              onApplyItemDiscount={applyItemDiscount}
+              onApplyTransactionDiscount={applyTransactionDiscount}
+              onApplyVoucher={(code) => applyVoucherMutation.mutate(code)}
+              isApplyingVoucher={applyVoucherMutation.isPending}
+              isOffline={!offline.isOnline}
+            />
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Payment Dialog */}
       <PaymentDialog
         open={isPaymentDialogOpen}
         onOpenChange={setIsPaymentDialogOpen}
-        cart={cart}
+        cart={pricedCart}
         totalAmount={totalAmount}
         subtotal={cartCalculations.subtotal}
         transactionDiscount={{
           type: transactionDiscount.type,
           value: transactionDiscount.value,
           amount: cartCalculations.transactionDiscountAmount,
+          voucherCode: transactionDiscount.voucherCode,
+        }}
+        cartPromotion={{
+          names: cartCalculations.cartPromotionNames,
+          amount: cartCalculations.cartPromotionDiscount,
         }}
+        customer={customer}
+        pointsRedemption={{
+          points: cartCalculations.pointsRedeemed,
+          amount: cartCalculations.pointsDiscount,
+        }}
+        taxes={taxSummary}
         onSuccess={handlePaymentSuccess}
+        isOffline={!offline.isOnline}
+        onQueueOfflineSale={(sale) =>
+          offline.queueSale({ ...sale, shiftId: currentShift?.id ?? null })
+        }
+      />
+
+      {/* Park / Resume Dialogs */}
+      <ParkSaleDialog
+        open={isParkDialogOpen}
+        onOpenChange={setIsParkDialogOpen}
+        totalItems={totalItems}
+        totalAmount={totalAmount}
+        isSaving={parkSaleMutation.isPending}
+        onConfirm={(label) => parkSaleMutation.mutate(label)}
+      />
+
+      <ParkedSalesDialog
+        open={isParkedListOpen}
+        onOpenChange={setIsParkedListOpen}
+        canResume={cart.length === 0}
+        isBusy={resumeSaleMutation.isPending || deleteParkedSaleMutation.isPending}
+        onResume={(parkedSale) => resumeSaleMutation.mutate(parkedSale)}
+        onDelete={(parkedSale) => deleteParkedSaleMutation.mutate(parkedSale)}
+      />
+
+      {/* Offline Queue */}
+      <OfflineQueueDialog
+        open={isOfflineQueueOpen}
+        onOpenChange={setIsOfflineQueueOpen}
+        sales={offline.queuedSales}
+        isOnline={offline.isOnline}
+        isSyncing={offline.isSyncing}
+        onSync={offline.sync}
+        onAdjust={handleAdjustOfflineSale}
+        onRetry={(sale) => offline.retrySale(sale.offlineId)}
+        onDiscard={(sale) => offline.discardSale(sale.offlineId)}
+      />
+
+      {/* Shift Dialogs */}
+      <CloseShiftDialog
+        open={isCloseShiftOpen}
+        onOpenChange={setIsCloseShiftOpen}
+        summary={currentShift?.summary ?? null}
+        isClosing={closeShiftMutation.isPending}
+        onConfirm={(data) => closeShiftMutation.mutate(data)}
+      />
+
+      <ZReportDialog
+        open={!!zReport}
+        onOpenChange={(open) => !open && setZReport(null)}
+        report={zReport}
+      />
+
+      <PrinterSettingsDialog
+        open={isPrinterSettingsOpen}
+        onOpenChange={setIsPrinterSettingsOpen}
       />
     </div>
   );
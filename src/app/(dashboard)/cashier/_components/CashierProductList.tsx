@@ -7,6 +7,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Plus } from "lucide-react";
 import { Product, CartItem } from "./CashierPageClient";
 import { formatCurrency } from "@/lib/utils";
+import { getSellableQuantity } from "@/lib/stock";
 
 interface CashierProductListProps {
   products: Product[];
@@ -52,7 +53,7 @@ export function CashierProductList({
       {products.map((product) => {
         const cartItem = cart.find((item) => item.productId === product.id);
         const inCart = cartItem?.quantity || 0;
-        const dbStock = product.stock?.quantity ?? 0;
+        const dbStock = getSellableQuantity(product.stock);
         const availableStock = product.availableStock ?? 0;
         const isOutOfStock = !product.isActive || availableStock <= 0;
 
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Lock } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import type { ZReport } from "@/lib/shifts";
+
+interface CloseShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  summary: ZReport | null;
+  isClosing: boolean;
+  onConfirm: (data: { countedCash: number; note?: string }) => void;
+}
+
+export function CloseShiftDialog({
+  open,
+  onOpenChange,
+  summary,
+  isClosing,
+  onConfirm,
+}: CloseShiftDialogProps) {
+  const [countedCash, setCountedCash] = useState("");
+  const [note, setNote] = useState("");
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setCountedCash("");
+      setNote("");
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleConfirm = () => {
+    if (countedCash === "") return;
+    onConfirm({
+      countedCash: parseInt(countedCash) || 0,
+      note: note.trim() || undefined,
+    });
+  };
+
+  const variance =
+    summary && countedCash !== "" ? (parseInt(countedCash) || 0) - summary.expectedCash : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            Tutup Shift
+          </DialogTitle>
+          <DialogDescription>
+            Hitung uang tunai di laci kas lalu masukkan jumlahnya
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="bg-muted rounded-lg p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Modal Awal</span>
+              <span>{formatCurrency(summary.openingFloat)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Penjualan Tunai</span>
+              <span>{formatCurrency(summary.cashSales)}</span>
+            </div>
+            {summary.refunds.cash > 0 && (
+              <div className="flex justify-between text-destructive">
+                <span>Refund Tunai</span>
+                <span>-{formatCurrency(summary.refunds.cash)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-medium">
+              <span>Kas Seharusnya</span>
+              <span>{formatCurrency(summary.expectedCash)}</span>
+            </div>
+            {summary.pending.count > 0 && (
+              <p className="text-xs text-amber-600 pt-1">
+                {summary.pending.count} transaksi masih menunggu pembayaran
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="counted-cash">
+              Kas Dihitung (Rp) <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="counted-cash"
+              type="number"
+              min={0}
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+              autoFocus
+            />
+            {variance !== null && (
+              <p
+                className={`text-xs ${
+                  variance === 0 ? "text-green-600" : "text-destructive"
+                }`}
+              >
+                {variance === 0
+                  ? "Kas sesuai"
+                  : variance > 0
+                  ? `Lebih ${formatCurrency(variance)}`
+                  : `Kurang ${formatCurrency(Math.abs(variance))}`}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="closing-note">Catatan</Label>
+            <Textarea
+              id="closing-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isClosing}
+          >
+            Batal
+          </Button>
+          <Button onClick={handleConfirm} disabled={isClosing || countedCash === ""}>
+            {isClosing ? "Menutup..." : "Tutup Shift"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Contact, Search, UserPlus, X, Star } from "lucide-react";
+import { toast } from "sonner";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import { LOYALTY_POINT_VALUE } from "@/lib/loyalty";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RegisterCustomerDialog } from "./RegisterCustomerDialog";
+import type { AttachedCustomer } from "./CashierPageClient";
+
+interface CustomerCardProps {
+  customer: AttachedCustomer | null;
+  onAttach: (customer: AttachedCustomer) => void;
+  onDetach: () => void;
+  redeemPoints: number;
+  /** Points actually applied after capping at the cart total */
+  pointsDiscount: number;
+  onRedeemPointsChange: (points: number) => void;
+  /** Members are looked up on the server, so they need a connection */
+  isOffline: boolean;
+}
+
+export function CustomerCard({
+  customer,
+  onAttach,
+  onDetach,
+  redeemPoints,
+  pointsDiscount,
+  onRedeemPointsChange,
+  isOffline,
+}: CustomerCardProps) {
+  const [phone, setPhone] = useState("");
+  const [isRegisterOpen, setIsRegisterOpen] = useState(false);
+
+  const lookupMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await axiosInstance.get<{ data: AttachedCustomer }>(
+        "/api/customers/lookup",
+        { params: { phone: value } }
+      );
+      return response.data.data;
+    },
+    onSuccess: (found) => {
+      onAttach(found);
+      setPhone("");
+    },
+    onError: (error: any) => {
+      if (error.response?.status === 404) {
+        // Unknown number: offer to register it right away
+        setIsRegisterOpen(true);
+        return;
+      }
+      toast.error("Gagal mencari pelanggan", {
+        description: error.response?.data?.error || error.message,
+      });
+    },
+  });
+
+  const handleLookup = () => {
+    if (phone.trim()) {
+      lookupMutation.mutate(phone.trim());
+    }
+  };
+
+  const handleRedeemChange = (value: string) => {
+    const points = Math.max(0, Math.floor(Number(value) || 0));
+    onRedeemPointsChange(Math.min(points, customer?.pointsBalance ?? 0));
+  };
+
+  return (
+    <>
+      <Card>
+        <CardContent className="pt-6 space-y-3">
+          {customer ? (
+            <>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium flex items-center gap-2">
+                    <Contact className="w-4 h-4 shrink-0" />
+                    <span className="truncate">{customer.name}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {customer.phone} &middot; {customer.pointsBalance} poin
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onDetach}
+                  className="h-6 text-destructive hover:text-destructive"
+                >
+                  <X className="w-3 h-3 mr-1" />
+                  Lepas
+                </Button>
+              </div>
+
+              {customer.pointsBalance > 0 && (
+                <div className="space-y-1">
+                  <Label htmlFor="redeem-points" className="text-xs flex items-center gap-1">
+                    <Star className="w-3 h-3" />
+                    Tukar Poin (1 poin = {formatCurrency(LOYALTY_POINT_VALUE)})
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="redeem-points"
+                      type="number"
+                      min={0}
+                      max={customer.pointsBalance}
+                      value={redeemPoints || ""}
+                      placeholder="0"
+                      onChange={(e) => handleRedeemChange(e.target.value)}
+                      className="flex-1"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onRedeemPointsChange(customer.pointsBalance)}
+                      className="shrink-0"
+                    >
+                      Semua
+                    </Button>
+                  </div>
+                  {pointsDiscount > 0 && (
+                    <p className="text-xs text-green-600">
+                      Potongan {formatCurrency(pointsDiscount)}
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                type="tel"
+                placeholder={isOffline ? "Member tidak tersedia saat offline" : "No. HP member"}
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    handleLookup();
+                  }
+                }}
+                disabled={isOffline || lookupMutation.isPending}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                title="Cari member"
+                onClick={handleLookup}
+                disabled={isOffline || lookupMutation.isPending || !phone.trim()}
+              >
+                <Search className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                title="Daftar member baru"
+                onClick={() => setIsRegisterOpen(true)}
+                disabled={isOffline}
+              >
+                <UserPlus className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isRegisterOpen && (
+        <RegisterCustomerDialog
+          open={isRegisterOpen}
+          onOpenChange={setIsRegisterOpen}
+          initialPhone={phone.trim()}
+          onRegistered={(registered) => {
+            onAttach(registered);
+            setPhone("");
+          }}
+        />
+      )}
+    </>
+  );
+}
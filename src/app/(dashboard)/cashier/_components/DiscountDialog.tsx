@@ -14,6 +14,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Percent, DollarSign } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
+import { calculateUnitDiscount } from "@/lib/pricing";
 
 type DiscountType = "PERCENTAGE" | "NOMINAL" | null;
 
@@ -47,15 +48,10 @@ export function DiscountDialog({
     }
   }, [open, currentDiscount]);
 
-  const calculateDiscountAmount = (): number => {
-    const value = parseFloat(discountValue) || 0;
-    if (discountType === "PERCENTAGE") {
-      return Math.min(Math.round((itemPrice * value) / 100), itemPrice);
-    }
-    return Math.min(value, itemPrice);
-  };
-
-  const discountAmount = calculateDiscountAmount();
+  const discountAmount = calculateUnitDiscount(itemPrice, {
+    type: discountType,
+    value: parseFloat(discountValue) || 0,
+  });
   const finalPrice = itemPrice - discountAmount;
 
   const handleApply = () => {
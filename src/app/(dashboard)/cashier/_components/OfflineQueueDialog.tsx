@@ -0,0 +1,145 @@
+"use client";
+
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CloudUpload, RefreshCw, Trash2, Wrench } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import type { QueuedSale } from "@/lib/offline-db";
+
+interface OfflineQueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sales: QueuedSale[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onSync: () => void;
+  onAdjust: (sale: QueuedSale) => void;
+  onRetry: (sale: QueuedSale) => void;
+  onDiscard: (sale: QueuedSale) => void;
+}
+
+export function OfflineQueueDialog({
+  open,
+  onOpenChange,
+  sales,
+  isOnline,
+  isSyncing,
+  onSync,
+  onAdjust,
+  onRetry,
+  onDiscard,
+}: OfflineQueueDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CloudUpload className="w-5 h-5" />
+            Antrian Sinkronisasi
+          </DialogTitle>
+          <DialogDescription>
+            Transaksi tunai yang dibuat saat offline dan belum terkirim ke server
+          </DialogDescription>
+        </DialogHeader>
+
+        {sales.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            Semua transaksi sudah tersinkronisasi
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[400px]">
+            <div className="space-y-2">
+              {sales.map((sale) => (
+                <div key={sale.offlineId} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{sale.provisionalInvoiceNo}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(sale.soldAt), "dd MMM yyyy, HH:mm", { locale: id })}
+                        {" · "}
+                        {formatCurrency(sale.totalAmount)}
+                      </p>
+                    </div>
+                    <Badge
+                      variant={sale.status === "pending" ? "secondary" : "destructive"}
+                      className="shrink-0"
+                    >
+                      {sale.status === "pending"
+                        ? "Menunggu"
+                        : sale.status === "conflict"
+                        ? "Konflik Stok"
+                        : "Gagal"}
+                    </Badge>
+                  </div>
+
+                  {sale.status === "conflict" && sale.conflicts && (
+                    <ul className="text-xs text-destructive space-y-0.5">
+                      {sale.conflicts.map((conflict) => (
+                        <li key={conflict.productId}>
+                          {conflict.name}: dijual {conflict.requested}, tersedia {conflict.available}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {sale.status === "error" && sale.error && (
+                    <p className="text-xs text-destructive">{sale.error}</p>
+                  )}
+
+                  {sale.status !== "pending" && (
+                    <div className="flex gap-2 justify-end">
+                      {sale.status === "conflict" ? (
+                        <Button
+                          size="sm"
+                          onClick={() => onAdjust(sale)}
+                          disabled={!isOnline || isSyncing}
+                        >
+                          <Wrench className="w-4 h-4 mr-1" />
+                          Sesuaikan Stok
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() => onRetry(sale)}
+                          disabled={!isOnline || isSyncing}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          Coba Lagi
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDiscard(sale)}
+                        disabled={isSyncing}
+                        className="text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Hapus
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <Button onClick={onSync} disabled={!isOnline || isSyncing || sales.length === 0}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+          {isSyncing ? "Menyinkronkan..." : isOnline ? "Sinkronkan Sekarang" : "Offline"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LockOpen } from "lucide-react";
+
+interface OpenShiftCardProps {
+  isOpening: boolean;
+  onOpen: (openingFloat: number) => void;
+}
+
+export function OpenShiftCard({ isOpening, onOpen }: OpenShiftCardProps) {
+  const [openingFloat, setOpeningFloat] = useState("");
+
+  const handleOpen = () => {
+    const amount = parseInt(openingFloat) || 0;
+    if (amount < 0) return;
+    onOpen(amount);
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LockOpen className="w-5 h-5" />
+          Buka Shift
+        </CardTitle>
+        <CardDescription>
+          Belum ada shift aktif. Masukkan modal awal laci kas untuk mulai berjualan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="opening-float">Modal Awal (Rp)</Label>
+          <Input
+            id="opening-float"
+            type="number"
+            min={0}
+            placeholder="0"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleOpen();
+              }
+            }}
+            autoFocus
+          />
+        </div>
+        <Button className="w-full" onClick={handleOpen} disabled={isOpening}>
+          {isOpening ? "Membuka..." : "Buka Shift"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PauseCircle } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+
+interface ParkSaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  totalItems: number;
+  totalAmount: number;
+  isSaving: boolean;
+  onConfirm: (label: string) => void;
+}
+
+export function ParkSaleDialog({
+  open,
+  onOpenChange,
+  totalItems,
+  totalAmount,
+  isSaving,
+  onConfirm,
+}: ParkSaleDialogProps) {
+  const [label, setLabel] = useState("");
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setLabel("");
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleConfirm = () => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    onConfirm(trimmed);
+    setLabel("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PauseCircle className="w-5 h-5" />
+            Tahan Transaksi
+          </DialogTitle>
+          <DialogDescription>
+            {totalItems} item &middot; {formatCurrency(totalAmount)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="park-label">
+            Label <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="park-label"
+            placeholder="Contoh: Ibu baju merah"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleConfirm();
+              }
+            }}
+            maxLength={100}
+            autoFocus
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSaving}
+          >
+            Batal
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || !label.trim()}>
+            {isSaving ? "Menyimpan..." : "Simpan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
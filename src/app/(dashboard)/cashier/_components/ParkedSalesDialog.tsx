@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PlayCircle, Trash2, Clock } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import { getTerminalId } from "@/lib/terminal";
+
+export interface ParkedSale {
+  id: number;
+  label: string;
+  terminalId: string | null;
+  itemCount: number;
+  totalAmount: number;
+  createdAt: string;
+  cashier: {
+    id: string;
+    name: string | null;
+    username: string;
+  };
+}
+
+type ParkedScope = "cashier" | "terminal";
+
+interface ParkedSalesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canResume: boolean;
+  isBusy: boolean;
+  onResume: (parkedSale: ParkedSale) => void;
+  onDelete: (parkedSale: ParkedSale) => void;
+}
+
+export function ParkedSalesDialog({
+  open,
+  onOpenChange,
+  canResume,
+  isBusy,
+  onResume,
+  onDelete,
+}: ParkedSalesDialogProps) {
+  const [scope, setScope] = useState<ParkedScope>("cashier");
+
+  const { data: parkedSales = [], isLoading } = useQuery({
+    queryKey: ["parked-sales", scope],
+    enabled: open,
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: ParkedSale[] }>("/api/parked-sales", {
+        params: scope === "terminal" ? { terminalId: getTerminalId() } : {},
+      });
+      return response.data.data;
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Transaksi Ditahan
+          </DialogTitle>
+          <DialogDescription>
+            Lanjutkan keranjang yang disimpan sebelumnya
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={scope} onValueChange={(value) => setScope(value as ParkedScope)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="cashier" className="flex-1">
+              Kasir Saya
+            </TabsTrigger>
+            <TabsTrigger value="terminal" className="flex-1">
+              Terminal Ini
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {!canResume && (
+          <p className="text-xs text-amber-600">
+            Kosongkan atau tahan keranjang saat ini sebelum melanjutkan transaksi lain.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : parkedSales.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            Tidak ada transaksi yang ditahan
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="space-y-2">
+              {parkedSales.map((parkedSale) => (
+                <div
+                  key={parkedSale.id}
+                  className="flex items-center gap-3 rounded-lg border p-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{parkedSale.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {parkedSale.itemCount} item &middot; {formatCurrency(parkedSale.totalAmount)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(parkedSale.createdAt), "dd MMM yyyy, HH:mm", { locale: id })}
+                      {" · "}
+                      {parkedSale.cashier.name || parkedSale.cashier.username}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => onResume(parkedSale)}
+                    disabled={!canResume || isBusy}
+                  >
+                    <PlayCircle className="w-4 h-4 mr-1" />
+                    Lanjutkan
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDelete(parkedSale)}
+                    disabled={isBusy}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
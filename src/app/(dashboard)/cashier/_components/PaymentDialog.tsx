@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 
 // Extend Window interface for Midtrans Snap
 declare global {
@@ -26,13 +26,41 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, QrCode, Smartphone, Building2, Wallet } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, QrCode, Smartphone, Building2, Wallet, CreditCard, Plus, Trash2 } from "lucide-react";
 import axiosInstance from "@/lib/axios";
 import { toast } from "sonner";
 import { formatCurrency } from "@/lib/utils";
-import { useQuery } from "@tanstack/react-query";
-import { ReceiptDialog, CartItem, TransactionDiscount } from "./ReceiptDialog";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ReceiptDialog,
+  CartItem,
+  TransactionDiscount,
+  CartPromotion,
+  ReceiptPayment,
+  ReceiptMember,
+} from "./ReceiptDialog";
+import {
+  QrisPaymentDialog,
+  type DirectCharge,
+  type DirectChargeResult,
+} from "./QrisPaymentDialog";
+import type { TaxSummary } from "@/lib/tax";
+import { DEFAULT_PAYMENT_METHODS, type PaymentMethodConfig } from "@/lib/payment-methods";
+import type { AttachedCustomer } from "./CashierPageClient";
+import { calculatePointsEarned } from "@/lib/loyalty";
 import { useSession } from "next-auth/react";
+import { isNetworkError } from "@/hooks/use-offline-sync";
+import { useStoreSettings } from "@/providers/store-settings-provider";
 
 interface PaymentMethod {
   id: string;
@@ -42,36 +70,74 @@ interface PaymentMethod {
   description: string;
 }
 
-const PAYMENT_METHODS: PaymentMethod[] = [
-  {
-    id: "CASH",
-    name: "Tunai",
-    icon: <Wallet className="w-5 h-5" />,
-    method: "cash",
-    description: "Bayar langsung dengan uang tunai",
-  },
-  {
-    id: "MIDTRANS_QRIS",
-    name: "QRIS",
-    icon: <QrCode className="w-5 h-5" />,
-    method: "MIDTRANS_QRIS",
-    description: "Scan QRIS dengan GoPay, OVO, Dana, dll",
-  },
-  {
-    id: "MIDTRANS_EWALLET",
-    name: "E-Wallet",
-    icon: <Smartphone className="w-5 h-5" />,
-    method: "MIDTRANS_EWALLET",
-    description: "GoPay, ShopeePay, OVO, Dana, LinkAja",
-  },
-  {
-    id: "MIDTRANS_BANK_TRANSFER",
-    name: "Transfer Bank",
-    icon: <Building2 className="w-5 h-5" />,
-    method: "MIDTRANS_BANK_TRANSFER",
-    description: "BCA, Mandiri, BNI, BRI, dll",
-  },
-];
+// Icon per tender method; names, order and availability come from the catalog
+const METHOD_ICONS: Record<string, React.ReactNode> = {
+  CASH: <Wallet className="w-5 h-5" />,
+  MIDTRANS_QRIS: <QrCode className="w-5 h-5" />,
+  MIDTRANS_EWALLET: <Smartphone className="w-5 h-5" />,
+  MIDTRANS_BANK_TRANSFER: <Building2 className="w-5 h-5" />,
+  MIDTRANS_ALL: <CreditCard className="w-5 h-5" />,
+};
+
+function toPaymentMethod(config: PaymentMethodConfig): PaymentMethod {
+  return {
+    id: config.code,
+    name: config.name,
+    icon: METHOD_ICONS[config.code],
+    method: config.code === "CASH" ? "cash" : config.code,
+    description: config.description,
+  };
+}
+
+interface TenderLine {
+  methodId: string;
+  amount: string;
+}
+
+type SnapResult = "success" | "pending" | "error" | "closed" | "expired";
+
+// Open the Snap popup and wait for the customer to finish
+function paySnap(token: string): Promise<SnapResult> {
+  return new Promise((resolve) => {
+    if (!window.snap) {
+      resolve("error");
+      return;
+    }
+
+    window.snap.pay(token, {
+      onSuccess: () => resolve("success"),
+      onPending: () => resolve("pending"),
+      onError: () => resolve("error"),
+      onClose: () => resolve("closed"),
+    });
+  });
+}
+
+// Open the mock gateway's payment page and wait until the charge leaves pending
+// (the mock stand-in for the Snap popup callbacks)
+function payMock(redirectUrl: string, orderId: string): Promise<SnapResult> {
+  return new Promise((resolve) => {
+    const popup = window.open(redirectUrl, "mock-payment", "width=420,height=760");
+    if (!popup) {
+      resolve("error");
+      return;
+    }
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await axiosInstance.get(`/api/payment/mock/${encodeURIComponent(orderId)}`);
+        const status = response.data.data.transactionStatus;
+        if (status === "pending" && !popup.closed) return;
+
+        clearInterval(timer);
+        resolve(status === "settlement" ? "success" : status === "pending" ? "closed" : "error");
+      } catch {
+        clearInterval(timer);
+        resolve("error");
+      }
+    }, 2000);
+  });
+}
 
 interface PaymentDialogProps {
   open: boolean;
@@ -80,7 +146,21 @@ interface PaymentDialogProps {
   totalAmount: number;
   subtotal: number;
   transactionDiscount: TransactionDiscount;
+  /** Minimum-spend promotions applied to the cart */
+  cartPromotion: CartPromotion;
+  /** Member attached to the sale, if any */
+  customer: AttachedCustomer | null;
+  pointsRedemption: { points: number; amount: number };
+  taxes: TaxSummary;
   onSuccess: () => void;
+  isOffline: boolean;
+  /** Queue a cash sale locally and return its provisional invoice number */
+  onQueueOfflineSale: (sale: {
+    items: CartItem[];
+    totalAmount: number;
+    discount: TransactionDiscount | null;
+    idempotencyKey: string | null;
+  }) => Promise<string>;
 }
 
 export function PaymentDialog({
@@ -90,15 +170,58 @@ export function PaymentDialog({
   totalAmount,
   subtotal,
   transactionDiscount,
+  cartPromotion,
+  customer,
+  pointsRedemption,
+  taxes,
   onSuccess,
+  isOffline,
+  onQueueOfflineSale,
 }: PaymentDialogProps) {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const { data: session } = useSession();
-  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
+  const { settings: storeSettings } = useStoreSettings();
+  const { data: paymentMethodCatalog } = useQuery({
+    queryKey: ["payment-methods"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: PaymentMethodConfig[] }>(
+        "/api/payment-methods"
+      );
+      return response.data.data;
+    },
+  });
+  // Enabled methods in catalog order; the defaults cover a cashier that opened offline
+  const paymentMethods = useMemo(
+    () =>
+      (paymentMethodCatalog ?? DEFAULT_PAYMENT_METHODS)
+        .filter((m) => m.isEnabled)
+        .map(toPaymentMethod),
+    [paymentMethodCatalog]
+  );
+  const getMethodName = (methodId: string) =>
+    paymentMethods.find((m) => m.id === methodId)?.name || methodId;
+  // Store's default tender, preselected unless it needs a connection we don't have
+  const defaultMethod =
+    paymentMethods.find(
+      (m) => m.id === storeSettings.defaultPaymentMethod && (!isOffline || m.id === "CASH")
+    ) ?? null;
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(defaultMethod);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [lastInvoiceNo, setLastInvoiceNo] = useState("");
-  const [lastPaymentMethod, setLastPaymentMethod] = useState("");
+  // Saved sale behind the thermal and digital receipts (null for offline sales)
+  const [lastTransactionId, setLastTransactionId] = useState<number | null>(null);
+  const [lastReceiptToken, setLastReceiptToken] = useState<string | null>(null);
+  const [lastPayments, setLastPayments] = useState<ReceiptPayment[]>([]);
+  const [lastMember, setLastMember] = useState<ReceiptMember | null>(null);
+  const [lastTaxes, setLastTaxes] = useState<TaxSummary | null>(null);
+  const [isSplit, setIsSplit] = useState(false);
+  const [tenderLines, setTenderLines] = useState<TenderLine[]>([]);
+  // One key per checkout attempt so retries and double-clicks don't create duplicate sales
+  const idempotencyKeyRef = useRef<string | null>(null);
+  const [directCharge, setDirectCharge] = useState<DirectCharge | null>(null);
+  const directResolveRef = useRef<((result: DirectChargeResult) => void) | null>(null);
 
   // Get payment status periodically if midtrans token exists
   useQuery({
@@ -117,21 +240,127 @@ export function PaymentDialog({
   // Reset state when dialog opens/closes
   useEffect(() => {
     if (!open) {
-      setSelectedMethod(null);
+      setSelectedMethod(defaultMethod);
       setShowReceipt(false);
+      setIsSplit(false);
+      setTenderLines([]);
+      idempotencyKeyRef.current = null;
     }
-  }, [open]);
+  }, [open, defaultMethod]);
 
   const handlePaymentMethodSelect = (method: PaymentMethod) => {
+    idempotencyKeyRef.current = null;
     setSelectedMethod(method);
   };
 
+  const tenderTotal = tenderLines.reduce((sum, line) => sum + (parseInt(line.amount) || 0), 0);
+  const remainingAmount = totalAmount - tenderTotal;
+
+  const handleSplitToggle = (checked: boolean) => {
+    idempotencyKeyRef.current = null;
+    setIsSplit(checked);
+    setTenderLines(
+      checked
+        ? [
+            { methodId: "CASH", amount: "" },
+            {
+              methodId: paymentMethods.find((m) => m.id !== "CASH")?.id ?? "CASH",
+              amount: "",
+            },
+          ]
+        : []
+    );
+  };
+
+  const updateTenderLine = (index: number, changes: Partial<TenderLine>) => {
+    idempotencyKeyRef.current = null;
+    setTenderLines((lines) =>
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  const addTenderLine = () => {
+    idempotencyKeyRef.current = null;
+    setTenderLines((lines) => [
+      ...lines,
+      { methodId: "CASH", amount: remainingAmount > 0 ? String(remainingAmount) : "" },
+    ]);
+  };
+
+  const removeTenderLine = (index: number) => {
+    idempotencyKeyRef.current = null;
+    setTenderLines((lines) => lines.filter((_, i) => i !== index));
+  };
+
+  // Show the QR of a direct charge and wait until it is paid, expires or is dismissed
+  const payDirect = (charge: DirectCharge): Promise<DirectChargeResult> =>
+    new Promise((resolve) => {
+      directResolveRef.current = resolve;
+      setDirectCharge(charge);
+    });
+
+  const handleDirectResult = useCallback((result: DirectChargeResult) => {
+    setDirectCharge(null);
+    directResolveRef.current?.(result);
+    directResolveRef.current = null;
+  }, []);
+
   const handleProceedToPayment = async () => {
-    if (!selectedMethod) {
+    const tenders = isSplit
+      ? tenderLines.map((line) => ({
+          method: line.methodId,
+          amount: parseInt(line.amount) || 0,
+        }))
+      : selectedMethod
+      ? [{ method: selectedMethod.id, amount: totalAmount }]
+      : [];
+
+    if (tenders.length === 0) {
       toast.error("Pilih metode pembayaran terlebih dahulu");
       return;
     }
 
+    if (tenders.some((t) => t.amount <= 0)) {
+      toast.error("Nominal setiap pembayaran harus lebih dari 0");
+      return;
+    }
+
+    if (tenders.reduce((sum, t) => sum + t.amount, 0) !== totalAmount) {
+      toast.error("Total pembayaran harus sama dengan total transaksi");
+      return;
+    }
+
+    if (isOffline && transactionDiscount.voucherCode) {
+      toast.error("Sedang offline", {
+        description: "Hapus voucher untuk menyimpan transaksi offline",
+      });
+      return;
+    }
+
+    if (isOffline && customer) {
+      toast.error("Sedang offline", {
+        description: "Lepas member untuk menyimpan transaksi offline",
+      });
+      return;
+    }
+
+    if (isOffline && tenders.some((t) => t.method !== "CASH")) {
+      toast.error("Sedang offline", {
+        description: "Hanya pembayaran tunai yang bisa diproses tanpa koneksi",
+      });
+      return;
+    }
+
+    const receiptPayments = tenders.map((t) => ({
+      label: getMethodName(t.method),
+      amount: t.amount,
+    }));
+
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = crypto.randomUUID();
+    }
+    const idempotencyHeaders = { "Idempotency-Key": idempotencyKeyRef.current };
+
     setIsProcessing(true);
 
     try {
@@ -140,99 +369,223 @@ export function PaymentDialog({
             discount: {
               type: transactionDiscount.type,
               value: transactionDiscount.value,
-              amount: transactionDiscount.amount,
+              voucherCode: transactionDiscount.voucherCode || null,
             },
           }
         : {};
 
-      if (selectedMethod.id === "CASH") {
-        // For cash payment, create completed transaction directly
-        const response = await axiosInstance.post("/api/transactions", {
-          items: cart.map((item) => ({
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.price,
-            discountedPrice: item.discountedPrice,
-            discountAmount: item.discountAmount || 0,
-          })),
-          totalAmount,
-          ...discountPayload,
-        });
+      const customerPayload = customer
+        ? { customerId: customer.id, redeemPoints: pointsRedemption.points }
+        : {};
 
-        const transaction = response.data.data;
+      // The server prices the sale itself; only quantities and discount rules are sent
+      const items = cart.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        discountType: item.discountType || null,
+        discountValue: item.discountValue || 0,
+      }));
 
-        toast.success("Pembayaran tunai berhasil!", {
-          description: `Invoice: ${transaction.invoiceNo}`,
-        });
+      if (tenders.every((t) => t.method === "CASH")) {
+        let invoiceNo: string;
+        let transactionId: number | null = null;
+        let receiptToken: string | null = null;
+        let pointsEarned = 0;
 
-        setLastInvoiceNo(transaction.invoiceNo);
-        setLastPaymentMethod("Tunai");
+        try {
+          if (isOffline) {
+            throw new Error("offline");
+          }
+
+          // For cash payment, create completed transaction directly
+          const response = await axiosInstance.post("/api/transactions", {
+            items,
+            totalAmount,
+            payments: tenders,
+            ...discountPayload,
+            ...customerPayload,
+          }, { headers: idempotencyHeaders });
+
+          invoiceNo = response.data.data.invoiceNo;
+          transactionId = response.data.data.id;
+          receiptToken = response.data.data.receiptToken;
+          pointsEarned = response.data.data.pointsEarned ?? 0;
+
+          toast.success("Pembayaran tunai berhasil!", {
+            description: `Invoice: ${invoiceNo}`,
+          });
+        } catch (error) {
+          // Vouchers and points are redeemed by the server, so such sales cannot be queued
+          if (
+            (!isOffline && !isNetworkError(error)) ||
+            transactionDiscount.voucherCode ||
+            customer
+          ) {
+            throw error;
+          }
+
+          // No connection: queue the sale and sync it later. The request may still have
+          // reached the server, so the sync checks the same key before recording it again.
+          invoiceNo = await onQueueOfflineSale({
+            items: cart,
+            totalAmount,
+            discount: transactionDiscount.type ? transactionDiscount : null,
+            idempotencyKey: idempotencyKeyRef.current,
+          });
+
+          toast.success("Transaksi disimpan offline", {
+            description: `Invoice sementara: ${invoiceNo}. Akan disinkronkan saat online.`,
+          });
+        }
+
+        setLastInvoiceNo(invoiceNo);
+        setLastTransactionId(transactionId);
+        setLastReceiptToken(receiptToken);
+        setLastPayments(receiptPayments);
+        setLastMember(
+          customer
+            ? {
+                name: customer.name,
+                pointsRedeemed: pointsRedemption.points,
+                pointsDiscount: pointsRedemption.amount,
+                pointsEarned,
+              }
+            : null
+        );
+        setLastTaxes(taxes);
         setShowReceipt(true);
         onSuccess();
       } else {
         // For Midtrans payments, create pending transaction first
         const pendingResponse = await axiosInstance.post("/api/transactions/pending", {
-          items: cart.map((item) => ({
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.price,
-            discountedPrice: item.discountedPrice,
-            discountAmount: item.discountAmount || 0,
-          })),
+          items,
           totalAmount,
-          paymentMethod: selectedMethod.method,
+          paymentMethod: tenders.find((t) => t.method !== "CASH")!.method,
+          payments: tenders,
           ...discountPayload,
-        });
+          ...customerPayload,
+        }, { headers: idempotencyHeaders });
 
         const transaction = pendingResponse.data.data;
+        // A retried checkout returns the original sale, so skip tenders that were already paid
+        const gatewayPayments = transaction.payments.filter(
+          (p: { paymentType: string; paymentStatus: string }) =>
+            p.paymentType === "MIDTRANS" && p.paymentStatus === "pending"
+        );
 
-        // Then create Midtrans payment
-        const paymentResponse = await axiosInstance.post("/api/payment/create", {
-          transactionId: transaction.id,
-          paymentMethod: selectedMethod.method,
-          customerDetails: {
-            name: transaction.customerDetails.name,
-            email: transaction.customerDetails.email,
-          },
-        });
+        // The replayed sale failed or expired meanwhile: start over with a new sale
+        if (transaction.status === "CANCELED") {
+          idempotencyKeyRef.current = null;
+          toast.error("Pembayaran sebelumnya dibatalkan", {
+            description: "Pembayaran gagal atau kedaluwarsa, silakan ulangi pembayaran",
+          });
+          return;
+        }
 
-        const { token } = paymentResponse.data.data;
-
-        // Trigger Midtrans Snap popup
-        if (window.snap) {
-          window.snap.pay(token, {
-            onSuccess: () => {
-              toast.success("Pembayaran berhasil!");
-              setLastInvoiceNo(transaction.invoiceNo);
-              setLastPaymentMethod(selectedMethod.name);
-              setShowReceipt(true);
-              onSuccess();
-            },
-            onPending: () => {
-              toast.info("Menunggu pembayaran...", {
-                description: "Silakan selesaikan pembayaran Anda",
-              });
-              onOpenChange(false);
-              router.push("/cashier");
-            },
-            onError: () => {
-              toast.error("Pembayaran gagal", {
-                description: "Terjadi kesalahan saat pembayaran",
-              });
-            },
-            onClose: () => {
-              // User closed popup without paying
-              setIsProcessing(false);
+        // Nothing left to pay, but the payment is not confirmed yet
+        if (gatewayPayments.length === 0 && transaction.status !== "COMPLETED") {
+          toast.info("Menunggu konfirmasi pembayaran", {
+            description: `Invoice: ${transaction.invoiceNo}`,
+          });
+          return;
+        }
+
+        // Then pay each gateway tender, one popup at a time
+        for (const payment of gatewayPayments) {
+          const method = tenders[payment.sequence - 1].method;
+          const paymentResponse = await axiosInstance.post("/api/payment/create", {
+            transactionId: transaction.id,
+            paymentId: payment.id,
+            paymentMethod: method,
+            customerDetails: {
+              name: transaction.customerDetails.name,
+              email: transaction.customerDetails.email,
             },
           });
-        } else {
-          toast.error("Midtrans Snap tidak terload");
+
+          const charge = paymentResponse.data.data;
+
+          if (charge.flow === "popup" && charge.provider === "midtrans" && !window.snap) {
+            toast.error("Midtrans Snap tidak terload");
+            return;
+          }
+
+          const result = charge.flow === "direct"
+            ? await payDirect(charge)
+            : charge.provider === "mock"
+              ? await payMock(charge.redirectUrl, charge.orderId)
+              : await paySnap(charge.token);
+
+          if (result === "pending") {
+            toast.info("Menunggu pembayaran...", {
+              description: "Silakan selesaikan pembayaran Anda",
+            });
+            onOpenChange(false);
+            router.push("/cashier");
+            return;
+          }
+
+          // A failed or expired payment ends this sale, so a retry starts a new one
+          if (result === "error") {
+            idempotencyKeyRef.current = null;
+            toast.error("Pembayaran gagal", {
+              description: "Terjadi kesalahan saat pembayaran",
+            });
+            return;
+          }
+
+          if (result === "expired") {
+            idempotencyKeyRef.current = null;
+            toast.error("Waktu pembayaran habis", {
+              description: "Kode QR sudah kedaluwarsa, silakan ulangi pembayaran",
+            });
+            return;
+          }
+
+          if (result === "closed") {
+            // User closed popup without paying
+            return;
+          }
         }
+
+        toast.success("Pembayaran berhasil!");
+        setLastInvoiceNo(transaction.invoiceNo);
+        setLastTransactionId(transaction.id);
+        setLastReceiptToken(transaction.receiptToken);
+        setLastPayments(receiptPayments);
+        // Gateway sales earn their points once Midtrans confirms settlement
+        setLastMember(
+          customer
+            ? {
+                name: customer.name,
+                pointsRedeemed: pointsRedemption.points,
+                pointsDiscount: pointsRedemption.amount,
+                pointsEarned: calculatePointsEarned(totalAmount),
+              }
+            : null
+        );
+        setLastTaxes(taxes);
+        setShowReceipt(true);
+        onSuccess();
       }
     } catch (error: any) {
       console.error("Payment error:", error);
+      if (error.response?.status === 409 && error.response.data?.error === "Price mismatch") {
+        // Prices changed since the products were loaded
+        queryClient.invalidateQueries({ queryKey: ["products"] });
+        toast.error("Harga produk telah berubah", {
+          description: "Hapus lalu tambahkan ulang produk di keranjang untuk memakai harga terbaru.",
+        });
+        return;
+      }
+      // Rejected voucher, points or stock come with a readable reason in `details`
+      const data = error.response?.data;
+      if (data?.conflicts) {
+        // Another sale took the stock; refresh the quantities shown in the cashier
+        queryClient.invalidateQueries({ queryKey: ["products"] });
+      }
       toast.error("Gagal memproses pembayaran", {
-        description: error.response?.data?.error || error.message,
+        description: typeof data?.details === "string" ? data.details : data?.error || error.message,
       });
     } finally {
       setIsProcessing(false);
@@ -253,7 +606,12 @@ export function PaymentDialog({
           </DialogHeader>
 
           {/* Discount Summary */}
-          {(transactionDiscount?.amount > 0 || cart.some((i) => i.discountAmount && i.discountAmount > 0)) && (
+          {(transactionDiscount?.amount > 0 ||
+            cartPromotion.amount > 0 ||
+            pointsRedemption.amount > 0 ||
+            taxes.serviceChargeAmount > 0 ||
+            taxes.taxAmount > 0 ||
+            cart.some((i) => i.discountAmount && i.discountAmount > 0)) && (
             <div className="bg-muted rounded-lg p-3 space-y-1">
               <div className="flex justify-between text-sm">
                 <span>Subtotal</span>
@@ -270,10 +628,19 @@ export function PaymentDialog({
                   </span>
                 </div>
               )}
+              {cartPromotion.amount > 0 && (
+                <div className="flex justify-between text-sm text-destructive">
+                  <span>Promo ({cartPromotion.names.join(", ")})</span>
+                  <span>-{formatCurrency(cartPromotion.amount)}</span>
+                </div>
+              )}
               {transactionDiscount?.amount > 0 && (
                 <div className="flex justify-between text-sm text-destructive">
                   <span>
-                    Diskon Transaksi (
+                    {transactionDiscount.voucherCode
+                      ? `Voucher ${transactionDiscount.voucherCode}`
+                      : "Diskon Transaksi"}{" "}
+                    (
                     {transactionDiscount.type === "PERCENTAGE"
                       ? `${transactionDiscount.value}%`
                       : formatCurrency(transactionDiscount.value)}
@@ -282,45 +649,154 @@ export function PaymentDialog({
                   <span>-{formatCurrency(transactionDiscount.amount)}</span>
                 </div>
               )}
+              {pointsRedemption.amount > 0 && (
+                <div className="flex justify-between text-sm text-destructive">
+                  <span>Tukar Poin ({pointsRedemption.points})</span>
+                  <span>-{formatCurrency(pointsRedemption.amount)}</span>
+                </div>
+              )}
+              {taxes.serviceChargeAmount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span>Service Charge ({taxes.serviceChargeRate}%)</span>
+                  <span>{formatCurrency(taxes.serviceChargeAmount)}</span>
+                </div>
+              )}
+              {taxes.taxAmount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span>
+                    {taxes.taxName} {taxes.taxRate}%{taxes.taxInclusive ? " (termasuk)" : ""}
+                  </span>
+                  <span>{formatCurrency(taxes.taxAmount)}</span>
+                </div>
+              )}
             </div>
           )}
 
-          <div className="space-y-3 my-4">
-            {PAYMENT_METHODS.map((method) => (
-              <button
-                key={method.id}
-                onClick={() => handlePaymentMethodSelect(method)}
+          {customer && (
+            <p className="text-sm text-muted-foreground">
+              Member: <span className="font-medium text-foreground">{customer.name}</span> (
+              {customer.phone})
+            </p>
+          )}
+
+          {isOffline && (
+            <p className="text-xs text-amber-600">
+              Sedang offline - hanya pembayaran tunai yang tersedia
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="split-payment">Bayar dengan beberapa metode</Label>
+            <Switch
+              id="split-payment"
+              checked={isSplit}
+              onCheckedChange={handleSplitToggle}
+              disabled={isProcessing}
+            />
+          </div>
+
+          {isSplit ? (
+            <div className="space-y-3 my-4">
+              {tenderLines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={line.methodId}
+                    onValueChange={(value) => updateTenderLine(index, { methodId: value })}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map((method) => (
+                        <SelectItem
+                          key={method.id}
+                          value={method.id}
+                          disabled={isOffline && method.id !== "CASH"}
+                        >
+                          {method.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Nominal"
+                    value={line.amount}
+                    onChange={(e) => updateTenderLine(index, { amount: e.target.value })}
+                    disabled={isProcessing}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeTenderLine(index)}
+                    disabled={isProcessing || tenderLines.length <= 1}
+                    className="shrink-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={addTenderLine}
                 disabled={isProcessing}
-                className={`
-                  w-full flex items-center gap-4 p-4 rounded-lg border-2 transition-all
-                  ${selectedMethod?.id === method.id
-                    ? "border-primary bg-primary/5"
-                    : "border-border hover:border-primary/50 hover:bg-accent"
-                  }
-                  ${isProcessing ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}
-                `}
               >
-                <div className={`p-2 rounded-full ${
-                  selectedMethod?.id === method.id
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted"
-                }`}>
-                  {method.icon}
-                </div>
-                <div className="flex-1 text-left">
-                  <div className="font-medium">{method.name}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {method.description}
+                <Plus className="w-4 h-4 mr-1" />
+                Tambah Metode
+              </Button>
+
+              <div
+                className={`flex justify-between text-sm ${
+                  remainingAmount === 0 ? "text-green-600" : "text-destructive"
+                }`}
+              >
+                <span>{remainingAmount >= 0 ? "Sisa" : "Kelebihan"}</span>
+                <span>{formatCurrency(Math.abs(remainingAmount))}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3 my-4">
+              {paymentMethods.map((method) => (
+                <button
+                  key={method.id}
+                  onClick={() => handlePaymentMethodSelect(method)}
+                  disabled={isProcessing || (isOffline && method.id !== "CASH")}
+                  className={`
+                    w-full flex items-center gap-4 p-4 rounded-lg border-2 transition-all
+                    ${selectedMethod?.id === method.id
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:border-primary/50 hover:bg-accent"
+                    }
+                    ${isProcessing || (isOffline && method.id !== "CASH") ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}
+                  `}
+                >
+                  <div className={`p-2 rounded-full ${
+                    selectedMethod?.id === method.id
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted"
+                  }`}>
+                    {method.icon}
                   </div>
-                </div>
-                {selectedMethod?.id === method.id && (
-                  <Badge variant="default" className="shrink-0">
-                    Dipilih
-                  </Badge>
-                )}
-              </button>
-            ))}
-          </div>
+                  <div className="flex-1 text-left">
+                    <div className="font-medium">{method.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {method.description}
+                    </div>
+                  </div>
+                  {selectedMethod?.id === method.id && (
+                    <Badge variant="default" className="shrink-0">
+                      Dipilih
+                    </Badge>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
 
           <DialogFooter>
             <Button
@@ -332,7 +808,7 @@ export function PaymentDialog({
             </Button>
             <Button
               onClick={handleProceedToPayment}
-              disabled={!selectedMethod || isProcessing}
+              disabled={(isSplit ? remainingAmount !== 0 : !selectedMethod) || isProcessing}
             >
               {isProcessing ? (
                 <>
@@ -347,6 +823,9 @@ export function PaymentDialog({
         </DialogContent>
       </Dialog>
 
+      {/* QRIS / E-Wallet Dialog */}
+      <QrisPaymentDialog charge={directCharge} onResult={handleDirectResult} />
+
       {/* Receipt Dialog */}
       <ReceiptDialog
         open={showReceipt}
@@ -355,11 +834,16 @@ export function PaymentDialog({
           if (!open) onOpenChange(false);
         }}
         invoiceNo={lastInvoiceNo}
+        transactionId={lastTransactionId}
+        receiptToken={lastReceiptToken}
         items={cart}
         subtotal={subtotal}
         discount={transactionDiscount}
+        promotion={cartPromotion}
         total={totalAmount}
-        paymentMethod={lastPaymentMethod}
+        payments={lastPayments}
+        member={lastMember}
+        taxes={lastTaxes}
         cashierName={session?.user?.name || "Kasir"}
       />
     </>
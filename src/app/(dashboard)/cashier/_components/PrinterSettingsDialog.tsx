@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Printer, Usb } from "lucide-react";
+import { toast } from "sonner";
+import { renderDrawerKick, renderEscPosReceipt, type PaperWidth } from "@/lib/escpos";
+import {
+  getPrinterSettings,
+  getSupportedConnections,
+  pairPrinter,
+  savePrinterSettings,
+  sendToPrinter,
+  type PrinterConnection,
+  type PrinterSettings,
+} from "@/lib/printer";
+
+interface PrinterSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDeviceId(id?: number) {
+  return id === undefined ? "----" : id.toString(16).padStart(4, "0");
+}
+
+function PrinterSettingsForm({ onClose }: { onClose: () => void }) {
+  const [settings, setSettings] = useState<PrinterSettings>(getPrinterSettings);
+  const [isBusy, setIsBusy] = useState(false);
+  const supported = getSupportedConnections();
+
+  const update = (changes: Partial<PrinterSettings>) =>
+    setSettings((current) => ({ ...current, ...changes }));
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error("Printer gagal", { description: error?.message });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePair = () =>
+    run(async () => {
+      setSettings(await pairPrinter(settings));
+    });
+
+  const handleTestPrint = () =>
+    run(async () => {
+      const bytes = renderEscPosReceipt(
+        {
+          store: { name: "Tes Printer" },
+          invoiceNo: "TEST-0001",
+          date: new Date().toLocaleString("id-ID"),
+          cashierName: "-",
+          items: [{ name: "Contoh Produk", quantity: 2, unitPrice: 12500, adjustments: [] }],
+          subtotal: 25000,
+          adjustments: [],
+          total: 25000,
+          payments: [{ label: "Tunai", amount: 25000 }],
+          notes: [],
+          footer: [`Kertas ${settings.paperWidth}mm`],
+        },
+        { paperWidth: settings.paperWidth, code: settings.code }
+      );
+      await sendToPrinter(bytes, settings);
+      toast.success("Halaman tes dikirim ke printer");
+    });
+
+  const handleOpenDrawer = () =>
+    run(async () => {
+      await sendToPrinter(renderDrawerKick(), settings);
+    });
+
+  const handleSave = () => {
+    savePrinterSettings(settings);
+    toast.success("Pengaturan printer disimpan di terminal ini");
+    onClose();
+  };
+
+  const needsPairing = settings.connection === "usb" || settings.connection === "serial";
+  const canSend = settings.connection !== "none" && !isBusy;
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Koneksi</Label>
+          <Select
+            value={settings.connection}
+            onValueChange={(value) =>
+              update({
+                connection: value as PrinterConnection,
+                usbVendorId: undefined,
+                usbProductId: undefined,
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Tidak ada (cetak lewat browser)</SelectItem>
+              <SelectItem value="usb" disabled={!supported.usb}>
+                USB (WebUSB)
+              </SelectItem>
+              <SelectItem value="serial" disabled={!supported.serial}>
+                Serial / Bluetooth (Web Serial)
+              </SelectItem>
+              <SelectItem value="agent">Print Agent lokal</SelectItem>
+            </SelectContent>
+          </Select>
+          {(!supported.usb || !supported.serial) && (
+            <p className="text-xs text-muted-foreground">
+              WebUSB dan Web Serial hanya tersedia di Chrome/Edge
+            </p>
+          )}
+        </div>
+
+        {needsPairing && (
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <p className="text-sm font-medium">Perangkat</p>
+              <p className="text-xs text-muted-foreground font-mono">
+                {settings.usbVendorId === undefined
+                  ? "Belum dipasangkan"
+                  : `${formatDeviceId(settings.usbVendorId)}:${formatDeviceId(settings.usbProductId)}`}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handlePair} disabled={isBusy}>
+              <Usb className="w-4 h-4 mr-2" />
+              Pasangkan
+            </Button>
+          </div>
+        )}
+
+        {settings.connection === "agent" && (
+          <div className="space-y-2">
+            <Label>URL Print Agent</Label>
+            <Input
+              value={settings.agentUrl}
+              onChange={(e) => update({ agentUrl: e.target.value })}
+              placeholder="http://localhost:9100/print"
+            />
+            <p className="text-xs text-muted-foreground">
+              Byte ESC/POS dikirim dengan POST (application/octet-stream)
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Lebar Kertas</Label>
+            <Select
+              value={String(settings.paperWidth)}
+              onValueChange={(value) => update({ paperWidth: Number(value) as PaperWidth })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="58">58 mm</SelectItem>
+                <SelectItem value="80">80 mm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Kode Invoice</Label>
+            <Select
+              value={settings.code}
+              onValueChange={(value) => update({ code: value as PrinterSettings["code"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="qr">QR Code</SelectItem>
+                <SelectItem value="barcode">Barcode</SelectItem>
+                <SelectItem value="none">Tidak ada</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-row items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Buka Laci Kas</Label>
+            <p className="text-sm text-muted-foreground">
+              Setelah mencetak struk dengan pembayaran tunai
+            </p>
+          </div>
+          <Switch
+            checked={settings.openDrawer}
+            onCheckedChange={(checked) => update({ openDrawer: checked })}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={handleTestPrint} disabled={!canSend}>
+            <Printer className="w-4 h-4 mr-2" />
+            Tes Cetak
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={handleOpenDrawer} disabled={!canSend}>
+            Tes Laci Kas
+          </Button>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Batal
+        </Button>
+        <Button onClick={handleSave}>Simpan</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function PrinterSettingsDialog({ open, onOpenChange }: PrinterSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="w-5 h-5" />
+            Printer Thermal
+          </DialogTitle>
+          <DialogDescription>
+            Disimpan per terminal. Tanpa printer, struk dicetak lewat dialog cetak browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Remounted on every open so it starts from the saved settings */}
+        {open && <PrinterSettingsForm onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
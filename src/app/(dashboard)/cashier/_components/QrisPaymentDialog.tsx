@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle2, Clock, ExternalLink, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { QrCode } from "@/components/qr/QrCode";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+
+export interface DirectCharge {
+  orderId: string;
+  provider: string;
+  amount: number;
+  qrString: string | null;
+  deeplink: string | null;
+  expiresAt: string;
+}
+
+export type DirectChargeResult = "success" | "expired" | "error" | "closed";
+
+interface QrisPaymentDialogProps {
+  charge: DirectCharge | null;
+  onResult: (result: DirectChargeResult) => void;
+}
+
+interface ChargeStatus {
+  paymentStatus: "PENDING" | "PAID" | "FAILED" | "EXPIRED";
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * QR code (or app link) of a direct QRIS/e-wallet charge, shown to the customer on the
+ * cashier screen until the payment is settled or expires
+ */
+export function QrisPaymentDialog({ charge, onResult }: QrisPaymentDialogProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const resolvedRef = useRef(false);
+
+  const remaining = charge ? new Date(charge.expiresAt).getTime() - now : 0;
+  const isExpired = !!charge && remaining <= 0;
+
+  // Webhooks update the payment here; after expiry ask the gateway directly
+  // in case a notification was missed
+  const { data: status } = useQuery({
+    queryKey: ["direct-charge", charge?.orderId, isExpired],
+    queryFn: async () => {
+      const path = isExpired ? "status" : "charge";
+      const response = await axiosInstance.get<{ data: ChargeStatus }>(
+        `/api/payment/${path}/${encodeURIComponent(charge!.orderId)}`
+      );
+      return response.data.data;
+    },
+    enabled: !!charge,
+    refetchInterval: isExpired ? 5000 : 2000,
+  });
+
+  useEffect(() => {
+    resolvedRef.current = false;
+    if (!charge) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [charge]);
+
+  const paymentStatus = status?.paymentStatus;
+
+  useEffect(() => {
+    if (!paymentStatus || paymentStatus === "PENDING" || resolvedRef.current) return;
+
+    resolvedRef.current = true;
+    if (paymentStatus === "PAID") {
+      // Leave the confirmation on screen for a moment
+      setTimeout(() => onResult("success"), 1000);
+    } else {
+      onResult(paymentStatus === "EXPIRED" ? "expired" : "error");
+    }
+  }, [paymentStatus, onResult]);
+
+  const close = () => {
+    if (resolvedRef.current) return;
+    resolvedRef.current = true;
+    onResult("closed");
+  };
+
+  const isPaid = paymentStatus === "PAID";
+
+  return (
+    <Dialog open={!!charge} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {charge?.qrString ? "Scan QRIS" : "Bayar dengan E-Wallet"}
+          </DialogTitle>
+          <DialogDescription>
+            {charge?.qrString
+              ? "Minta pelanggan memindai kode QR dengan aplikasi pembayarannya"
+              : "Pindai kode ini atau buka tautan di perangkat pelanggan"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {charge && (
+          <div className="space-y-4">
+            <div className="text-center space-y-1">
+              <p className="text-3xl font-bold">{formatCurrency(charge.amount)}</p>
+              <p className="text-xs text-muted-foreground font-mono">{charge.orderId}</p>
+            </div>
+
+            {isPaid ? (
+              <div className="flex flex-col items-center gap-2 py-8">
+                <CheckCircle2 className="h-12 w-12 text-green-600" />
+                <p className="font-medium">Pembayaran diterima</p>
+              </div>
+            ) : (
+              (charge.qrString || charge.deeplink) && (
+                <div className={`flex justify-center ${isExpired ? "opacity-30" : ""}`}>
+                  <QrCode value={(charge.qrString || charge.deeplink)!} size={220} />
+                </div>
+              )
+            )}
+
+            {!isPaid && (
+              <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                {isExpired ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Waktu habis, memastikan status ke gateway...
+                  </>
+                ) : (
+                  <>
+                    <Clock className="h-4 w-4" />
+                    Kedaluwarsa dalam {formatCountdown(remaining)}
+                  </>
+                )}
+              </p>
+            )}
+
+            {!isPaid && !isExpired && (
+              <div className="flex flex-col items-center gap-1">
+                {charge.deeplink && (
+                  <Button variant="link" size="sm" asChild>
+                    <a href={charge.deeplink} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="mr-1 h-3 w-3" />
+                      Buka aplikasi
+                    </a>
+                  </Button>
+                )}
+                {charge.provider === "mock" && (
+                  <Button variant="link" size="sm" asChild>
+                    <a
+                      href={`/mock-payment/${encodeURIComponent(charge.orderId)}`}
+                      target="mock-payment"
+                    >
+                      <ExternalLink className="mr-1 h-3 w-3" />
+                      Buka simulator
+                    </a>
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={isPaid}>
+            Batal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,10 +10,15 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Printer, X } from "lucide-react";
-import { format } from "date-fns";
-import { id } from "date-fns/locale";
+import { Printer, ReceiptText, X } from "lucide-react";
+import { toast } from "sonner";
 import { formatCurrency } from "@/lib/utils";
+import type { TaxSummary } from "@/lib/tax";
+import { getPrinterSettings, printTransactionReceipt } from "@/lib/printer";
+import { getDigitalReceiptUrl } from "@/lib/digital-receipt";
+import { QrCode } from "@/components/qr/QrCode";
+import { formatStoreDateTime, toReceiptLines } from "@/lib/store";
+import { useStoreSettings } from "@/providers/store-settings-provider";
 
 export interface CartItem {
   id: number;
@@ -27,50 +32,73 @@ export interface CartItem {
   discountValue?: number;
   discountedPrice?: number;
   discountAmount?: number;
+  promotionDiscount?: number;
+  promotionNames?: string[];
 }
 
 export interface TransactionDiscount {
   type: "PERCENTAGE" | "NOMINAL" | null;
   value: number;
   amount: number;
+  voucherCode?: string | null;
+}
+
+export interface CartPromotion {
+  names: string[];
+  amount: number;
+}
+
+export interface ReceiptPayment {
+  label: string;
+  amount: number;
+}
+
+export interface ReceiptMember {
+  name: string;
+  pointsRedeemed: number;
+  pointsDiscount: number;
+  pointsEarned: number;
 }
 
 interface ReceiptDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   invoiceNo: string;
+  /** Saved sale, printed as ESC/POS when the terminal has a thermal printer */
+  transactionId?: number | null;
+  /** Links the QR code to the digital receipt */
+  receiptToken?: string | null;
   items: CartItem[];
   subtotal: number;
   discount: TransactionDiscount;
+  promotion?: CartPromotion;
   total: number;
-  paymentMethod: string;
+  payments: ReceiptPayment[];
+  member?: ReceiptMember | null;
+  taxes?: TaxSummary | null;
   cashierName: string;
   autoPrint?: boolean;
-  storeInfo?: {
-    name: string;
-    address: string;
-    phone: string;
-  };
 }
 
 export function ReceiptDialog({
   open,
   onOpenChange,
   invoiceNo,
+  transactionId,
+  receiptToken,
   items,
   subtotal,
   discount,
+  promotion,
   total,
-  paymentMethod,
+  payments,
+  member,
+  taxes,
   cashierName,
   autoPrint = true,
-  storeInfo = {
-    name: "POS System",
-    address: "Jalan Contoh No. 123",
-    phone: "(021) 1234-5678",
-  },
 }: ReceiptDialogProps) {
   const receiptRef = useRef<HTMLDivElement>(null);
+  const { settings: store } = useStoreSettings();
 
   const handlePrint = useCallback(() => {
     if (receiptRef.current) {
@@ -105,6 +133,11 @@ export function ReceiptDialog({
                 font-size: 16px;
                 margin-bottom: 5px;
               }
+              .receipt-logo {
+                display: block;
+                max-height: 48px;
+                margin: 0 auto 5px;
+              }
               .receipt-header p {
                 font-size: 11px;
                 margin: 2px 0;
@@ -151,6 +184,11 @@ export function ReceiptDialog({
                 font-size: 11px;
                 margin: 2px 0;
               }
+              .receipt-qr {
+                text-align: center;
+                margin-top: 10px;
+                font-size: 11px;
+              }
               @media print {
                 body {
                   width: 80mm;
@@ -172,16 +210,42 @@ export function ReceiptDialog({
     }
   }, [invoiceNo]);
 
+  // Offline sales have no saved transaction to render, so they always use the HTML receipt
+  const canPrintThermal = !!transactionId && getPrinterSettings().connection !== "none";
+
+  /**
+   * Print on the thermal printer, falling back to the browser print on failure
+   */
+  const handleThermalPrint = useCallback(
+    async (openDrawer: boolean) => {
+      try {
+        await printTransactionReceipt(transactionId!, { openDrawer });
+      } catch (error: any) {
+        console.error("Thermal print error:", error);
+        toast.error("Gagal mencetak ke printer thermal", {
+          description: "Struk dicetak lewat browser",
+        });
+        handlePrint();
+      }
+    },
+    [transactionId, handlePrint]
+  );
+
   // Auto print when dialog opens
   useEffect(() => {
     if (open && autoPrint) {
       // Small delay to ensure content is rendered
       const timer = setTimeout(() => {
-        handlePrint();
+        if (canPrintThermal) {
+          // Only the first print of a sale opens the cash drawer
+          handleThermalPrint(true);
+        } else {
+          handlePrint();
+        }
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [open, autoPrint, handlePrint]);
+  }, [open, autoPrint, canPrintThermal, handleThermalPrint, handlePrint]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -194,10 +258,21 @@ export function ReceiptDialog({
         {/* Receipt Content */}
         <div ref={receiptRef} className="bg-white p-4 font-mono text-sm">
           {/* Store Header */}
-          <div className="text-center mb-4">
-            <h2 className="text-lg font-bold">{storeInfo.name}</h2>
-            <p className="text-xs">{storeInfo.address}</p>
-            <p className="text-xs">{storeInfo.phone}</p>
+          <div className="receipt-header text-center mb-4">
+            {store.logo && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={store.logo}
+                alt={store.storeName}
+                className="receipt-logo mx-auto mb-2 max-h-12 object-contain"
+              />
+            )}
+            <h2 className="text-lg font-bold">{store.storeName}</h2>
+            {store.address && <p className="text-xs">{store.address}</p>}
+            {store.phone && <p className="text-xs">{store.phone}</p>}
+            {toReceiptLines(store.receiptHeader).map((line, index) => (
+              <p key={index} className="text-xs">{line}</p>
+            ))}
           </div>
 
           <Separator className="my-2" />
@@ -210,12 +285,18 @@ export function ReceiptDialog({
             </div>
             <div className="flex justify-between">
               <span>Tanggal:</span>
-              <span>{format(new Date(), "dd/MM/yyyy HH:mm", { locale: id })}</span>
+              <span>{formatStoreDateTime(new Date(), store.timezone)}</span>
             </div>
             <div className="flex justify-between">
               <span>Kasir:</span>
               <span>{cashierName}</span>
             </div>
+            {member && (
+              <div className="flex justify-between">
+                <span>Member:</span>
+                <span>{member.name}</span>
+              </div>
+            )}
           </div>
 
           <Separator className="my-2" />
@@ -238,6 +319,12 @@ export function ReceiptDialog({
                     </span>
                   )}
                 </div>
+                {item.promotionDiscount && item.promotionDiscount > 0 && (
+                  <div className="text-xs flex justify-between text-destructive">
+                    <span>{item.promotionNames?.join(", ")}</span>
+                    <span>-{formatCurrency(item.promotionDiscount)}</span>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -264,16 +351,46 @@ export function ReceiptDialog({
               </div>
             )}
 
+            {/* Cart Promotions */}
+            {promotion && promotion.amount > 0 && (
+              <div className="flex justify-between text-xs text-destructive">
+                <span>Promo ({promotion.names.join(", ")}):</span>
+                <span>-{formatCurrency(promotion.amount)}</span>
+              </div>
+            )}
+
             {/* Transaction Discount */}
             {discount && discount.amount > 0 && (
               <div className="flex justify-between text-xs text-destructive">
                 <span>
-                  Diskon Transaksi ({discount.type === "PERCENTAGE" ? `${discount.value}%` : formatCurrency(discount.value)}):
+                  {discount.voucherCode ? `Voucher ${discount.voucherCode}` : "Diskon Transaksi"} ({discount.type === "PERCENTAGE" ? `${discount.value}%` : formatCurrency(discount.value)}):
                 </span>
                 <span>-{formatCurrency(discount.amount)}</span>
               </div>
             )}
 
+            {/* Loyalty Points */}
+            {member && member.pointsDiscount > 0 && (
+              <div className="flex justify-between text-xs text-destructive">
+                <span>Tukar Poin ({member.pointsRedeemed}):</span>
+                <span>-{formatCurrency(member.pointsDiscount)}</span>
+              </div>
+            )}
+
+            {/* Service Charge and Tax */}
+            {taxes && taxes.serviceChargeAmount > 0 && (
+              <div className="flex justify-between text-xs">
+                <span>Service Charge ({taxes.serviceChargeRate}%):</span>
+                <span>{formatCurrency(taxes.serviceChargeAmount)}</span>
+              </div>
+            )}
+            {taxes && taxes.taxAmount > 0 && !taxes.taxInclusive && (
+              <div className="flex justify-between text-xs">
+                <span>{taxes.taxName} {taxes.taxRate}%:</span>
+                <span>{formatCurrency(taxes.taxAmount)}</span>
+              </div>
+            )}
+
             <Separator className="my-2" />
 
             <div className="flex justify-between font-bold text-base">
@@ -281,19 +398,58 @@ export function ReceiptDialog({
               <span>{formatCurrency(total)}</span>
             </div>
 
+            {payments.length === 1 ? (
+              <div className="flex justify-between text-xs mt-2">
+                <span>Metode Pembayaran:</span>
+                <span>{payments[0].label}</span>
+              </div>
+            ) : (
+              <div className="space-y-1 mt-2">
+                <p className="text-xs">Pembayaran:</p>
+                {payments.map((payment, index) => (
+                  <div key={index} className="flex justify-between text-xs">
+                    <span>{payment.label}</span>
+                    <span>{formatCurrency(payment.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Tax already included in the prices */}
+          {taxes && taxes.taxAmount > 0 && taxes.taxInclusive && (
             <div className="flex justify-between text-xs mt-2">
-              <span>Metode Pembayaran:</span>
-              <span>{paymentMethod}</span>
+              <span>Termasuk {taxes.taxName} {taxes.taxRate}%:</span>
+              <span>{formatCurrency(taxes.taxAmount)}</span>
             </div>
-          </div>
+          )}
+
+          {member && member.pointsEarned > 0 && (
+            <>
+              <Separator className="my-2" />
+              <div className="flex justify-between text-xs">
+                <span>Poin Didapat:</span>
+                <span>+{member.pointsEarned}</span>
+              </div>
+            </>
+          )}
 
           <Separator className="my-2" />
 
           {/* Footer */}
           <div className="text-center mt-4 text-xs">
-            <p>Terima kasih atas kunjungan Anda!</p>
-            <p>Barang yang sudah dibeli tidak dapat ditukar</p>
+            {toReceiptLines(store.receiptFooter).map((line, index) => (
+              <p key={index}>{line}</p>
+            ))}
           </div>
+
+          {/* Digital receipt */}
+          {receiptToken && (
+            <div className="receipt-qr flex flex-col items-center mt-3 text-xs">
+              <QrCode value={getDigitalReceiptUrl(receiptToken)} size={96} />
+              <p>Pindai untuk struk digital</p>
+            </div>
+          )}
         </div>
 
         {/* Actions - Hidden when printing */}
@@ -302,6 +458,12 @@ export function ReceiptDialog({
             <X className="w-4 h-4 mr-2" />
             Tutup
           </Button>
+          {canPrintThermal && (
+            <Button variant="outline" className="flex-1" onClick={() => handleThermalPrint(false)}>
+              <ReceiptText className="w-4 h-4 mr-2" />
+              Thermal
+            </Button>
+          )}
           <Button className="flex-1" onClick={handlePrint}>
             <Printer className="w-4 h-4 mr-2" />
             Cetak
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { UserPlus } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { AttachedCustomer } from "./CashierPageClient";
+
+interface RegisterCustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Phone number the cashier searched for, prefilled in the form */
+  initialPhone: string;
+  onRegistered: (customer: AttachedCustomer) => void;
+}
+
+/**
+ * Quick member registration at the till (name and phone only)
+ * Mounted only while open so the form starts from the searched number.
+ */
+export function RegisterCustomerDialog({
+  open,
+  onOpenChange,
+  initialPhone,
+  onRegistered,
+}: RegisterCustomerDialogProps) {
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState(initialPhone);
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axiosInstance.post<{ data: AttachedCustomer }>("/api/customers", {
+        name: name.trim(),
+        phone: phone.trim(),
+      });
+      return response.data.data;
+    },
+    onSuccess: (customer) => {
+      toast.success("Member terdaftar", { description: customer.name });
+      onRegistered(customer);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal mendaftarkan member", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const canSubmit = !!name.trim() && !!phone.trim() && !registerMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPlus className="w-5 h-5" />
+            Daftar Member
+          </DialogTitle>
+          <DialogDescription>
+            {initialPhone
+              ? `Nomor ${initialPhone} belum terdaftar`
+              : "Daftarkan pelanggan untuk mengumpulkan poin"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="register-name">
+              Nama <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="register-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="register-phone">
+              Nomor HP <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="register-phone"
+              type="tel"
+              placeholder="0812xxxxxxx"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && canSubmit) {
+                  registerMutation.mutate();
+                }
+              }}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={registerMutation.isPending}
+          >
+            Batal
+          </Button>
+          <Button onClick={() => registerMutation.mutate()} disabled={!canSubmit}>
+            {registerMutation.isPending ? "Menyimpan..." : "Daftar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
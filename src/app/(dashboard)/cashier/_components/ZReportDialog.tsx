@@ -0,0 +1,137 @@
+"use client";
+
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { FileText, Printer } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import type { ZReport } from "@/lib/shifts";
+
+interface ZReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: ZReport | null;
+}
+
+function Row({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className={`flex justify-between text-sm ${className || ""}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+export function ZReportDialog({ open, onOpenChange, report }: ZReportDialogProps) {
+  if (!report) return null;
+
+  const variance = report.variance ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md print:max-w-none print:w-full print:max-h-none print:rounded-none print:border-none">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Laporan Z - Shift #{report.shiftId}
+          </DialogTitle>
+          <DialogDescription>
+            {report.cashierName} &middot;{" "}
+            {format(new Date(report.openedAt), "dd MMM yyyy, HH:mm", { locale: id })}
+            {report.closedAt &&
+              ` - ${format(new Date(report.closedAt), "dd MMM yyyy, HH:mm", { locale: id })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Sales */}
+          <div className="space-y-1">
+            <h4 className="font-medium text-sm">Penjualan</h4>
+            <Row label="Jumlah Transaksi" value={String(report.transactionCount)} />
+            <Row label="Total Penjualan" value={formatCurrency(report.totalSales)} />
+            {report.salesByPaymentType.map((entry) => (
+              <Row
+                key={entry.paymentType}
+                label={`${entry.paymentType === "CASH" ? "Tunai" : entry.paymentType} (${entry.count})`}
+                value={formatCurrency(entry.amount)}
+                className="text-muted-foreground"
+              />
+            ))}
+          </div>
+
+          <Separator />
+
+          {/* Discounts & Cancellations */}
+          <div className="space-y-1">
+            <Row label="Diskon Item" value={formatCurrency(report.discounts.item)} />
+            <Row label="Diskon Transaksi" value={formatCurrency(report.discounts.transaction)} />
+            <Row label="Promo" value={formatCurrency(report.discounts.promotion ?? 0)} />
+            <Row label="Tukar Poin" value={formatCurrency(report.discounts.points ?? 0)} />
+            <Row
+              label={`Pembatalan (${report.cancellations.count})`}
+              value={formatCurrency(report.cancellations.amount)}
+            />
+            {report.refunds?.storeCredit > 0 && (
+              <Row
+                label="Retur (Kredit Toko)"
+                value={formatCurrency(report.refunds.storeCredit)}
+              />
+            )}
+            {report.pending.count > 0 && (
+              <Row
+                label={`Menunggu Pembayaran (${report.pending.count})`}
+                value={formatCurrency(report.pending.amount)}
+                className="text-amber-600"
+              />
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Cash Drawer */}
+          <div className="space-y-1">
+            <h4 className="font-medium text-sm">Laci Kas</h4>
+            <Row label="Modal Awal" value={formatCurrency(report.openingFloat)} />
+            <Row label="Penjualan Tunai" value={formatCurrency(report.cashSales)} />
+            {report.refunds?.cash > 0 && (
+              <Row
+                label="Refund Tunai"
+                value={`-${formatCurrency(report.refunds.cash)}`}
+                className="text-destructive"
+              />
+            )}
+            <Row label="Kas Seharusnya" value={formatCurrency(report.expectedCash)} />
+            <Row
+              label="Kas Dihitung"
+              value={report.countedCash !== null ? formatCurrency(report.countedCash) : "-"}
+            />
+            <Row
+              label={variance === 0 ? "Selisih" : variance > 0 ? "Selisih (Lebih)" : "Selisih (Kurang)"}
+              value={formatCurrency(variance)}
+              className={`font-bold ${variance === 0 ? "text-green-600" : "text-destructive"}`}
+            />
+          </div>
+
+          {/* Actions - Hidden when printing */}
+          <div className="flex gap-2 pt-4 print:hidden">
+            <Button variant="outline" className="flex-1" onClick={() => window.print()}>
+              <Printer className="w-4 h-4 mr-2" />
+              Cetak
+            </Button>
+            <Button className="flex-1" onClick={() => onOpenChange(false)}>
+              Tutup
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Contact, Loader2 } from "lucide-react";
+import { DataTable } from "@/components/scm-ui/Datatable/Datatable";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import type { Customer } from "./CustomerFormDialog";
+
+interface LoyaltyEntry {
+  id: number;
+  type: "EARN" | "REDEEM" | "REVERSAL";
+  points: number;
+  description: string | null;
+  createdAt: string;
+  transaction: { invoiceNo: string } | null;
+}
+
+interface CustomerDetail extends Customer {
+  loyaltyEntries: LoyaltyEntry[];
+  purchases: {
+    count: number;
+    totalAmount: number;
+    lastPurchaseAt: string | null;
+  };
+}
+
+interface CustomerTransaction {
+  id: number;
+  invoiceNo: string;
+  totalAmount: number;
+  status: "PENDING" | "COMPLETED" | "CANCELED";
+  createdAt: string;
+  pointsEarned: number;
+  pointsRedeemed: number;
+  _count: { items: number };
+}
+
+const entryLabels: Record<LoyaltyEntry["type"], string> = {
+  EARN: "Dapat poin",
+  REDEEM: "Tukar poin",
+  REVERSAL: "Pembatalan",
+};
+
+const statusLabels: Record<CustomerTransaction["status"], string> = {
+  PENDING: "Menunggu",
+  COMPLETED: "Selesai",
+  CANCELED: "Batal",
+};
+
+interface CustomerDetailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: Customer | null;
+}
+
+export function CustomerDetailDialog({ open, onOpenChange, customer }: CustomerDetailDialogProps) {
+  const { data: detail, isLoading } = useQuery({
+    queryKey: ["customer-detail", customer?.id],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: CustomerDetail }>(
+        `/api/customers/${customer?.id}`
+      );
+      return response.data.data;
+    },
+    enabled: open && !!customer,
+  });
+
+  const fetchTransactions = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+  }): Promise<FetchResult<CustomerTransaction>> => {
+    const response = await axiosInstance.get<FetchResult<CustomerTransaction>>(
+      `/api/customers/${customer?.id}/transactions`,
+      {
+        params: {
+          page: params.page,
+          limit: params.pageSize,
+          search: params.search,
+        },
+      }
+    );
+
+    return response.data;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Contact className="w-5 h-5" />
+            {customer?.name}
+          </DialogTitle>
+          <DialogDescription>{customer?.phone}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div className="rounded-lg border p-3">
+                <div className="text-muted-foreground">Saldo Poin</div>
+                <div className="text-xl font-bold">{detail.pointsBalance}</div>
+                {detail.storeCredit > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Kredit toko {formatCurrency(detail.storeCredit)}
+                  </div>
+                )}
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-muted-foreground">Total Belanja</div>
+                <div className="text-xl font-bold">
+                  {formatCurrency(detail.purchases.totalAmount)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {detail.purchases.count} transaksi
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-muted-foreground">Terakhir Belanja</div>
+                <div className="font-medium">
+                  {detail.purchases.lastPurchaseAt
+                    ? format(new Date(detail.purchases.lastPurchaseAt), "dd MMM yyyy", {
+                        locale: id,
+                      })
+                    : "-"}
+                </div>
+              </div>
+            </div>
+
+            {/* Points ledger */}
+            <div className="space-y-2">
+              <h3 className="font-semibold">Riwayat Poin</h3>
+              {detail.loyaltyEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Belum ada riwayat poin</p>
+              ) : (
+                <div className="space-y-1 text-sm">
+                  {detail.loyaltyEntries.map((entry) => (
+                    <div key={entry.id} className="flex justify-between">
+                      <span>
+                        {entryLabels[entry.type]}
+                        {entry.transaction && (
+                          <span className="text-muted-foreground">
+                            {" "}
+                            - {entry.transaction.invoiceNo}
+                          </span>
+                        )}
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {format(new Date(entry.createdAt), "dd MMM yyyy HH:mm", {
+                            locale: id,
+                          })}
+                        </span>
+                      </span>
+                      <span
+                        className={entry.points >= 0 ? "text-green-600" : "text-destructive"}
+                      >
+                        {entry.points > 0 ? `+${entry.points}` : entry.points}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Purchase history */}
+            <div className="space-y-2">
+              <h3 className="font-semibold">Riwayat Belanja</h3>
+              <DataTable<CustomerTransaction>
+                fetchAction={fetchTransactions}
+                queryKey={`customer-transactions-${detail.id}`}
+                searchPlaceholder="Cari invoice..."
+                columns={[
+                  { key: "invoiceNo", label: "Invoice", sortable: false },
+                  { key: "createdAt", label: "Tanggal", sortable: false },
+                  { key: "totalAmount", label: "Total", sortable: false },
+                  { key: "points", label: "Poin", sortable: false },
+                  { key: "status", label: "Status", sortable: false },
+                ]}
+                rows={(transactions) =>
+                  transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="font-mono">{transaction.invoiceNo}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {format(new Date(transaction.createdAt), "dd MMM yyyy HH:mm", {
+                          locale: id,
+                        })}
+                      </TableCell>
+                      <TableCell>
+                        <div>{formatCurrency(transaction.totalAmount)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {transaction._count.items} item
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {transaction.pointsEarned > 0 && (
+                          <div className="text-green-600">+{transaction.pointsEarned}</div>
+                        )}
+                        {transaction.pointsRedeemed > 0 && (
+                          <div className="text-destructive">-{transaction.pointsRedeemed}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={transaction.status === "CANCELED" ? "destructive" : "default"}
+                          className={
+                            transaction.status === "COMPLETED"
+                              ? "bg-green-500 hover:bg-green-600"
+                              : ""
+                          }
+                        >
+                          {statusLabels[transaction.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                }
+              />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Contact } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { customerSchema, type CustomerFormInput } from "../_validations/customerSchema";
+
+export interface Customer {
+  id: number;
+  name: string;
+  phone: string;
+  email: string | null;
+  notes: string | null;
+  pointsBalance: number;
+  storeCredit: number;
+  isActive: boolean;
+  createdAt: string;
+  _count?: { transactions: number };
+}
+
+const emptyForm: CustomerFormInput = {
+  name: "",
+  phone: "",
+  email: "",
+  notes: "",
+  isActive: true,
+};
+
+function toFormValues(customer: Customer): CustomerFormInput {
+  return {
+    name: customer.name,
+    phone: customer.phone,
+    email: customer.email || "",
+    notes: customer.notes || "",
+    isActive: customer.isActive,
+  };
+}
+
+interface CustomerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Customer to edit, or null to register a new one */
+  customer: Customer | null;
+  onSuccess?: () => void;
+}
+
+export function CustomerFormDialog({
+  open,
+  onOpenChange,
+  customer,
+  onSuccess,
+}: CustomerFormDialogProps) {
+  const form = useForm<CustomerFormInput>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(customer ? toFormValues(customer) : emptyForm);
+    }
+  }, [open, customer, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CustomerFormInput) => {
+      return customer
+        ? axiosInstance.put(`/api/customers/${customer.id}`, data)
+        : axiosInstance.post("/api/customers", data);
+    },
+    onSuccess: () => {
+      toast.success(customer ? "Data pelanggan diperbarui" : "Pelanggan ditambahkan");
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menyimpan pelanggan", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const handleSubmit = (data: CustomerFormInput) => {
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Contact className="w-5 h-5" />
+            {customer ? "Edit Pelanggan" : "Tambah Pelanggan"}
+          </DialogTitle>
+          <DialogDescription>
+            Nomor HP dipakai untuk mencari pelanggan di kasir
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nama</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Nama pelanggan" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nomor HP</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="0812xxxxxxx" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="Opsional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Catatan</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Opsional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Status Member</FormLabel>
+                    <FormDescription>
+                      Pelanggan nonaktif tidak bisa dipilih di kasir
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Batal
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
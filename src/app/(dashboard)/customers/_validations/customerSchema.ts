@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const customerSchema = z.object({
+  name: z.string().trim().min(1, "Nama pelanggan wajib diisi").max(100),
+  phone: z
+    .string()
+    .min(1, "Nomor HP wajib diisi")
+    .regex(/^(\+?62|0)?8[\d\s-]{7,16}$/, "Nomor HP tidak valid (contoh: 0812xxxxxxx)"),
+  email: z.union([z.literal(""), z.string().trim().email("Email tidak valid")]),
+  notes: z.string().max(500),
+  isActive: z.boolean(),
+});
+
+export type CustomerFormInput = z.infer<typeof customerSchema>;
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Pencil, Plus, History } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  DataTable,
+  DataTableRef,
+} from "@/components/scm-ui/Datatable/Datatable";
+import { Button } from "@/components/ui/button";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import { CustomerFormDialog, type Customer } from "./_components/CustomerFormDialog";
+import { CustomerDetailDialog } from "./_components/CustomerDetailDialog";
+
+export default function CustomersPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const tableRef = useRef<DataTableRef>(null);
+
+  // Modal states
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+
+  // Fetch customers action for DataTable
+  const fetchCustomers = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<Customer>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<Customer>>("/api/customers", {
+        params: {
+          page: params.page,
+          limit: params.pageSize,
+          search: params.search,
+          sortBy: params.sortBy,
+          sortOrder: params.sortOrder,
+        },
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      throw error;
+    }
+  };
+
+  // Handlers
+  const invalidateTable = () => {
+    tableRef.current?.invalidate();
+  };
+
+  const openCreateModal = () => {
+    setSelectedCustomer(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditModal = (customer: Customer) => {
+    setSelectedCustomer(customer);
+    setIsFormOpen(true);
+  };
+
+  const openDetailModal = (customer: Customer) => {
+    setSelectedCustomer(customer);
+    setIsDetailOpen(true);
+  };
+
+  // Permission check
+  if (!hasPermission("customer") && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Pelanggan</h1>
+          <p className="text-muted-foreground">
+            Member, poin loyalitas, dan riwayat belanja pelanggan
+          </p>
+        </div>
+        <Button onClick={openCreateModal}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Pelanggan
+        </Button>
+      </div>
+
+      {/* DataTable */}
+      <Card>
+        <CardContent className="pt-6">
+          <DataTable<Customer>
+            ref={tableRef}
+            fetchAction={fetchCustomers}
+            queryKey="customers"
+            searchPlaceholder="Cari nama atau nomor HP..."
+            columns={[
+              { key: "name", label: "Nama", sortable: true },
+              { key: "phone", label: "Nomor HP", sortable: true },
+              { key: "pointsBalance", label: "Poin", sortable: true },
+              { key: "transactions", label: "Transaksi", sortable: false },
+              { key: "createdAt", label: "Terdaftar", sortable: true },
+              { key: "status", label: "Status", sortable: false },
+              { key: "actions", label: "Aksi", sortable: false },
+            ]}
+            rows={(customers) =>
+              customers.map((customer) => (
+                <TableRow key={customer.id}>
+                  <TableCell className="font-medium">
+                    <div>{customer.name}</div>
+                    {customer.email && (
+                      <div className="text-xs text-muted-foreground">{customer.email}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono">{customer.phone}</TableCell>
+                  <TableCell>{customer.pointsBalance}</TableCell>
+                  <TableCell>{customer._count?.transactions ?? 0}</TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {format(new Date(customer.createdAt), "dd MMM yyyy", { locale: id })}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={customer.isActive ? "default" : "secondary"}
+                      className={
+                        customer.isActive ? "bg-green-500 hover:bg-green-600" : ""
+                      }
+                    >
+                      {customer.isActive ? "Aktif" : "Nonaktif"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Riwayat"
+                        onClick={() => openDetailModal(customer)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditModal(customer)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Dialogs */}
+      <CustomerFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        customer={selectedCustomer}
+        onSuccess={invalidateTable}
+      />
+
+      <CustomerDetailDialog
+        open={isDetailOpen}
+        onOpenChange={setIsDetailOpen}
+        customer={selectedCustomer}
+      />
+    </div>
+  );
+}
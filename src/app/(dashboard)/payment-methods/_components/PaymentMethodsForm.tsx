@@ -0,0 +1,250 @@
+"use client";
+
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import { MIDTRANS_CHANNELS, calculateMdrFee } from "@/lib/payment-methods";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { MultiSelect } from "@/components/ui/multi-select";
+import {
+  paymentMethodSchema,
+  type PaymentMethodFormInput,
+} from "../_validations/paymentMethodSchema";
+
+interface PaymentMethodsFormProps {
+  defaultValues: PaymentMethodFormInput;
+}
+
+// Methods paid on the gateway's hosted page, where the offered channels matter
+const HOSTED_METHODS = ["MIDTRANS_BANK_TRANSFER", "MIDTRANS_ALL"];
+
+// Amount used to preview each method's fee
+const EXAMPLE_AMOUNT = 100000;
+
+const channelOptions = MIDTRANS_CHANNELS.map((channel) => ({
+  value: channel,
+  label: channel,
+}));
+
+export function PaymentMethodsForm({ defaultValues }: PaymentMethodsFormProps) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<PaymentMethodFormInput>({
+    resolver: zodResolver(paymentMethodSchema),
+    defaultValues,
+  });
+
+  const { fields, move } = useFieldArray({ control: form.control, name: "methods" });
+  const methods = useWatch({ control: form.control, name: "methods" });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PaymentMethodFormInput) => {
+      return axiosInstance.put("/api/payment-methods", data);
+    },
+    onSuccess: () => {
+      toast.success("Metode pembayaran disimpan", {
+        description: "Biaya baru berlaku untuk pembayaran berikutnya",
+      });
+      queryClient.invalidateQueries({ queryKey: ["payment-methods"] });
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menyimpan metode pembayaran", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+        className="space-y-4"
+      >
+        {fields.map((field, index) => {
+          const method = methods[index];
+          const exampleFee = calculateMdrFee(EXAMPLE_AMOUNT, {
+            mdrPercent: method?.mdrPercent || 0,
+            mdrFixed: method?.mdrFixed || 0,
+          });
+
+          return (
+            <Card key={field.id} className={method?.isEnabled ? "" : "opacity-60"}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="flex items-center gap-2">
+                    {method?.name || field.code}
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {field.code}
+                    </Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Biaya untuk {formatCurrency(EXAMPLE_AMOUNT)}: {formatCurrency(exampleFee)}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Naikkan"
+                    disabled={index === 0}
+                    onClick={() => move(index, index - 1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Turunkan"
+                    disabled={index === fields.length - 1}
+                    onClick={() => move(index, index + 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <FormField
+                    control={form.control}
+                    name={`methods.${index}.isEnabled`}
+                    render={({ field: switchField }) => (
+                      <FormItem className="ml-2">
+                        <FormControl>
+                          <Switch
+                            checked={switchField.value}
+                            onCheckedChange={switchField.onChange}
+                            // Offline sales are always cash
+                            disabled={field.code === "CASH"}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`methods.${index}.name`}
+                    render={({ field: inputField }) => (
+                      <FormItem>
+                        <FormLabel>Nama</FormLabel>
+                        <FormControl>
+                          <Input {...inputField} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`methods.${index}.description`}
+                    render={({ field: inputField }) => (
+                      <FormItem>
+                        <FormLabel>Keterangan</FormLabel>
+                        <FormControl>
+                          <Input {...inputField} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {field.code !== "CASH" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name={`methods.${index}.mdrPercent`}
+                      render={({ field: inputField }) => (
+                        <FormItem>
+                          <FormLabel>MDR (%)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...inputField}
+                              onChange={(e) => inputField.onChange(parseFloat(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`methods.${index}.mdrFixed`}
+                      render={({ field: inputField }) => (
+                        <FormItem>
+                          <FormLabel>Biaya Tetap (Rp)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="1"
+                              {...inputField}
+                              onChange={(e) => inputField.onChange(parseInt(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                {HOSTED_METHODS.includes(field.code) && (
+                  <FormField
+                    control={form.control}
+                    name={`methods.${index}.channels`}
+                    render={({ field: channelField }) => (
+                      <FormItem>
+                        <FormLabel>Channel Midtrans</FormLabel>
+                        <FormControl>
+                          <MultiSelect
+                            options={channelOptions}
+                            selected={channelField.value}
+                            onChange={channelField.onChange}
+                            placeholder="Semua channel akun Midtrans"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Pilihan yang tampil di halaman pembayaran Midtrans
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Menyimpan..." : "Simpan Metode Pembayaran"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { TENDER_METHODS } from "@/lib/payments";
+
+export const paymentMethodSchema = z.object({
+  methods: z.array(
+    z.object({
+      code: z.enum(TENDER_METHODS),
+      name: z.string().trim().min(1, "Nama metode wajib diisi").max(50),
+      description: z.string().trim().max(100),
+      isEnabled: z.boolean(),
+      mdrPercent: z.number().min(0, "MDR tidak boleh negatif").max(100, "MDR maksimal 100%"),
+      mdrFixed: z.number().int("Biaya tetap harus bilangan bulat").min(0, "Biaya tetap tidak boleh negatif"),
+      channels: z.array(z.string()),
+    })
+  ),
+});
+
+export type PaymentMethodFormInput = z.infer<typeof paymentMethodSchema>;
@@ -0,0 +1,60 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import { Card, CardContent } from "@/components/ui/card";
+import axiosInstance from "@/lib/axios";
+import type { PaymentMethodConfig } from "@/lib/payment-methods";
+import { PaymentMethodsForm } from "./_components/PaymentMethodsForm";
+
+export default function PaymentMethodsPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const canManage = hasPermission("payment_method");
+
+  const { data: methods, isLoading: isMethodsLoading } = useQuery({
+    queryKey: ["payment-methods"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: PaymentMethodConfig[] }>(
+        "/api/payment-methods"
+      );
+      return response.data.data;
+    },
+    enabled: canManage,
+  });
+
+  // Permission check
+  if (!canManage && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Metode Pembayaran</h1>
+        <p className="text-muted-foreground">
+          Metode yang tampil di kasir, urutannya, dan biaya MDR dari payment gateway
+        </p>
+      </div>
+
+      {isMethodsLoading || !methods ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <PaymentMethodsForm defaultValues={{ methods }} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { RefreshCw, Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  DataTable,
+  DataTableRef,
+} from "@/components/scm-ui/Datatable/Datatable";
+import { Button } from "@/components/ui/button";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import type {
+  PaymentIssue,
+  ReconcileSummary,
+  ResyncResult,
+} from "@/lib/payment-reconciliation";
+
+interface PaymentIssueRow {
+  id: number;
+  sequence: number;
+  orderId: string | null;
+  amount: number;
+  paymentMethod: string | null;
+  paymentStatus: string;
+  statusMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+  issue: PaymentIssue | null;
+  transaction: {
+    id: number;
+    invoiceNo: string;
+    totalAmount: number;
+    status: "PENDING" | "COMPLETED" | "CANCELED";
+    paymentStatus: string;
+    createdAt: string;
+  };
+}
+
+const ISSUE_LABELS: Record<PaymentIssue, string> = {
+  STUCK: "Tertahan",
+  SETTLED_NOT_COMPLETED: "Lunas, transaksi belum selesai",
+  COMPLETED_NOT_SETTLED: "Selesai, belum lunas di gateway",
+};
+
+const TRANSACTION_STATUS_LABELS: Record<PaymentIssueRow["transaction"]["status"], string> = {
+  PENDING: "Menunggu",
+  COMPLETED: "Selesai",
+  CANCELED: "Dibatalkan",
+};
+
+const RESYNC_MESSAGES: Record<ResyncResult["outcome"], string> = {
+  UPDATED: "Status pembayaran diperbarui",
+  UNCHANGED: "Status pembayaran tidak berubah",
+  EXPIRED: "Pembayaran melewati batas waktu dan ditandai kedaluwarsa",
+  NOT_FOUND: "Order belum ada di gateway, coba lagi nanti",
+  ERROR: "Gagal menghubungi gateway",
+};
+
+export default function PaymentsPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const tableRef = useRef<DataTableRef>(null);
+  const [resyncingId, setResyncingId] = useState<number | null>(null);
+
+  // Fetch payment issues action for DataTable
+  const fetchPaymentIssues = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<PaymentIssueRow>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<PaymentIssueRow>>(
+        "/api/payment/reconciliation",
+        {
+          params: {
+            page: params.page,
+            limit: params.pageSize,
+            search: params.search,
+            sortOrder: params.sortOrder,
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching payment issues:", error);
+      throw error;
+    }
+  };
+
+  const invalidateTable = () => {
+    tableRef.current?.invalidate();
+  };
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axiosInstance.post<{ data: ReconcileSummary }>(
+        "/api/payment/reconciliation"
+      );
+      return response.data.data;
+    },
+    onSuccess: (summary) => {
+      toast.success("Sinkronisasi selesai", {
+        description: `${summary.checked} dicek, ${summary.updated} diperbarui, ${summary.expired} kedaluwarsa, ${summary.errors} gagal`,
+      });
+      invalidateTable();
+    },
+    onError: (error: any) => {
+      toast.error("Gagal menyinkronkan pembayaran", {
+        description: error.response?.data?.details || error.message,
+      });
+    },
+  });
+
+  const resyncMutation = useMutation({
+    mutationFn: async (paymentId: number) => {
+      const response = await axiosInstance.post<{ data: ResyncResult }>(
+        `/api/payment/reconciliation/${paymentId}/resync`
+      );
+      return response.data.data;
+    },
+    onMutate: (paymentId) => {
+      setResyncingId(paymentId);
+    },
+    onSuccess: (result) => {
+      toast.success(RESYNC_MESSAGES[result.outcome], {
+        description: result.gatewayStatus
+          ? `${result.orderId}: ${result.gatewayStatus}`
+          : result.orderId,
+      });
+      invalidateTable();
+    },
+    onError: (error: any) => {
+      toast.error(RESYNC_MESSAGES.ERROR, {
+        description: error.response?.data?.details || error.message,
+      });
+    },
+    onSettled: () => {
+      setResyncingId(null);
+    },
+  });
+
+  // Permission check
+  if (!hasPermission("payment") && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Rekonsiliasi Pembayaran</h1>
+          <p className="text-muted-foreground">
+            Pembayaran online yang tertahan atau tidak sesuai dengan status transaksinya
+          </p>
+        </div>
+        <Button
+          onClick={() => reconcileMutation.mutate()}
+          disabled={reconcileMutation.isPending}
+        >
+          {reconcileMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Sinkronkan Semua
+        </Button>
+      </div>
+
+      {/* DataTable */}
+      <Card>
+        <CardContent className="pt-6">
+          <DataTable<PaymentIssueRow>
+            ref={tableRef}
+            fetchAction={fetchPaymentIssues}
+            queryKey="payment-issues"
+            searchPlaceholder="Cari invoice atau order ID..."
+            columns={[
+              { key: "createdAt", label: "Tanggal", sortable: true },
+              { key: "invoiceNo", label: "Invoice / Order", sortable: false },
+              { key: "amount", label: "Jumlah", sortable: false },
+              { key: "paymentStatus", label: "Status Gateway", sortable: false },
+              { key: "transactionStatus", label: "Status Transaksi", sortable: false },
+              { key: "issue", label: "Masalah", sortable: false },
+              { key: "actions", label: "Aksi", sortable: false },
+            ]}
+            rows={(payments) =>
+              payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {format(new Date(payment.createdAt), "dd MMM yyyy HH:mm", { locale: id })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{payment.transaction.invoiceNo}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {payment.orderId || "-"}
+                      {payment.paymentMethod && ` · ${payment.paymentMethod}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatCurrency(payment.amount)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{payment.paymentStatus}</Badge>
+                    {payment.statusMessage && (
+                      <div className="text-xs text-muted-foreground mt-1 max-w-[200px] truncate">
+                        {payment.statusMessage}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {TRANSACTION_STATUS_LABELS[payment.transaction.status]}
+                  </TableCell>
+                  <TableCell>
+                    {payment.issue && (
+                      <Badge variant={payment.issue === "STUCK" ? "secondary" : "destructive"}>
+                        {ISSUE_LABELS[payment.issue]}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Sinkronkan dengan gateway"
+                      disabled={resyncingId === payment.id}
+                      onClick={() => resyncMutation.mutate(payment.id)}
+                    >
+                      {resyncingId === payment.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
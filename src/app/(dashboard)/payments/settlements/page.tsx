@@ -0,0 +1,420 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent, type DragEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Eye, Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  DataTable,
+  DataTableRef,
+} from "@/components/scm-ui/Datatable/Datatable";
+import FileUploadArea from "@/components/import/FileUploadArea";
+import { Button } from "@/components/ui/button";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+
+type SettlementMatchStatus =
+  | "MATCHED"
+  | "AMOUNT_MISMATCH"
+  | "NOT_SETTLED_LOCALLY"
+  | "STATUS_MISMATCH"
+  | "MISSING_LOCALLY"
+  | "MISSING_IN_FILE"
+  | "DUPLICATE"
+  | "INVALID";
+
+interface SettlementUpload {
+  id: number;
+  fileName: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalLines: number;
+  matchedLines: number;
+  issueLines: number;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+interface SettlementLine {
+  id: number;
+  rowNumber: number | null;
+  orderId: string | null;
+  gatewayTransactionId: string | null;
+  amount: number | null;
+  gatewayStatus: string | null;
+  paymentType: string | null;
+  settledAt: string | null;
+  status: SettlementMatchStatus;
+  message: string | null;
+  payment: {
+    id: number;
+    amount: number;
+    paymentStatus: string;
+    transaction: { id: number; invoiceNo: string; status: string };
+  } | null;
+}
+
+const STATUS_LABELS: Record<SettlementMatchStatus, string> = {
+  MATCHED: "Cocok",
+  AMOUNT_MISMATCH: "Nominal berbeda",
+  NOT_SETTLED_LOCALLY: "Belum lunas di sistem",
+  STATUS_MISMATCH: "Status berbeda",
+  MISSING_LOCALLY: "Tidak ada di sistem",
+  MISSING_IN_FILE: "Tidak ada di file",
+  DUPLICATE: "Duplikat",
+  INVALID: "Baris tidak valid",
+};
+
+const STATUS_VARIANTS: Record<SettlementMatchStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  MATCHED: "default",
+  AMOUNT_MISMATCH: "destructive",
+  NOT_SETTLED_LOCALLY: "destructive",
+  STATUS_MISMATCH: "destructive",
+  MISSING_LOCALLY: "destructive",
+  MISSING_IN_FILE: "destructive",
+  DUPLICATE: "outline",
+  INVALID: "secondary",
+};
+
+function formatPeriod(upload: SettlementUpload) {
+  if (!upload.periodStart || !upload.periodEnd) return "-";
+  // Stored as calendar days
+  const day = (value: string) => format(new Date(value.slice(0, 10) + "T00:00:00"), "dd MMM yyyy", { locale: id });
+  return upload.periodStart === upload.periodEnd
+    ? day(upload.periodStart)
+    : `${day(upload.periodStart)} - ${day(upload.periodEnd)}`;
+}
+
+export default function SettlementReconciliationPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const tableRef = useRef<DataTableRef>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [selectedUpload, setSelectedUpload] = useState<SettlementUpload | null>(null);
+  const [statusFilter, setStatusFilter] = useState<SettlementMatchStatus | "ALL">("ALL");
+
+  // Fetch uploads action for DataTable
+  const fetchUploads = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<SettlementUpload>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<SettlementUpload>>(
+        "/api/payment/settlements",
+        {
+          params: {
+            page: params.page,
+            limit: params.pageSize,
+            search: params.search,
+            sortOrder: params.sortOrder,
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching settlement uploads:", error);
+      throw error;
+    }
+  };
+
+  // Fetch lines of the selected upload for DataTable
+  const fetchLines = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<SettlementLine>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<SettlementLine>>(
+        `/api/payment/settlements/${selectedUpload!.id}/lines`,
+        {
+          params: {
+            page: params.page,
+            limit: params.pageSize,
+            search: params.search,
+            ...(statusFilter !== "ALL" && { status: statusFilter }),
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching settlement lines:", error);
+      throw error;
+    }
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (settlementFile: File) => {
+      const formData = new FormData();
+      formData.append("file", settlementFile);
+      const response = await axiosInstance.post<{ data: SettlementUpload }>(
+        "/api/payment/settlements",
+        formData,
+        { headers: { "Content-Type": "multipart/form-data" }, timeout: 60000 }
+      );
+      return response.data.data;
+    },
+    onSuccess: (upload) => {
+      const notify = upload.issueLines > 0 ? toast.warning : toast.success;
+      notify(`${upload.matchedLines} dari ${upload.totalLines} baris cocok`, {
+        description:
+          upload.issueLines > 0 ? `${upload.issueLines} perlu diperiksa` : "Semua pembayaran cocok",
+      });
+      setFile(null);
+      tableRef.current?.invalidate();
+      setStatusFilter(upload.issueLines > 0 ? "ALL" : "MATCHED");
+      setSelectedUpload(upload);
+    },
+    onError: (error: any) => {
+      toast.error("Gagal memproses file settlement", {
+        description: error.response?.data?.details || error.message,
+      });
+    },
+  });
+
+  const handleDrag = (e: DragEvent<HTMLDivElement>, active: boolean) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(active);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    handleDrag(e, false);
+    const dropped = e.dataTransfer.files?.[0];
+    if (dropped) setFile(dropped);
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    e.target.value = "";
+  };
+
+  // Permission check
+  if (!hasPermission("settlement_reconcile") && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Rekonsiliasi Settlement</h1>
+        <p className="text-muted-foreground">
+          Cocokkan laporan settlement Midtrans dengan pembayaran di sistem
+        </p>
+      </div>
+
+      {/* Upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Unggah Laporan Settlement</CardTitle>
+          <CardDescription>
+            CSV atau XLSX dari dashboard Midtrans, dengan kolom Order ID atau Transaction ID dan
+            Gross Amount di baris pertama
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FileUploadArea
+            file={file}
+            dragActive={dragActive}
+            fileInputRef={fileInputRef}
+            onDragOver={(e) => handleDrag(e, true)}
+            onDragEnter={(e) => handleDrag(e, true)}
+            onDragLeave={(e) => handleDrag(e, false)}
+            onDrop={handleDrop}
+            onFileChange={handleFileChange}
+            onUploadAreaClick={() => fileInputRef.current?.click()}
+            accept=".csv,.xlsx"
+            hint="Drag and drop file CSV atau Excel, atau klik area ini untuk memilih"
+          />
+          <div className="flex justify-end">
+            <Button
+              onClick={() => file && uploadMutation.mutate(file)}
+              disabled={!file || uploadMutation.isPending}
+            >
+              {uploadMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cocokkan
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Uploads */}
+      <Card>
+        <CardContent className="pt-6">
+          <DataTable<SettlementUpload>
+            ref={tableRef}
+            fetchAction={fetchUploads}
+            queryKey="settlement-uploads"
+            searchPlaceholder="Cari nama file..."
+            columns={[
+              { key: "createdAt", label: "Diunggah", sortable: true },
+              { key: "fileName", label: "File", sortable: false },
+              { key: "period", label: "Periode", sortable: false },
+              { key: "matchedLines", label: "Cocok", sortable: false },
+              { key: "issueLines", label: "Perlu Diperiksa", sortable: false },
+              { key: "actions", label: "Aksi", sortable: false },
+            ]}
+            rows={(uploads) =>
+              uploads.map((upload) => (
+                <TableRow key={upload.id}>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {format(new Date(upload.createdAt), "dd MMM yyyy HH:mm", { locale: id })}
+                  </TableCell>
+                  <TableCell className="font-medium">{upload.fileName}</TableCell>
+                  <TableCell>{formatPeriod(upload)}</TableCell>
+                  <TableCell>
+                    {upload.matchedLines} / {upload.totalLines}
+                  </TableCell>
+                  <TableCell>
+                    {upload.issueLines > 0 ? (
+                      <Badge variant="destructive">{upload.issueLines}</Badge>
+                    ) : (
+                      <Badge variant="default">Lengkap</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Lihat hasil"
+                      onClick={() => {
+                        setStatusFilter("ALL");
+                        setSelectedUpload(upload);
+                      }}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Lines Dialog */}
+      <Dialog open={!!selectedUpload} onOpenChange={(open) => !open && setSelectedUpload(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{selectedUpload?.fileName}</DialogTitle>
+            <DialogDescription>
+              {selectedUpload && formatPeriod(selectedUpload)} · {selectedUpload?.matchedLines} cocok
+              · {selectedUpload?.issueLines} perlu diperiksa
+            </DialogDescription>
+          </DialogHeader>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as SettlementMatchStatus | "ALL")}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">Semua status</SelectItem>
+              {(Object.keys(STATUS_LABELS) as SettlementMatchStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedUpload && (
+            <div className="max-h-[60vh] overflow-auto">
+              <DataTable<SettlementLine>
+                fetchAction={fetchLines}
+                queryKey={`settlement-lines-${selectedUpload.id}-${statusFilter}`}
+                searchPlaceholder="Cari order / transaction ID..."
+                columns={[
+                  { key: "rowNumber", label: "Baris", sortable: false },
+                  { key: "orderId", label: "Order", sortable: false },
+                  { key: "amount", label: "Nominal File", sortable: false },
+                  { key: "payment", label: "Pembayaran", sortable: false },
+                  { key: "status", label: "Hasil", sortable: false },
+                ]}
+                rows={(lines) =>
+                  lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell className="text-muted-foreground">{line.rowNumber ?? "-"}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{line.orderId || "-"}</div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {line.gatewayTransactionId || line.paymentType || ""}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {line.rowNumber !== null && line.amount !== null
+                          ? formatCurrency(line.amount)
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {line.payment ? (
+                          <>
+                            <div>{formatCurrency(line.payment.amount)}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {line.payment.transaction.invoiceNo} · {line.payment.paymentStatus}
+                            </div>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[line.status]}>
+                          {STATUS_LABELS[line.status]}
+                        </Badge>
+                        {line.message && line.status !== "MATCHED" && (
+                          <div className="text-xs text-muted-foreground mt-1 max-w-[220px]">
+                            {line.message}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                }
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
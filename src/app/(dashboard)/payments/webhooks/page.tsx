@@ -0,0 +1,294 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Eye, RotateCcw, Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  DataTable,
+  DataTableRef,
+} from "@/components/scm-ui/Datatable/Datatable";
+import { Button } from "@/components/ui/button";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+
+type WebhookEventStatus =
+  | "RECEIVED"
+  | "PROCESSED"
+  | "DUPLICATE"
+  | "OUT_OF_ORDER"
+  | "UNMATCHED"
+  | "INVALID_SIGNATURE"
+  | "FAILED";
+
+interface WebhookEvent {
+  id: number;
+  provider: string;
+  orderId: string | null;
+  transactionStatus: string | null;
+  statusCode: string | null;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  message: string | null;
+  payload: unknown;
+  attempts: number;
+  createdAt: string;
+  processedAt: string | null;
+  replayable: boolean;
+  payment: {
+    id: number;
+    paymentStatus: string;
+    transaction: { id: number; invoiceNo: string; status: string };
+  } | null;
+}
+
+const STATUS_LABELS: Record<WebhookEventStatus, string> = {
+  RECEIVED: "Diterima",
+  PROCESSED: "Diproses",
+  DUPLICATE: "Duplikat",
+  OUT_OF_ORDER: "Tidak berurutan",
+  UNMATCHED: "Tanpa pembayaran",
+  INVALID_SIGNATURE: "Signature tidak valid",
+  FAILED: "Gagal",
+};
+
+const STATUS_VARIANTS: Record<WebhookEventStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  RECEIVED: "secondary",
+  PROCESSED: "default",
+  DUPLICATE: "outline",
+  OUT_OF_ORDER: "outline",
+  UNMATCHED: "secondary",
+  INVALID_SIGNATURE: "destructive",
+  FAILED: "destructive",
+};
+
+export default function PaymentWebhooksPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const tableRef = useRef<DataTableRef>(null);
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | "ALL">("ALL");
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+
+  // Fetch webhook events action for DataTable
+  const fetchEvents = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<WebhookEvent>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<WebhookEvent>>(
+        "/api/payment/webhooks",
+        {
+          params: {
+            page: params.page,
+            limit: params.pageSize,
+            search: params.search,
+            sortOrder: params.sortOrder,
+            ...(statusFilter !== "ALL" && { status: statusFilter }),
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching webhook events:", error);
+      throw error;
+    }
+  };
+
+  const replayMutation = useMutation({
+    mutationFn: async (eventId: number) => {
+      const response = await axiosInstance.post<{ data: WebhookEvent }>(
+        `/api/payment/webhooks/${eventId}/replay`
+      );
+      return response.data.data;
+    },
+    onMutate: (eventId) => {
+      setReplayingId(eventId);
+    },
+    onSuccess: (event) => {
+      const notify = event.status === "FAILED" ? toast.error : toast.success;
+      notify(`Event #${event.id}: ${STATUS_LABELS[event.status]}`, {
+        description: event.message || undefined,
+      });
+      tableRef.current?.invalidate();
+    },
+    onError: (error: any) => {
+      toast.error("Gagal memproses ulang event", {
+        description: error.response?.data?.details || error.message,
+      });
+    },
+    onSettled: () => {
+      setReplayingId(null);
+    },
+  });
+
+  // Permission check
+  if (!hasPermission("webhook") && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Webhook Pembayaran</h1>
+          <p className="text-muted-foreground">
+            Notifikasi dari payment gateway beserta hasil pemrosesannya
+          </p>
+        </div>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as WebhookEventStatus | "ALL")}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">Semua status</SelectItem>
+            {(Object.keys(STATUS_LABELS) as WebhookEventStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* DataTable */}
+      <Card>
+        <CardContent className="pt-6">
+          <DataTable<WebhookEvent>
+            ref={tableRef}
+            fetchAction={fetchEvents}
+            queryKey={`payment-webhook-events-${statusFilter}`}
+            searchPlaceholder="Cari order ID..."
+            columns={[
+              { key: "createdAt", label: "Diterima", sortable: true },
+              { key: "orderId", label: "Order", sortable: false },
+              { key: "transactionStatus", label: "Status Gateway", sortable: false },
+              { key: "status", label: "Hasil", sortable: false },
+              { key: "attempts", label: "Percobaan", sortable: false },
+              { key: "actions", label: "Aksi", sortable: false },
+            ]}
+            rows={(events) =>
+              events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {format(new Date(event.createdAt), "dd MMM yyyy HH:mm:ss", { locale: id })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{event.orderId || "-"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {event.payment?.transaction.invoiceNo || event.provider}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{event.transactionStatus || "-"}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[event.status]}>
+                      {STATUS_LABELS[event.status]}
+                    </Badge>
+                    {event.message && (
+                      <div className="text-xs text-muted-foreground mt-1 max-w-[240px] truncate">
+                        {event.message}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{event.attempts}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Lihat payload"
+                        onClick={() => setSelectedEvent(event)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {event.replayable && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Proses ulang"
+                          disabled={replayingId === event.id}
+                          onClick={() => replayMutation.mutate(event.id)}
+                        >
+                          {replayingId === event.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Payload Dialog */}
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Event #{selectedEvent?.id}</DialogTitle>
+            <DialogDescription>
+              {selectedEvent?.orderId || "-"} · {selectedEvent?.provider} · signature{" "}
+              {selectedEvent?.signatureValid ? "valid" : "tidak valid"}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="space-y-3">
+              {selectedEvent.message && (
+                <p className="text-sm">
+                  <span className="font-medium">{STATUS_LABELS[selectedEvent.status]}: </span>
+                  {selectedEvent.message}
+                </p>
+              )}
+              <pre className="max-h-[50vh] overflow-auto rounded-md bg-muted p-3 text-xs">
+                {JSON.stringify(selectedEvent.payload, null, 2)}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
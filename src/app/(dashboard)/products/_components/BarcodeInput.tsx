@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { X, Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+interface BarcodeInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+export function BarcodeInput({ value, onChange }: BarcodeInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const handleAdd = () => {
+    const code = draft.trim();
+    if (!code) return;
+    if (!value.includes(code)) {
+      onChange([...value, code]);
+    }
+    setDraft("");
+  };
+
+  const handleRemove = (code: string) => {
+    onChange(value.filter((c) => c !== code));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Scan atau ketik barcode"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Scanners finish with Enter; add the code instead of submitting the form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={handleAdd}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((code) => (
+            <Badge key={code} variant="secondary" className="gap-1 font-mono">
+              {code}
+              <button
+                type="button"
+                onClick={() => handleRemove(code)}
+                className="hover:text-destructive"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -34,6 +34,7 @@ import {
   createProductSchema,
   type CreateProductInput,
 } from "../_validations/createProductSchema";
+import { BarcodeInput } from "./BarcodeInput";
 
 interface Category {
   id: number;
@@ -73,10 +74,12 @@ export function CreateProductDialog({
     defaultValues: {
       name: "",
       sku: "",
+      barcodes: [],
       price: 0,
       categoryId: null,
       stock: 0,
       isActive: true,
+      taxExempt: false,
     },
   });
 
@@ -150,6 +153,23 @@ export function CreateProductDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="barcodes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcode</FormLabel>
+                  <FormControl>
+                    <BarcodeInput value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormDescription>
+                    Satu produk dapat memiliki beberapa barcode
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="categoryId"
@@ -233,6 +253,27 @@ export function CreateProductDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="taxExempt"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Bebas Pajak</FormLabel>
+                    <FormDescription>
+                      Produk ini tidak dikenakan pajak
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
@@ -35,6 +35,7 @@ import {
   createProductSchema,
   type CreateProductInput,
 } from "../_validations/createProductSchema";
+import { BarcodeInput } from "./BarcodeInput";
 
 interface Category {
   id: number;
@@ -48,9 +49,14 @@ interface Product {
   price: number;
   categoryId: number | null;
   isActive: boolean;
+  taxExempt?: boolean;
   stock?: {
     quantity: number;
   } | null;
+  barcodes?: {
+    id: number;
+    code: string;
+  }[];
 }
 
 interface EditProductDialogProps {
@@ -88,10 +94,12 @@ export function EditProductDialog({
     defaultValues: {
       name: "",
       sku: "",
+      barcodes: [],
       price: 0,
       categoryId: null,
       stock: 0,
       isActive: true,
+      taxExempt: false,
     },
   });
 
@@ -101,10 +109,12 @@ export function EditProductDialog({
       form.reset({
         name: product.name,
         sku: product.sku,
+        barcodes: product.barcodes?.map((b) => b.code) || [],
         price: product.price,
         categoryId: product.categoryId,
         stock: product.stock?.quantity || 0,
         isActive: product.isActive,
+        taxExempt: product.taxExempt ?? false,
       });
     }
   }, [product, form]);
@@ -171,6 +181,23 @@ export function EditProductDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="barcodes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcode</FormLabel>
+                  <FormControl>
+                    <BarcodeInput value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormDescription>
+                    Satu produk dapat memiliki beberapa barcode
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="categoryId"
@@ -254,6 +281,27 @@ export function EditProductDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="taxExempt"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Bebas Pajak</FormLabel>
+                    <FormDescription>
+                      Produk ini tidak dikenakan pajak
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
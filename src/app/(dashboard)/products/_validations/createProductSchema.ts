@@ -3,10 +3,14 @@ import { z } from "zod";
 export const createProductSchema = z.object({
   name: z.string().min(1, "Nama produk wajib diisi"),
   sku: z.string().min(1, "SKU wajib diisi"),
+  barcodes: z
+    .array(z.string().trim().min(1, "Barcode tidak boleh kosong"))
+    .refine((codes) => new Set(codes).size === codes.length, "Barcode tidak boleh duplikat"),
   price: z.number().min(1, "Harga harus lebih dari 0"),
   categoryId: z.number().nullable().optional(),
   stock: z.number().min(0, "Stok tidak boleh negatif"),
   isActive: z.boolean(),
+  taxExempt: z.boolean(),
 });
 
 export const updateProductSchema = createProductSchema.partial().extend({
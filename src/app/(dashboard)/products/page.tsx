@@ -26,6 +26,7 @@ interface Product {
   price: number;
   categoryId: number | null;
   isActive: boolean;
+  taxExempt?: boolean;
   stock?: {
     quantity: number;
   } | null;
@@ -33,6 +34,10 @@ interface Product {
     id: number;
     title: string;
   } | null;
+  barcodes?: {
+    id: number;
+    code: string;
+  }[];
 }
 
 export default function ProductsPage() {
@@ -146,7 +151,12 @@ export default function ProductsPage() {
                 <TableRow key={product.id}>
                   <TableCell className="font-medium">{product.name}</TableCell>
                   <TableCell className="text-muted-foreground">
-                    {product.sku}
+                    <div>{product.sku}</div>
+                    {product.barcodes && product.barcodes.length > 0 && (
+                      <div className="text-xs font-mono">
+                        {product.barcodes.map((b) => b.code).join(", ")}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     {product.category ? (
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Tag, Loader2 } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import { PROMOTION_TYPE_LABELS, type PromotionType } from "@/lib/promotions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface Promotion {
+  id: number;
+  name: string;
+  type: PromotionType;
+}
+
+interface DeletePromotionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  promotion: Promotion | null;
+  onSuccess?: () => void;
+}
+
+export function DeletePromotionDialog({
+  open,
+  onOpenChange,
+  promotion,
+  onSuccess,
+}: DeletePromotionDialogProps) {
+  const deleteMutation = useMutation({
+    mutationFn: async (promotionId: number) => {
+      const response = await axiosInstance.delete(`/api/promotions/${promotionId}`);
+      return response;
+    },
+    onSuccess: () => {
+      toast.success("Promo berhasil dihapus");
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.error || "Gagal menghapus promo";
+      toast.error(message);
+    },
+  });
+
+  const handleDelete = () => {
+    if (promotion) {
+      deleteMutation.mutate(promotion.id);
+    }
+  };
+
+  // Reset mutation when dialog closes
+  useEffect(() => {
+    if (!open) {
+      deleteMutation.reset();
+    }
+  }, [open, deleteMutation]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Tag className="w-5 h-5" />
+            Hapus Promo
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>
+                Apakah Anda yakin ingin menghapus promo ini? Transaksi sebelumnya
+                tetap menyimpan nama promo yang dipakai.
+              </p>
+              {promotion && (
+                <div className="bg-muted p-3 rounded-md">
+                  <p className="font-medium">{promotion.name}</p>
+                  <p className="text-sm text-muted-foreground">{PROMOTION_TYPE_LABELS[promotion.type]}</p>
+                </div>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteMutation.isPending}>
+            Batal
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deleteMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menghapus...
+              </>
+            ) : (
+              "Ya, Hapus"
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,594 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Tag } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MultiSelect } from "@/components/ui/multi-select";
+import {
+  AutoComplete,
+  AutoCompleteOption,
+} from "@/components/scm-ui/AutoComplete/AutoComplete";
+import { PROMOTION_TYPE_LABELS, type PromotionType } from "@/lib/promotions";
+import {
+  promotionSchema,
+  type PromotionFormInput,
+} from "../_validations/promotionSchema";
+
+export interface Promotion {
+  id: number;
+  name: string;
+  description: string | null;
+  type: PromotionType;
+  isActive: boolean;
+  priority: number;
+  stackable: boolean;
+  productIds: number[];
+  categoryId: number | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  bundleQuantity: number | null;
+  bundlePrice: number | null;
+  minSpend: number | null;
+  discountType: "PERCENTAGE" | "NOMINAL" | null;
+  discountValue: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  daysOfWeek: number[];
+  category?: {
+    id: number;
+    title: string;
+  } | null;
+}
+
+interface Category {
+  id: number;
+  title: string;
+}
+
+interface ProductOption {
+  id: number;
+  name: string;
+  sku: string;
+}
+
+export const DAY_LABELS = ["Min", "Sen", "Sel", "Rab", "Kam", "Jum", "Sab"];
+
+const emptyForm: PromotionFormInput = {
+  name: "",
+  description: "",
+  type: "CATEGORY_PERCENT",
+  isActive: true,
+  priority: 0,
+  stackable: false,
+  productIds: [],
+  categoryId: null,
+  buyQuantity: null,
+  getQuantity: null,
+  bundleQuantity: null,
+  bundlePrice: null,
+  minSpend: null,
+  discountType: null,
+  discountValue: null,
+  startDate: "",
+  endDate: "",
+  startTime: "",
+  endTime: "",
+  daysOfWeek: [],
+};
+
+function toFormValues(promotion: Promotion): PromotionFormInput {
+  return {
+    name: promotion.name,
+    description: promotion.description || "",
+    type: promotion.type,
+    isActive: promotion.isActive,
+    priority: promotion.priority,
+    stackable: promotion.stackable,
+    productIds: promotion.productIds,
+    categoryId: promotion.categoryId,
+    buyQuantity: promotion.buyQuantity,
+    getQuantity: promotion.getQuantity,
+    bundleQuantity: promotion.bundleQuantity,
+    bundlePrice: promotion.bundlePrice,
+    minSpend: promotion.minSpend,
+    discountType: promotion.discountType,
+    discountValue: promotion.discountValue,
+    startDate: promotion.startsAt ? format(new Date(promotion.startsAt), "yyyy-MM-dd") : "",
+    endDate: promotion.endsAt ? format(new Date(promotion.endsAt), "yyyy-MM-dd") : "",
+    startTime: promotion.startTime || "",
+    endTime: promotion.endTime || "",
+    daysOfWeek: promotion.daysOfWeek,
+  };
+}
+
+/**
+ * Request body for the promotions API (dates cover whole local days)
+ */
+function toPayload(data: PromotionFormInput) {
+  const { startDate, endDate, ...rest } = data;
+
+  return {
+    ...rest,
+    description: data.description || null,
+    startsAt: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : null,
+    endsAt: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : null,
+    startTime: data.startTime || null,
+    endTime: data.endTime || null,
+  };
+}
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Promotion to edit, or null to create a new one */
+  promotion: Promotion | null;
+  onSuccess?: () => void;
+}
+
+export function PromotionFormDialog({
+  open,
+  onOpenChange,
+  promotion,
+  onSuccess,
+}: PromotionFormDialogProps) {
+  const { data: categoriesData } = useQuery({
+    queryKey: ["categories"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: Category[] }>("/api/categories");
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: productsData } = useQuery({
+    queryKey: ["products", "snapshot"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: ProductOption[] }>("/api/products/snapshot");
+      return response.data;
+    },
+    enabled: open,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const categoryOptions: AutoCompleteOption[] = (categoriesData?.data || []).map(
+    (category) => ({
+      value: category.id.toString(),
+      label: category.title,
+    })
+  );
+
+  const productOptions = (productsData?.data || []).map((product) => ({
+    value: product.id.toString(),
+    label: `${product.name} (${product.sku})`,
+  }));
+
+  const dayOptions = DAY_LABELS.map((label, index) => ({
+    value: index.toString(),
+    label,
+  }));
+
+  const form = useForm<PromotionFormInput>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: emptyForm,
+  });
+
+  const type = useWatch({ control: form.control, name: "type" });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(promotion ? toFormValues(promotion) : emptyForm);
+    }
+  }, [open, promotion, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PromotionFormInput) => {
+      const payload = toPayload(data);
+      return promotion
+        ? axiosInstance.put(`/api/promotions/${promotion.id}`, payload)
+        : axiosInstance.post("/api/promotions", payload);
+    },
+    onSuccess: () => {
+      toast.success(promotion ? "Promo berhasil diperbarui" : "Promo berhasil ditambahkan");
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menyimpan promo", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const handleSubmit = (data: PromotionFormInput) => {
+    saveMutation.mutate(data);
+  };
+
+  const numberField = (
+    name: "buyQuantity" | "getQuantity" | "bundleQuantity" | "bundlePrice" | "minSpend" | "discountValue",
+    label: string,
+    placeholder = "0"
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              placeholder={placeholder}
+              value={field.value ?? ""}
+              onChange={(e) =>
+                field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))
+              }
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const hasItemTargets = type !== "MIN_SPEND";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag className="w-5 h-5" />
+            {promotion ? "Edit Promo" : "Tambah Promo"}
+          </DialogTitle>
+          <DialogDescription>
+            Promo aktif diterapkan otomatis di keranjang kasir
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nama Promo</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Contoh: Happy Hour Kopi" {...field} />
+                  </FormControl>
+                  <FormDescription>Ditampilkan di struk pelanggan</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Deskripsi</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Opsional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Jenis Promo</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {PROMOTION_TYPE_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Type-specific rules */}
+            {type === "BUY_X_GET_Y" && (
+              <div className="grid grid-cols-2 gap-4">
+                {numberField("buyQuantity", "Beli (X)", "2")}
+                {numberField("getQuantity", "Gratis (Y)", "1")}
+              </div>
+            )}
+
+            {type === "BUNDLE_PRICE" && (
+              <div className="grid grid-cols-2 gap-4">
+                {numberField("bundleQuantity", "Isi Paket", "3")}
+                {numberField("bundlePrice", "Harga Paket", "10000")}
+              </div>
+            )}
+
+            {type === "CATEGORY_PERCENT" && numberField("discountValue", "Diskon (%)", "10")}
+
+            {type === "MIN_SPEND" && (
+              <div className="space-y-4">
+                {numberField("minSpend", "Minimal Belanja", "100000")}
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="discountType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Jenis Diskon</FormLabel>
+                        <Select
+                          value={field.value || undefined}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Pilih" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="PERCENTAGE">Persen (%)</SelectItem>
+                            <SelectItem value="NOMINAL">Nominal (Rp)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {numberField("discountValue", "Nilai Diskon")}
+                </div>
+              </div>
+            )}
+
+            {/* Targets */}
+            {hasItemTargets && (
+              <>
+                {type !== "CATEGORY_PERCENT" && (
+                  <FormField
+                    control={form.control}
+                    name="productIds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Produk</FormLabel>
+                        <FormControl>
+                          <MultiSelect
+                            options={productOptions}
+                            selected={field.value.map(String)}
+                            onChange={(values) => field.onChange(values.map(Number))}
+                            placeholder="Pilih produk"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Kategori</FormLabel>
+                      <FormControl>
+                        <AutoComplete
+                          value={categoryOptions.find(
+                            (opt) => opt.value === field.value?.toString()
+                          )}
+                          onValueChange={(value) =>
+                            field.onChange(value ? parseInt(value) : null)
+                          }
+                          options={categoryOptions}
+                          placeholder={
+                            type === "CATEGORY_PERCENT" ? "Pilih kategori" : "Semua produk kategori (opsional)"
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {/* Schedule */}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tanggal Mulai</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tanggal Selesai</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Jam Mulai</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Jam Selesai</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="daysOfWeek"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Hari</FormLabel>
+                  <FormControl>
+                    <MultiSelect
+                      options={dayOptions}
+                      selected={field.value.map(String)}
+                      onChange={(values) => field.onChange(values.map(Number))}
+                      placeholder="Setiap hari"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Isi jam untuk promo happy hour (waktu toko, WIB)
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Stacking */}
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prioritas</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Dipakai jika dua promo memberi diskon yang sama (lebih tinggi menang)
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="stackable"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Bisa Digabung</FormLabel>
+                    <FormDescription>
+                      Berlaku bersama promo terbaik lainnya
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Status Promo</FormLabel>
+                    <FormDescription>
+                      Aktifkan atau nonaktifkan promo
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Batal
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { validatePromotionRule } from "@/lib/promotions";
+
+export const promotionSchema = z
+  .object({
+    name: z.string().min(1, "Nama promo wajib diisi"),
+    description: z.string(),
+    type: z.enum(["BUY_X_GET_Y", "BUNDLE_PRICE", "CATEGORY_PERCENT", "MIN_SPEND"]),
+    isActive: z.boolean(),
+    priority: z.number().int(),
+    stackable: z.boolean(),
+    productIds: z.array(z.number()),
+    categoryId: z.number().nullable(),
+    buyQuantity: z.number().nullable(),
+    getQuantity: z.number().nullable(),
+    bundleQuantity: z.number().nullable(),
+    bundlePrice: z.number().nullable(),
+    minSpend: z.number().nullable(),
+    discountType: z.enum(["PERCENTAGE", "NOMINAL"]).nullable(),
+    discountValue: z.number().nullable(),
+    // Dates as yyyy-MM-dd from the date inputs, empty when unset
+    startDate: z.string(),
+    endDate: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+    daysOfWeek: z.array(z.number()),
+  })
+  .superRefine((data, ctx) => {
+    const error = validatePromotionRule({
+      ...data,
+      discountType: data.type === "CATEGORY_PERCENT" ? "PERCENTAGE" : data.discountType,
+      startsAt: data.startDate || null,
+      endsAt: data.endDate || null,
+      startTime: data.startTime || null,
+      endTime: data.endTime || null,
+    });
+    if (error) {
+      ctx.addIssue({ code: "custom", message: error, path: ["type"] });
+    }
+  });
+
+export type PromotionFormInput = z.infer<typeof promotionSchema>;
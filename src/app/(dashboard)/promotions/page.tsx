@@ -0,0 +1,249 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Pencil, Trash2, Plus } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  DataTable,
+  DataTableRef,
+} from "@/components/scm-ui/Datatable/Datatable";
+import { Button } from "@/components/ui/button";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import { PROMOTION_TYPE_LABELS } from "@/lib/promotions";
+import {
+  PromotionFormDialog,
+  DAY_LABELS,
+  type Promotion,
+} from "./_components/PromotionFormDialog";
+import { DeletePromotionDialog } from "./_components/DeletePromotionDialog";
+
+/**
+ * Short human description of a promotion rule
+ */
+function describeRule(promotion: Promotion): string {
+  switch (promotion.type) {
+    case "BUY_X_GET_Y":
+      return `Beli ${promotion.buyQuantity} gratis ${promotion.getQuantity}`;
+    case "BUNDLE_PRICE":
+      return `${promotion.bundleQuantity} item ${formatCurrency(promotion.bundlePrice || 0)}`;
+    case "CATEGORY_PERCENT":
+      return `Diskon ${promotion.discountValue}%`;
+    case "MIN_SPEND":
+      return `Min. ${formatCurrency(promotion.minSpend || 0)}, diskon ${
+        promotion.discountType === "PERCENTAGE"
+          ? `${promotion.discountValue}%`
+          : formatCurrency(promotion.discountValue || 0)
+      }`;
+  }
+}
+
+function describeSchedule(promotion: Promotion): string {
+  const parts: string[] = [];
+
+  if (promotion.startsAt || promotion.endsAt) {
+    const start = promotion.startsAt
+      ? format(new Date(promotion.startsAt), "dd MMM yyyy", { locale: id })
+      : "...";
+    const end = promotion.endsAt
+      ? format(new Date(promotion.endsAt), "dd MMM yyyy", { locale: id })
+      : "...";
+    parts.push(`${start} - ${end}`);
+  }
+  if (promotion.daysOfWeek.length > 0) {
+    parts.push(promotion.daysOfWeek.map((day) => DAY_LABELS[day]).join(", "));
+  }
+  if (promotion.startTime && promotion.endTime) {
+    parts.push(`${promotion.startTime}-${promotion.endTime}`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "Selalu";
+}
+
+export default function PromotionsPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const tableRef = useRef<DataTableRef>(null);
+
+  // Modal states
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(null);
+
+  // Fetch promotions action for DataTable
+  const fetchPromotions = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<Promotion>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<Promotion>>("/api/promotions", {
+        params: {
+          page: params.page,
+          limit: params.pageSize,
+          search: params.search,
+          sortBy: params.sortBy,
+          sortOrder: params.sortOrder,
+        },
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      throw error;
+    }
+  };
+
+  // Handlers
+  const invalidateTable = () => {
+    tableRef.current?.invalidate();
+  };
+
+  const openCreateModal = () => {
+    setSelectedPromotion(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditModal = (promotion: Promotion) => {
+    setSelectedPromotion(promotion);
+    setIsFormOpen(true);
+  };
+
+  const openDeleteDialog = (promotion: Promotion) => {
+    setSelectedPromotion(promotion);
+    setIsDeleteDialogOpen(true);
+  };
+
+  // Permission check
+  if (!hasPermission("promotion") && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Manajemen Promo</h1>
+          <p className="text-muted-foreground">
+            Promo otomatis untuk keranjang kasir
+          </p>
+        </div>
+        <Button onClick={openCreateModal}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Promo
+        </Button>
+      </div>
+
+      {/* DataTable */}
+      <Card>
+        <CardContent className="pt-6">
+          <DataTable<Promotion>
+            ref={tableRef}
+            fetchAction={fetchPromotions}
+            queryKey="promotions"
+            searchPlaceholder="Cari promo..."
+            columns={[
+              { key: "name", label: "Nama Promo", sortable: true },
+              { key: "type", label: "Jenis", sortable: true },
+              { key: "rule", label: "Aturan", sortable: false },
+              { key: "schedule", label: "Jadwal", sortable: false },
+              { key: "priority", label: "Prioritas", sortable: true },
+              { key: "status", label: "Status", sortable: false },
+              { key: "actions", label: "Aksi", sortable: false },
+            ]}
+            rows={(promotions) =>
+              promotions.map((promotion) => (
+                <TableRow key={promotion.id}>
+                  <TableCell className="font-medium">
+                    <div>{promotion.name}</div>
+                    {promotion.category && (
+                      <div className="text-xs text-muted-foreground">
+                        Kategori: {promotion.category.title}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{PROMOTION_TYPE_LABELS[promotion.type]}</Badge>
+                  </TableCell>
+                  <TableCell>{describeRule(promotion)}</TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {describeSchedule(promotion)}
+                  </TableCell>
+                  <TableCell>
+                    {promotion.priority}
+                    {promotion.stackable && (
+                      <Badge variant="secondary" className="ml-2">
+                        Gabung
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={promotion.isActive ? "default" : "secondary"}
+                      className={
+                        promotion.isActive ? "bg-green-500 hover:bg-green-600" : ""
+                      }
+                    >
+                      {promotion.isActive ? "Aktif" : "Nonaktif"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditModal(promotion)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openDeleteDialog(promotion)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Dialogs */}
+      <PromotionFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        promotion={selectedPromotion}
+        onSuccess={invalidateTable}
+      />
+
+      <DeletePromotionDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        promotion={selectedPromotion}
+        onSuccess={invalidateTable}
+      />
+    </div>
+  );
+}
@@ -22,7 +22,15 @@ import { RevenueChart } from "./_components/RevenueChart";
 import { ProductTable } from "./_components/ProductTable";
 
 interface Summary {
+  /** Sales minus refunds */
   totalRevenue: number;
+  grossRevenue: number;
+  totalRefunds: number;
+  totalReturns: number;
+  /** Revenue without tax and service charge */
+  netSales: number;
+  totalTax: number;
+  totalServiceCharge: number;
   totalTransactions: number;
   totalItemsSold: number;
   averageTransactionValue: number;
@@ -66,6 +74,10 @@ export default function ReportsPage() {
     {
       title: "Total Pendapatan",
       value: reportData ? formatCurrency(reportData.summary.totalRevenue) : "-",
+      subtitle:
+        reportData && reportData.summary.totalRefunds > 0
+          ? `Retur (${reportData.summary.totalReturns}): -${formatCurrency(reportData.summary.totalRefunds)}`
+          : null,
       icon: DollarSign,
       color: "text-green-600",
     },
@@ -127,6 +139,9 @@ export default function ReportsPage() {
                     {card.title}
                   </p>
                   <p className="text-2xl font-bold mt-2">{card.value}</p>
+                  {"subtitle" in card && card.subtitle && (
+                    <p className="text-xs text-destructive mt-1">{card.subtitle}</p>
+                  )}
                 </div>
                 <card.icon className={`w-8 h-8 ${card.color} opacity-80`} />
               </div>
@@ -135,6 +150,30 @@ export default function ReportsPage() {
         ))}
       </div>
 
+      {/* Net Sales vs Tax */}
+      <Card>
+        <CardContent className="p-6 grid gap-4 sm:grid-cols-3">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Penjualan Bersih</p>
+            <p className="text-xl font-bold mt-1">
+              {reportData ? formatCurrency(reportData.summary.netSales) : "-"}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Pajak Terkumpul</p>
+            <p className="text-xl font-bold mt-1">
+              {reportData ? formatCurrency(reportData.summary.totalTax) : "-"}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Service Charge</p>
+            <p className="text-xl font-bold mt-1">
+              {reportData ? formatCurrency(reportData.summary.totalServiceCharge) : "-"}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Revenue Chart */}
       <Card>
         <CardHeader>
@@ -0,0 +1,203 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Calendar, Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import type { PaymentMethodConfig } from "@/lib/payment-methods";
+
+interface SettlementRow {
+  date: string;
+  method: string;
+  count: number;
+  gross: number;
+  fees: number;
+  net: number;
+}
+
+interface SettlementReport {
+  period: string;
+  timezone: string;
+  rows: SettlementRow[];
+  totals: Omit<SettlementRow, "date" | "method">;
+}
+
+export default function SettlementReportPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const canView = hasPermission("settlement");
+  const [period, setPeriod] = useState("week");
+
+  const { data: report, isLoading: isReportLoading } = useQuery({
+    queryKey: ["settlement-report", period],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: SettlementReport }>(
+        "/api/reports/settlement",
+        { params: { period } }
+      );
+      return response.data.data;
+    },
+    enabled: canView,
+  });
+
+  const { data: methods } = useQuery({
+    queryKey: ["payment-methods"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: PaymentMethodConfig[] }>(
+        "/api/payment-methods"
+      );
+      return response.data.data;
+    },
+    enabled: canView,
+  });
+
+  const getMethodName = (code: string) => methods?.find((m) => m.code === code)?.name || code;
+
+  // Rows arrive sorted by day, newest first
+  const days = report
+    ? [...new Set(report.rows.map((row) => row.date))].map((date) => {
+        const rows = report.rows.filter((row) => row.date === date);
+        return {
+          date,
+          rows,
+          gross: rows.reduce((sum, row) => sum + row.gross, 0),
+          fees: rows.reduce((sum, row) => sum + row.fees, 0),
+          net: rows.reduce((sum, row) => sum + row.net, 0),
+        };
+      })
+    : [];
+
+  // Permission check
+  if (!canView && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const summaryCards = [
+    { title: "Bruto", value: report?.totals.gross },
+    { title: "Biaya MDR", value: report?.totals.fees },
+    { title: "Neto", value: report?.totals.net },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Laporan Settlement</h1>
+          <p className="text-muted-foreground">
+            Pembayaran yang sudah settle per hari dan metode, dipotong biaya gateway
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-muted-foreground" />
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="today">Hari Ini</SelectItem>
+              <SelectItem value="week">7 Hari Terakhir</SelectItem>
+              <SelectItem value="month">30 Hari Terakhir</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        {summaryCards.map((card) => (
+          <Card key={card.title}>
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-muted-foreground">{card.title}</p>
+              <p className="text-2xl font-bold mt-2">
+                {card.value !== undefined ? formatCurrency(card.value) : "-"}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Per Day and Method */}
+      <Card>
+        <CardContent className="pt-6">
+          {isReportLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : days.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Belum ada pembayaran yang settle pada periode ini
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal / Metode</TableHead>
+                  <TableHead className="text-right">Jumlah</TableHead>
+                  <TableHead className="text-right">Bruto</TableHead>
+                  <TableHead className="text-right">Biaya</TableHead>
+                  <TableHead className="text-right">Neto</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {days.map((day) => (
+                  <Fragment key={day.date}>
+                    <TableRow className="bg-muted/50 font-medium">
+                      <TableCell>
+                        {format(new Date(`${day.date}T00:00:00`), "EEEE, dd MMM yyyy", { locale: id })}
+                      </TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">{formatCurrency(day.gross)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(day.fees)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(day.net)}</TableCell>
+                    </TableRow>
+                    {day.rows.map((row) => (
+                      <TableRow key={`${row.date}-${row.method}`}>
+                        <TableCell className="pl-8">{getMethodName(row.method)}</TableCell>
+                        <TableCell className="text-right">{row.count}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.gross)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {row.fees > 0 ? `-${formatCurrency(row.fees)}` : formatCurrency(0)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.net)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,519 @@
+"use client";
+
+import { useRef } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ImagePlus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import axiosInstance from "@/lib/axios";
+import { getTerminalId } from "@/lib/terminal";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  formatDocumentNumber,
+  formatMoney,
+  getTerminalCode,
+  isValidCurrencyFormat,
+  isValidTimeZone,
+  validateDocumentPattern,
+} from "@/lib/store";
+import { storeSettingSchema, type StoreSettingFormInput } from "../_validations/storeSettingSchema";
+
+// Tenders the cashier offers as a single payment
+const PAYMENT_METHOD_OPTIONS = [
+  { value: "CASH", label: "Tunai" },
+  { value: "MIDTRANS_QRIS", label: "QRIS" },
+  { value: "MIDTRANS_EWALLET", label: "E-Wallet" },
+  { value: "MIDTRANS_BANK_TRANSFER", label: "Transfer Bank" },
+] as const;
+
+const SEQUENCE_RESET_OPTIONS = [
+  { value: "DAILY", label: "Setiap hari" },
+  { value: "MONTHLY", label: "Setiap bulan" },
+  { value: "YEARLY", label: "Setiap tahun" },
+  { value: "NEVER", label: "Tidak pernah" },
+] as const;
+
+// Longest side of the stored logo; receipts show it at most 64px high
+const LOGO_MAX_SIZE = 200;
+
+/**
+ * Shrink an uploaded image to a PNG data URL small enough to keep in the settings row
+ */
+function resizeLogo(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      const scale = Math.min(1, LOGO_MAX_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/png"));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Gambar tidak dapat dibaca"));
+    };
+    image.src = url;
+  });
+}
+
+interface StoreSettingsFormProps {
+  defaultValues: StoreSettingFormInput;
+}
+
+export function StoreSettingsForm({ defaultValues }: StoreSettingsFormProps) {
+  const queryClient = useQueryClient();
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<StoreSettingFormInput>({
+    resolver: zodResolver(storeSettingSchema),
+    defaultValues,
+  });
+
+  const logo = useWatch({ control: form.control, name: "logo" });
+  const invoicePattern = useWatch({ control: form.control, name: "invoicePattern" });
+  const invoiceReset = useWatch({ control: form.control, name: "invoiceReset" });
+  const invoiceScope = useWatch({ control: form.control, name: "invoiceScope" });
+  const timezone = useWatch({ control: form.control, name: "timezone" });
+  const locale = useWatch({ control: form.control, name: "locale" });
+  const currency = useWatch({ control: form.control, name: "currency" });
+  const decimals = useWatch({ control: form.control, name: "decimals" });
+
+  // Live previews, only once the inputs are usable
+  const previewTimeZone = isValidTimeZone(timezone) ? timezone : defaultValues.timezone;
+  const invoicePreview = validateDocumentPattern(invoicePattern, invoiceReset, invoiceScope)
+    ? null
+    : formatDocumentNumber(
+        invoicePattern,
+        new Date(),
+        previewTimeZone,
+        1,
+        getTerminalCode(getTerminalId())
+      );
+  const currencyFormat = { locale, currency: currency.toUpperCase(), decimals };
+  const moneyPreview =
+    /^[A-Z]{3}$/.test(currencyFormat.currency) && isValidCurrencyFormat(currencyFormat)
+      ? formatMoney(12500, currencyFormat)
+      : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: StoreSettingFormInput) => {
+      return axiosInstance.put("/api/store-settings", data);
+    },
+    onSuccess: () => {
+      toast.success("Pengaturan toko disimpan", {
+        description: "Struk dan nomor invoice berikutnya memakai pengaturan baru",
+      });
+      queryClient.invalidateQueries({ queryKey: ["store-settings"] });
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menyimpan pengaturan toko", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      form.setValue("logo", await resizeLogo(file), { shouldDirty: true });
+    } catch (error: any) {
+      toast.error("Gagal memuat logo", { description: error.message });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+        className="space-y-6"
+      >
+        {/* Store Profile */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Profil Toko</CardTitle>
+            <CardDescription>Ditampilkan di bagian atas setiap struk</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-4">
+              <div className="flex h-20 w-20 items-center justify-center rounded-lg border bg-muted/30">
+                {logo ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={logo} alt="Logo toko" className="max-h-16 max-w-16 object-contain" />
+                ) : (
+                  <ImagePlus className="h-6 w-6 text-muted-foreground" />
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => logoInputRef.current?.click()}
+                  >
+                    {logo ? "Ganti Logo" : "Unggah Logo"}
+                  </Button>
+                  {logo && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => form.setValue("logo", null, { shouldDirty: true })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  PNG, JPEG atau WebP. Tidak dicetak di printer thermal
+                </p>
+                <input
+                  ref={logoInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={handleLogoChange}
+                />
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="storeName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nama Toko</FormLabel>
+                  <FormControl>
+                    <Input placeholder="POS System" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alamat</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Jalan Contoh No. 123" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telepon</FormLabel>
+                    <FormControl>
+                      <Input placeholder="(021) 1234-5678" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="toko@contoh.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Receipt Text */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Struk</CardTitle>
+            <CardDescription>
+              Berlaku untuk struk kasir, cetak thermal dan struk digital
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="receiptHeader"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Teks Header</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="NPWP: 00.000.000.0-000.000" {...field} />
+                  </FormControl>
+                  <FormDescription>Dicetak di bawah alamat dan telepon toko</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="receiptFooter"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Teks Footer</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormDescription>Satu baris per baris struk</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Invoice Number */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Nomor Invoice</CardTitle>
+            <CardDescription>
+              Token: {"{YYYY}"} {"{YY}"} {"{MM}"} {"{DD}"} {"{YYYYMMDD}"}, {"{TERMINAL}"} untuk
+              kode terminal kasir dan {"{SEQ:n}"} untuk nomor urut n digit
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="invoiceReset"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nomor Urut Mulai Ulang</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SEQUENCE_RESET_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="invoiceScope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Penomoran</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="STORE">Satu urutan untuk toko</SelectItem>
+                        <SelectItem value="TERMINAL">Per terminal kasir</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="invoicePattern"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pola</FormLabel>
+                  <FormControl>
+                    <Input placeholder="INV-{YYYYMMDD}-{SEQ:4}" {...field} />
+                  </FormControl>
+                  {invoicePreview && (
+                    <FormDescription>
+                      Contoh: <span className="font-mono">{invoicePreview}</span>
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Regional */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Regional</CardTitle>
+            <CardDescription>
+              Zona waktu untuk tanggal struk, nomor invoice dan jam promo
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Zona Waktu</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Asia/Jakarta" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Asia/Jakarta (WIB), Asia/Makassar (WITA) atau Asia/Jayapura (WIT)
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="locale"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Locale</FormLabel>
+                    <FormControl>
+                      <Input placeholder="id-ID" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mata Uang</FormLabel>
+                    <FormControl>
+                      <Input placeholder="IDR" maxLength={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="decimals"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desimal</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={4}
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {moneyPreview ? (
+                <>
+                  Contoh: <span className="font-mono">{moneyPreview}</span>
+                </>
+              ) : (
+                "Kombinasi locale dan mata uang tidak dikenali"
+              )}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Cashier */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Kasir</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FormField
+              control={form.control}
+              name="defaultPaymentMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Metode Pembayaran Default</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-60">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PAYMENT_METHOD_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Langsung terpilih saat membuka pembayaran
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Menyimpan..." : "Simpan Pengaturan"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { TENDER_METHODS } from "@/lib/payments";
+import {
+  SEQUENCE_RESETS,
+  SEQUENCE_SCOPES,
+  isValidTimeZone,
+  validateDocumentPattern,
+} from "@/lib/store";
+
+export const storeSettingSchema = z
+  .object({
+    storeName: z.string().trim().min(1, "Nama toko wajib diisi").max(100),
+    address: z.string().trim().max(255),
+    phone: z.string().trim().max(30),
+    email: z.union([z.literal(""), z.string().trim().email("Email tidak valid").max(100)]),
+    logo: z.string().nullable(),
+    receiptHeader: z.string().max(500),
+    receiptFooter: z.string().max(500),
+    invoicePattern: z.string().trim().min(1, "Pola nomor invoice wajib diisi").max(40),
+    invoiceReset: z.enum(SEQUENCE_RESETS),
+    invoiceScope: z.enum(SEQUENCE_SCOPES),
+    timezone: z.string().trim().refine(isValidTimeZone, "Zona waktu tidak dikenal"),
+    locale: z.string().trim().min(2, "Locale wajib diisi").max(20),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{3}$/, "Kode mata uang harus 3 huruf (ISO 4217)"),
+    decimals: z.number().int().min(0).max(4),
+    defaultPaymentMethod: z.enum(TENDER_METHODS),
+  })
+  .superRefine((settings, ctx) => {
+    const patternError = validateDocumentPattern(
+      settings.invoicePattern,
+      settings.invoiceReset,
+      settings.invoiceScope
+    );
+    if (patternError) {
+      ctx.addIssue({ code: "custom", path: ["invoicePattern"], message: patternError });
+    }
+  });
+
+export type StoreSettingFormInput = z.infer<typeof storeSettingSchema>;
@@ -0,0 +1,67 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import { Card, CardContent } from "@/components/ui/card";
+import axiosInstance from "@/lib/axios";
+import type { StoreSettings } from "@/lib/store";
+import { StoreSettingsForm } from "./_components/StoreSettingsForm";
+
+export default function StoreSettingsPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const canManage = hasPermission("store");
+
+  const { data: settings, isLoading: isSettingsLoading } = useQuery({
+    queryKey: ["store-settings"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: StoreSettings }>("/api/store-settings");
+      return response.data.data;
+    },
+    enabled: canManage,
+  });
+
+  // Permission check
+  if (!canManage && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Pengaturan Toko</h1>
+        <p className="text-muted-foreground">
+          Profil toko, isi struk, format nomor invoice, zona waktu dan mata uang
+        </p>
+      </div>
+
+      {isSettingsLoading || !settings ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <StoreSettingsForm
+          defaultValues={{
+            ...settings,
+            address: settings.address ?? "",
+            phone: settings.phone ?? "",
+            email: settings.email ?? "",
+            receiptHeader: settings.receiptHeader ?? "",
+            receiptFooter: settings.receiptFooter ?? "",
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import axiosInstance from "@/lib/axios";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { taxSettingSchema, type TaxSettingFormInput } from "../_validations/taxSettingSchema";
+
+export interface TaxCategory {
+  id: number;
+  title: string;
+  taxExempt: boolean;
+}
+
+interface TaxSettingsFormProps {
+  defaultValues: TaxSettingFormInput;
+  categories: TaxCategory[];
+}
+
+export function TaxSettingsForm({ defaultValues, categories }: TaxSettingsFormProps) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<TaxSettingFormInput>({
+    resolver: zodResolver(taxSettingSchema),
+    defaultValues,
+  });
+
+  const taxEnabled = useWatch({ control: form.control, name: "taxEnabled" });
+  const serviceChargeEnabled = useWatch({ control: form.control, name: "serviceChargeEnabled" });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TaxSettingFormInput) => {
+      return axiosInstance.put("/api/tax-settings", data);
+    },
+    onSuccess: () => {
+      toast.success("Pengaturan pajak disimpan", {
+        description: "Berlaku untuk transaksi berikutnya",
+      });
+      queryClient.invalidateQueries({ queryKey: ["tax-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menyimpan pengaturan pajak", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const categoryOptions = categories.map((category) => ({
+    value: String(category.id),
+    label: category.title,
+  }));
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+        className="space-y-6"
+      >
+        {/* Tax */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pajak</CardTitle>
+            <CardDescription>
+              Dihitung setelah semua diskon dan poin, termasuk atas service charge
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="taxEnabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Kenakan Pajak</FormLabel>
+                    <FormDescription>Matikan jika toko tidak memungut pajak</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {taxEnabled && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="taxName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nama Pajak</FormLabel>
+                        <FormControl>
+                          <Input placeholder="PPN" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="taxRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tarif (%)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="taxInclusive"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Harga Sudah Termasuk Pajak</FormLabel>
+                        <FormDescription>
+                          Jika aktif, pajak tidak ditambahkan ke total tetapi tetap dicatat
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="exemptCategoryIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Kategori Bebas Pajak</FormLabel>
+                      <FormControl>
+                        <MultiSelect
+                          options={categoryOptions}
+                          selected={field.value.map(String)}
+                          onChange={(values) => field.onChange(values.map(Number))}
+                          placeholder="Tidak ada"
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Produk tertentu bisa dibebaskan dari halaman Produk
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Service Charge */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Service Charge</CardTitle>
+            <CardDescription>Persentase dari total setelah diskon</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="serviceChargeEnabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Kenakan Service Charge</FormLabel>
+                    <FormDescription>Biasanya untuk outlet kafe atau restoran</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {serviceChargeEnabled && (
+              <FormField
+                control={form.control}
+                name="serviceChargeRate"
+                render={({ field }) => (
+                  <FormItem className="max-w-[50%]">
+                    <FormLabel>Tarif (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Menyimpan..." : "Simpan Pengaturan"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
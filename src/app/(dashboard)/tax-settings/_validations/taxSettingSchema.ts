@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const taxSettingSchema = z.object({
+  taxEnabled: z.boolean(),
+  taxName: z.string().trim().min(1, "Nama pajak wajib diisi").max(20),
+  taxRate: z.number().min(0, "Tarif tidak boleh negatif").max(100, "Tarif maksimal 100%"),
+  taxInclusive: z.boolean(),
+  serviceChargeEnabled: z.boolean(),
+  serviceChargeRate: z
+    .number()
+    .min(0, "Tarif tidak boleh negatif")
+    .max(100, "Tarif maksimal 100%"),
+  exemptCategoryIds: z.array(z.number()),
+});
+
+export type TaxSettingFormInput = z.infer<typeof taxSettingSchema>;
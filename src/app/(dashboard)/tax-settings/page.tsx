@@ -0,0 +1,73 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import { Card, CardContent } from "@/components/ui/card";
+import axiosInstance from "@/lib/axios";
+import type { TaxRule } from "@/lib/tax";
+import { TaxSettingsForm, type TaxCategory } from "./_components/TaxSettingsForm";
+
+export default function TaxSettingsPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const canManage = hasPermission("tax");
+
+  const { data: taxRule, isLoading: isRuleLoading } = useQuery({
+    queryKey: ["tax-settings"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: TaxRule }>("/api/tax-settings");
+      return response.data.data;
+    },
+    enabled: canManage,
+  });
+
+  const { data: categories, isLoading: isCategoriesLoading } = useQuery({
+    queryKey: ["categories"],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: TaxCategory[] }>("/api/categories");
+      return response.data.data;
+    },
+    enabled: canManage,
+  });
+
+  // Permission check
+  if (!canManage && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Pajak & Service Charge</h1>
+        <p className="text-muted-foreground">
+          Tarif pajak (PPN), harga termasuk/belum termasuk pajak, dan service charge toko
+        </p>
+      </div>
+
+      {isRuleLoading || isCategoriesLoading || !taxRule || !categories ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <TaxSettingsForm
+          defaultValues={{
+            ...taxRule,
+            exemptCategoryIds: categories.filter((c) => c.taxExempt).map((c) => c.id),
+          }}
+          categories={categories}
+        />
+      )}
+    </div>
+  );
+}
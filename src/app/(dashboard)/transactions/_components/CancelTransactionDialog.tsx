@@ -3,7 +3,7 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { toast } from "sonner";
-import { XCircle, Clock } from "lucide-react";
+import { XCircle, Clock, CreditCard, AlertTriangle } from "lucide-react";
 import axiosInstance from "@/lib/axios";
 import {
   Dialog,
@@ -16,6 +16,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatCurrency } from "@/lib/utils";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
 import type { Transaction } from "../page";
@@ -34,19 +36,46 @@ export function CancelTransactionDialog({
   onSuccess,
 }: CancelTransactionDialogProps) {
   const [reason, setReason] = useState("");
+  // Gateway refund that failed or stayed unconfirmed, and the user's confirmation it was
+  // returned manually
+  const [refundError, setRefundError] = useState<string | null>(null);
+  const [refundStale, setRefundStale] = useState(false);
+  const [manualRefund, setManualRefund] = useState(false);
+
+  const resetState = () => {
+    setReason("");
+    setRefundError(null);
+    setRefundStale(false);
+    setManualRefund(false);
+  };
 
   const cancelMutation = useMutation({
     mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
-      const response = await axiosInstance.post(`/api/transactions/${id}/cancel`, { reason });
+      const response = await axiosInstance.post(`/api/transactions/${id}/cancel`, {
+        reason,
+        manualRefund,
+      });
       return response;
     },
-    onSuccess: () => {
-      toast.success("Transaksi berhasil dibatalkan. Stok telah dikembalikan.");
-      setReason("");
+    onSuccess: (response) => {
+      if (response.status === 202) {
+        toast.info("Refund sedang diproses", {
+          description: "Transaksi dibatalkan otomatis setelah refund berhasil",
+        });
+      } else {
+        toast.success("Transaksi berhasil dibatalkan. Stok telah dikembalikan.");
+      }
+      resetState();
       onOpenChange(false);
       onSuccess?.();
     },
     onError: (error: any) => {
+      if (error.response?.status === 502) {
+        setRefundError(error.response.data?.details || "Refund ditolak payment gateway");
+        setRefundStale(error.response.data?.data?.outcome === "REFUND_STALE");
+        onSuccess?.();
+        return;
+      }
       const message = error.response?.data?.error || "Gagal membatalkan transaksi";
       toast.error(message);
     },
@@ -63,7 +92,7 @@ export function CancelTransactionDialog({
 
   const handleOpenChange = (newOpen: boolean) => {
     if (!newOpen) {
-      setReason("");
+      resetState();
     }
     onOpenChange(newOpen);
   };
@@ -76,6 +105,13 @@ export function CancelTransactionDialog({
   const hoursDiff = (now.getTime() - transactionDate.getTime()) / (1000 * 60 * 60);
   const hoursRemaining = 24 - hoursDiff;
 
+  // Paid online tenders go back to the customer through the gateway
+  const onlinePaidAmount = (transaction.payments || [])
+    .filter(
+      (p) => p.paymentType !== "CASH" && ["settlement", "capture"].includes(p.paymentStatus)
+    )
+    .reduce((sum, p) => sum + p.amount, 0);
+
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-md">
@@ -142,6 +178,41 @@ export function CancelTransactionDialog({
             </div>
           )}
 
+          {/* Gateway refund */}
+          {onlinePaidAmount > 0 && !refundError && (
+            <div className="flex items-start gap-2 text-blue-700 bg-blue-50 dark:bg-blue-950/20 p-3 rounded-lg">
+              <CreditCard className="h-4 w-4 mt-0.5 shrink-0" />
+              <div className="text-sm">
+                {formatCurrency(onlinePaidAmount)} dibayar online dan akan di-refund melalui
+                payment gateway. Transaksi dibatalkan setelah refund berhasil.
+              </div>
+            </div>
+          )}
+
+          {refundError && (
+            <div className="space-y-3 text-destructive bg-destructive/10 p-3 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div className="text-sm">
+                  <span className="font-medium">
+                    {refundStale ? "Refund belum dikonfirmasi: " : "Refund gagal: "}
+                  </span>
+                  {refundError}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-foreground">
+                <Checkbox
+                  id="manualRefund"
+                  checked={manualRefund}
+                  onCheckedChange={(checked) => setManualRefund(checked === true)}
+                />
+                <Label htmlFor="manualRefund" className="text-sm font-normal">
+                  Dana sudah dikembalikan ke pelanggan secara manual
+                </Label>
+              </div>
+            </div>
+          )}
+
           {/* Reason input */}
           <div className="space-y-2">
             <Label htmlFor="reason">
@@ -171,7 +242,13 @@ export function CancelTransactionDialog({
             onClick={handleCancel}
             disabled={cancelMutation.isPending || !reason.trim()}
           >
-            {cancelMutation.isPending ? "Memproses..." : "Ya, Batalkan Transaksi"}
+            {cancelMutation.isPending
+              ? "Memproses..."
+              : refundError && !manualRefund
+                ? refundStale
+                  ? "Cek Status Refund"
+                  : "Coba Refund Lagi"
+                : "Ya, Batalkan Transaksi"}
           </Button>
         </DialogFooter>
       </DialogContent>
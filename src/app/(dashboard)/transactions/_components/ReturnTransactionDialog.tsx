@@ -0,0 +1,244 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Undo2 } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatCurrency } from "@/lib/utils";
+import { allocateLineTotals, calculateLineRefund } from "@/lib/refunds";
+import type { Transaction } from "../page";
+
+interface ReturnTransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: Transaction | null;
+  onSuccess?: () => void;
+}
+
+export function ReturnTransactionDialog({
+  open,
+  onOpenChange,
+  transaction,
+  onSuccess,
+}: ReturnTransactionDialogProps) {
+  // Quantity to return and restock choice per transaction item
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [writeOffs, setWriteOffs] = useState<Record<number, boolean>>({});
+  const [reason, setReason] = useState("");
+  const [refundMethod, setRefundMethod] = useState<"CASH" | "STORE_CREDIT">("CASH");
+
+  const resetForm = () => {
+    setQuantities({});
+    setWriteOffs({});
+    setReason("");
+    setRefundMethod("CASH");
+  };
+
+  const lines = useMemo(() => {
+    if (!transaction) return [];
+
+    const lineTotals = allocateLineTotals(transaction.items, transaction.totalAmount);
+
+    return transaction.items.map((item) => {
+      const returnedQuantity = item.returnedQuantity || 0;
+      const remaining = item.quantity - returnedQuantity;
+      const quantity = Math.min(Math.max(parseInt(quantities[item.id]) || 0, 0), remaining);
+
+      return {
+        item,
+        remaining,
+        quantity,
+        refund: calculateLineRefund(
+          lineTotals.get(item.id) || 0,
+          item.quantity,
+          returnedQuantity,
+          quantity
+        ),
+      };
+    });
+  }, [transaction, quantities]);
+
+  const selectedLines = lines.filter((line) => line.quantity > 0);
+  const refundTotal = selectedLines.reduce((sum, line) => sum + line.refund, 0);
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axiosInstance.post(`/api/transactions/${transaction?.id}/returns`, {
+        reason,
+        refundMethod,
+        items: selectedLines.map((line) => ({
+          transactionItemId: line.item.id,
+          quantity: line.quantity,
+          restock: !writeOffs[line.item.id],
+        })),
+      });
+      return response.data.data;
+    },
+    onSuccess: (salesReturn) => {
+      toast.success(`Retur ${salesReturn.returnNo} tercatat`, {
+        description:
+          salesReturn.refundMethod === "CASH"
+            ? `Kembalikan ${formatCurrency(salesReturn.refundAmount)} tunai ke pelanggan`
+            : `${formatCurrency(salesReturn.refundAmount)} masuk ke kredit toko pelanggan`,
+      });
+      resetForm();
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const data = error.response?.data;
+      const details =
+        data?.details && typeof data.details === "object"
+          ? Object.values(data.details).flat()[0]
+          : data?.details;
+      toast.error(data?.error || "Gagal memproses retur", {
+        description: typeof details === "string" ? details : undefined,
+      });
+    },
+  });
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetForm();
+    }
+    onOpenChange(newOpen);
+  };
+
+  if (!transaction) return null;
+
+  const canSubmit = selectedLines.length > 0 && !!reason.trim() && !returnMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Retur Barang
+          </DialogTitle>
+          <DialogDescription>
+            Invoice {transaction.invoiceNo} &middot; {formatCurrency(transaction.totalAmount)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Items */}
+          <div className="space-y-3">
+            {lines.map(({ item, remaining, quantity, refund }) => (
+              <div key={item.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="font-medium">{item.productName}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {remaining} / {item.quantity} bisa diretur
+                  </span>
+                </div>
+                {remaining > 0 && (
+                  <div className="flex items-center gap-3">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      placeholder="0"
+                      value={quantities[item.id] ?? ""}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({ ...prev, [item.id]: e.target.value }))
+                      }
+                      className="w-20 h-8"
+                    />
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`write-off-${item.id}`}
+                        checked={!!writeOffs[item.id]}
+                        onCheckedChange={(checked) =>
+                          setWriteOffs((prev) => ({ ...prev, [item.id]: checked === true }))
+                        }
+                      />
+                      <Label htmlFor={`write-off-${item.id}`} className="text-xs font-normal">
+                        Rusak (tidak kembali ke stok)
+                      </Label>
+                    </div>
+                    {quantity > 0 && (
+                      <span className="ml-auto text-sm">{formatCurrency(refund)}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Refund */}
+          <div className="space-y-2">
+            <Label>Metode Refund</Label>
+            <Select
+              value={refundMethod}
+              onValueChange={(value) => setRefundMethod(value as "CASH" | "STORE_CREDIT")}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="CASH">Tunai (dari laci kas)</SelectItem>
+                <SelectItem value="STORE_CREDIT" disabled={!transaction.customer}>
+                  Kredit Toko{transaction.customer ? ` - ${transaction.customer.name}` : " (khusus member)"}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">
+              Alasan Retur <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="return-reason"
+              placeholder="Contoh: barang cacat, salah ukuran..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="bg-muted rounded-lg p-3 flex justify-between font-medium">
+            <span>Total Refund</span>
+            <span>{formatCurrency(refundTotal)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={returnMutation.isPending}
+          >
+            Batal
+          </Button>
+          <Button onClick={() => returnMutation.mutate()} disabled={!canSubmit}>
+            {returnMutation.isPending ? "Memproses..." : "Proses Retur"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,10 +12,37 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
-import { Receipt, Printer, Percent } from "lucide-react";
+import { Receipt, Printer, Percent, ReceiptText, ExternalLink } from "lucide-react";
+import { toast } from "sonner";
 import { formatCurrency } from "@/lib/utils";
+import { getPrinterSettings, printTransactionReceipt } from "@/lib/printer";
+import { getDigitalReceiptUrl } from "@/lib/digital-receipt";
+import { useStoreSettings } from "@/providers/store-settings-provider";
 import type { Transaction } from "../page";
 
+// Display name for a payment line
+function getPaymentLabel(payment: { paymentType: string; paymentMethod: string | null }) {
+  if (payment.paymentType === "CASH") return "Tunai";
+  return payment.paymentMethod
+    ? payment.paymentMethod.replace(/_/g, " ").toUpperCase()
+    : "Midtrans";
+}
+
+const REFUND_STATUS_LABELS: Record<string, string> = {
+  PENDING: "Refund diproses",
+  SUCCEEDED: "Refund berhasil",
+  FAILED: "Refund gagal",
+  MANUAL: "Refund manual",
+};
+
+const SETTLEMENT_STATUS_LABELS: Record<string, string> = {
+  MATCHED: "Settlement cocok",
+  AMOUNT_MISMATCH: "Nominal settlement berbeda",
+  NOT_SETTLED_LOCALLY: "Settle di gateway",
+  STATUS_MISMATCH: "Status settlement berbeda",
+  MISSING_IN_FILE: "Tidak ada di settlement",
+};
+
 interface TransactionDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -27,12 +54,27 @@ export function TransactionDetailDialog({
   onOpenChange,
   transaction,
 }: TransactionDetailDialogProps) {
+  const { settings: store } = useStoreSettings();
+
   const handlePrint = () => {
     window.print();
   };
 
   if (!transaction) return null;
 
+  // Reprint on this terminal's thermal printer (never opens the cash drawer)
+  const canPrintThermal = getPrinterSettings().connection !== "none";
+  const handleThermalPrint = async () => {
+    try {
+      await printTransactionReceipt(transaction.id);
+      toast.success("Struk dikirim ke printer");
+    } catch (error: any) {
+      toast.error("Gagal mencetak ke printer thermal", {
+        description: error?.message,
+      });
+    }
+  };
+
   // Calculate totals
   const subtotal = transaction.items.reduce((sum, item) => {
     return sum + (item.discountPrice || item.price) * item.quantity;
@@ -42,8 +84,20 @@ export function TransactionDetailDialog({
     return sum + (item.discountAmount || 0);
   }, 0);
 
+  const promotionDiscount =
+    transaction.items.reduce((sum, item) => sum + (item.promotionDiscount || 0), 0) +
+    (transaction.promotionDiscount || 0);
+  const promotionNames = Array.from(
+    new Set([
+      ...transaction.items.flatMap((item) => item.promotionNames || []),
+      ...(transaction.promotionNames || []),
+    ])
+  );
+
   const transactionDiscountAmount = transaction.discountAmount || 0;
-  const totalDiscount = totalItemDiscounts + transactionDiscountAmount;
+  const pointsDiscount = transaction.pointsDiscount || 0;
+  const totalDiscount =
+    totalItemDiscounts + promotionDiscount + transactionDiscountAmount + pointsDiscount;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -61,12 +115,21 @@ export function TransactionDetailDialog({
         <div className="space-y-4 print:space-y-2">
           {/* Header */}
           <div className="text-center print:text-left">
-            <h3 className="text-lg font-bold">POS System</h3>
+            <h3 className="text-lg font-bold">{store.storeName}</h3>
             <p className="text-sm text-muted-foreground">
               {format(new Date(transaction.createdAt), "dd MMM yyyy, HH:mm", {
                 locale: id,
               })}
             </p>
+            <a
+              href={getDigitalReceiptUrl(transaction.receiptToken)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-primary hover:underline print:hidden"
+            >
+              <ExternalLink className="w-3 h-3" />
+              Struk Digital
+            </a>
           </div>
 
           <Separator />
@@ -94,6 +157,16 @@ export function TransactionDetailDialog({
                           </span>
                         )}
                       </p>
+                      {item.promotionDiscount && item.promotionDiscount > 0 ? (
+                        <p className="text-xs text-destructive">
+                          {item.promotionNames?.join(", ")} (-{formatCurrency(item.promotionDiscount)})
+                        </p>
+                      ) : null}
+                      {item.returnedQuantity ? (
+                        <p className="text-xs text-muted-foreground">
+                          {item.returnedQuantity} diretur
+                        </p>
+                      ) : null}
                     </div>
                     <p className="font-medium">{formatCurrency(item.subtotal)}</p>
                   </div>
@@ -122,12 +195,23 @@ export function TransactionDetailDialog({
               </div>
             )}
 
+            {/* Automatic Promotions */}
+            {promotionDiscount > 0 && (
+              <div className="flex justify-between text-sm text-destructive">
+                <span className="flex items-center gap-1">
+                  <Percent className="w-3 h-3" />
+                  Promo ({promotionNames.join(", ")})
+                </span>
+                <span>-{formatCurrency(promotionDiscount)}</span>
+              </div>
+            )}
+
             {/* Transaction Discount */}
             {transactionDiscountAmount > 0 && (
               <div className="flex justify-between text-sm text-destructive">
                 <span className="flex items-center gap-1">
                   <Percent className="w-3 h-3" />
-                  Diskon Transaksi (
+                  {transaction.voucherCode ? `Voucher ${transaction.voucherCode}` : "Diskon Transaksi"} (
                   {transaction.discountType === "PERCENTAGE"
                     ? `${transaction.discountValue}%`
                     : transaction.discountType === "NOMINAL"
@@ -139,6 +223,17 @@ export function TransactionDetailDialog({
               </div>
             )}
 
+            {/* Loyalty Points */}
+            {pointsDiscount > 0 && (
+              <div className="flex justify-between text-sm text-destructive">
+                <span className="flex items-center gap-1">
+                  <Percent className="w-3 h-3" />
+                  Tukar Poin ({transaction.pointsRedeemed})
+                </span>
+                <span>-{formatCurrency(pointsDiscount)}</span>
+              </div>
+            )}
+
             {totalDiscount > 0 && (
               <>
                 <Separator />
@@ -151,6 +246,25 @@ export function TransactionDetailDialog({
               </>
             )}
 
+            {/* Service Charge and Tax */}
+            {transaction.serviceChargeAmount ? (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Service Charge ({transaction.serviceChargeRate}%)
+                </span>
+                <span>{formatCurrency(transaction.serviceChargeAmount)}</span>
+              </div>
+            ) : null}
+            {transaction.taxAmount ? (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {transaction.taxName || "Pajak"} {transaction.taxRate}%
+                  {transaction.taxInclusive ? " (termasuk)" : ""}
+                </span>
+                <span>{formatCurrency(transaction.taxAmount)}</span>
+              </div>
+            ) : null}
+
             <Separator />
             <div className="flex justify-between text-lg font-bold">
               <span>Total</span>
@@ -162,12 +276,71 @@ export function TransactionDetailDialog({
 
           <Separator />
 
+          {/* Payments */}
+          {transaction.payments && transaction.payments.length > 0 && (
+            <>
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">Pembayaran</h4>
+                {transaction.payments.map((payment) => (
+                  <div key={payment.id} className="flex justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      {getPaymentLabel(payment)}
+                      {!["settlement", "capture"].includes(payment.paymentStatus) && (
+                        <Badge variant="outline" className="text-xs">
+                          {payment.paymentStatus}
+                        </Badge>
+                      )}
+                      {payment.settlementStatus && SETTLEMENT_STATUS_LABELS[payment.settlementStatus] && (
+                        <Badge
+                          variant={payment.settlementStatus === "MATCHED" ? "secondary" : "destructive"}
+                          className="text-xs"
+                        >
+                          {SETTLEMENT_STATUS_LABELS[payment.settlementStatus]}
+                        </Badge>
+                      )}
+                    </span>
+                    <span>{formatCurrency(payment.amount)}</span>
+                  </div>
+                ))}
+                {transaction.payments.flatMap((payment) =>
+                  (payment.refunds || []).map((refund) => (
+                    <div key={`refund-${refund.id}`} className="flex justify-between text-sm text-muted-foreground">
+                      <span className="flex items-center gap-2">
+                        {getPaymentLabel(payment)}
+                        <Badge
+                          variant={refund.status === "FAILED" ? "destructive" : "outline"}
+                          className="text-xs"
+                          title={refund.statusMessage || undefined}
+                        >
+                          {REFUND_STATUS_LABELS[refund.status]}
+                        </Badge>
+                      </span>
+                      <span>-{formatCurrency(refund.amount)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <Separator />
+            </>
+          )}
+
           {/* Info */}
           <div className="flex justify-between text-sm text-muted-foreground">
             <span>Kasir</span>
             <span>{transaction.cashier.name || transaction.cashier.username}</span>
           </div>
 
+          {transaction.customer && (
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Member</span>
+              <span>
+                {transaction.customer.name} ({transaction.customer.phone})
+                {transaction.pointsEarned ? ` +${transaction.pointsEarned} poin` : ""}
+              </span>
+            </div>
+          )}
+
           <div className="flex justify-between text-sm">
             <span>Status</span>
             <Badge
@@ -204,6 +377,24 @@ export function TransactionDetailDialog({
             </>
           )}
 
+          {/* Returns */}
+          {transaction.returns && transaction.returns.length > 0 && (
+            <div className="bg-muted rounded-lg p-3 space-y-1">
+              <p className="text-xs font-medium">Retur:</p>
+              {transaction.returns.map((salesReturn) => (
+                <div key={salesReturn.id} className="flex justify-between text-sm">
+                  <span>
+                    {salesReturn.returnNo} (
+                    {salesReturn.refundMethod === "CASH" ? "Tunai" : "Kredit Toko"})
+                  </span>
+                  <span className="text-destructive">
+                    -{formatCurrency(salesReturn.refundAmount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Actions - Hidden when printing */}
           <div className="flex gap-2 pt-4 print:hidden">
             <Button
@@ -214,6 +405,12 @@ export function TransactionDetailDialog({
               <Printer className="w-4 h-4 mr-2" />
               Cetak
             </Button>
+            {canPrintThermal && (
+              <Button variant="outline" className="flex-1" onClick={handleThermalPrint}>
+                <ReceiptText className="w-4 h-4 mr-2" />
+                Thermal
+              </Button>
+            )}
             <Button
               variant="default"
               className="flex-1"
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { Eye, XCircle } from "lucide-react";
+import { Eye, XCircle, Undo2 } from "lucide-react";
 import { usePermission } from "@/hooks/use-permission";
 import {
   DataTable,
@@ -18,6 +18,7 @@ import axiosInstance from "@/lib/axios";
 import { formatCurrency } from "@/lib/utils";
 import { TransactionDetailDialog } from "./_components/TransactionDetailDialog";
 import { CancelTransactionDialog } from "./_components/CancelTransactionDialog";
+import { ReturnTransactionDialog } from "./_components/ReturnTransactionDialog";
 
 export type { Transaction };
 
@@ -30,11 +31,36 @@ interface TransactionItem {
   subtotal: number;
   discountPrice?: number;
   discountAmount?: number;
+  promotionDiscount?: number;
+  promotionNames?: string[];
+  returnedQuantity?: number;
+}
+
+interface PaymentRefund {
+  id: number;
+  amount: number;
+  status: "PENDING" | "SUCCEEDED" | "FAILED" | "MANUAL";
+  statusMessage: string | null;
+  createdAt: string;
+}
+
+interface TransactionPayment {
+  id: number;
+  sequence: number;
+  amount: number;
+  paymentType: string;
+  paymentMethod: string | null;
+  paymentStatus: string;
+  paidAt: string | null;
+  refunds?: PaymentRefund[];
+  /** Result of the latest Midtrans settlement file that covered it */
+  settlementStatus?: string | null;
 }
 
 interface Transaction {
   id: number;
   invoiceNo: string;
+  receiptToken: string;
   totalAmount: number;
   status: "COMPLETED" | "CANCELED";
   createdAt: string;
@@ -45,6 +71,7 @@ interface Transaction {
     username: string;
   };
   items: TransactionItem[];
+  payments?: TransactionPayment[];
   cancelLogs?: {
     id: number;
     reason: string;
@@ -54,6 +81,30 @@ interface Transaction {
   discountAmount?: number;
   discountType?: string | null;
   discountValue?: number | null;
+  promotionDiscount?: number;
+  promotionNames?: string[];
+  voucherCode?: string | null;
+  customer?: {
+    id: number;
+    name: string;
+    phone: string;
+  } | null;
+  pointsRedeemed?: number;
+  pointsDiscount?: number;
+  pointsEarned?: number;
+  serviceChargeAmount?: number;
+  serviceChargeRate?: number;
+  taxName?: string | null;
+  taxAmount?: number;
+  taxRate?: number;
+  taxInclusive?: boolean;
+  returns?: {
+    id: number;
+    returnNo: string;
+    refundMethod: "CASH" | "STORE_CREDIT";
+    refundAmount: number;
+    createdAt: string;
+  }[];
 }
 
 export default function TransactionsPage() {
@@ -62,6 +113,7 @@ export default function TransactionsPage() {
 
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [isReturnDialogOpen, setIsReturnDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
 
   // Fetch transactions action for DataTable
@@ -101,13 +153,28 @@ export default function TransactionsPage() {
     setIsCancelDialogOpen(true);
   };
 
+  const openReturnDialog = (transaction: Transaction) => {
+    setSelectedTransaction(transaction);
+    setIsReturnDialogOpen(true);
+  };
+
   const invalidateTable = () => {
     tableRef.current?.invalidate();
   };
 
+  // Cancellation waiting on its gateway refunds: latest refund status of an open request
+  const getOpenRefundStatus = (transaction: Transaction) => {
+    if (transaction.status === "CANCELED") return null;
+    const refunds = (transaction.payments || []).flatMap((p) => p.refunds || []);
+    return refunds.length > 0 ? refunds[refunds.length - 1].status : null;
+  };
+
   // Check if transaction can be canceled (within 24 hours and not already canceled)
   const canCancelTransaction = (transaction: Transaction): boolean => {
     if (transaction.status === "CANCELED") return false;
+    if (transaction.returns && transaction.returns.length > 0) return false;
+    // An unfinished cancellation can always be completed
+    if (getOpenRefundStatus(transaction)) return true;
 
     const now = new Date();
     const transactionDate = new Date(transaction.createdAt);
@@ -116,6 +183,14 @@ export default function TransactionsPage() {
     return hoursDiff <= 24;
   };
 
+  // Completed sales with units left to return
+  const canReturnTransaction = (transaction: Transaction): boolean => {
+    return (
+      transaction.status === "COMPLETED" &&
+      transaction.items.some((item) => (item.returnedQuantity || 0) < item.quantity)
+    );
+  };
+
   // Permission check
   if (!hasPermission("transaction") && !isLoading) {
     return (
@@ -198,6 +273,13 @@ export default function TransactionsPage() {
                     >
                       {transaction.status === "COMPLETED" ? "Selesai" : "Batal"}
                     </Badge>
+                    {getOpenRefundStatus(transaction) && (
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        {getOpenRefundStatus(transaction) === "FAILED"
+                          ? "Refund gagal"
+                          : "Menunggu refund"}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
@@ -208,6 +290,16 @@ export default function TransactionsPage() {
                       >
                         <Eye className="h-4 w-4" />
                       </Button>
+                      {canReturnTransaction(transaction) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Retur"
+                          onClick={() => openReturnDialog(transaction)}
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      )}
                       {canCancelTransaction(transaction) && (
                         <Button
                           variant="ghost"
@@ -241,6 +333,14 @@ export default function TransactionsPage() {
         transaction={selectedTransaction}
         onSuccess={invalidateTable}
       />
+
+      {/* Return Dialog */}
+      <ReturnTransactionDialog
+        open={isReturnDialogOpen}
+        onOpenChange={setIsReturnDialogOpen}
+        transaction={selectedTransaction}
+        onSuccess={invalidateTable}
+      />
     </div>
   );
 }
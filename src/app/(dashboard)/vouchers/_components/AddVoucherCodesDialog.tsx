@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Ticket } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  voucherCodesSchema,
+  parseVoucherCodeList,
+  type VoucherCodesFormInput,
+} from "../_validations/voucherSchema";
+import type { VoucherCampaign } from "./VoucherCampaignFormDialog";
+
+interface AddVoucherCodesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaign: VoucherCampaign | null;
+  onSuccess?: () => void;
+}
+
+export function AddVoucherCodesDialog({
+  open,
+  onOpenChange,
+  campaign,
+  onSuccess,
+}: AddVoucherCodesDialogProps) {
+  const form = useForm<VoucherCodesFormInput>({
+    resolver: zodResolver(voucherCodesSchema),
+    defaultValues: {
+      mode: "generate",
+      prefix: "",
+      count: 10,
+      codes: "",
+      usageLimit: 1,
+    },
+  });
+
+  const mode = useWatch({ control: form.control, name: "mode" });
+
+  useEffect(() => {
+    if (open && campaign) {
+      form.reset({
+        mode: "generate",
+        prefix: "",
+        count: 10,
+        codes: "",
+        usageLimit: campaign.usageLimit,
+      });
+    }
+  }, [open, campaign, form]);
+
+  const addMutation = useMutation({
+    mutationFn: async (data: VoucherCodesFormInput) => {
+      const payload =
+        data.mode === "generate"
+          ? { mode: data.mode, prefix: data.prefix, count: data.count, usageLimit: data.usageLimit }
+          : { mode: data.mode, codes: parseVoucherCodeList(data.codes), usageLimit: data.usageLimit };
+      const response = await axiosInstance.post(`/api/vouchers/${campaign?.id}/codes`, payload);
+      return response.data.data as { created: number; skipped: string[] };
+    },
+    onSuccess: (result) => {
+      toast.success(`${result.created} kode voucher ditambahkan`, {
+        description:
+          result.skipped.length > 0
+            ? `Sudah terdaftar (dilewati): ${result.skipped.join(", ")}`
+            : undefined,
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menambahkan kode voucher", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const handleSubmit = (data: VoucherCodesFormInput) => {
+    addMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            Tambah Kode Voucher
+          </DialogTitle>
+          <DialogDescription>{campaign?.name}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <Tabs
+              value={mode}
+              onValueChange={(value) => form.setValue("mode", value as VoucherCodesFormInput["mode"])}
+            >
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="generate">Buat Otomatis</TabsTrigger>
+                <TabsTrigger value="import">Impor Kode</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {mode === "generate" ? (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="prefix"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prefix</FormLabel>
+                      <FormControl>
+                        <Input placeholder="RAMADAN" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Jumlah Kode</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          value={field.value}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            ) : (
+              <FormField
+                control={form.control}
+                name="codes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Daftar Kode</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        rows={8}
+                        placeholder={"VCR-001\nVCR-002\nVCR-003"}
+                        className="font-mono"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Satu kode per baris (atau pisahkan dengan koma). Kode yang sudah terdaftar dilewati.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="usageLimit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Batas Pakai per Kode</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      value={field.value}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Batal
+              </Button>
+              <Button type="submit" disabled={addMutation.isPending}>
+                {addMutation.isPending ? "Menyimpan..." : "Tambah Kode"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Ticket, Loader2 } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { VoucherCampaign } from "./VoucherCampaignFormDialog";
+
+interface DeleteVoucherCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaign: VoucherCampaign | null;
+  onSuccess?: () => void;
+}
+
+export function DeleteVoucherCampaignDialog({
+  open,
+  onOpenChange,
+  campaign,
+  onSuccess,
+}: DeleteVoucherCampaignDialogProps) {
+  const deleteMutation = useMutation({
+    mutationFn: async (campaignId: number) => {
+      const response = await axiosInstance.delete(`/api/vouchers/${campaignId}`);
+      return response;
+    },
+    onSuccess: () => {
+      toast.success("Kampanye voucher berhasil dihapus");
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.details || "Gagal menghapus kampanye voucher";
+      toast.error(message);
+    },
+  });
+
+  const handleDelete = () => {
+    if (campaign) {
+      deleteMutation.mutate(campaign.id);
+    }
+  };
+
+  // Reset mutation when dialog closes
+  useEffect(() => {
+    if (!open) {
+      deleteMutation.reset();
+    }
+  }, [open, deleteMutation]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            Hapus Kampanye Voucher
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>
+                Semua kode di kampanye ini ikut terhapus. Kampanye yang sudah pernah
+                dipakai transaksi hanya bisa dinonaktifkan.
+              </p>
+              {campaign && (
+                <div className="bg-muted p-3 rounded-md">
+                  <p className="font-medium">{campaign.name}</p>
+                  <p className="text-sm text-muted-foreground">{campaign.codeCount} kode</p>
+                </div>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteMutation.isPending}>
+            Batal
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deleteMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menghapus...
+              </>
+            ) : (
+              "Ya, Hapus"
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Ticket } from "lucide-react";
+import axiosInstance from "@/lib/axios";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  voucherCampaignSchema,
+  type VoucherCampaignFormInput,
+} from "../_validations/voucherSchema";
+
+export interface VoucherCampaign {
+  id: number;
+  name: string;
+  description: string | null;
+  discountType: "PERCENTAGE" | "NOMINAL";
+  discountValue: number;
+  minPurchase: number;
+  usageLimit: number;
+  startsAt: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+  codeCount: number;
+  usedCount: number;
+}
+
+const emptyForm: VoucherCampaignFormInput = {
+  name: "",
+  description: "",
+  discountType: "NOMINAL",
+  discountValue: 0,
+  minPurchase: 0,
+  usageLimit: 1,
+  startDate: "",
+  expiryDate: "",
+  isActive: true,
+};
+
+function toFormValues(campaign: VoucherCampaign): VoucherCampaignFormInput {
+  return {
+    name: campaign.name,
+    description: campaign.description || "",
+    discountType: campaign.discountType,
+    discountValue: campaign.discountValue,
+    minPurchase: campaign.minPurchase,
+    usageLimit: campaign.usageLimit,
+    startDate: campaign.startsAt ? format(new Date(campaign.startsAt), "yyyy-MM-dd") : "",
+    expiryDate: campaign.expiresAt ? format(new Date(campaign.expiresAt), "yyyy-MM-dd") : "",
+    isActive: campaign.isActive,
+  };
+}
+
+/**
+ * Request body for the vouchers API (dates cover whole local days)
+ */
+function toPayload(data: VoucherCampaignFormInput) {
+  const { startDate, expiryDate, ...rest } = data;
+
+  return {
+    ...rest,
+    description: data.description || null,
+    startsAt: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : null,
+    expiresAt: expiryDate ? new Date(`${expiryDate}T23:59:59.999`).toISOString() : null,
+  };
+}
+
+interface VoucherCampaignFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Campaign to edit, or null to create a new one */
+  campaign: VoucherCampaign | null;
+  onSuccess?: () => void;
+}
+
+export function VoucherCampaignFormDialog({
+  open,
+  onOpenChange,
+  campaign,
+  onSuccess,
+}: VoucherCampaignFormDialogProps) {
+  const form = useForm<VoucherCampaignFormInput>({
+    resolver: zodResolver(voucherCampaignSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(campaign ? toFormValues(campaign) : emptyForm);
+    }
+  }, [open, campaign, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: VoucherCampaignFormInput) => {
+      const payload = toPayload(data);
+      return campaign
+        ? axiosInstance.put(`/api/vouchers/${campaign.id}`, payload)
+        : axiosInstance.post("/api/vouchers", payload);
+    },
+    onSuccess: () => {
+      toast.success(campaign ? "Kampanye voucher diperbarui" : "Kampanye voucher ditambahkan");
+      onOpenChange(false);
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      const details = error.response?.data?.details;
+      const firstDetail =
+        details && typeof details === "object" ? Object.values(details).flat()[0] : undefined;
+      toast.error(error.response?.data?.error || "Gagal menyimpan kampanye voucher", {
+        description: typeof firstDetail === "string" ? firstDetail : undefined,
+      });
+    },
+  });
+
+  const handleSubmit = (data: VoucherCampaignFormInput) => {
+    saveMutation.mutate(data);
+  };
+
+  const numberField = (
+    name: "discountValue" | "minPurchase" | "usageLimit",
+    label: string,
+    description?: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              value={field.value}
+              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            {campaign ? "Edit Kampanye Voucher" : "Tambah Kampanye Voucher"}
+          </DialogTitle>
+          <DialogDescription>
+            Aturan diskon berlaku untuk semua kode di kampanye ini
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nama Kampanye</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Contoh: Voucher Ramadan" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Deskripsi</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Opsional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Jenis Diskon</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="PERCENTAGE">Persen (%)</SelectItem>
+                        <SelectItem value="NOMINAL">Nominal (Rp)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {numberField("discountValue", "Nilai Diskon")}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {numberField("minPurchase", "Minimal Belanja", "0 = tanpa minimal")}
+              {numberField("usageLimit", "Batas Pakai per Kode", "1 = sekali pakai")}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Berlaku Mulai</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiryDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Kedaluwarsa</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Status Kampanye</FormLabel>
+                    <FormDescription>
+                      Kode dari kampanye nonaktif tidak bisa dipakai
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Batal
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
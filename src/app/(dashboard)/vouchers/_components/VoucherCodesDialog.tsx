@@ -0,0 +1,94 @@
+"use client";
+
+import { Ticket } from "lucide-react";
+import { DataTable } from "@/components/scm-ui/Datatable/Datatable";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import type { VoucherCampaign } from "./VoucherCampaignFormDialog";
+
+interface VoucherCode {
+  id: number;
+  code: string;
+  usageLimit: number;
+  usedCount: number;
+}
+
+interface VoucherCodesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaign: VoucherCampaign | null;
+}
+
+export function VoucherCodesDialog({ open, onOpenChange, campaign }: VoucherCodesDialogProps) {
+  const fetchCodes = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+  }): Promise<FetchResult<VoucherCode>> => {
+    const response = await axiosInstance.get<FetchResult<VoucherCode>>(
+      `/api/vouchers/${campaign?.id}/codes`,
+      {
+        params: {
+          page: params.page,
+          limit: params.pageSize,
+          search: params.search,
+        },
+      }
+    );
+
+    return response.data;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            Kode Voucher
+          </DialogTitle>
+          <DialogDescription>{campaign?.name}</DialogDescription>
+        </DialogHeader>
+
+        {campaign && (
+          <DataTable<VoucherCode>
+            fetchAction={fetchCodes}
+            queryKey={`voucher-codes-${campaign.id}`}
+            searchPlaceholder="Cari kode..."
+            columns={[
+              { key: "code", label: "Kode", sortable: false },
+              { key: "usage", label: "Pemakaian", sortable: false },
+              { key: "status", label: "Status", sortable: false },
+            ]}
+            rows={(codes) =>
+              codes.map((voucher) => (
+                <TableRow key={voucher.id}>
+                  <TableCell className="font-mono">{voucher.code}</TableCell>
+                  <TableCell>
+                    {voucher.usedCount} / {voucher.usageLimit}
+                  </TableCell>
+                  <TableCell>
+                    {voucher.usedCount >= voucher.usageLimit ? (
+                      <Badge variant="secondary">Habis</Badge>
+                    ) : (
+                      <Badge className="bg-green-500 hover:bg-green-600">Tersedia</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+export const voucherCampaignSchema = z
+  .object({
+    name: z.string().min(1, "Nama kampanye wajib diisi"),
+    description: z.string(),
+    discountType: z.enum(["PERCENTAGE", "NOMINAL"]),
+    discountValue: z.number({ message: "Nilai diskon wajib diisi" }).positive("Nilai diskon harus lebih dari 0"),
+    minPurchase: z.number().int().min(0),
+    usageLimit: z.number().int().min(1, "Batas pemakaian minimal 1"),
+    // Dates as yyyy-MM-dd from the date inputs, empty when unset
+    startDate: z.string(),
+    expiryDate: z.string(),
+    isActive: z.boolean(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.discountType === "PERCENTAGE" && data.discountValue > 100) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Persentase diskon tidak boleh lebih dari 100",
+        path: ["discountValue"],
+      });
+    }
+    if (data.startDate && data.expiryDate && data.startDate > data.expiryDate) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Tanggal kedaluwarsa harus setelah tanggal mulai",
+        path: ["expiryDate"],
+      });
+    }
+  });
+
+export type VoucherCampaignFormInput = z.infer<typeof voucherCampaignSchema>;
+
+export const voucherCodesSchema = z
+  .object({
+    mode: z.enum(["generate", "import"]),
+    prefix: z.string().max(12).regex(/^[A-Za-z0-9]*$/, "Prefix hanya huruf dan angka"),
+    count: z.number().int().min(1, "Minimal 1 kode").max(1000, "Maksimal 1000 kode"),
+    // One code per line (or separated by commas) for imports
+    codes: z.string(),
+    usageLimit: z.number().int().min(1, "Batas pemakaian minimal 1"),
+  })
+  .superRefine((data, ctx) => {
+    if (data.mode === "import" && parseVoucherCodeList(data.codes).length === 0) {
+      ctx.addIssue({ code: "custom", message: "Masukkan minimal satu kode", path: ["codes"] });
+    }
+  });
+
+export type VoucherCodesFormInput = z.infer<typeof voucherCodesSchema>;
+
+/**
+ * Split pasted text (lines, commas or spaces) into uppercase codes
+ */
+export function parseVoucherCodeList(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .split(/[\s,;]+/)
+        .map((code) => code.trim().toUpperCase())
+        .filter(Boolean)
+    ),
+  ];
+}
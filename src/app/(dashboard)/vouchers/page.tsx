@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Pencil, Trash2, Plus, ListPlus, List } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import {
+  DataTable,
+  DataTableRef,
+} from "@/components/scm-ui/Datatable/Datatable";
+import { Button } from "@/components/ui/button";
+import { TableRow, TableCell } from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { FetchResult } from "@/types/pagination";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import {
+  VoucherCampaignFormDialog,
+  type VoucherCampaign,
+} from "./_components/VoucherCampaignFormDialog";
+import { AddVoucherCodesDialog } from "./_components/AddVoucherCodesDialog";
+import { VoucherCodesDialog } from "./_components/VoucherCodesDialog";
+import { DeleteVoucherCampaignDialog } from "./_components/DeleteVoucherCampaignDialog";
+
+function describeDiscount(campaign: VoucherCampaign): string {
+  const value =
+    campaign.discountType === "PERCENTAGE"
+      ? `${campaign.discountValue}%`
+      : formatCurrency(campaign.discountValue);
+
+  return campaign.minPurchase > 0
+    ? `${value}, min. ${formatCurrency(campaign.minPurchase)}`
+    : value;
+}
+
+function describeValidity(campaign: VoucherCampaign): string {
+  if (!campaign.startsAt && !campaign.expiresAt) {
+    return "Tanpa batas";
+  }
+
+  const start = campaign.startsAt
+    ? format(new Date(campaign.startsAt), "dd MMM yyyy", { locale: id })
+    : "...";
+  const end = campaign.expiresAt
+    ? format(new Date(campaign.expiresAt), "dd MMM yyyy", { locale: id })
+    : "...";
+  return `${start} - ${end}`;
+}
+
+export default function VouchersPage() {
+  const { hasPermission, isLoading } = usePermission();
+  const tableRef = useRef<DataTableRef>(null);
+
+  // Modal states
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isAddCodesOpen, setIsAddCodesOpen] = useState(false);
+  const [isCodesOpen, setIsCodesOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedCampaign, setSelectedCampaign] = useState<VoucherCampaign | null>(null);
+
+  // Fetch campaigns action for DataTable
+  const fetchCampaigns = async (params: {
+    page: number;
+    pageSize: number;
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+  }): Promise<FetchResult<VoucherCampaign>> => {
+    try {
+      const response = await axiosInstance.get<FetchResult<VoucherCampaign>>("/api/vouchers", {
+        params: {
+          page: params.page,
+          limit: params.pageSize,
+          search: params.search,
+          sortBy: params.sortBy,
+          sortOrder: params.sortOrder,
+        },
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching vouchers:", error);
+      throw error;
+    }
+  };
+
+  // Handlers
+  const invalidateTable = () => {
+    tableRef.current?.invalidate();
+  };
+
+  const openCreateModal = () => {
+    setSelectedCampaign(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditModal = (campaign: VoucherCampaign) => {
+    setSelectedCampaign(campaign);
+    setIsFormOpen(true);
+  };
+
+  const openAddCodesModal = (campaign: VoucherCampaign) => {
+    setSelectedCampaign(campaign);
+    setIsAddCodesOpen(true);
+  };
+
+  const openCodesModal = (campaign: VoucherCampaign) => {
+    setSelectedCampaign(campaign);
+    setIsCodesOpen(true);
+  };
+
+  const openDeleteDialog = (campaign: VoucherCampaign) => {
+    setSelectedCampaign(campaign);
+    setIsDeleteDialogOpen(true);
+  };
+
+  // Permission check
+  if (!hasPermission("voucher") && !isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Anda tidak memiliki akses untuk melihat halaman ini
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Manajemen Voucher</h1>
+          <p className="text-muted-foreground">
+            Kampanye dan kode voucher untuk ditukarkan di kasir
+          </p>
+        </div>
+        <Button onClick={openCreateModal}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Kampanye
+        </Button>
+      </div>
+
+      {/* DataTable */}
+      <Card>
+        <CardContent className="pt-6">
+          <DataTable<VoucherCampaign>
+            ref={tableRef}
+            fetchAction={fetchCampaigns}
+            queryKey="vouchers"
+            searchPlaceholder="Cari kampanye atau kode..."
+            columns={[
+              { key: "name", label: "Kampanye", sortable: true },
+              { key: "discount", label: "Diskon", sortable: false },
+              { key: "expiresAt", label: "Masa Berlaku", sortable: true },
+              { key: "codes", label: "Kode", sortable: false },
+              { key: "status", label: "Status", sortable: false },
+              { key: "actions", label: "Aksi", sortable: false },
+            ]}
+            rows={(campaigns) =>
+              campaigns.map((campaign) => (
+                <TableRow key={campaign.id}>
+                  <TableCell className="font-medium">
+                    <div>{campaign.name}</div>
+                    {campaign.description && (
+                      <div className="text-xs text-muted-foreground">
+                        {campaign.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{describeDiscount(campaign)}</TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {describeValidity(campaign)}
+                  </TableCell>
+                  <TableCell>
+                    <div>{campaign.codeCount} kode</div>
+                    <div className="text-xs text-muted-foreground">
+                      {campaign.usedCount}x dipakai
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={campaign.isActive ? "default" : "secondary"}
+                      className={
+                        campaign.isActive ? "bg-green-500 hover:bg-green-600" : ""
+                      }
+                    >
+                      {campaign.isActive ? "Aktif" : "Nonaktif"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Lihat kode"
+                        onClick={() => openCodesModal(campaign)}
+                      >
+                        <List className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Tambah kode"
+                        onClick={() => openAddCodesModal(campaign)}
+                      >
+                        <ListPlus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditModal(campaign)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openDeleteDialog(campaign)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Dialogs */}
+      <VoucherCampaignFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        campaign={selectedCampaign}
+        onSuccess={invalidateTable}
+      />
+
+      <AddVoucherCodesDialog
+        open={isAddCodesOpen}
+        onOpenChange={setIsAddCodesOpen}
+        campaign={selectedCampaign}
+        onSuccess={invalidateTable}
+      />
+
+      <VoucherCodesDialog
+        open={isCodesOpen}
+        onOpenChange={setIsCodesOpen}
+        campaign={selectedCampaign}
+      />
+
+      <DeleteVoucherCampaignDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        campaign={selectedCampaign}
+        onSuccess={invalidateTable}
+      />
+    </div>
+  );
+}
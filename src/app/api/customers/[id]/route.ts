@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { isUniqueConstraintError } from "@/lib/idempotency";
+import { customerInputSchema } from "../customerInput";
+
+/**
+ * GET /api/customers/[id]
+ * Customer detail with purchase totals and recent point history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "customer");
+
+    const { id } = await params;
+    const customerId = parseInt(id);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json({ error: "Invalid customer ID" }, { status: 400 });
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+      include: {
+        loyaltyEntries: {
+          orderBy: { createdAt: "desc" },
+          take: 20,
+          include: {
+            transaction: { select: { invoiceNo: true } },
+          },
+        },
+      },
+    });
+
+    if (!customer) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    const purchases = await prisma.transaction.aggregate({
+      where: { customerId, status: "COMPLETED" },
+      _count: { _all: true },
+      _sum: { totalAmount: true },
+      _max: { createdAt: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...customer,
+        purchases: {
+          count: purchases._count._all,
+          totalAmount: purchases._sum.totalAmount ?? 0,
+          lastPurchaseAt: purchases._max.createdAt,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching customer:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/customers/[id]
+ * Update a customer. Deactivate instead of deleting - sales keep their customer.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "customer");
+
+    const { id } = await params;
+    const customerId = parseInt(id);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json({ error: "Invalid customer ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = customerInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.customer.findUnique({
+      where: { id: customerId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    const customer = await prisma.customer.update({
+      where: { id: customerId },
+      data: validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error: any) {
+    console.error("Error updating customer:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: "Nomor HP sudah terdaftar" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+
+/**
+ * GET /api/customers/[id]/transactions
+ * Purchase history of a customer with pagination and invoice search
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "customer");
+
+    const { id } = await params;
+    const customerId = parseInt(id);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json({ error: "Invalid customer ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+
+    const where = {
+      customerId,
+      ...(search ? { invoiceNo: { contains: search, mode: "insensitive" as const } } : {}),
+    };
+
+    const [total, transactions] = await Promise.all([
+      prisma.transaction.count({ where }),
+      prisma.transaction.findMany({
+        where,
+        select: {
+          id: true,
+          invoiceNo: true,
+          totalAmount: true,
+          status: true,
+          createdAt: true,
+          pointsEarned: true,
+          pointsRedeemed: true,
+          _count: { select: { items: true } },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: transactions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching customer transactions:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
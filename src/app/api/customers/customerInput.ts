@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { hasPermission } from "@/lib/permissions";
+import { PHONE_PATTERN, normalizePhone } from "@/lib/customers";
+
+// Validation schema for creating and updating a customer
+export const customerInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Nama pelanggan wajib diisi").max(100),
+    phone: z
+      .string()
+      .transform(normalizePhone)
+      .pipe(z.string().regex(PHONE_PATTERN, "Nomor HP tidak valid (contoh: 0812xxxxxxx)")),
+    email: z.string().trim().email("Email tidak valid").nullable().optional().or(z.literal("")),
+    notes: z.string().trim().max(500).nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .transform((input) => ({
+    ...input,
+    email: input.email || null,
+    notes: input.notes || null,
+  }));
+
+export type CustomerInput = z.infer<typeof customerInputSchema>;
+
+/**
+ * Members are looked up and registered at the till as well as on the customers page
+ * @throws Error if the user has neither the customer nor the cashier permission
+ */
+export async function requireCustomerAccess(userId: string) {
+  if (!(await hasPermission(userId, "customer")) && !(await hasPermission(userId, "cashier"))) {
+    throw new Error("Permission denied: customer");
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { normalizePhone } from "@/lib/customers";
+import { requireCustomerAccess } from "../customerInput";
+
+/**
+ * GET /api/customers/lookup?phone=0812...
+ * Find an active customer by phone number (cashier attach)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requireCustomerAccess(session.user.id);
+
+    const { searchParams } = new URL(request.url);
+    const phone = normalizePhone(searchParams.get("phone") || "");
+
+    if (!phone) {
+      return NextResponse.json(
+        { error: "Nomor HP wajib diisi" },
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { phone },
+    });
+
+    if (!customer || !customer.isActive) {
+      return NextResponse.json(
+        { error: "Pelanggan tidak ditemukan", details: phone },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error: any) {
+    console.error("Error looking up customer:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
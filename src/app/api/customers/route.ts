@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { isUniqueConstraintError } from "@/lib/idempotency";
+import { customerInputSchema, requireCustomerAccess } from "./customerInput";
+
+/**
+ * GET /api/customers
+ * List customers with pagination and search (name or phone)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "customer");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const sortBy = searchParams.get("sortBy") || "createdAt";
+    const sortOrder = searchParams.get("sortOrder") || "desc";
+
+    // Whitelist allowed sort fields for security
+    const allowedSortFields = ["name", "phone", "pointsBalance", "createdAt"];
+    const validSortBy = allowedSortFields.includes(sortBy) ? sortBy : "createdAt";
+    const validSortOrder = sortOrder === "asc" || sortOrder === "desc" ? sortOrder : "desc";
+
+    const where = search
+      ? {
+          OR: [
+            { name: { contains: search, mode: "insensitive" as const } },
+            { phone: { contains: search } },
+          ],
+        }
+      : {};
+
+    const [total, customers] = await Promise.all([
+      prisma.customer.count({ where }),
+      prisma.customer.findMany({
+        where,
+        include: {
+          _count: {
+            select: { transactions: { where: { status: "COMPLETED" } } },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { [validSortBy]: validSortOrder },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: customers,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching customers:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers
+ * Register a customer (from the customers page or the cashier)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requireCustomerAccess(session.user.id);
+
+    const body = await request.json();
+    const validation = customerInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.create({
+      data: validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error: any) {
+    console.error("Error creating customer:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: "Nomor HP sudah terdaftar" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isOnTerminal } from "@/lib/shifts";
+import { priceLine } from "@/lib/pricing";
+import { getReservedQuantities, getSellableQuantity } from "@/lib/stock";
+
+interface ParkedItem {
+  id: number;
+  productId: number;
+  name: string;
+  categoryId?: number | null;
+  price: number;
+  quantity: number;
+  stock: number;
+  subtotal: number;
+  discountType?: "PERCENTAGE" | "NOMINAL" | null;
+  discountValue?: number;
+  discountedPrice?: number;
+  discountAmount?: number;
+}
+
+interface ResumeAdjustment {
+  productId: number;
+  name: string;
+  requested: number;
+  available: number;
+  reason: "UNAVAILABLE" | "INSUFFICIENT_STOCK";
+}
+
+/**
+ * POST /api/parked-sales/[id]/resume
+ * Restore a parked cart, re-validating every line against current stock and re-pricing it at current prices.
+ * The parked sale is removed once it has been handed back to the cashier.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const parkedSaleId = parseInt(id);
+
+    if (isNaN(parkedSaleId)) {
+      return NextResponse.json({ error: "Invalid parked sale ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const terminalId: string | undefined = body?.terminalId;
+
+    const parkedSale = await prisma.parkedSale.findUnique({
+      where: { id: parkedSaleId },
+    });
+
+    if (!parkedSale) {
+      return NextResponse.json(
+        { error: "Transaksi tertunda tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    // Only the cashier who parked it or a cashier with an open shift on its terminal may resume it
+    if (
+      parkedSale.cashierId !== session.user.id &&
+      (!terminalId ||
+        parkedSale.terminalId !== terminalId ||
+        !(await isOnTerminal(session.user.id, terminalId)))
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parkedItems = parkedSale.items as unknown as ParkedItem[];
+
+    // Re-validate against current stock
+    const products = await prisma.product.findMany({
+      where: { id: { in: parkedItems.map((item) => item.productId) } },
+      include: { stock: true },
+    });
+    const reserved = await getReservedQuantities(prisma, products.map((p) => p.id));
+
+    const items: ParkedItem[] = [];
+    const adjustments: ResumeAdjustment[] = [];
+
+    // Stock still free per product; lines of the same product share it
+    const remaining = new Map<number, number>();
+
+    for (const item of parkedItems) {
+      const product = products.find((p) => p.id === item.productId);
+      const sellable = product?.isActive
+        ? getSellableQuantity(product.stock && { ...product.stock, reserved: reserved.get(product.id) })
+        : 0;
+      const available = remaining.get(item.productId) ?? sellable;
+
+      if (!product || !product.isActive || sellable <= 0) {
+        adjustments.push({
+          productId: item.productId,
+          name: item.name,
+          requested: item.quantity,
+          available: 0,
+          reason: "UNAVAILABLE",
+        });
+        continue;
+      }
+
+      const quantity = Math.min(item.quantity, available);
+      if (quantity < item.quantity) {
+        adjustments.push({
+          productId: item.productId,
+          name: item.name,
+          requested: item.quantity,
+          available,
+          reason: "INSUFFICIENT_STOCK",
+        });
+      }
+
+      remaining.set(item.productId, available - quantity);
+      // Earlier lines of the product took the rest
+      if (quantity <= 0) {
+        continue;
+      }
+
+      const line = priceLine(product.price, quantity, {
+        type: item.discountType || null,
+        value: item.discountValue || 0,
+      });
+      items.push({
+        ...item,
+        categoryId: product.categoryId,
+        price: product.price,
+        quantity,
+        stock: sellable,
+        subtotal: line.subtotal,
+        discountedPrice: line.discountedPrice,
+        discountAmount: line.discountAmount,
+      });
+    }
+
+    // Remove the parked sale; a concurrent resume on another terminal loses the race
+    const deleted = await prisma.parkedSale.deleteMany({
+      where: { id: parkedSaleId },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Transaksi tertunda sudah dilanjutkan di tempat lain" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        label: parkedSale.label,
+        items,
+        discount: parkedSale.discount,
+        adjustments,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error resuming parked sale:", error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isOnTerminal } from "@/lib/shifts";
+
+/**
+ * DELETE /api/parked-sales/[id]
+ * Discard a parked cart
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const parkedSaleId = parseInt(id);
+
+    if (isNaN(parkedSaleId)) {
+      return NextResponse.json({ error: "Invalid parked sale ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const terminalId = searchParams.get("terminalId");
+
+    const parkedSale = await prisma.parkedSale.findUnique({
+      where: { id: parkedSaleId },
+    });
+
+    if (!parkedSale) {
+      return NextResponse.json(
+        { error: "Transaksi tertunda tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    // Only the cashier who parked it or a cashier with an open shift on its terminal may discard it
+    if (
+      parkedSale.cashierId !== session.user.id &&
+      (!terminalId ||
+        parkedSale.terminalId !== terminalId ||
+        !(await isOnTerminal(session.user.id, terminalId)))
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await prisma.parkedSale.delete({
+      where: { id: parkedSaleId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Transaksi tertunda berhasil dihapus",
+    });
+  } catch (error: any) {
+    console.error("Error deleting parked sale:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Transaksi tertunda tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
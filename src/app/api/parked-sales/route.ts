@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isOnTerminal } from "@/lib/shifts";
+import { z } from "zod";
+
+// Validation schema for a parked cart line (mirrors the cashier CartItem)
+const parkedItemSchema = z.object({
+  id: z.number(),
+  productId: z.number().int().positive(),
+  name: z.string(),
+  price: z.number().int().min(0),
+  quantity: z.number().int().positive("Quantity must be greater than 0"),
+  stock: z.number().int(),
+  subtotal: z.number().int().min(0),
+  discountType: z.enum(["PERCENTAGE", "NOMINAL"]).nullable().optional(),
+  discountValue: z.number().min(0).optional(),
+  discountedPrice: z.number().int().min(0).optional(),
+  discountAmount: z.number().int().min(0).optional(),
+});
+
+const parkSaleSchema = z.object({
+  label: z.string().trim().min(1, "Label wajib diisi").max(100, "Label maksimal 100 karakter"),
+  items: z.array(parkedItemSchema).min(1, "Keranjang kosong"),
+  discount: z
+    .object({
+      type: z.enum(["PERCENTAGE", "NOMINAL"]).nullable(),
+      value: z.number().min(0),
+    })
+    .nullable()
+    .optional(),
+  totalAmount: z.number().int().min(0),
+  terminalId: z.string().max(50).nullable().optional(),
+});
+
+/**
+ * GET /api/parked-sales
+ * List parked carts for the current cashier, or for a terminal when `terminalId` is given.
+ * The terminal list is only available on the terminal of the cashier's open shift.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const terminalId = searchParams.get("terminalId");
+
+    if (terminalId && !(await isOnTerminal(session.user.id, terminalId))) {
+      return NextResponse.json(
+        { error: "Forbidden", details: "Buka shift di terminal ini untuk melihat transaksinya" },
+        { status: 403 }
+      );
+    }
+
+    const parkedSales = await prisma.parkedSale.findMany({
+      where: terminalId ? { terminalId } : { cashierId: session.user.id },
+      include: {
+        cashier: {
+          select: {
+            id: true,
+            name: true,
+            username: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: parkedSales,
+    });
+  } catch (error: any) {
+    console.error("Error fetching parked sales:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/parked-sales
+ * Park the current cart under a label
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = parkSaleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { label, items, discount, totalAmount, terminalId } = validation.data;
+
+    const parkedSale = await prisma.parkedSale.create({
+      data: {
+        label,
+        cashierId: session.user.id,
+        terminalId: terminalId || null,
+        items,
+        discount: discount?.type ? discount : undefined,
+        itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+        totalAmount,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: parkedSale,
+    });
+  } catch (error: any) {
+    console.error("Error parking sale:", error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { TENDER_METHODS } from "@/lib/payments";
+import { MIDTRANS_CHANNELS } from "@/lib/payment-methods";
+
+// Validation schema for saving the payment method catalog (every method, in display order)
+export const paymentMethodInputSchema = z.object({
+  methods: z
+    .array(
+      z.object({
+        code: z.enum(TENDER_METHODS),
+        name: z.string().trim().min(1, "Nama metode wajib diisi").max(50),
+        description: z.string().trim().max(100).default(""),
+        isEnabled: z.boolean(),
+        mdrPercent: z.number().min(0, "MDR tidak boleh negatif").max(100, "MDR maksimal 100%"),
+        mdrFixed: z.number().int().min(0, "Biaya tetap tidak boleh negatif"),
+        channels: z.array(z.enum(MIDTRANS_CHANNELS)).default([]),
+      })
+    )
+    .refine(
+      (methods) => new Set(methods.map((m) => m.code)).size === methods.length,
+      "Metode pembayaran tidak boleh ganda"
+    )
+    // Offline sales are always cash
+    .refine(
+      (methods) => methods.some((m) => m.code === "CASH" && m.isEnabled),
+      "Tunai tidak dapat dinonaktifkan"
+    ),
+});
+
+export type PaymentMethodInput = z.infer<typeof paymentMethodInputSchema>;
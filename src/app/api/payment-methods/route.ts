@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { getPaymentMethods } from "@/lib/payment-method-settings";
+import { paymentMethodInputSchema } from "./paymentMethodInput";
+
+/**
+ * GET /api/payment-methods
+ * Payment method catalog in display order (read by the cashier to list the tenders)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getPaymentMethods(),
+    });
+  } catch (error: any) {
+    console.error("Error fetching payment methods:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/payment-methods
+ * Save the catalog; the order of `methods` becomes the display order
+ * New rates apply to payments created afterwards.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "payment_method");
+
+    const body = await request.json();
+    const validation = paymentMethodInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    await prisma.$transaction(
+      validation.data.methods.map(({ code, ...method }, index) => {
+        const data = { ...method, sortOrder: index + 1, updatedBy: userId };
+        return prisma.paymentMethodSetting.upsert({
+          where: { code },
+          create: { code, ...data },
+          update: data,
+        });
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: await getPaymentMethods(),
+    });
+  } catch (error: any) {
+    console.error("Error saving payment methods:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { mapMidtransStatus } from "@/lib/midtrans";
+
+/**
+ * GET /api/payment/charge/:orderId
+ * Payment status as last recorded here (by webhook or status check), without calling the
+ * gateway; polled by the cashier's QR dialog
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { orderId } = await params;
+
+    const payment = await prisma.payment.findUnique({
+      where: { orderId },
+      select: {
+        paymentStatus: true,
+        fraudStatus: true,
+        expiresAt: true,
+        transaction: { select: { status: true, paymentStatus: true } },
+      },
+    });
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: "Payment not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        transactionStatus: payment.paymentStatus,
+        fraudStatus: payment.fraudStatus,
+        paymentStatus: mapMidtransStatus(payment.paymentStatus),
+        transactionPaymentStatus: payment.transaction.paymentStatus,
+        expiresAt: payment.expiresAt,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error getting charge status:", error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
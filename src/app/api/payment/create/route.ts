@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { createSnapTransaction, getTransactionStatus } from "@/lib/midtrans";
+import { DIRECT_CHARGE_METHODS, getPaymentGateway } from "@/lib/payment-gateway";
+import { TENDER_METHODS, type TenderMethod } from "@/lib/payments";
+import { calculateMdrFee } from "@/lib/payment-methods";
+import { getPaymentMethod } from "@/lib/payment-method-settings";
+import { RESERVATION_MINUTES, RESERVATION_GRACE_MINUTES } from "@/lib/stock";
 
 /**
  * POST /api/payment/create
- * Create payment transaction with Midtrans Snap
+ * Create the gateway charge for one gateway tender
+ * QRIS and e-wallet tenders are charged directly (flow "direct": QR string or deeplink shown
+ * in the cashier's own dialog); other methods get the hosted page (flow "popup", Snap for
+ * Midtrans). A tender is charged with the method it was created for; disabled methods
+ * answer 400.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +24,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { transactionId, paymentMethod, customerDetails } = body;
+    const { transactionId, paymentId, paymentMethod, customerDetails } = body;
 
     if (!transactionId || !paymentMethod) {
       return NextResponse.json(
@@ -28,7 +36,13 @@ export async function POST(request: NextRequest) {
     // Get transaction details
     const transaction = await prisma.transaction.findUnique({
       where: { id: transactionId },
-      include: { items: true, cashier: true },
+      include: {
+        items: true,
+        cashier: true,
+        customer: true,
+        payments: { orderBy: { sequence: "asc" } },
+        stockReservations: { where: { status: "ACTIVE" }, take: 1 },
+      },
     });
 
     if (!transaction) {
@@ -46,59 +60,166 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Determine enabled payments based on method
-    const enabledPaymentsMap: Record<string, string[]> = {
-      MIDTRANS_QRIS: ["qris"],
-      MIDTRANS_EWALLET: ["gopay", "shopeepay", "ovo", "dana", "linkaja"],
-      MIDTRANS_BANK_TRANSFER: ["bca_va", "bni_va", "bri_va", "mandiri_va", "permata_va", "cimb_va"],
-      MIDTRANS_ALL: ["credit_card", "gopay", "shopeepay", "ovo", "dana", "linkaja", "qris", "bca_va", "bni_va", "bri_va", "mandiri_va", "permata_va"],
-    };
+    // The payment must expire before the sale's stock reservation does
+    const reservedUntil = transaction.stockReservations[0]?.expiresAt;
+    const expiryMinutes = reservedUntil
+      ? Math.floor((reservedUntil.getTime() - Date.now()) / 60000) - RESERVATION_GRACE_MINUTES
+      : RESERVATION_MINUTES - RESERVATION_GRACE_MINUTES;
+
+    if (expiryMinutes < 1) {
+      return NextResponse.json(
+        { error: "Payment window expired", details: "Waktu pembayaran habis, buat transaksi baru" },
+        { status: 400 }
+      );
+    }
+
+    // Resolve the tender to charge: the requested one, or the first pending gateway tender
+    let payment = paymentId
+      ? transaction.payments.find((p) => p.id === paymentId)
+      : transaction.payments.find(
+          (p) => p.paymentType === "MIDTRANS" && p.paymentStatus === "pending"
+        );
+
+    if (paymentId && !payment) {
+      return NextResponse.json(
+        { error: "Payment not found" },
+        { status: 404 }
+      );
+    }
+
+    if (payment && (payment.paymentType !== "MIDTRANS" || payment.paymentStatus !== "pending")) {
+      return NextResponse.json(
+        { error: "Payment is not eligible for gateway charge" },
+        { status: 400 }
+      );
+    }
 
-    const enabledPayments = enabledPaymentsMap[paymentMethod] || enabledPaymentsMap.MIDTRANS_ALL;
+    // The tender is charged with the method it was created (and its fee priced) for;
+    // older lines without one use the requested method, or let the gateway pick
+    const requestedMethod = payment?.tenderMethod || paymentMethod;
+    const method: Exclude<TenderMethod, "CASH"> =
+      TENDER_METHODS.includes(requestedMethod) && requestedMethod !== "CASH"
+        ? requestedMethod
+        : "MIDTRANS_ALL";
+    const methodConfig = await getPaymentMethod(method);
 
-    // Create Snap transaction
-    const snapResult = await createSnapTransaction(
-      transaction.invoiceNo,
-      transaction.totalAmount,
-      {
-        name: customerDetails?.name || transaction.cashier.name || "Customer",
-        email: customerDetails?.email || transaction.cashier.email || "customer@example.com",
-        phone: customerDetails?.phone || "08123456789",
+    if (!methodConfig.isEnabled) {
+      return NextResponse.json(
+        { error: "Payment method is disabled", details: `${methodConfig.name} tidak aktif` },
+        { status: 400 }
+      );
+    }
+
+    // Older clients create the sale without tender lines
+    if (!payment) {
+      const feeAmount = calculateMdrFee(transaction.totalAmount, methodConfig);
+      payment = await prisma.payment.create({
+        data: {
+          transactionId,
+          sequence: transaction.payments.length + 1,
+          orderId: transaction.payments.length === 0
+            ? transaction.invoiceNo
+            : `${transaction.invoiceNo}-${transaction.payments.length + 1}`,
+          amount: transaction.totalAmount,
+          tenderMethod: method,
+          feeAmount,
+          netAmount: transaction.totalAmount - feeAmount,
+          paymentType: "MIDTRANS",
+          paymentMethod: method.toLowerCase().replace("midtrans_", ""),
+          paymentStatus: "pending",
+        },
+      });
+    }
+
+    const orderId = payment.orderId || transaction.invoiceNo;
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+    // Charge with the member's own details when a customer is attached
+    const { customer } = transaction;
+    const gateway = getPaymentGateway();
+    const chargeRequest = {
+      orderId,
+      amount: payment.amount,
+      method,
+      channels: methodConfig.channels,
+      customer: {
+        name: customer?.name || customerDetails?.name || transaction.cashier.name || "Customer",
+        email:
+          customer?.email ||
+          customerDetails?.email ||
+          transaction.cashier.email ||
+          "customer@example.com",
+        phone: customer?.phone || customerDetails?.phone || "08123456789",
       },
-      {
-        enabledPayments,
-        finishUrl: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/cashier?payment_status=success&order_id=${transaction.invoiceNo}`,
-        errorUrl: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/cashier?payment_status=error&order_id=${transaction.invoiceNo}`,
-        pendingUrl: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/cashier?payment_status=pending&order_id=${transaction.invoiceNo}`,
+      expiryMinutes,
+      finishUrl: `${appUrl}/cashier?payment_status=success&order_id=${orderId}`,
+      errorUrl: `${appUrl}/cashier?payment_status=error&order_id=${orderId}`,
+      pendingUrl: `${appUrl}/cashier?payment_status=pending&order_id=${orderId}`,
+    };
+
+    if (DIRECT_CHARGE_METHODS.includes(method)) {
+      // The gateway refuses a second charge for the same order, so reuse a live one
+      let charge = payment.expiresAt && payment.expiresAt > new Date()
+        ? { qrString: payment.qrString, deeplink: payment.deeplinkUrl, expiresAt: payment.expiresAt }
+        : null;
+
+      if (!charge) {
+        const created = await gateway.createDirectCharge(chargeRequest);
+
+        // Store the charge details on the tender
+        await prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            qrString: created.qrString,
+            deeplinkUrl: created.deeplink,
+            expiresAt: created.expiresAt,
+            midtransTransactionId: created.transactionId,
+          },
+        });
+
+        charge = {
+          qrString: created.qrString ?? null,
+          deeplink: created.deeplink ?? null,
+          expiresAt: created.expiresAt,
+        };
       }
-    );
 
-    // Update transaction with payment details
-    await prisma.transaction.update({
-      where: { id: transactionId },
-      data: {
-        paymentType: paymentMethod,
-        snapToken: snapResult.token,
-        snapRedirectUrl: snapResult.redirect_url,
-      },
-    });
+      return NextResponse.json({
+        success: true,
+        data: {
+          paymentId: payment.id,
+          orderId,
+          provider: gateway.name,
+          flow: "direct",
+          amount: payment.amount,
+          qrString: charge.qrString,
+          deeplink: charge.deeplink,
+          expiresAt: charge.expiresAt,
+        },
+      });
+    }
+
+    const charge = await gateway.createCharge(chargeRequest);
 
-    // Create payment record
-    await prisma.payment.create({
+    // Store the charge details on the tender
+    await prisma.payment.update({
+      where: { id: payment.id },
       data: {
-        transactionId,
-        amount: transaction.totalAmount,
-        paymentType: "MIDTRANS",
-        paymentMethod: paymentMethod.toLowerCase().replace("midtrans_", ""),
-        paymentStatus: "pending",
+        snapToken: charge.token,
+        snapRedirectUrl: charge.redirectUrl,
       },
     });
 
     return NextResponse.json({
       success: true,
       data: {
-        token: snapResult.token,
-        redirectUrl: snapResult.redirect_url,
+        paymentId: payment.id,
+        orderId,
+        provider: gateway.name,
+        flow: "popup",
+        token: charge.token,
+        redirectUrl: charge.redirectUrl,
       },
     });
   } catch (error: any) {
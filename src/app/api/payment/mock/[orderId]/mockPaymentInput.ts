@@ -0,0 +1,11 @@
+import { z } from "zod";
+import { MOCK_ACTIONS } from "@/lib/mock-gateway";
+
+// Validation schema for forcing an outcome on a mock gateway charge
+export const mockPaymentInputSchema = z.object({
+  action: z.enum(MOCK_ACTIONS),
+  // Off to test a notification that never reaches the webhook
+  notify: z.boolean().default(true),
+});
+
+export type MockPaymentInput = z.infer<typeof mockPaymentInputSchema>;
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPaymentGateway } from "@/lib/payment-gateway";
+import { getMockCharge, simulateMockPayment } from "@/lib/mock-gateway";
+import { ApiError } from "@/lib/utils/error";
+import { mockPaymentInputSchema } from "./mockPaymentInput";
+
+/**
+ * Mock gateway simulator endpoints, only available with PAYMENT_GATEWAY=mock.
+ * Public like a hosted payment page, since the customer opens it on their own device.
+ */
+function mockGatewayDisabled() {
+  return getPaymentGateway().name !== "mock"
+    ? NextResponse.json({ error: "Mock gateway is not enabled" }, { status: 404 })
+    : null;
+}
+
+/**
+ * GET /api/payment/mock/[orderId]
+ * Charge details for the simulator page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const disabled = mockGatewayDisabled();
+  if (disabled) return disabled;
+
+  const { orderId } = await params;
+  const charge = getMockCharge(decodeURIComponent(orderId));
+
+  if (!charge) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: charge,
+  });
+}
+
+/**
+ * POST /api/payment/mock/[orderId]
+ * Pay, deny or expire a pending charge; the webhook follows after the configured delay
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const disabled = mockGatewayDisabled();
+  if (disabled) return disabled;
+
+  try {
+    const { orderId } = await params;
+    const body = await request.json();
+    const validation = mockPaymentInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, notify } = validation.data;
+    const charge = simulateMockPayment(decodeURIComponent(orderId), action, notify);
+
+    return NextResponse.json({
+      success: true,
+      data: charge,
+    });
+  } catch (error: any) {
+    console.error("Error simulating mock payment:", error);
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Simulation rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { resyncPayment } from "@/lib/payment-reconciliation";
+import { ApiError } from "@/lib/utils/error";
+
+/**
+ * POST /api/payment/reconciliation/[paymentId]/resync
+ * Fetch one payment's status from the gateway and apply it to the payment and its sale
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ paymentId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "payment");
+
+    const { paymentId } = await params;
+    const id = parseInt(paymentId);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const result = await resyncPayment(id);
+
+    if (result.outcome === "ERROR") {
+      return NextResponse.json(
+        { error: "Gateway error", details: result.error },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Error resyncing payment:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Resync rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import {
+  getPaymentIssue,
+  getPaymentIssueWhere,
+  reconcilePendingPayments,
+} from "@/lib/payment-reconciliation";
+
+/**
+ * GET /api/payment/reconciliation
+ * List gateway payments that are stuck pending or disagree with their sale
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "payment");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const sortOrder = searchParams.get("sortOrder") === "asc" ? "asc" : "desc";
+
+    const where = {
+      ...getPaymentIssueWhere(),
+      ...(search && {
+        AND: [
+          {
+            OR: [
+              { orderId: { contains: search, mode: "insensitive" as const } },
+              { transaction: { invoiceNo: { contains: search, mode: "insensitive" as const } } },
+            ],
+          },
+        ],
+      }),
+    };
+
+    const [total, payments] = await Promise.all([
+      prisma.payment.count({ where }),
+      prisma.payment.findMany({
+        where,
+        omit: { rawResponse: true, snapToken: true },
+        include: {
+          transaction: {
+            select: {
+              id: true,
+              invoiceNo: true,
+              totalAmount: true,
+              status: true,
+              paymentStatus: true,
+              createdAt: true,
+            },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: sortOrder },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: payments.map((payment) => ({
+        ...payment,
+        issue: getPaymentIssue(payment, payment.transaction),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching payment issues:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/payment/reconciliation
+ * Run the pending payment reconciliation now instead of waiting for the background job
+ */
+export async function POST() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "payment");
+
+    const summary = await reconcilePendingPayments();
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error: any) {
+    console.error("Error reconciling payments:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
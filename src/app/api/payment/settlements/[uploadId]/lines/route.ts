@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import type { SettlementMatchStatus } from "@/generated/prisma/client";
+
+const MATCH_STATUSES: SettlementMatchStatus[] = [
+  "MATCHED",
+  "AMOUNT_MISMATCH",
+  "NOT_SETTLED_LOCALLY",
+  "STATUS_MISMATCH",
+  "MISSING_LOCALLY",
+  "MISSING_IN_FILE",
+  "DUPLICATE",
+  "INVALID",
+];
+
+/**
+ * GET /api/payment/settlements/:uploadId/lines
+ * Rows of an uploaded settlement file with their match result, in file order
+ * (payments missing from the file come last)
+ * Query: search (order or transaction ID), status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "settlement_reconcile");
+
+    const { uploadId } = await params;
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const status = searchParams.get("status") as SettlementMatchStatus | null;
+
+    const where = {
+      uploadId: parseInt(uploadId),
+      ...(search && {
+        OR: [
+          { orderId: { contains: search, mode: "insensitive" as const } },
+          { gatewayTransactionId: { contains: search, mode: "insensitive" as const } },
+        ],
+      }),
+      ...(status && MATCH_STATUSES.includes(status) && { status }),
+    };
+
+    const [total, lines] = await Promise.all([
+      prisma.settlementLine.count({ where }),
+      prisma.settlementLine.findMany({
+        where,
+        include: {
+          payment: {
+            select: {
+              id: true,
+              amount: true,
+              paymentStatus: true,
+              transaction: { select: { id: true, invoiceNo: true, status: true } },
+            },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ rowNumber: { sort: "asc", nulls: "last" } }, { id: "asc" }],
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: lines,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching settlement lines:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { reconcileSettlementFile } from "@/lib/settlement-reconciliation";
+import { ApiError } from "@/lib/utils/error";
+
+// Settlement reports are a few thousand rows at most
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * GET /api/payment/settlements
+ * Uploaded settlement files with their match counts, newest first
+ * Query: search (file name)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "settlement_reconcile");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const sortOrder = searchParams.get("sortOrder") === "asc" ? "asc" : "desc";
+
+    const where = {
+      ...(search && { fileName: { contains: search, mode: "insensitive" as const } }),
+    };
+
+    const [total, uploads] = await Promise.all([
+      prisma.settlementUpload.count({ where }),
+      prisma.settlementUpload.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: sortOrder },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: uploads,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching settlement uploads:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/payment/settlements
+ * Upload a Midtrans settlement report (multipart field `file`, CSV or XLSX) and match it
+ * against the payments
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "settlement_reconcile");
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Validation failed", details: "File settlement wajib diunggah" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "Validation failed", details: "Ukuran file maksimal 5 MB" },
+        { status: 400 }
+      );
+    }
+
+    const upload = await reconcileSettlementFile(
+      { name: file.name, buffer: Buffer.from(await file.arrayBuffer()) },
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, data: upload }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error reconciling settlement file:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Invalid settlement file", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
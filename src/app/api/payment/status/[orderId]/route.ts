@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
-import { getTransactionStatus, mapMidtransStatus } from "@/lib/midtrans";
+import { mapMidtransStatus } from "@/lib/midtrans";
+import { getPaymentGateway } from "@/lib/payment-gateway";
+import { findPaymentByOrderId, recordGatewayStatus } from "@/lib/payments";
 
 /**
  * GET /api/payment/status/:orderId
- * Get payment status from Midtrans
+ * Get payment status from the payment gateway
  */
 export async function GET(
   request: NextRequest,
@@ -20,16 +21,20 @@ export async function GET(
 
     const { orderId } = await params;
 
-    // Get status from Midtrans
-    const midtransStatus = await getTransactionStatus(orderId);
+    // Get status from the gateway
+    const midtransStatus = await getPaymentGateway().getStatus(orderId);
 
-    // Find transaction by invoice number
-    const transaction = await prisma.transaction.findFirst({
-      where: { invoiceNo: orderId },
-      include: { payment: true },
-    });
+    if (!midtransStatus) {
+      return NextResponse.json(
+        { error: "Order not found at payment gateway" },
+        { status: 404 }
+      );
+    }
 
-    if (!transaction) {
+    // Find the tender line for this order ID
+    const payment = await findPaymentByOrderId(orderId);
+
+    if (!payment) {
       return NextResponse.json(
         { error: "Transaction not found" },
         { status: 404 }
@@ -39,48 +44,8 @@ export async function GET(
     // Map Midtrans status to payment status
     const paymentStatus = mapMidtransStatus(midtransStatus.transaction_status);
 
-    // Update payment record
-    if (transaction.payment) {
-      await prisma.payment.update({
-        where: { id: transaction.payment.id },
-        data: {
-          paymentStatus: midtransStatus.transaction_status,
-          fraudStatus: midtransStatus.fraud_status,
-          transactionTime: midtransStatus.transaction_time
-            ? new Date(midtransStatus.transaction_time)
-            : null,
-          midtransTransactionId: midtransStatus.transaction_id,
-          statusCode: midtransStatus.status_code,
-          statusMessage: midtransStatus.status_message,
-          rawResponse: midtransStatus,
-        },
-      });
-    }
-
-    // Update transaction status based on payment
-    if (paymentStatus === "PAID" && transaction.status === "PENDING") {
-      await prisma.transaction.update({
-        where: { id: transaction.id },
-        data: {
-          status: "COMPLETED",
-          paymentStatus,
-          paidAt: new Date(),
-        },
-      });
-    } else if (paymentStatus === "FAILED" || paymentStatus === "EXPIRED") {
-      await prisma.transaction.update({
-        where: { id: transaction.id },
-        data: {
-          status: "CANCELED",
-          paymentStatus,
-        },
-      });
-    } else {
-      await prisma.transaction.update({
-        where: { id: transaction.id },
-        data: { paymentStatus },
-      });
-    }
+    // Update the tender and recalculate the transaction status
+    const { transaction } = await recordGatewayStatus(payment.id, midtransStatus);
 
     return NextResponse.json({
       success: true,
@@ -88,6 +53,7 @@ export async function GET(
         transactionStatus: midtransStatus.transaction_status,
         fraudStatus: midtransStatus.fraud_status,
         paymentStatus,
+        transactionPaymentStatus: transaction?.paymentStatus,
       },
     });
   } catch (error: any) {
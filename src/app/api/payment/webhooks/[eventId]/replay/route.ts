@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { replayWebhookEvent } from "@/lib/payment-webhooks";
+import { ApiError } from "@/lib/utils/error";
+
+/**
+ * POST /api/payment/webhooks/[eventId]/replay
+ * Process a failed or unmatched notification again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "webhook");
+
+    const { eventId } = await params;
+    const id = parseInt(eventId);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+    }
+
+    const event = await replayWebhookEvent(id);
+
+    return NextResponse.json({
+      success: true,
+      data: event,
+    });
+  } catch (error: any) {
+    console.error("Error replaying webhook event:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Replay rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { REPLAYABLE_EVENT_STATUSES } from "@/lib/payment-webhooks";
+import type { PaymentWebhookEventStatus } from "@/generated/prisma/client";
+
+const EVENT_STATUSES: PaymentWebhookEventStatus[] = [
+  "RECEIVED",
+  "PROCESSED",
+  "DUPLICATE",
+  "OUT_OF_ORDER",
+  "UNMATCHED",
+  "INVALID_SIGNATURE",
+  "FAILED",
+];
+
+/**
+ * GET /api/payment/webhooks
+ * List stored payment gateway notifications, newest first
+ * Query: search (order ID), status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "webhook");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const status = searchParams.get("status") as PaymentWebhookEventStatus | null;
+    const sortOrder = searchParams.get("sortOrder") === "asc" ? "asc" : "desc";
+
+    const where = {
+      ...(search && { orderId: { contains: search, mode: "insensitive" as const } }),
+      ...(status && EVENT_STATUSES.includes(status) && { status }),
+    };
+
+    const [total, events] = await Promise.all([
+      prisma.paymentWebhookEvent.count({ where }),
+      prisma.paymentWebhookEvent.findMany({
+        where,
+        include: {
+          payment: {
+            select: {
+              id: true,
+              paymentStatus: true,
+              transaction: { select: { id: true, invoiceNo: true, status: true } },
+            },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: sortOrder },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: events.map((event) => ({
+        ...event,
+        replayable:
+          event.signatureValid &&
+          (REPLAYABLE_EVENT_STATUSES as readonly string[]).includes(event.status),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching webhook events:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,11 @@ import {
   logProductStatusChange,
   logProductDeletion,
 } from "@/lib/product-activity";
+import {
+  normalizeBarcodes,
+  findDuplicateBarcodes,
+  findBarcodeConflicts,
+} from "@/lib/barcodes";
 
 /**
  * PUT /api/products/[id]
@@ -35,12 +40,13 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, sku, price, categoryId, stock, isActive } = body;
+    const { name, sku, price, categoryId, stock, isActive, taxExempt } = body;
+    const barcodes = body.barcodes !== undefined ? normalizeBarcodes(body.barcodes) : undefined;
 
     // Check if product exists and get current values
     const existingProduct = await prisma.product.findUnique({
       where: { id: productId },
-      include: { stock: true },
+      include: { stock: true, barcodes: true },
     });
 
     if (!existingProduct) {
@@ -64,6 +70,36 @@ export async function PUT(
       }
     }
 
+    // Check barcode uniqueness (if replacing barcodes)
+    if (barcodes !== undefined) {
+      const duplicateBarcodes = findDuplicateBarcodes(barcodes);
+      if (duplicateBarcodes.length > 0) {
+        return NextResponse.json(
+          { error: "Duplicate barcode", details: `Barcode ${duplicateBarcodes.join(", ")} is listed more than once` },
+          { status: 400 }
+        );
+      }
+
+      const barcodeConflicts = await findBarcodeConflicts(barcodes, productId);
+      if (barcodeConflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Barcode already exists",
+            details: barcodeConflicts
+              .map((c) => `Barcode ${c.code} is used by ${c.productName}`)
+              .join(", "),
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const existingBarcodes = existingProduct.barcodes.map((b) => b.code);
+    const barcodesChanged =
+      barcodes !== undefined &&
+      (barcodes.length !== existingBarcodes.length ||
+        barcodes.some((code) => !existingBarcodes.includes(code)));
+
     // Track what changed
     const changedFields: string[] = [];
     if (name && name !== existingProduct.name) changedFields.push("name");
@@ -72,6 +108,8 @@ export async function PUT(
     if (stock !== undefined && stock !== existingProduct.stock?.quantity) changedFields.push("stock");
     if (price !== undefined && price !== existingProduct.price) changedFields.push("price");
     if (isActive !== undefined && isActive !== existingProduct.isActive) changedFields.push("status");
+    if (taxExempt !== undefined && taxExempt !== existingProduct.taxExempt) changedFields.push("taxExempt");
+    if (barcodesChanged) changedFields.push("barcodes");
 
     // Update product and stock in a transaction
     await prisma.$transaction(async (tx) => {
@@ -84,6 +122,7 @@ export async function PUT(
           ...(price !== undefined && { price }),
           ...(categoryId !== undefined && { categoryId }),
           ...(isActive !== undefined && { isActive }),
+          ...(taxExempt !== undefined && { taxExempt }),
         },
       });
 
@@ -94,6 +133,18 @@ export async function PUT(
           data: { quantity: stock },
         });
       }
+
+      // Replace barcodes if provided
+      if (barcodes !== undefined && barcodesChanged) {
+        await tx.productBarcode.deleteMany({
+          where: { productId, code: { notIn: barcodes } },
+        });
+        await tx.productBarcode.createMany({
+          data: barcodes
+            .filter((code) => !existingBarcodes.includes(code))
+            .map((code) => ({ productId, code })),
+        });
+      }
     });
 
     // Log changes
@@ -152,6 +203,7 @@ export async function PUT(
       include: {
         stock: true,
         category: true,
+        barcodes: true,
       },
     });
 
@@ -161,6 +213,15 @@ export async function PUT(
     });
   } catch (error: any) {
     console.error("Error updating product:", error);
+
+    // Unique constraint hit by a concurrent update (SKU or barcode)
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "SKU or barcode already exists" },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error", details: error.message },
       { status: 500 }
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getReservedQuantities } from "@/lib/stock";
+
+/**
+ * GET /api/products/barcode/[code]
+ * Find the product for an exact barcode match (used by the cashier scan mode)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { code } = await params;
+    const barcode = decodeURIComponent(code).trim();
+
+    if (!barcode) {
+      return NextResponse.json({ error: "Invalid barcode" }, { status: 400 });
+    }
+
+    const match = await prisma.productBarcode.findUnique({
+      where: { code: barcode },
+      include: {
+        product: {
+          include: {
+            stock: {
+              select: {
+                quantity: true,
+              },
+            },
+            category: {
+              select: {
+                id: true,
+                title: true,
+                taxExempt: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!match || !match.product.isActive) {
+      return NextResponse.json(
+        { error: "Produk tidak ditemukan", details: `Barcode ${barcode} tidak terdaftar` },
+        { status: 404 }
+      );
+    }
+
+    const { product } = match;
+    const reserved = await getReservedQuantities(prisma, [product.id]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...product,
+        stock: product.stock && { ...product.stock, reserved: reserved.get(product.id) || 0 },
+      },
+    });
+  } catch (error: any) {
+    console.error("Error looking up barcode:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
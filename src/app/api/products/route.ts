@@ -8,10 +8,17 @@ import {
   logProductUpdate,
   logProductStatusChange,
 } from "@/lib/product-activity";
+import {
+  normalizeBarcodes,
+  findDuplicateBarcodes,
+  findBarcodeConflicts,
+} from "@/lib/barcodes";
+import { getReservedQuantities } from "@/lib/stock";
 
 /**
  * GET /api/products
  * List products with pagination and search
+ * `stock.reserved` is the part of the stock held for pending online payments.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -45,6 +52,7 @@ export async function GET(request: NextRequest) {
       where.OR = [
         { name: { contains: search, mode: "insensitive" } },
         { sku: { contains: search, mode: "insensitive" } },
+        { barcodes: { some: { code: { contains: search, mode: "insensitive" } } } },
       ];
     }
 
@@ -68,17 +76,29 @@ export async function GET(request: NextRequest) {
           select: {
             id: true,
             title: true,
+            taxExempt: true,
+          },
+        },
+        barcodes: {
+          select: {
+            id: true,
+            code: true,
           },
+          orderBy: { id: "asc" },
         },
       },
       skip: (page - 1) * limit,
       take: limit,
       orderBy: orderBy,
     });
+    const reserved = await getReservedQuantities(prisma, products.map((p) => p.id));
 
     return NextResponse.json({
       success: true,
-      data: products,
+      data: products.map((p) => ({
+        ...p,
+        stock: p.stock && { ...p.stock, reserved: reserved.get(p.id) || 0 },
+      })),
       pagination: {
         page,
         limit,
@@ -108,7 +128,8 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, sku, price, categoryId, stock, isActive } = body;
+    const { name, sku, price, categoryId, stock, isActive, taxExempt } = body;
+    const barcodes = normalizeBarcodes(body.barcodes);
 
     // Validate required fields
     if (!name || !sku || price === undefined) {
@@ -130,6 +151,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check barcode uniqueness
+    const duplicateBarcodes = findDuplicateBarcodes(barcodes);
+    if (duplicateBarcodes.length > 0) {
+      return NextResponse.json(
+        { error: "Duplicate barcode", details: `Barcode ${duplicateBarcodes.join(", ")} is listed more than once` },
+        { status: 400 }
+      );
+    }
+
+    const barcodeConflicts = await findBarcodeConflicts(barcodes);
+    if (barcodeConflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Barcode already exists",
+          details: barcodeConflicts
+            .map((c) => `Barcode ${c.code} is used by ${c.productName}`)
+            .join(", "),
+        },
+        { status: 400 }
+      );
+    }
+
     // Create product and stock in a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Create product
@@ -140,6 +183,12 @@ export async function POST(request: NextRequest) {
           price,
           categoryId: categoryId || null,
           isActive: isActive ?? true,
+          taxExempt: taxExempt ?? false,
+          ...(barcodes.length > 0 && {
+            barcodes: {
+              create: barcodes.map((code) => ({ code })),
+            },
+          }),
         },
       });
 
@@ -171,6 +220,7 @@ export async function POST(request: NextRequest) {
       include: {
         stock: true,
         category: true,
+        barcodes: true,
       },
     });
 
@@ -180,6 +230,15 @@ export async function POST(request: NextRequest) {
     });
   } catch (error: any) {
     console.error("Error creating product:", error);
+
+    // Unique constraint hit by a concurrent create (SKU or barcode)
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "SKU or barcode already exists" },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error", details: error.message },
       { status: 500 }
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getReservedQuantities } from "@/lib/stock";
+
+/**
+ * GET /api/products/snapshot
+ * All active products with price, stock and barcodes for the cashier's offline cache
+ * `stock.reserved` is the part of the stock held for pending online payments.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const products = await prisma.product.findMany({
+      where: { isActive: true },
+      include: {
+        stock: {
+          select: {
+            quantity: true,
+          },
+        },
+        category: {
+          select: {
+            id: true,
+            title: true,
+            taxExempt: true,
+          },
+        },
+        barcodes: {
+          select: {
+            id: true,
+            code: true,
+          },
+          orderBy: { id: "asc" },
+        },
+      },
+      orderBy: { name: "asc" },
+    });
+    const reserved = await getReservedQuantities(prisma, products.map((p) => p.id));
+
+    return NextResponse.json({
+      success: true,
+      data: products.map((p) => ({
+        ...p,
+        stock: p.stock && { ...p.stock, reserved: reserved.get(p.id) || 0 },
+      })),
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Error fetching product snapshot:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { promotionInputSchema } from "../promotionInput";
+
+/**
+ * PUT /api/promotions/[id]
+ * Update a promotion
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "promotion");
+
+    const { id } = await params;
+    const promotionId = parseInt(id);
+
+    if (isNaN(promotionId)) {
+      return NextResponse.json({ error: "Invalid promotion ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = promotionInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.promotion.findUnique({
+      where: { id: promotionId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Promotion not found" }, { status: 404 });
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id: promotionId },
+      data: validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: promotion,
+    });
+  } catch (error: any) {
+    console.error("Error updating promotion:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/promotions/[id]
+ * Delete a promotion. Past sales keep the promotion names they were sold with.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "promotion");
+
+    const { id } = await params;
+    const promotionId = parseInt(id);
+
+    if (isNaN(promotionId)) {
+      return NextResponse.json({ error: "Invalid promotion ID" }, { status: 400 });
+    }
+
+    const deleted = await prisma.promotion.deleteMany({
+      where: { id: promotionId },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: "Promotion not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Promotion deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting promotion:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
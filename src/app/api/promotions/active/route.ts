@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getActivePromotions } from "@/lib/active-promotions";
+
+/**
+ * GET /api/promotions/active
+ * Enabled promotions for the cashier cart (schedules are evaluated client-side)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const promotions = await getActivePromotions();
+
+    return NextResponse.json({
+      success: true,
+      data: promotions,
+    });
+  } catch (error: any) {
+    console.error("Error fetching active promotions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
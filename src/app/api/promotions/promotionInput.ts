@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { validatePromotionRule } from "@/lib/promotions";
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Format jam HH:mm")
+  .nullable()
+  .optional();
+
+// Validation schema for creating and updating a promotion
+export const promotionInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Nama promo wajib diisi").max(100),
+    description: z.string().trim().max(500).nullable().optional(),
+    type: z.enum(["BUY_X_GET_Y", "BUNDLE_PRICE", "CATEGORY_PERCENT", "MIN_SPEND"]),
+    isActive: z.boolean().default(true),
+    priority: z.number().int().default(0),
+    stackable: z.boolean().default(false),
+    productIds: z.array(z.number().int().positive()).default([]),
+    categoryId: z.number().int().positive().nullable().optional(),
+    buyQuantity: z.number().int().positive().nullable().optional(),
+    getQuantity: z.number().int().positive().nullable().optional(),
+    bundleQuantity: z.number().int().positive().nullable().optional(),
+    bundlePrice: z.number().int().min(0).nullable().optional(),
+    minSpend: z.number().int().positive().nullable().optional(),
+    discountType: z.enum(["PERCENTAGE", "NOMINAL"]).nullable().optional(),
+    discountValue: z.number().positive().nullable().optional(),
+    startsAt: z.string().datetime().nullable().optional(),
+    endsAt: z.string().datetime().nullable().optional(),
+    startTime: timeOfDay,
+    endTime: timeOfDay,
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).default([]),
+  })
+  .transform((input) => ({
+    ...input,
+    description: input.description || null,
+    categoryId: input.categoryId ?? null,
+    buyQuantity: input.buyQuantity ?? null,
+    getQuantity: input.getQuantity ?? null,
+    bundleQuantity: input.bundleQuantity ?? null,
+    bundlePrice: input.bundlePrice ?? null,
+    minSpend: input.minSpend ?? null,
+    // Category promotions are always a percentage
+    discountType: input.type === "CATEGORY_PERCENT" ? ("PERCENTAGE" as const) : input.discountType ?? null,
+    discountValue: input.discountValue ?? null,
+    startsAt: input.startsAt ? new Date(input.startsAt) : null,
+    endsAt: input.endsAt ? new Date(input.endsAt) : null,
+    startTime: input.startTime || null,
+    endTime: input.endTime || null,
+    productIds: [...new Set(input.productIds)],
+    daysOfWeek: [...new Set(input.daysOfWeek)].sort(),
+  }))
+  .superRefine((input, ctx) => {
+    const error = validatePromotionRule(input);
+    if (error) {
+      ctx.addIssue({ code: "custom", message: error, path: ["type"] });
+    }
+  });
+
+export type PromotionInput = z.infer<typeof promotionInputSchema>;
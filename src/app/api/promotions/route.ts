@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { promotionInputSchema } from "./promotionInput";
+
+/**
+ * GET /api/promotions
+ * List promotions with pagination and search
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "promotion");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const sortBy = searchParams.get("sortBy") || "createdAt";
+    const sortOrder = searchParams.get("sortOrder") || "desc";
+
+    // Whitelist allowed sort fields for security
+    const allowedSortFields = ["name", "type", "priority", "createdAt"];
+    const validSortBy = allowedSortFields.includes(sortBy) ? sortBy : "createdAt";
+    const validSortOrder = sortOrder === "asc" || sortOrder === "desc" ? sortOrder : "desc";
+
+    const where = search
+      ? { name: { contains: search, mode: "insensitive" as const } }
+      : {};
+
+    const [total, promotions] = await Promise.all([
+      prisma.promotion.count({ where }),
+      prisma.promotion.findMany({
+        where,
+        include: {
+          category: {
+            select: { id: true, title: true },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { [validSortBy]: validSortOrder },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: promotions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching promotions:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/promotions
+ * Create a promotion
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "promotion");
+
+    const body = await request.json();
+    const validation = promotionInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: promotion,
+    });
+  } catch (error: any) {
+    console.error("Error creating promotion:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
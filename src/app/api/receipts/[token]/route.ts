@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDigitalReceipt } from "@/lib/receipts";
+
+// Receipt tokens are base64url; anything else cannot match a transaction
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * GET /api/receipts/[token]
+ * Public digital receipt (no login), opened from the QR code on the printed receipt
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const receipt = TOKEN_PATTERN.test(token) ? await getDigitalReceipt(token) : null;
+
+    if (!receipt) {
+      return NextResponse.json(
+        { error: "Struk tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: receipt },
+      { headers: { "Cache-Control": "no-store", "X-Robots-Tag": "noindex" } }
+    );
+  } catch (error) {
+    console.error("Error fetching digital receipt:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
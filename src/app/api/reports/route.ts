@@ -157,11 +157,47 @@ export async function GET(request: NextRequest) {
 
     console.log("Found transactions:", transactions.length);
 
+    // Returns processed in the range count as negative revenue on the day of the return
+    const returns = await prisma.salesReturn.findMany({
+      where: {
+        createdAt: {
+          gte: dateStart,
+          lte: dateEnd,
+        },
+      },
+      include: {
+        items: true,
+        transaction: {
+          select: { totalAmount: true, taxAmount: true, serviceChargeAmount: true },
+        },
+      },
+    });
+
     // Calculate total revenue
-    const totalRevenue = transactions.reduce((sum, t) => sum + t.totalAmount, 0);
+    const grossRevenue = transactions.reduce((sum, t) => sum + t.totalAmount, 0);
+    const totalRefunds = returns.reduce((sum, r) => sum + r.refundAmount, 0);
+    const totalRevenue = grossRevenue - totalRefunds;
     const totalTransactions = transactions.length;
     const totalItemsSold = transactions.reduce((sum, t) => sum + t.items.length, 0);
 
+    // Tax and service charge collected, less the part given back with refunds
+    const refundedShare = (refundAmount: number, part: number, totalAmount: number) =>
+      totalAmount > 0 ? Math.round((refundAmount * part) / totalAmount) : 0;
+    const totalTax =
+      transactions.reduce((sum, t) => sum + t.taxAmount, 0) -
+      returns.reduce(
+        (sum, r) => sum + refundedShare(r.refundAmount, r.transaction.taxAmount, r.transaction.totalAmount),
+        0
+      );
+    const totalServiceCharge =
+      transactions.reduce((sum, t) => sum + t.serviceChargeAmount, 0) -
+      returns.reduce(
+        (sum, r) =>
+          sum + refundedShare(r.refundAmount, r.transaction.serviceChargeAmount, r.transaction.totalAmount),
+        0
+      );
+    const netSales = totalRevenue - totalTax - totalServiceCharge;
+
     // Calculate product sales
     const productSales = new Map<number, {
       productId: number;
@@ -190,6 +226,25 @@ export async function GET(request: NextRequest) {
       });
     });
 
+    // Returned units and refunds are taken off the product totals
+    returns.forEach((salesReturn) => {
+      salesReturn.items.forEach((item) => {
+        const existing = productSales.get(item.productId);
+        if (existing) {
+          existing.totalQuantity -= item.quantity;
+          existing.totalRevenue -= item.refundAmount;
+        } else {
+          productSales.set(item.productId, {
+            productId: item.productId,
+            productName: item.productName,
+            totalQuantity: -item.quantity,
+            totalRevenue: -item.refundAmount,
+            transactionCount: 0,
+          });
+        }
+      });
+    });
+
     // Convert to array and sort
     const productsArray = Array.from(productSales.values());
 
@@ -216,9 +271,15 @@ export async function GET(request: NextRequest) {
       data: {
         summary: {
           totalRevenue,
+          grossRevenue,
+          totalRefunds,
+          totalReturns: returns.length,
+          netSales,
+          totalTax,
+          totalServiceCharge,
           totalTransactions,
           totalItemsSold,
-          averageTransactionValue: totalTransactions > 0 ? totalRevenue / totalTransactions : 0,
+          averageTransactionValue: totalTransactions > 0 ? grossRevenue / totalTransactions : 0,
         },
         mostSoldProducts,
         popularProducts,
@@ -241,7 +302,7 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Get revenue data for charts
+ * Get revenue data for charts (sales minus refunds)
  * @param onlyWithData - If true, only return dates that have transactions (for "all time" view)
  * @param period - The period type (today, week, month, year, all)
  */
@@ -270,13 +331,31 @@ async function getDailyRevenue(
     },
   });
 
+  // Refunds are negative revenue at the time of the return
+  const returns = await prisma.salesReturn.findMany({
+    where: {
+      createdAt: {
+        gte: utcStartDate,
+        lte: utcEndDate,
+      },
+    },
+    select: {
+      createdAt: true,
+      refundAmount: true,
+    },
+  });
+  const entries = [
+    ...transactions.map((t) => ({ createdAt: t.createdAt, amount: t.totalAmount })),
+    ...returns.map((r) => ({ createdAt: r.createdAt, amount: -r.refundAmount })),
+  ];
+
   // For "today", group by hour (0-23)
   if (period === "today") {
     const revenueByHour = new Map<number, number>();
 
-    transactions.forEach((t) => {
-      const hour = t.createdAt.getHours();
-      revenueByHour.set(hour, (revenueByHour.get(hour) || 0) + t.totalAmount);
+    entries.forEach((e) => {
+      const hour = e.createdAt.getHours();
+      revenueByHour.set(hour, (revenueByHour.get(hour) || 0) + e.amount);
     });
 
     // Generate all hours from opening time (8AM) to current time
@@ -297,9 +376,9 @@ async function getDailyRevenue(
   // Group by date (in local timezone) for other periods
   const revenueByDate = new Map<string, number>();
 
-  transactions.forEach((t) => {
-    const dateKey = utcToLocalDateString(t.createdAt);
-    revenueByDate.set(dateKey, (revenueByDate.get(dateKey) || 0) + t.totalAmount);
+  entries.forEach((e) => {
+    const dateKey = utcToLocalDateString(e.createdAt);
+    revenueByDate.set(dateKey, (revenueByDate.get(dateKey) || 0) + e.amount);
   });
 
   console.log("Revenue by date:", Object.fromEntries(revenueByDate));
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { SETTLED_STATUSES } from "@/lib/payments";
+import { getStoreSettings } from "@/lib/store-settings";
+
+// Days covered by each period, ending today (store time)
+const PERIOD_DAYS: Record<string, number> = {
+  today: 1,
+  week: 7,
+  month: 30,
+};
+
+interface SettlementRow {
+  date: string;
+  method: string;
+  count: number;
+  gross: number;
+  fees: number;
+  net: number;
+}
+
+/**
+ * GET /api/reports/settlement
+ * Settled payments per day (store time) and payment method: gross, gateway fees and net
+ * Payments of canceled sales and refunded payments are left out.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "settlement");
+
+    const { searchParams } = new URL(request.url);
+    const period = searchParams.get("period") || "week";
+    const days = PERIOD_DAYS[period] ?? PERIOD_DAYS.week;
+    const { timezone } = await getStoreSettings();
+
+    const rows = await prisma.$queryRaw<
+      { date: string; method: string; count: number; gross: bigint; fees: bigint; net: bigint }[]
+    >`
+      SELECT to_char(p."paidAt" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS "date",
+        COALESCE(p."tenderMethod", 'MIDTRANS_ALL') AS "method",
+        COUNT(*)::int AS "count",
+        SUM(p."amount")::bigint AS "gross",
+        SUM(p."feeAmount")::bigint AS "fees",
+        SUM(p."netAmount")::bigint AS "net"
+      FROM "Payment" p
+      JOIN "Transaction" t ON t."id" = p."transactionId"
+      WHERE p."paymentStatus" = ANY(${SETTLED_STATUSES}::text[])
+        AND p."fraudStatus" IS DISTINCT FROM 'challenge'
+        AND t."status" <> 'CANCELED'
+        AND (p."paidAt" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone})::date
+          > (NOW() AT TIME ZONE ${timezone})::date - ${days}::int
+      GROUP BY 1, 2
+      ORDER BY 1 DESC, 2
+    `;
+
+    const data: SettlementRow[] = rows.map((row) => ({
+      date: row.date,
+      method: row.method,
+      count: row.count,
+      gross: Number(row.gross),
+      fees: Number(row.fees),
+      net: Number(row.net),
+    }));
+
+    const totals = data.reduce(
+      (sum, row) => ({
+        count: sum.count + row.count,
+        gross: sum.gross + row.gross,
+        fees: sum.fees + row.fees,
+        net: sum.net + row.net,
+      }),
+      { count: 0, gross: 0, fees: 0, net: 0 }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { period, timezone, rows: data, totals },
+    });
+  } catch (error: any) {
+    console.error("Error fetching settlement report:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
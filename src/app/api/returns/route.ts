@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+
+/**
+ * GET /api/returns
+ * List sales returns with pagination and search (return or invoice number)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "transaction");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+
+    const where = search
+      ? {
+          OR: [
+            { returnNo: { contains: search, mode: "insensitive" as const } },
+            { transaction: { invoiceNo: { contains: search, mode: "insensitive" as const } } },
+          ],
+        }
+      : {};
+
+    const [total, returns] = await Promise.all([
+      prisma.salesReturn.count({ where }),
+      prisma.salesReturn.findMany({
+        where,
+        include: {
+          items: true,
+          transaction: { select: { id: true, invoiceNo: true } },
+          customer: { select: { id: true, name: true, phone: true } },
+          creator: { select: { id: true, name: true, username: true } },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: returns,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching returns:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
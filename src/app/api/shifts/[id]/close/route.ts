@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { buildZReport } from "@/lib/shifts";
+import type { Prisma } from "@/generated/prisma/client";
+import { z } from "zod";
+
+const closeShiftSchema = z.object({
+  countedCash: z.number().int().min(0, "Jumlah kas tidak boleh negatif"),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * POST /api/shifts/[id]/close
+ * Close a shift with the counted cash and store its Z-report
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const shiftId = parseInt(id);
+
+    if (isNaN(shiftId)) {
+      return NextResponse.json({ error: "Invalid shift ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = closeShiftSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { countedCash, note } = validation.data;
+
+    const shift = await prisma.shift.findUnique({
+      where: { id: shiftId },
+    });
+
+    if (!shift) {
+      return NextResponse.json({ error: "Shift tidak ditemukan" }, { status: 404 });
+    }
+
+    if (shift.cashierId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Forbidden", details: "Shift belongs to another cashier" },
+        { status: 403 }
+      );
+    }
+
+    if (shift.status !== "OPEN") {
+      return NextResponse.json({ error: "Shift sudah ditutup" }, { status: 400 });
+    }
+
+    const closedAt = new Date();
+    const report = await buildZReport(shiftId, countedCash, closedAt);
+
+    // Only close if still open (another request may have closed it meanwhile)
+    const updated = await prisma.shift.updateMany({
+      where: { id: shiftId, status: "OPEN" },
+      data: {
+        status: "CLOSED",
+        closedAt,
+        expectedCash: report.expectedCash,
+        countedCash,
+        variance: report.variance,
+        closingNote: note || null,
+        report: report as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    if (updated.count === 0) {
+      return NextResponse.json({ error: "Shift sudah ditutup" }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error: any) {
+    console.error("Error closing shift:", error);
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
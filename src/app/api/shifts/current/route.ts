@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getOpenShift, buildZReport } from "@/lib/shifts";
+
+/**
+ * GET /api/shifts/current
+ * Get the open shift of the current cashier with a running summary (null when none is open)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shift = await getOpenShift(session.user.id);
+
+    if (!shift) {
+      return NextResponse.json({
+        success: true,
+        data: null,
+      });
+    }
+
+    const summary = await buildZReport(shift.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...shift, summary },
+    });
+  } catch (error: any) {
+    console.error("Error fetching current shift:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getOpenShift } from "@/lib/shifts";
+import { isUniqueConstraintError } from "@/lib/idempotency";
+import { z } from "zod";
+
+const openShiftSchema = z.object({
+  openingFloat: z.number().int().min(0, "Modal awal tidak boleh negatif"),
+  terminalId: z.string().max(50).nullable().optional(),
+});
+
+/**
+ * POST /api/shifts
+ * Open a shift for the current cashier with a starting cash float
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = openShiftSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { openingFloat, terminalId } = validation.data;
+
+    // One open shift per cashier (a concurrent open is caught by the unique index below)
+    const openShift = await getOpenShift(session.user.id);
+    if (openShift) {
+      return NextResponse.json(
+        { error: "Shift sudah dibuka", details: `Shift #${openShift.id} masih aktif` },
+        { status: 409 }
+      );
+    }
+
+    const shift = await prisma.shift.create({
+      data: {
+        cashierId: session.user.id,
+        terminalId: terminalId || null,
+        openingFloat,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: shift,
+    });
+  } catch (error: any) {
+    console.error("Error opening shift:", error);
+
+    // Another request opened a shift for this cashier at the same time
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: "Shift sudah dibuka", details: "Shift lain untuk kasir ini baru saja dibuka" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { getStoreSettings, STORE_SETTING_ID } from "@/lib/store-settings";
+import { storeSettingInputSchema } from "./storeSettingInput";
+
+/**
+ * GET /api/store-settings
+ * Store profile, receipt text and regional formats (read by the cashier and receipts)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getStoreSettings(),
+    });
+  } catch (error: any) {
+    console.error("Error fetching store settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/store-settings
+ * Save the store settings; a new invoice pattern applies to the next sale
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "store");
+
+    const body = await request.json();
+    const validation = storeSettingInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.storeSetting.upsert({
+      where: { id: STORE_SETTING_ID },
+      create: { id: STORE_SETTING_ID, ...validation.data, updatedBy: session.user.id },
+      update: { ...validation.data, updatedBy: session.user.id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await getStoreSettings(),
+    });
+  } catch (error: any) {
+    console.error("Error saving store settings:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
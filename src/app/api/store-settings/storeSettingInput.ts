@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { TENDER_METHODS } from "@/lib/payments";
+import {
+  SEQUENCE_RESETS,
+  SEQUENCE_SCOPES,
+  isValidCurrencyFormat,
+  isValidTimeZone,
+  validateDocumentPattern,
+} from "@/lib/store";
+
+// Logos are resized in the browser, so anything much larger is not from the settings page
+const MAX_LOGO_LENGTH = 300_000;
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .nullish()
+    .transform((value) => value || null);
+
+// Validation schema for saving the store settings
+export const storeSettingInputSchema = z
+  .object({
+    storeName: z.string().trim().min(1, "Nama toko wajib diisi").max(100),
+    address: optionalText(255),
+    phone: optionalText(30),
+    email: z
+      .union([z.literal(""), z.string().trim().email("Email tidak valid").max(100)])
+      .nullish()
+      .transform((value) => value || null),
+    logo: z
+      .string()
+      .regex(/^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/=]+$/, "Logo harus gambar PNG, JPEG atau WebP")
+      .max(MAX_LOGO_LENGTH, "Ukuran logo terlalu besar")
+      .nullish()
+      .transform((value) => value || null),
+    receiptHeader: optionalText(500),
+    receiptFooter: optionalText(500),
+    invoicePattern: z.string().trim().min(1, "Pola nomor invoice wajib diisi").max(40),
+    invoiceReset: z.enum(SEQUENCE_RESETS),
+    invoiceScope: z.enum(SEQUENCE_SCOPES),
+    timezone: z.string().trim().refine(isValidTimeZone, "Zona waktu tidak dikenal"),
+    locale: z.string().trim().min(2).max(20),
+    currency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z]{3}$/, "Kode mata uang harus 3 huruf (ISO 4217)"),
+    decimals: z.number().int().min(0).max(4),
+    defaultPaymentMethod: z.enum(TENDER_METHODS),
+  })
+  .superRefine((settings, ctx) => {
+    const patternError = validateDocumentPattern(
+      settings.invoicePattern,
+      settings.invoiceReset,
+      settings.invoiceScope
+    );
+    if (patternError) {
+      ctx.addIssue({ code: "custom", path: ["invoicePattern"], message: patternError });
+    }
+
+    if (!isValidCurrencyFormat(settings)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["currency"],
+        message: "Kombinasi locale dan mata uang tidak didukung",
+      });
+    }
+  });
+
+export type StoreSettingInput = z.infer<typeof storeSettingInputSchema>;
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { getTaxRule, TAX_SETTING_ID } from "@/lib/tax-settings";
+import { taxSettingInputSchema } from "./taxSettingInput";
+
+/**
+ * GET /api/tax-settings
+ * Store tax and service charge rules (read by the cashier to price the cart)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getTaxRule(),
+    });
+  } catch (error: any) {
+    console.error("Error fetching tax settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/tax-settings
+ * Save the tax and service charge rules and the tax-exempt categories
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "tax");
+
+    const body = await request.json();
+    const validation = taxSettingInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { exemptCategoryIds, ...rule } = validation.data;
+
+    await prisma.$transaction([
+      prisma.taxSetting.upsert({
+        where: { id: TAX_SETTING_ID },
+        create: { id: TAX_SETTING_ID, ...rule, updatedBy: session.user.id },
+        update: { ...rule, updatedBy: session.user.id },
+      }),
+      prisma.category.updateMany({
+        where: { id: { in: exemptCategoryIds } },
+        data: { taxExempt: true },
+      }),
+      prisma.category.updateMany({
+        // Only active categories are listed on the settings page
+        where: { id: { notIn: exemptCategoryIds }, isActive: true, taxExempt: true },
+        data: { taxExempt: false },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: await getTaxRule(),
+    });
+  } catch (error: any) {
+    console.error("Error saving tax settings:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// Validation schema for saving the store tax and service charge settings
+export const taxSettingInputSchema = z.object({
+  taxEnabled: z.boolean(),
+  taxName: z.string().trim().min(1, "Nama pajak wajib diisi").max(20),
+  taxRate: z.number().min(0, "Tarif tidak boleh negatif").max(100, "Tarif maksimal 100%"),
+  taxInclusive: z.boolean(),
+  serviceChargeEnabled: z.boolean(),
+  serviceChargeRate: z
+    .number()
+    .min(0, "Tarif tidak boleh negatif")
+    .max(100, "Tarif maksimal 100%"),
+  // Categories whose products carry no tax
+  exemptCategoryIds: z.array(z.number().int().positive()).default([]),
+});
+
+export type TaxSettingInput = z.infer<typeof taxSettingInputSchema>;
@@ -2,10 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { requirePermission } from "@/lib/permissions";
+import { cancelTransactionWithRefunds, STALE_REFUND_MINUTES } from "@/lib/payment-refunds";
+import { ApiError } from "@/lib/utils/error";
 
 /**
  * POST /api/transactions/[id]/cancel
- * Cancel a transaction and restore stock
+ * Cancel a transaction, restore stock (or release the stock reserved for an unpaid online
+ * payment), give back any redeemed voucher and reverse loyalty points
+ * Paid online tenders are refunded through the gateway first: answers 202 while a refund
+ * is pending and 502 when one failed or stayed unconfirmed too long. Send `manualRefund: true`
+ * to mark those refunds as returned to the customer outside the gateway and finish the
+ * cancellation.
  */
 export async function POST(
   request: NextRequest,
@@ -29,6 +36,7 @@ export async function POST(
 
     const body = await request.json();
     const { reason } = body;
+    const manualRefund = body.manualRefund === true;
 
     if (!reason || typeof reason !== "string" || reason.trim().length === 0) {
       return NextResponse.json(
@@ -37,19 +45,11 @@ export async function POST(
       );
     }
 
-    // Fetch transaction with items
     const transaction = await prisma.transaction.findUnique({
       where: { id: transactionId },
       include: {
-        items: {
-          include: {
-            product: {
-              include: {
-                stock: true,
-              },
-            },
-          },
-        },
+        items: { select: { returnedQuantity: true } },
+        payments: { select: { _count: { select: { refunds: true } } } },
       },
     });
 
@@ -68,58 +68,65 @@ export async function POST(
       );
     }
 
-    // Check 24 hour rule
-    const now = new Date();
-    const transactionDate = new Date(transaction.createdAt);
-    const hoursDiff = (now.getTime() - transactionDate.getTime()) / (1000 * 60 * 60);
+    // Returned goods were already refunded; the rest must go through a return too
+    if (transaction.items.some((item) => item.returnedQuantity > 0)) {
+      return NextResponse.json(
+        { error: "Transaksi sudah memiliki retur, gunakan retur untuk item lainnya" },
+        { status: 400 }
+      );
+    }
+
+    // Check 24 hour rule, unless a cancellation is already waiting on its refunds
+    const refundRequested = transaction.payments.some((p) => p._count.refunds > 0);
+    const hoursDiff = (Date.now() - transaction.createdAt.getTime()) / (1000 * 60 * 60);
 
-    if (hoursDiff > 24) {
+    if (hoursDiff > 24 && !refundRequested) {
       return NextResponse.json(
         { error: "Tidak dapat membatalkan transaksi lebih dari 24 jam" },
         { status: 400 }
       );
     }
 
-    // Use transaction to ensure atomicity
-    await prisma.$transaction(async (tx) => {
-      // 1. Restore stock for each item
-      for (const item of transaction.items) {
-        if (item.product.stock) {
-          await tx.stock.update({
-            where: { productId: item.productId },
-            data: {
-              quantity: {
-                increment: item.quantity,
-              },
-            },
-          });
-        }
-      }
-
-      // 2. Update transaction status
-      await tx.transaction.update({
-        where: { id: transactionId },
-        data: {
-          status: "CANCELED",
-          canceledAt: now,
-          canceledBy: session.user.id,
+    const result = await cancelTransactionWithRefunds(transactionId, {
+      reason: reason.trim(),
+      userId: session.user.id,
+      manualRefund,
+    });
+
+    if (result.outcome === "REFUND_FAILED") {
+      const failed = result.refunds.filter((r) => r.status === "FAILED").at(-1);
+      return NextResponse.json(
+        { error: "Refund failed", details: failed?.statusMessage, data: result },
+        { status: 502 }
+      );
+    }
+
+    if (result.outcome === "REFUND_STALE") {
+      return NextResponse.json(
+        {
+          error: "Refund not confirmed",
+          details: `Refund belum dikonfirmasi payment gateway setelah ${STALE_REFUND_MINUTES} menit, cek status refund di dashboard gateway`,
+          data: result,
         },
-      });
-
-      // 3. Log the cancellation
-      await tx.transactionCancelLog.create({
-        data: {
-          transactionId,
-          reason: reason.trim(),
-          canceledBy: session.user.id,
-          canceledAt: now,
+        { status: 502 }
+      );
+    }
+
+    if (result.outcome === "REFUND_PENDING") {
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Refund sedang diproses, transaksi dibatalkan setelah refund berhasil",
+          data: result,
         },
-      });
-    });
+        { status: 202 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
       message: "Transaksi berhasil dibatalkan",
+      data: result,
     });
   } catch (error: any) {
     console.error("Error canceling transaction:", error);
@@ -131,6 +138,10 @@ export async function POST(
       );
     }
 
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { renderEscPosReceipt, type PaperWidth } from "@/lib/escpos";
+import { getTransactionReceipt } from "@/lib/receipts";
+
+const PAPER_WIDTHS: PaperWidth[] = [58, 80];
+const CODE_TYPES = ["qr", "barcode", "none"] as const;
+
+/**
+ * GET /api/transactions/[id]/receipt/escpos?width=58|80&code=qr|barcode|none&drawer=1
+ * Receipt as a raw ESC/POS byte stream for thermal printers.
+ * The drawer kick is only added when the sale had a cash tender.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const transactionId = parseInt(id);
+
+    if (isNaN(transactionId)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const width = parseInt(searchParams.get("width") || "80") as PaperWidth;
+    const code = (searchParams.get("code") || "qr") as (typeof CODE_TYPES)[number];
+
+    if (!PAPER_WIDTHS.includes(width) || !CODE_TYPES.includes(code)) {
+      return NextResponse.json(
+        { error: "Validation failed", details: "width harus 58 atau 80, code harus qr, barcode atau none" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getTransactionReceipt(transactionId);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Transaksi tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    const bytes = renderEscPosReceipt(result.receipt, {
+      paperWidth: width,
+      code,
+      openDrawer: searchParams.get("drawer") === "1" && result.hasCashPayment,
+    });
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `inline; filename="${result.receipt.invoiceNo}.bin"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering ESC/POS receipt:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+// Validation schema for returning items of a sale
+export const returnInputSchema = z.object({
+  reason: z.string().trim().min(1, "Alasan retur wajib diisi").max(500),
+  refundMethod: z.enum(["CASH", "STORE_CREDIT"]),
+  items: z
+    .array(
+      z.object({
+        transactionItemId: z.number().int().positive(),
+        quantity: z.number().int().positive("Jumlah retur minimal 1"),
+        restock: z.boolean(),
+      })
+    )
+    .min(1, "Pilih minimal satu item untuk diretur")
+    .refine(
+      (items) => new Set(items.map((item) => item.transactionItemId)).size === items.length,
+      "Item retur tidak boleh ganda"
+    ),
+});
+
+export type ReturnInput = z.infer<typeof returnInputSchema>;
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { getOpenShift } from "@/lib/shifts";
+import { generateReturnNumber } from "@/lib/invoice";
+import { createSalesReturn } from "@/lib/returns";
+import { ApiError } from "@/lib/utils/error";
+import { returnInputSchema } from "./returnInput";
+
+/**
+ * GET /api/transactions/[id]/returns
+ * Returns recorded against a sale
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "transaction");
+
+    const { id } = await params;
+    const transactionId = parseInt(id);
+
+    if (isNaN(transactionId)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const returns = await prisma.salesReturn.findMany({
+      where: { transactionId },
+      include: {
+        items: true,
+        creator: { select: { id: true, name: true, username: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: returns,
+    });
+  } catch (error: any) {
+    console.error("Error fetching returns:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transactions/[id]/returns
+ * Return some items of a completed sale and refund them in cash or as store credit
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "transaction");
+
+    const { id } = await params;
+    const transactionId = parseInt(id);
+
+    if (isNaN(transactionId)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = returnInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reason, refundMethod, items } = validation.data;
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      include: { items: true },
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaksi tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    // Cash refunds come out of the drawer of whoever processes the return
+    const shift = refundMethod === "CASH" ? await getOpenShift(session.user.id) : null;
+    if (refundMethod === "CASH" && !shift) {
+      return NextResponse.json(
+        { error: "No open shift", details: "Buka shift terlebih dahulu untuk refund tunai" },
+        { status: 400 }
+      );
+    }
+
+    const salesReturn = await prisma.$transaction(async (tx) =>
+      createSalesReturn(tx, {
+        returnNo: await generateReturnNumber(tx),
+        transaction,
+        lines: items,
+        reason,
+        refundMethod,
+        shiftId: shift?.id ?? null,
+        userId: session.user.id,
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: salesReturn,
+    });
+  } catch (error: any) {
+    console.error("Error creating return:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Return rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
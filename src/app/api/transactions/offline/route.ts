@@ -0,0 +1,249 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getPaymentMethods } from "@/lib/payment-method-settings";
+import { parseTenders } from "@/lib/payments";
+import { getOpenShift } from "@/lib/shifts";
+import { priceSaleItems, createSale, saleProductInclude } from "@/lib/sales";
+import { saleItemsSchema } from "@/lib/validations/sale";
+import { decrementStock, InsufficientStockError, type StockShortage } from "@/lib/stock";
+import { findIdempotentTransaction, isUniqueConstraintError } from "@/lib/idempotency";
+import { ApiError } from "@/lib/utils/error";
+import type { Transaction } from "@/generated/prisma/client";
+import { z } from "zod";
+
+const offlineSaleSchema = z.object({
+  offlineId: z.string().min(1).max(64),
+  idempotencyKey: z.string().min(1).max(100).nullable().optional(),
+  provisionalInvoiceNo: z.string().min(1).max(50),
+  shiftId: z.number().int().positive().nullable().optional(),
+  soldAt: z.string().datetime(),
+  items: saleItemsSchema,
+  totalAmount: z.number().int().min(0),
+  discount: z
+    .object({
+      type: z.enum(["PERCENTAGE", "NOMINAL"]).nullable(),
+      value: z.number().min(0),
+    })
+    .nullable()
+    .optional(),
+});
+
+/**
+ * POST /api/transactions/offline
+ * Replay a cash sale that was completed while the cashier was offline.
+ * Replays are idempotent on `offlineId`; stock conflicts return 409 with the affected items.
+ * A sale queued after its online checkout lost the connection carries that checkout's
+ * `idempotencyKey`, and is not recorded again if the online request went through.
+ * The sale is recorded at server prices; a different client total is kept in `clientTotalAmount` for review.
+ * The cash tender is the amount actually collected, so the shift's cash matches the drawer.
+ */
+export async function POST(request: NextRequest) {
+  let offlineId: string | undefined;
+  let idempotencyKey: string | null = null;
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = offlineSaleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    offlineId = validation.data.offlineId;
+    idempotencyKey = validation.data.idempotencyKey ?? null;
+    const { provisionalInvoiceNo, shiftId, soldAt, items, totalAmount, discount } =
+      validation.data;
+
+    // Already synced (e.g. the response of an earlier replay was lost)
+    const existing = await prisma.transaction.findUnique({
+      where: { offlineId },
+    });
+
+    if (existing) {
+      return duplicateResponse(existing);
+    }
+
+    // The online checkout was saved before its response was lost
+    if (idempotencyKey) {
+      const online = await findIdempotentTransaction(idempotencyKey, session.user.id);
+
+      if (online === "conflict") {
+        return NextResponse.json(
+          { error: "Idempotency key conflict", details: "Key already used by another cashier" },
+          { status: 409 }
+        );
+      }
+
+      if (online) {
+        return duplicateResponse(online);
+      }
+    }
+
+    // Record against the shift the sale was made in while it is still open, otherwise the
+    // cashier's current shift (a closed shift's cash was already counted)
+    const recordedShift = shiftId
+      ? await prisma.shift.findFirst({
+          where: { id: shiftId, cashierId: session.user.id, status: "OPEN" },
+        })
+      : null;
+    const shift = recordedShift || (await getOpenShift(session.user.id));
+
+    if (!shift) {
+      return NextResponse.json(
+        { error: "No open shift", details: "Buka shift terlebih dahulu sebelum sinkronisasi" },
+        { status: 400 }
+      );
+    }
+
+    // Products deactivated while offline are a conflict; stock is checked when it is taken
+    const productIds = items.map((item) => item.productId);
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      include: saleProductInclude,
+    });
+
+    const conflicts: StockShortage[] = items
+      .filter((item) => !products.find((p) => p.id === item.productId)?.isActive)
+      .map((item) => ({
+        productId: item.productId,
+        name: products.find((p) => p.id === item.productId)?.name || `Produk #${item.productId}`,
+        requested: item.quantity,
+        available: 0,
+      }));
+
+    if (conflicts.length > 0) {
+      return stockConflictResponse(conflicts);
+    }
+
+    // Recompute prices on the server. The customer already paid, so a mismatch
+    // (e.g. a price change while offline) is flagged instead of rejected.
+    const priced = await priceSaleItems(items, products, discount, { at: new Date(soldAt) });
+    if ("error" in priced) {
+      return NextResponse.json(
+        { error: "Invalid discount", details: priced.error },
+        { status: 400 }
+      );
+    }
+    const serverTotal = priced.totals.finalTotal;
+
+    const paymentMethods = await getPaymentMethods();
+
+    // Offline sales are cash only, tendered at what the cashier collected
+    const tenderResult = parseTenders(undefined, totalAmount, "CASH", paymentMethods);
+    if ("error" in tenderResult) {
+      return NextResponse.json(
+        { error: "Invalid payments", details: tenderResult.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const transaction = await createSale(tx, {
+        draft: { ...priced, products, discountRule: discount ?? null, voucher: null, customer: null },
+        shift,
+        cashierId: session.user.id,
+        tenders: tenderResult.tenders,
+        paymentMethods,
+        data: {
+          clientTotalAmount: totalAmount !== serverTotal ? totalAmount : null,
+          status: "COMPLETED",
+          paymentType: "CASH",
+          paymentStatus: "PAID",
+          paidAt: new Date(soldAt),
+          offlineId,
+          idempotencyKey,
+          provisionalInvoiceNo,
+          offlineSoldAt: new Date(soldAt),
+        },
+      });
+      await decrementStock(tx, priced.lines);
+
+      return transaction;
+    });
+
+    return NextResponse.json({
+      success: true,
+      duplicate: false,
+      data: {
+        id: result.id,
+        invoiceNo: result.invoiceNo,
+        provisionalInvoiceNo: result.provisionalInvoiceNo,
+        totalAmount: result.totalAmount,
+        clientTotalAmount: result.clientTotalAmount,
+        status: result.status,
+        createdAt: result.createdAt,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error syncing offline transaction:", error);
+
+    // A concurrent replay of the same sale, or its online checkout, won the race
+    if (isUniqueConstraintError(error) && offlineId) {
+      const existing = await prisma.transaction.findFirst({
+        where: {
+          OR: [{ offlineId }, ...(idempotencyKey ? [{ idempotencyKey }] : [])],
+        },
+      });
+      if (existing) {
+        return duplicateResponse(existing);
+      }
+    }
+
+    // Stock sold elsewhere while this terminal was offline
+    if (error instanceof InsufficientStockError) {
+      return stockConflictResponse(error.shortages);
+    }
+
+    // No invoice number could be taken
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Sync rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+function duplicateResponse(existing: Transaction) {
+  return NextResponse.json({
+    success: true,
+    duplicate: true,
+    data: {
+      id: existing.id,
+      invoiceNo: existing.invoiceNo,
+      provisionalInvoiceNo: existing.provisionalInvoiceNo,
+      totalAmount: existing.totalAmount,
+      status: existing.status,
+      createdAt: existing.createdAt,
+    },
+  });
+}
+
+function stockConflictResponse(conflicts: StockShortage[]) {
+  return NextResponse.json(
+    {
+      error: "Stock conflict",
+      details: "Stok beberapa produk tidak mencukupi",
+      conflicts,
+    },
+    { status: 409 }
+  );
+}
@@ -1,10 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { getPaymentMethods } from "@/lib/payment-method-settings";
+import {
+  parseTenders,
+  getTransactionPaymentType,
+  releaseExpiredReservations,
+  type TenderMethod,
+} from "@/lib/payments";
+import { getOpenShift } from "@/lib/shifts";
+import { prepareCheckout, createSale } from "@/lib/sales";
+import { saleItemsSchema } from "@/lib/validations/sale";
+import { reserveStock, InsufficientStockError, RESERVATION_MINUTES } from "@/lib/stock";
+import { ApiError } from "@/lib/utils/error";
+import {
+  getIdempotencyKey,
+  findIdempotentTransaction,
+  isUniqueConstraintError,
+} from "@/lib/idempotency";
+import type { Transaction } from "@/generated/prisma/client";
+import type { Session } from "next-auth";
 
 /**
  * POST /api/transactions/pending
- * Create a pending transaction for Midtrans payment
+ * Create a pending transaction for Midtrans payment.
+ * `payments` may split the total across several tenders (cash lines are settled at once).
+ * The items are reserved, not taken, until the payment settles (see reserveStock).
+ * Send an `Idempotency-Key` header to make retries return the original sale.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -14,134 +36,138 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Repeat of an earlier checkout attempt: return the original sale
+    const idempotency = getIdempotencyKey(request);
+    if ("error" in idempotency) {
+      return NextResponse.json(
+        { error: "Invalid idempotency key", details: idempotency.error },
+        { status: 400 }
+      );
+    }
+    const idempotencyKey = idempotency.key;
+
+    if (idempotencyKey) {
+      const replay = await replayTransaction(idempotencyKey, session.user);
+      if (replay) return replay;
+    }
+
     const body = await request.json();
-    const { items, totalAmount, paymentMethod = "MIDTRANS_QRIS", customerDetails, discount } = body;
+    const { totalAmount, paymentMethod = "MIDTRANS_QRIS", discount, payments, customerId, redeemPoints } = body;
 
     // Validate items
-    if (!items || !Array.isArray(items) || items.length === 0) {
+    const itemsValidation = saleItemsSchema.safeParse(body.items);
+    if (!itemsValidation.success) {
       return NextResponse.json(
-        { error: "Invalid items", details: "Items must be a non-empty array" },
+        { error: "Invalid items", details: itemsValidation.error.issues[0].message },
         { status: 400 }
       );
     }
+    const items = itemsValidation.data;
 
-    // Validate each item
-    for (const item of items) {
-      if (!item.productId || !item.quantity) {
-        return NextResponse.json(
-          { error: "Invalid item", details: "Each item must have productId and quantity" },
-          { status: 400 }
-        );
-      }
-      if (item.quantity <= 0) {
-        return NextResponse.json(
-          { error: "Invalid quantity", details: "Quantity must be greater than 0" },
-          { status: 400 }
-        );
-      }
+    const paymentMethods = await getPaymentMethods();
+
+    // Validate tenders (defaults to one gateway tender for the whole amount)
+    const tenderResult = parseTenders(
+      payments,
+      totalAmount,
+      paymentMethod as TenderMethod,
+      paymentMethods
+    );
+    if ("error" in tenderResult) {
+      return NextResponse.json(
+        { error: "Invalid payments", details: tenderResult.error },
+        { status: 400 }
+      );
     }
+    const { tenders } = tenderResult;
 
-    // Verify products exist and have enough stock
-    const productIds = items.map((item) => item.productId);
-    const products = await prisma.product.findMany({
-      where: { id: { in: productIds }, isActive: true },
-      include: { stock: true },
-    });
+    if (tenders.every((t) => t.method === "CASH")) {
+      return NextResponse.json(
+        { error: "Invalid payments", details: "Cash-only sales must use /api/transactions" },
+        { status: 400 }
+      );
+    }
 
-    if (products.length !== productIds.length) {
+    // Sales are recorded against the cashier's open shift
+    const shift = await getOpenShift(session.user.id);
+    if (!shift) {
       return NextResponse.json(
-        { error: "Some products are not available" },
+        { error: "No open shift", details: "Buka shift terlebih dahulu sebelum berjualan" },
         { status: 400 }
       );
     }
 
-    // Check stock availability
-    for (const item of items) {
-      const product = products.find((p) => p.id === item.productId);
-      if (!product?.stock || product.stock.quantity < item.quantity) {
-        return NextResponse.json(
-          {
-            error: "Insufficient stock",
-            details: `Product ${product?.name} does not have enough stock`,
-          },
-          { status: 400 }
-        );
-      }
+    // Products, customer, voucher and server pricing
+    const checkout = await prepareCheckout({ items, totalAmount, discount, customerId, redeemPoints });
+    if ("rejection" in checkout) {
+      const { status, ...rejection } = checkout.rejection;
+      return NextResponse.json(rejection, { status });
     }
 
-    // Generate invoice number
-    const invoiceNo = await generateInvoiceNumber();
+    // Abandoned payments give their reserved units back before this sale checks stock
+    await releaseExpiredReservations();
 
     // Create pending transaction in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create transaction with PENDING status
-      const transaction = await tx.transaction.create({
-        data: {
-          invoiceNo,
-          totalAmount,
-          status: "PENDING", // PENDING until payment is confirmed
-          paymentType: paymentMethod,
-          paymentStatus: "PENDING",
+    let result: Transaction;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // PENDING until payment is confirmed
+        const transaction = await createSale(tx, {
+          draft: checkout,
+          shift,
           cashierId: session.user.id,
-          // Discount fields
-          discountAmount: discount?.amount || 0,
-          discountType: discount?.type || null,
-          discountValue: discount?.value || null,
-        },
-      });
-
-      // Create transaction items and update stock
-      for (const item of items) {
-        const product = products.find((p) => p.id === item.productId);
-        const discountedPrice = item.discountedPrice || item.price || product?.price || 0;
-        const discountAmount = item.discountAmount || 0;
-
-        // Create transaction item
-        await tx.transactionItem.create({
+          tenders,
+          paymentMethods,
           data: {
-            transactionId: transaction.id,
-            productId: item.productId,
-            productName: product?.name || "",
-            price: item.price || product?.price || 0,
-            quantity: item.quantity,
-            subtotal: discountedPrice * item.quantity,
-            // Discount fields
-            discountPrice: discountedPrice,
-            discountAmount: discountAmount,
+            status: "PENDING",
+            paymentType: getTransactionPaymentType(tenders),
+            paymentStatus: "PENDING",
+            idempotencyKey,
           },
         });
 
-        // Update stock
-        await tx.stock.update({
-          where: { productId: item.productId },
-          data: {
-            quantity: {
-              decrement: item.quantity,
-            },
-          },
-        });
-      }
+        // Stock is checked and held atomically until the payment settles, fails or expires
+        await reserveStock(
+          tx,
+          transaction.id,
+          checkout.lines,
+          new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000)
+        );
 
-      return transaction;
-    });
+        return transaction;
+      });
+    } catch (error) {
+      // A concurrent request with the same key won the race; its sale is the result
+      if (idempotencyKey && isUniqueConstraintError(error)) {
+        const replay = await replayTransaction(idempotencyKey, session.user);
+        if (replay) return replay;
+      }
+      throw error;
+    }
 
     return NextResponse.json({
       success: true,
-      data: {
-        id: result.id,
-        invoiceNo: result.invoiceNo,
-        totalAmount: result.totalAmount,
-        status: result.status,
-        paymentStatus: result.paymentStatus,
-        createdAt: result.createdAt,
-        customerDetails: {
-          name: session.user.name || "Customer",
-          email: (session.user as any).email || "customer@example.com",
-        },
-      },
+      data: await toResponseData(result, session.user),
     });
   } catch (error: any) {
     console.error("Error creating pending transaction:", error);
+
+    // Stock taken by a concurrent sale; every short line is listed
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        { error: "Insufficient stock", details: error.message, conflicts: error.shortages },
+        { status: 409 }
+      );
+    }
+
+    // Voucher or points taken by a concurrent sale
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Checkout rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error", details: error.message },
       { status: 500 }
@@ -149,24 +175,62 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function toResponseData(transaction: Transaction, user: Session["user"]) {
+  const payments = await prisma.payment.findMany({
+    where: { transactionId: transaction.id },
+    orderBy: { sequence: "asc" },
+  });
+  const customer = transaction.customerId
+    ? await prisma.customer.findUnique({ where: { id: transaction.customerId } })
+    : null;
+
+  return {
+    id: transaction.id,
+    invoiceNo: transaction.invoiceNo,
+    receiptToken: transaction.receiptToken,
+    totalAmount: transaction.totalAmount,
+    status: transaction.status,
+    paymentStatus: transaction.paymentStatus,
+    createdAt: transaction.createdAt,
+    payments: payments.map((p) => ({
+      id: p.id,
+      sequence: p.sequence,
+      orderId: p.orderId,
+      amount: p.amount,
+      paymentType: p.paymentType,
+      paymentMethod: p.paymentMethod,
+      paymentStatus: p.paymentStatus,
+    })),
+    pointsRedeemed: transaction.pointsRedeemed,
+    // Member details when a customer is attached, otherwise the cashier as before
+    customerDetails: customer
+      ? { name: customer.name, email: customer.email, phone: customer.phone }
+      : {
+          name: user.name || "Customer",
+          email: (user as any).email || "customer@example.com",
+        },
+  };
+}
+
 /**
- * Generate unique invoice number
- * Format: INV-{YYYYMMDD}-{seq}
+ * Response for a request whose idempotency key was already used (null if unused)
  */
-async function generateInvoiceNumber(): Promise<string> {
-  const today = new Date();
-  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, "");
-
-  // Get the count of transactions today
-  const count = await prisma.transaction.count({
-    where: {
-      createdAt: {
-        gte: new Date(today.setHours(0, 0, 0, 0)),
-        lt: new Date(today.setHours(23, 59, 59, 999)),
-      },
-    },
-  });
+async function replayTransaction(key: string, user: Session["user"]) {
+  const existing = await findIdempotentTransaction(key, user.id);
+
+  if (existing === "conflict") {
+    return NextResponse.json(
+      { error: "Idempotency key conflict", details: "Key already used by another cashier" },
+      { status: 409 }
+    );
+  }
+
+  if (!existing) {
+    return null;
+  }
 
-  const seq = String(count + 1).padStart(4, "0");
-  return `INV-${dateStr}-${seq}`;
+  return NextResponse.json(
+    { success: true, data: await toResponseData(existing, user) },
+    { headers: { "Idempotent-Replayed": "true" } }
+  );
 }
@@ -1,10 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { getPaymentMethods } from "@/lib/payment-method-settings";
+import { parseTenders } from "@/lib/payments";
+import { getOpenShift } from "@/lib/shifts";
+import { prepareCheckout, createSale } from "@/lib/sales";
+import { saleItemsSchema } from "@/lib/validations/sale";
+import { earnLoyaltyPoints } from "@/lib/customers";
+import { decrementStock, InsufficientStockError } from "@/lib/stock";
+import { ApiError } from "@/lib/utils/error";
+import {
+  getIdempotencyKey,
+  findIdempotentTransaction,
+  isUniqueConstraintError,
+} from "@/lib/idempotency";
+import type { Transaction } from "@/generated/prisma/client";
 
 /**
  * POST /api/transactions
- * Create a new transaction
+ * Create a new transaction.
+ * Send an `Idempotency-Key` header to make retries return the original sale.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -14,142 +29,127 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Repeat of an earlier checkout attempt: return the original sale
+    const idempotency = getIdempotencyKey(request);
+    if ("error" in idempotency) {
+      return NextResponse.json(
+        { error: "Invalid idempotency key", details: idempotency.error },
+        { status: 400 }
+      );
+    }
+    const idempotencyKey = idempotency.key;
+
+    if (idempotencyKey) {
+      const replay = await replayTransaction(idempotencyKey, session.user.id);
+      if (replay) return replay;
+    }
+
     const body = await request.json();
-    const { items, totalAmount, discount } = body;
+    const { totalAmount, discount, payments, customerId, redeemPoints } = body;
 
     // Validate items
-    if (!items || !Array.isArray(items) || items.length === 0) {
+    const itemsValidation = saleItemsSchema.safeParse(body.items);
+    if (!itemsValidation.success) {
       return NextResponse.json(
-        { error: "Invalid items", details: "Items must be a non-empty array" },
+        { error: "Invalid items", details: itemsValidation.error.issues[0].message },
         { status: 400 }
       );
     }
+    const items = itemsValidation.data;
 
-    // Validate each item
-    for (const item of items) {
-      if (!item.productId || !item.quantity) {
-        return NextResponse.json(
-          { error: "Invalid item", details: "Each item must have productId and quantity" },
-          { status: 400 }
-        );
-      }
-      if (item.quantity <= 0) {
-        return NextResponse.json(
-          { error: "Invalid quantity", details: "Quantity must be greater than 0" },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Verify products exist and have enough stock
-    const productIds = items.map((item) => item.productId);
-    const products = await prisma.product.findMany({
-      where: { id: { in: productIds }, isActive: true },
-      include: { stock: true },
-    });
+    const paymentMethods = await getPaymentMethods();
 
-    if (products.length !== productIds.length) {
+    // Validate tenders - this endpoint settles immediately, so only cash is accepted
+    const tenderResult = parseTenders(payments, totalAmount, "CASH", paymentMethods);
+    if ("error" in tenderResult) {
+      return NextResponse.json(
+        { error: "Invalid payments", details: tenderResult.error },
+        { status: 400 }
+      );
+    }
+    if (tenderResult.tenders.some((t) => t.method !== "CASH")) {
       return NextResponse.json(
-        { error: "Some products are not available" },
+        { error: "Invalid payments", details: "Non-cash tenders must use /api/transactions/pending" },
         { status: 400 }
       );
     }
 
-    // Check stock availability
-    for (const item of items) {
-      const product = products.find((p) => p.id === item.productId);
-      if (!product?.stock || product.stock.quantity < item.quantity) {
-        return NextResponse.json(
-          {
-            error: "Insufficient stock",
-            details: `Product ${product?.name} does not have enough stock`,
-          },
-          { status: 400 }
-        );
-      }
+    // Sales are recorded against the cashier's open shift
+    const shift = await getOpenShift(session.user.id);
+    if (!shift) {
+      return NextResponse.json(
+        { error: "No open shift", details: "Buka shift terlebih dahulu sebelum berjualan" },
+        { status: 400 }
+      );
     }
 
-    // Generate invoice number
-    const invoiceNo = await generateInvoiceNumber();
+    // Products, customer, voucher and server pricing
+    const checkout = await prepareCheckout({ items, totalAmount, discount, customerId, redeemPoints });
+    if ("rejection" in checkout) {
+      const { status, ...rejection } = checkout.rejection;
+      return NextResponse.json(rejection, { status });
+    }
 
     // Create transaction with items in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create transaction - PENDING for non-cash, COMPLETED for cash
-      const transaction = await tx.transaction.create({
-        data: {
-          invoiceNo,
-          totalAmount,
-          status: "COMPLETED", // For cash payment, complete immediately
-          paymentType: "CASH",
-          paymentStatus: "PAID",
-          paidAt: new Date(),
+    let result: Transaction;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // Cash payment completes immediately
+        const transaction = await createSale(tx, {
+          draft: checkout,
+          shift,
           cashierId: session.user.id,
-          // Discount fields
-          discountAmount: discount?.amount || 0,
-          discountType: discount?.type || null,
-          discountValue: discount?.value || null,
-        },
-      });
-
-      // Create payment record for cash transaction
-      await tx.payment.create({
-        data: {
-          transactionId: transaction.id,
-          amount: totalAmount,
-          paymentType: "CASH",
-          paymentMethod: "cash",
-          paymentStatus: "settlement",
-          transactionTime: new Date(),
-        },
-      });
-
-      // Create transaction items and update stock
-      for (const item of items) {
-        const product = products.find((p) => p.id === item.productId);
-        const discountedPrice = item.discountedPrice || item.price || product?.price || 0;
-        const discountAmount = item.discountAmount || 0;
-
-        // Create transaction item
-        await tx.transactionItem.create({
+          tenders: tenderResult.tenders,
+          paymentMethods,
           data: {
-            transactionId: transaction.id,
-            productId: item.productId,
-            productName: product?.name || "",
-            price: item.price || product?.price || 0,
-            quantity: item.quantity,
-            subtotal: discountedPrice * item.quantity,
-            // Discount fields
-            discountPrice: discountedPrice,
-            discountAmount: discountAmount,
+            status: "COMPLETED",
+            paymentType: "CASH",
+            paymentStatus: "PAID",
+            paidAt: new Date(),
+            idempotencyKey,
           },
         });
 
-        // Update stock
-        await tx.stock.update({
-          where: { productId: item.productId },
-          data: {
-            quantity: {
-              decrement: item.quantity,
-            },
-          },
-        });
-      }
+        // Stock is checked and taken atomically (see decrementStock)
+        await decrementStock(tx, checkout.lines);
 
-      return transaction;
-    });
+        // Cash sales complete immediately, so the points are earned now
+        const pointsEarned = await earnLoyaltyPoints(tx, transaction);
+
+        return { ...transaction, pointsEarned };
+      });
+    } catch (error) {
+      // A concurrent request with the same key won the race; its sale is the result
+      if (idempotencyKey && isUniqueConstraintError(error)) {
+        const replay = await replayTransaction(idempotencyKey, session.user.id);
+        if (replay) return replay;
+      }
+      throw error;
+    }
 
     return NextResponse.json({
       success: true,
-      data: {
-        id: result.id,
-        invoiceNo: result.invoiceNo,
-        totalAmount: result.totalAmount,
-        status: result.status,
-        createdAt: result.createdAt,
-      },
+      data: toResponseData(result),
     });
   } catch (error: any) {
     console.error("Error creating transaction:", error);
+
+    // Stock taken by a concurrent sale; every short line is listed
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        { error: "Insufficient stock", details: error.message, conflicts: error.shortages },
+        { status: 409 }
+      );
+    }
+
+    // Voucher or points taken by a concurrent sale
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: "Checkout rejected", details: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error", details: error.message },
       { status: 500 }
@@ -157,26 +157,40 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function toResponseData(transaction: Transaction) {
+  return {
+    id: transaction.id,
+    invoiceNo: transaction.invoiceNo,
+    receiptToken: transaction.receiptToken,
+    totalAmount: transaction.totalAmount,
+    status: transaction.status,
+    createdAt: transaction.createdAt,
+    pointsRedeemed: transaction.pointsRedeemed,
+    pointsEarned: transaction.pointsEarned,
+  };
+}
+
 /**
- * Generate unique invoice number
- * Format: INV-{YYYYMMDD}-{seq}
+ * Response for a request whose idempotency key was already used (null if unused)
  */
-async function generateInvoiceNumber(): Promise<string> {
-  const today = new Date();
-  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, "");
+async function replayTransaction(key: string, cashierId: string) {
+  const existing = await findIdempotentTransaction(key, cashierId);
 
-  // Get the count of transactions today
-  const count = await prisma.transaction.count({
-    where: {
-      createdAt: {
-        gte: new Date(today.setHours(0, 0, 0, 0)),
-        lt: new Date(today.setHours(23, 59, 59, 999)),
-      },
-    },
-  });
+  if (existing === "conflict") {
+    return NextResponse.json(
+      { error: "Idempotency key conflict", details: "Key already used by another cashier" },
+      { status: 409 }
+    );
+  }
 
-  const seq = String(count + 1).padStart(4, "0");
-  return `INV-${dateStr}-${seq}`;
+  if (!existing) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { success: true, data: toResponseData(existing) },
+    { headers: { "Idempotent-Replayed": "true" } }
+  );
 }
 
 /**
@@ -238,10 +252,42 @@ export async function GET(request: NextRequest) {
               username: true,
             },
           },
+          customer: {
+            select: {
+              id: true,
+              name: true,
+              phone: true,
+            },
+          },
           cancelLogs: {
             orderBy: { canceledAt: "desc" },
             take: 1,
           },
+          returns: {
+            select: {
+              id: true,
+              returnNo: true,
+              refundMethod: true,
+              refundAmount: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: "asc" },
+          },
+          payments: {
+            orderBy: { sequence: "asc" },
+            include: {
+              refunds: {
+                select: {
+                  id: true,
+                  amount: true,
+                  status: true,
+                  statusMessage: true,
+                  createdAt: true,
+                },
+                orderBy: { createdAt: "asc" },
+              },
+            },
+          },
         },
       }),
       prisma.transaction.count({ where }),
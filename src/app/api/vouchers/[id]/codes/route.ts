@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { generateVoucherCodes } from "@/lib/vouchers";
+import { voucherCodesInputSchema } from "../../voucherInput";
+
+/**
+ * GET /api/vouchers/[id]/codes
+ * List the codes of a voucher campaign with their usage
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "voucher");
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: "Invalid campaign ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+
+    const where = {
+      campaignId,
+      ...(search ? { code: { contains: search, mode: "insensitive" as const } } : {}),
+    };
+
+    const [total, vouchers] = await Promise.all([
+      prisma.voucher.count({ where }),
+      prisma.voucher.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { code: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: vouchers,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching voucher codes:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vouchers/[id]/codes
+ * Add codes to a campaign: `mode: "generate"` creates random codes, `mode: "import"`
+ * stores a list of printed codes. Codes that already exist are skipped and reported.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "voucher");
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: "Invalid campaign ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = voucherCodesInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await prisma.voucherCampaign.findUnique({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Voucher campaign not found" }, { status: 404 });
+    }
+
+    const input = validation.data;
+    const codes =
+      input.mode === "generate"
+        ? generateVoucherCodes(input.prefix, input.count)
+        : [...new Set(input.codes)];
+
+    const existing = await prisma.voucher.findMany({
+      where: { code: { in: codes } },
+      select: { code: true },
+    });
+    const existingCodes = new Set(existing.map((v) => v.code));
+
+    const created = await prisma.voucher.createMany({
+      data: codes
+        .filter((code) => !existingCodes.has(code))
+        .map((code) => ({
+          code,
+          campaignId,
+          usageLimit: input.usageLimit ?? campaign.usageLimit,
+        })),
+      skipDuplicates: true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        created: created.count,
+        skipped: [...existingCodes],
+      },
+    });
+  } catch (error: any) {
+    console.error("Error adding voucher codes:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
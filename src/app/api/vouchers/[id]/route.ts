@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { voucherCampaignInputSchema } from "../voucherInput";
+
+/**
+ * PUT /api/vouchers/[id]
+ * Update a voucher campaign. The new rule applies to every code of the campaign.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "voucher");
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: "Invalid campaign ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = voucherCampaignInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.voucherCampaign.findUnique({
+      where: { id: campaignId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Voucher campaign not found" }, { status: 404 });
+    }
+
+    const campaign = await prisma.voucherCampaign.update({
+      where: { id: campaignId },
+      data: validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: campaign,
+    });
+  } catch (error: any) {
+    console.error("Error updating voucher campaign:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/vouchers/[id]
+ * Delete a voucher campaign and its codes. Campaigns with redeemed codes can only be deactivated.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "voucher");
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: "Invalid campaign ID" }, { status: 400 });
+    }
+
+    const redemptionCount = await prisma.voucherRedemption.count({
+      where: { voucher: { campaignId } },
+    });
+
+    if (redemptionCount > 0) {
+      return NextResponse.json(
+        {
+          error: "Voucher campaign in use",
+          details: "Kampanye sudah pernah dipakai transaksi. Nonaktifkan saja kampanye ini.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      await tx.voucher.deleteMany({ where: { campaignId } });
+      return tx.voucherCampaign.deleteMany({ where: { id: campaignId } });
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: "Voucher campaign not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Voucher campaign deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting voucher campaign:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/permissions";
+import { voucherCampaignInputSchema } from "./voucherInput";
+
+/**
+ * GET /api/vouchers
+ * List voucher campaigns with code and usage counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "voucher");
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const sortBy = searchParams.get("sortBy") || "createdAt";
+    const sortOrder = searchParams.get("sortOrder") || "desc";
+
+    // Whitelist allowed sort fields for security
+    const allowedSortFields = ["name", "expiresAt", "createdAt"];
+    const validSortBy = allowedSortFields.includes(sortBy) ? sortBy : "createdAt";
+    const validSortOrder = sortOrder === "asc" || sortOrder === "desc" ? sortOrder : "desc";
+
+    // Search by campaign name or by one of its codes
+    const where = search
+      ? {
+          OR: [
+            { name: { contains: search, mode: "insensitive" as const } },
+            { vouchers: { some: { code: { contains: search, mode: "insensitive" as const } } } },
+          ],
+        }
+      : {};
+
+    const [total, campaigns] = await Promise.all([
+      prisma.voucherCampaign.count({ where }),
+      prisma.voucherCampaign.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { [validSortBy]: validSortOrder },
+      }),
+    ]);
+
+    const usage = await prisma.voucher.groupBy({
+      by: ["campaignId"],
+      where: { campaignId: { in: campaigns.map((c) => c.id) } },
+      _count: { _all: true },
+      _sum: { usedCount: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: campaigns.map((campaign) => {
+        const stats = usage.find((u) => u.campaignId === campaign.id);
+        return {
+          ...campaign,
+          codeCount: stats?._count._all ?? 0,
+          usedCount: stats?._sum.usedCount ?? 0,
+        };
+      }),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching vouchers:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vouchers
+ * Create a voucher campaign (codes are added with POST /api/vouchers/[id]/codes)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requirePermission(session.user.id, "voucher");
+
+    const body = await request.json();
+    const validation = voucherCampaignInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await prisma.voucherCampaign.create({
+      data: validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: campaign,
+    });
+  } catch (error: any) {
+    console.error("Error creating voucher campaign:", error);
+
+    if (error.message?.startsWith("Permission denied")) {
+      return NextResponse.json(
+        { error: "Forbidden", details: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
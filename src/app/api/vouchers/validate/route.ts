@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { findRedeemableVoucher } from "@/lib/vouchers";
+
+/**
+ * POST /api/vouchers/validate
+ * Check a voucher code at the cashier and return its discount rule.
+ * The code is only used up when the sale is created.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code || typeof code !== "string") {
+      return NextResponse.json(
+        { error: "Kode voucher wajib diisi" },
+        { status: 400 }
+      );
+    }
+
+    const result = await findRedeemableVoucher(code, new Date());
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const { voucher } = result;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code: voucher.code,
+        campaignName: voucher.campaign.name,
+        discountType: voucher.campaign.discountType,
+        discountValue: voucher.campaign.discountValue,
+        minPurchase: voucher.campaign.minPurchase,
+        expiresAt: voucher.campaign.expiresAt,
+        remainingUses: voucher.usageLimit - voucher.usedCount,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error validating voucher:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { VOUCHER_CODE_PATTERN, normalizeVoucherCode } from "@/lib/vouchers";
+
+// Validation schema for creating and updating a voucher campaign
+export const voucherCampaignInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Nama kampanye wajib diisi").max(100),
+    description: z.string().trim().max(500).nullable().optional(),
+    discountType: z.enum(["PERCENTAGE", "NOMINAL"]),
+    discountValue: z.number().positive("Nilai diskon harus lebih dari 0"),
+    minPurchase: z.number().int().min(0).default(0),
+    usageLimit: z.number().int().min(1, "Batas pemakaian minimal 1").default(1),
+    startsAt: z.string().datetime().nullable().optional(),
+    expiresAt: z.string().datetime().nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .transform((input) => ({
+    ...input,
+    description: input.description || null,
+    startsAt: input.startsAt ? new Date(input.startsAt) : null,
+    expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+  }))
+  .superRefine((input, ctx) => {
+    if (input.discountType === "PERCENTAGE" && input.discountValue > 100) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Persentase diskon tidak boleh lebih dari 100",
+        path: ["discountValue"],
+      });
+    }
+    if (input.startsAt && input.expiresAt && input.startsAt > input.expiresAt) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Tanggal kedaluwarsa harus setelah tanggal mulai",
+        path: ["expiresAt"],
+      });
+    }
+  });
+
+export type VoucherCampaignInput = z.infer<typeof voucherCampaignInputSchema>;
+
+const voucherCode = z
+  .string()
+  .transform(normalizeVoucherCode)
+  .pipe(z.string().regex(VOUCHER_CODE_PATTERN, "Kode 4-32 karakter: huruf, angka atau tanda -"));
+
+// Add codes to a campaign: generate random codes or import a printed list
+export const voucherCodesInputSchema = z.discriminatedUnion("mode", [
+  z.object({
+    mode: z.literal("generate"),
+    prefix: z
+      .string()
+      .trim()
+      .max(12)
+      .regex(/^[A-Za-z0-9]*$/, "Prefix hanya huruf dan angka")
+      .default(""),
+    count: z.number().int().min(1).max(1000),
+    usageLimit: z.number().int().min(1).optional(),
+  }),
+  z.object({
+    mode: z.literal("import"),
+    codes: z.array(voucherCode).min(1, "Masukkan minimal satu kode").max(1000),
+    usageLimit: z.number().int().min(1).optional(),
+  }),
+]);
+
+export type VoucherCodesInput = z.infer<typeof voucherCodesInputSchema>;
@@ -4,6 +4,7 @@ import "./globals.css";
 import { QueryProvider } from "@/providers/query-provider";
 import { SessionProvider } from "next-auth/react";
 import { PermissionProvider } from "@/providers/permission-provider";
+import { StoreSettingsProvider } from "@/providers/store-settings-provider";
 import { ThemeProvider } from "@/providers/theme-provider";
 import { Toaster } from "@/components/ui/sonner";
 
@@ -43,15 +44,17 @@ export default function RootLayout({
         <QueryProvider>
           <SessionProvider>
             <PermissionProvider>
-              <ThemeProvider
-                attribute="class"
-                defaultTheme="system"
-                enableSystem
-                disableTransitionOnChange
-              >
-                {children}
-                <Toaster />
-              </ThemeProvider>
+              <StoreSettingsProvider>
+                <ThemeProvider
+                  attribute="class"
+                  defaultTheme="system"
+                  enableSystem
+                  disableTransitionOnChange
+                >
+                  {children}
+                  <Toaster />
+                </ThemeProvider>
+              </StoreSettingsProvider>
             </PermissionProvider>
           </SessionProvider>
         </QueryProvider>
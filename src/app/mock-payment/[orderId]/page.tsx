@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { QrCode } from "@/components/qr/QrCode";
+import axiosInstance from "@/lib/axios";
+import { formatCurrency } from "@/lib/utils";
+import type { MockAction, MockCharge } from "@/lib/mock-gateway";
+
+// Dates arrive as ISO strings
+type MockChargeData = Omit<MockCharge, "createdAt" | "expiresAt"> & {
+  createdAt: string;
+  expiresAt: string;
+};
+
+const CHANNEL_LABELS: Record<MockCharge["channel"], string> = {
+  qris: "QRIS",
+  gopay: "GoPay",
+  bank_transfer: "Virtual Account",
+};
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Hosted payment page of the mock gateway: shows what the customer would scan or pay to,
+ * and lets the developer decide the outcome
+ */
+export default function MockPaymentPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const queryClient = useQueryClient();
+  const [notify, setNotify] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: charge, isLoading, isError } = useQuery({
+    queryKey: ["mock-charge", orderId],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: MockChargeData }>(
+        `/api/payment/mock/${orderId}`
+      );
+      return response.data.data;
+    },
+    retry: false,
+    // Picks up the automatic expiry
+    refetchInterval: (query) =>
+      query.state.data?.transactionStatus === "pending" ? 5000 : false,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const simulateMutation = useMutation({
+    mutationFn: async (action: MockAction) => {
+      const response = await axiosInstance.post<{ data: MockChargeData }>(
+        `/api/payment/mock/${orderId}`,
+        { action, notify }
+      );
+      return response.data.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["mock-charge", orderId], data);
+      toast.success(`Order ${data.transactionStatus}`, {
+        description: notify ? "Webhook akan dikirim" : "Webhook tidak dikirim",
+      });
+    },
+    onError: (error: any) => {
+      toast.error("Simulasi gagal", {
+        description: error.response?.data?.details || error.response?.data?.error || error.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError || !charge) {
+    return (
+      <Card className="mx-auto max-w-sm">
+        <CardContent className="pt-6 text-center space-y-2">
+          <AlertTriangle className="mx-auto h-8 w-8 text-muted-foreground" />
+          <p className="font-medium">Order tidak ditemukan</p>
+          <p className="text-sm text-muted-foreground">
+            Mock gateway tidak aktif, atau server dimulai ulang sejak order dibuat
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isPending = charge.transactionStatus === "pending";
+  const remaining = new Date(charge.expiresAt).getTime() - now;
+
+  return (
+    <div className="mx-auto max-w-sm space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Badge variant="outline">Mock Gateway</Badge>
+            <Badge variant={isPending ? "secondary" : charge.transactionStatus === "settlement" ? "default" : "destructive"}>
+              {charge.transactionStatus}
+            </Badge>
+          </div>
+
+          <div className="text-center space-y-1">
+            <p className="text-sm text-muted-foreground">{CHANNEL_LABELS[charge.channel]}</p>
+            <p className="text-3xl font-bold">{formatCurrency(charge.amount)}</p>
+            <p className="text-xs text-muted-foreground font-mono">{charge.orderId}</p>
+          </div>
+
+          {/* What the customer scans, opens or transfers to */}
+          {isPending && charge.qrString && (
+            <div className="flex justify-center">
+              <QrCode value={charge.qrString} size={200} />
+            </div>
+          )}
+          {isPending && charge.deeplink && (
+            <p className="break-all rounded-md bg-muted p-3 text-xs font-mono">{charge.deeplink}</p>
+          )}
+          {isPending && charge.vaNumber && (
+            <div className="text-center">
+              <p className="text-xs text-muted-foreground">Nomor Virtual Account</p>
+              <p className="text-xl font-mono font-semibold">{charge.vaNumber}</p>
+            </div>
+          )}
+
+          {isPending ? (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              Kedaluwarsa dalam {formatCountdown(remaining)}
+            </p>
+          ) : (
+            <p className="flex items-center justify-center gap-2 text-sm">
+              {charge.transactionStatus === "settlement" ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              ) : (
+                <XCircle className="h-4 w-4 text-destructive" />
+              )}
+              Order sudah {charge.transactionStatus}, jendela ini boleh ditutup
+            </p>
+          )}
+
+          <Separator />
+
+          {/* Outcome controls */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="notify"
+                checked={notify}
+                onCheckedChange={(checked) => setNotify(checked === true)}
+                disabled={!isPending}
+              />
+              <Label htmlFor="notify" className="text-sm font-normal">
+                Kirim webhook (matikan untuk menguji rekonsiliasi)
+              </Label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <Button
+                onClick={() => simulateMutation.mutate("settle")}
+                disabled={!isPending || simulateMutation.isPending}
+              >
+                Bayar
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => simulateMutation.mutate("deny")}
+                disabled={!isPending || simulateMutation.isPending}
+              >
+                Tolak
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => simulateMutation.mutate("expire")}
+                disabled={!isPending || simulateMutation.isPending}
+              >
+                Kedaluwarsa
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
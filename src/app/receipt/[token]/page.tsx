@@ -0,0 +1,256 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Clock, Loader2, Undo2, XCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import axiosInstance from "@/lib/axios";
+import { cn } from "@/lib/utils";
+import { DEFAULT_STORE_SETTINGS, formatMoney } from "@/lib/store";
+import type { ReceiptState } from "@/lib/digital-receipt";
+import type { DigitalReceipt } from "@/lib/receipts";
+
+const STATE_NOTICES: Record<
+  Exclude<ReceiptState, "PAID">,
+  { title: string; icon: typeof XCircle; className: string }
+> = {
+  CANCELED: {
+    title: "Transaksi Dibatalkan",
+    icon: XCircle,
+    className: "border-destructive bg-destructive/10 text-destructive",
+  },
+  REFUNDED: {
+    title: "Seluruh Item Dikembalikan",
+    icon: Undo2,
+    className: "border-amber-500 bg-amber-500/10 text-amber-700",
+  },
+  PARTIALLY_REFUNDED: {
+    title: "Sebagian Item Dikembalikan",
+    icon: Undo2,
+    className: "border-amber-500 bg-amber-500/10 text-amber-700",
+  },
+  PENDING: {
+    title: "Menunggu Pembayaran",
+    icon: Clock,
+    className: "border-blue-500 bg-blue-500/10 text-blue-700",
+  },
+};
+
+export default function DigitalReceiptPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["digital-receipt", token],
+    queryFn: async () => {
+      const response = await axiosInstance.get<{ data: DigitalReceipt }>(
+        `/api/receipts/${token}`
+      );
+      return response.data.data;
+    },
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <Card className="mx-auto max-w-sm">
+        <CardContent className="pt-6 text-center space-y-2">
+          <AlertTriangle className="mx-auto h-8 w-8 text-muted-foreground" />
+          <p className="font-medium">Struk tidak ditemukan</p>
+          <p className="text-sm text-muted-foreground">
+            Periksa kembali tautan atau pindai ulang QR code pada struk
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { receipt, state } = data;
+  const notice = state === "PAID" ? null : STATE_NOTICES[state];
+  const isVoid = state === "CANCELED";
+  // Visitors are not logged in, so amounts use the store format sent with the receipt
+  const formatCurrency = (amount: number) =>
+    formatMoney(amount, receipt.currency ?? DEFAULT_STORE_SETTINGS);
+
+  return (
+    <div className="mx-auto max-w-sm space-y-4">
+      {/* Canceled / refunded / unpaid state */}
+      {notice && (
+        <div className={cn("rounded-lg border-2 p-4", notice.className)}>
+          <p className="flex items-center gap-2 font-semibold">
+            <notice.icon className="h-5 w-5" />
+            {notice.title}
+          </p>
+          {state === "CANCELED" && (
+            <p className="mt-1 text-sm">
+              {data.canceledAt ? `Dibatalkan pada ${data.canceledAt}. ` : ""}
+              Struk ini tidak berlaku sebagai bukti pembelian.
+            </p>
+          )}
+          {state === "PENDING" && (
+            <p className="mt-1 text-sm">Pembayaran untuk transaksi ini belum diterima.</p>
+          )}
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6 font-mono text-sm">
+          {/* Store Header */}
+          <div className="text-center mb-4">
+            {receipt.store.logo && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={receipt.store.logo}
+                alt={receipt.store.name}
+                className="mx-auto mb-2 max-h-16 object-contain"
+              />
+            )}
+            <h1 className="text-lg font-bold">{receipt.store.name}</h1>
+            {receipt.store.address && <p className="text-xs">{receipt.store.address}</p>}
+            {receipt.store.phone && <p className="text-xs">{receipt.store.phone}</p>}
+            {receipt.header?.map((line, index) => (
+              <p key={index} className="text-xs">{line}</p>
+            ))}
+          </div>
+
+          <Separator className="my-2" />
+
+          {/* Transaction Info */}
+          <div className="space-y-1 mb-3 text-xs">
+            <div className="flex justify-between">
+              <span>No. Invoice:</span>
+              <span>{receipt.invoiceNo}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Tanggal:</span>
+              <span>{receipt.date}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Kasir:</span>
+              <span>{receipt.cashierName}</span>
+            </div>
+            {receipt.memberName && (
+              <div className="flex justify-between">
+                <span>Member:</span>
+                <span>{receipt.memberName}</span>
+              </div>
+            )}
+          </div>
+
+          <Separator className="my-2" />
+
+          {/* Items */}
+          <div className="space-y-2 mb-3">
+            {receipt.items.map((item, index) => (
+              <div key={index} className="space-y-0.5">
+                <p className="font-medium">{item.name}</p>
+                <div className="flex justify-between text-xs">
+                  <span>
+                    {item.quantity} x {formatCurrency(item.unitPrice)}
+                  </span>
+                  <span>{formatCurrency(item.quantity * item.unitPrice)}</span>
+                </div>
+                {item.adjustments.map((line, lineIndex) => (
+                  <div key={lineIndex} className="flex justify-between text-xs text-destructive">
+                    <span>{line.label}</span>
+                    <span>{formatCurrency(line.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <Separator className="my-2" />
+
+          {/* Summary */}
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span>Subtotal:</span>
+              <span>{formatCurrency(receipt.subtotal)}</span>
+            </div>
+            {receipt.adjustments.map((line, index) => (
+              <div
+                key={index}
+                className={cn("flex justify-between text-xs", line.amount < 0 && "text-destructive")}
+              >
+                <span>{line.label}:</span>
+                <span>{formatCurrency(line.amount)}</span>
+              </div>
+            ))}
+
+            <Separator className="my-2" />
+
+            <div className="flex justify-between font-bold text-base">
+              <span>Total:</span>
+              <span className={cn(isVoid && "line-through")}>{formatCurrency(receipt.total)}</span>
+            </div>
+
+            {receipt.payments.map((payment, index) => (
+              <div key={index} className="flex justify-between text-xs">
+                <span>{payment.label}</span>
+                <span>{formatCurrency(payment.amount)}</span>
+              </div>
+            ))}
+          </div>
+
+          {receipt.notes.length > 0 && (
+            <>
+              <Separator className="my-2" />
+              <div className="space-y-1 text-xs">
+                {receipt.notes.map((note, index) => (
+                  <p key={index}>{note}</p>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* Returns */}
+          {data.returns.length > 0 && (
+            <>
+              <Separator className="my-2" />
+              <div className="space-y-2 text-xs">
+                <p className="font-medium">Pengembalian</p>
+                {data.returns.map((salesReturn) => (
+                  <div key={salesReturn.returnNo} className="space-y-0.5">
+                    <div className="flex justify-between">
+                      <span>{salesReturn.returnNo}</span>
+                      <span>{salesReturn.date}</span>
+                    </div>
+                    {salesReturn.items.map((item, index) => (
+                      <p key={index} className="text-muted-foreground">
+                        {item.quantity} x {item.name}
+                      </p>
+                    ))}
+                    <div className="flex justify-between">
+                      <span>
+                        {salesReturn.refundMethod === "CASH" ? "Refund Tunai" : "Kredit Toko"}
+                      </span>
+                      <span>-{formatCurrency(salesReturn.refundAmount)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <Separator className="my-2" />
+
+          {/* Footer */}
+          <div className="text-center mt-4 text-xs">
+            {receipt.footer.map((line, index) => (
+              <p key={index}>{line}</p>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
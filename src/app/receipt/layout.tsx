@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Struk Digital",
+  robots: { index: false, follow: false },
+};
+
+export default function ReceiptLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  // The root body does not scroll (the dashboard scrolls its own main area)
+  return <div className="h-screen overflow-auto bg-muted/30 px-4 py-8">{children}</div>;
+}
@@ -12,6 +12,9 @@ interface FileUploadAreaProps {
   onDrop: (e: React.DragEvent<HTMLDivElement>) => void;
   onFileChange: (e: ChangeEvent<HTMLInputElement>) => void;
   onUploadAreaClick: () => void;
+  /** File types the picker offers */
+  accept?: string;
+  hint?: string;
 }
 
 export default function FileUploadArea({
@@ -24,6 +27,8 @@ export default function FileUploadArea({
   onDrop,
   onFileChange,
   onUploadAreaClick,
+  accept = ".xlsx",
+  hint = "Drag and drop file Excel atau klik area ini untuk memilih",
 }: FileUploadAreaProps) {
   return (
     <div
@@ -41,14 +46,12 @@ export default function FileUploadArea({
       ) : (
         <Upload className="mx-auto h-12 w-12 text-gray-400" />
       )}
-      <p className="mt-2 text-sm text-gray-600">
-        Drag and drop file Excel atau klik area ini untuk memilih
-      </p>
+      <p className="mt-2 text-sm text-gray-600">{hint}</p>
       {file && <p className="mt-2 text-sm">{file.name}</p>}
 
       <input
         type="file"
-        accept=".xlsx"
+        accept={accept}
         style={{ display: "none" }}
         onChange={onFileChange}
         ref={fileInputRef}
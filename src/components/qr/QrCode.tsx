@@ -0,0 +1,49 @@
+"use client"
+
+import { useMemo } from "react"
+import QRCode from "qrcode"
+
+interface QrCodeProps {
+  value: string
+  /** Rendered width and height in pixels */
+  size?: number
+  className?: string
+}
+
+// Light modules around the symbol, required by scanners
+const QUIET_ZONE = 4
+
+/**
+ * QR code drawn as inline SVG, so it also survives copying the markup into a print window
+ */
+export function QrCode({ value, size = 128, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: "M" })
+    let d = ""
+
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          d += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`
+        }
+      }
+    }
+
+    return { path: d, dimension: modules.size + QUIET_ZONE * 2 }
+  }, [value])
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={value}
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  )
+}
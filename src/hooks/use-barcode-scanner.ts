@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+interface UseBarcodeScannerOptions {
+  enabled: boolean
+  onScan: (code: string) => void
+  /** Minimum characters for a burst to count as a scan */
+  minLength?: number
+  /** Maximum milliseconds between keystrokes of one scan */
+  maxInterval?: number
+}
+
+/**
+ * Detect keyboard-wedge barcode scanners: a fast burst of keystrokes ending in Enter.
+ * Human typing is slower than `maxInterval` and is ignored.
+ */
+export function useBarcodeScanner({
+  enabled,
+  onScan,
+  minLength = 4,
+  maxInterval = 50,
+}: UseBarcodeScannerOptions) {
+  const bufferRef = useRef("")
+  const lastKeyTimeRef = useRef(0)
+  const onScanRef = useRef(onScan)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const now = Date.now()
+      const elapsed = now - lastKeyTimeRef.current
+      lastKeyTimeRef.current = now
+
+      // A slow keystroke starts a new burst
+      if (elapsed > maxInterval) {
+        bufferRef.current = ""
+      }
+
+      if (event.key === "Enter") {
+        const code = bufferRef.current
+        bufferRef.current = ""
+
+        if (code.length >= minLength) {
+          event.preventDefault()
+          onScanRef.current(code)
+        }
+        return
+      }
+
+      if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        bufferRef.current += event.key
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown, true)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true)
+      bufferRef.current = ""
+    }
+  }, [enabled, minLength, maxInterval])
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react"
+import axios from "axios"
+import axiosInstance from "@/lib/axios"
+import {
+  adjustSaleToStock,
+  getQueuedSales,
+  nextProvisionalInvoiceNo,
+  putQueuedSale,
+  removeQueuedSale,
+  saveProductSnapshot,
+  type QueuedSale,
+} from "@/lib/offline-db"
+
+function subscribeOnline(callback: () => void) {
+  window.addEventListener("online", callback)
+  window.addEventListener("offline", callback)
+  return () => {
+    window.removeEventListener("online", callback)
+    window.removeEventListener("offline", callback)
+  }
+}
+
+/**
+ * True when a request failed because the server could not be reached
+ */
+export function isNetworkError(error: unknown) {
+  return axios.isAxiosError(error) && !error.response
+}
+
+interface UseOfflineSyncOptions {
+  /** Called after one or more queued sales reached the server */
+  onSynced?: (count: number) => void
+}
+
+/**
+ * Offline cashier state: connectivity, product snapshot refresh and the queue of offline sales.
+ * The queue is replayed automatically when the browser comes back online.
+ */
+export function useOfflineSync({ onSynced }: UseOfflineSyncOptions = {}) {
+  const isOnline = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  )
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+  const syncingRef = useRef(false)
+  const onSyncedRef = useRef(onSynced)
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced
+  }, [onSynced])
+
+  const reloadQueue = useCallback(async () => {
+    setQueuedSales(await getQueuedSales())
+  }, [])
+
+  const refreshSnapshot = useCallback(async () => {
+    try {
+      const response = await axiosInstance.get("/api/products/snapshot")
+      await saveProductSnapshot(response.data.data)
+    } catch (error) {
+      // Keep the previous snapshot when offline
+      if (!isNetworkError(error)) {
+        console.error("Failed to refresh product snapshot:", error)
+      }
+    }
+  }, [])
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return
+
+    syncingRef.current = true
+    setIsSyncing(true)
+    let synced = 0
+
+    try {
+      for (const sale of await getQueuedSales()) {
+        // Conflicts and errors wait for the cashier to resolve them
+        if (sale.status !== "pending") continue
+
+        try {
+          await axiosInstance.post("/api/transactions/offline", {
+            offlineId: sale.offlineId,
+            idempotencyKey: sale.idempotencyKey ?? null,
+            provisionalInvoiceNo: sale.provisionalInvoiceNo,
+            shiftId: sale.shiftId,
+            soldAt: sale.soldAt,
+            items: sale.items.map((item) => ({
+              productId: item.productId,
+              quantity: item.quantity,
+              discountType: item.discountType || null,
+              discountValue: item.discountValue || 0,
+            })),
+            totalAmount: sale.totalAmount,
+            discount: sale.discount?.type
+              ? { type: sale.discount.type, value: sale.discount.value }
+              : null,
+          })
+          await removeQueuedSale(sale.offlineId)
+          synced++
+        } catch (error) {
+          // Connection dropped again, try the rest later
+          if (isNetworkError(error)) break
+
+          const response = axios.isAxiosError(error) ? error.response : undefined
+          const details = response?.data?.details
+          await putQueuedSale({
+            ...sale,
+            status: response?.status === 409 ? "conflict" : "error",
+            error:
+              typeof details === "string"
+                ? details
+                : response?.data?.error || (error as Error).message,
+            conflicts: response?.data?.conflicts,
+          })
+        }
+      }
+    } finally {
+      syncingRef.current = false
+      setIsSyncing(false)
+      await reloadQueue()
+    }
+
+    if (synced > 0) {
+      await refreshSnapshot()
+      onSyncedRef.current?.(synced)
+    }
+  }, [reloadQueue, refreshSnapshot])
+
+  // Load the queue and snapshot on mount
+  useEffect(() => {
+    reloadQueue()
+    refreshSnapshot()
+  }, [reloadQueue, refreshSnapshot])
+
+  // Replay on mount and as soon as connectivity returns
+  useEffect(() => {
+    if (isOnline) {
+      sync()
+    }
+  }, [isOnline, sync])
+
+  /**
+   * Queue a cash sale made offline and return its provisional invoice number
+   */
+  const queueSale = useCallback(
+    async (sale: Omit<QueuedSale, "offlineId" | "provisionalInvoiceNo" | "soldAt" | "status">) => {
+      const provisionalInvoiceNo = nextProvisionalInvoiceNo()
+
+      await putQueuedSale({
+        ...sale,
+        offlineId: crypto.randomUUID(),
+        provisionalInvoiceNo,
+        soldAt: new Date().toISOString(),
+        status: "pending",
+      })
+      await reloadQueue()
+
+      return provisionalInvoiceNo
+    },
+    [reloadQueue]
+  )
+
+  /**
+   * Shrink a conflicting sale to the available stock and replay it
+   * Returns the amount to hand back to the customer.
+   */
+  const adjustSale = useCallback(
+    async (offlineId: string) => {
+      const sale = queuedSales.find((s) => s.offlineId === offlineId)
+      if (!sale) return 0
+
+      const adjusted = adjustSaleToStock(sale)
+      if (adjusted.items.length === 0) {
+        await removeQueuedSale(offlineId)
+      } else {
+        await putQueuedSale(adjusted)
+      }
+      await reloadQueue()
+      sync()
+
+      return sale.totalAmount - (adjusted.items.length === 0 ? 0 : adjusted.totalAmount)
+    },
+    [queuedSales, reloadQueue, sync]
+  )
+
+  /**
+   * Put a failed sale back in the queue and replay it
+   */
+  const retrySale = useCallback(
+    async (offlineId: string) => {
+      const sale = queuedSales.find((s) => s.offlineId === offlineId)
+      if (!sale) return
+
+      await putQueuedSale({ ...sale, status: "pending", error: undefined, conflicts: undefined })
+      await reloadQueue()
+      sync()
+    },
+    [queuedSales, reloadQueue, sync]
+  )
+
+  const discardSale = useCallback(
+    async (offlineId: string) => {
+      await removeQueuedSale(offlineId)
+      await reloadQueue()
+    },
+    [reloadQueue]
+  )
+
+  return {
+    isOnline,
+    isSyncing,
+    queuedSales,
+    pendingCount: queuedSales.filter((s) => s.status === "pending").length,
+    conflictCount: queuedSales.filter((s) => s.status !== "pending").length,
+    sync,
+    refreshSnapshot,
+    queueSale,
+    adjustSale,
+    retrySale,
+    discardSale,
+  }
+}
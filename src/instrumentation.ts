@@ -0,0 +1,12 @@
+/**
+ * Runs once when the Next.js server starts
+ * Starts the background payment reconciliation (Node.js runtime only).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const { startPaymentReconciler } = await import("./lib/payment-reconciliation");
+  startPaymentReconciler();
+}
@@ -0,0 +1,44 @@
+import { prisma } from "@/lib/prisma";
+import type { Promotion } from "@/generated/prisma/client";
+import type { PromotionRule } from "@/lib/promotions";
+
+/**
+ * Convert a Promotion row to the rule shape used by the pricing engine
+ */
+export function toPromotionRule(promotion: Promotion): PromotionRule {
+  return {
+    id: promotion.id,
+    name: promotion.name,
+    type: promotion.type,
+    priority: promotion.priority,
+    stackable: promotion.stackable,
+    productIds: promotion.productIds,
+    categoryId: promotion.categoryId,
+    buyQuantity: promotion.buyQuantity,
+    getQuantity: promotion.getQuantity,
+    bundleQuantity: promotion.bundleQuantity,
+    bundlePrice: promotion.bundlePrice,
+    minSpend: promotion.minSpend,
+    discountType: promotion.discountType as PromotionRule["discountType"],
+    discountValue: promotion.discountValue,
+    startsAt: promotion.startsAt,
+    endsAt: promotion.endsAt,
+    startTime: promotion.startTime,
+    endTime: promotion.endTime,
+    daysOfWeek: promotion.daysOfWeek,
+  };
+}
+
+/**
+ * Enabled promotions for pricing a sale
+ * Schedules are checked by the engine against the sale time, so promotions
+ * outside their window are still returned.
+ */
+export async function getActivePromotions(): Promise<PromotionRule[]> {
+  const promotions = await prisma.promotion.findMany({
+    where: { isActive: true },
+    orderBy: { id: "asc" },
+  });
+
+  return promotions.map(toPromotionRule);
+}
@@ -0,0 +1,65 @@
+import { prisma } from "./prisma";
+
+/**
+ * Normalize a list of barcodes from a request body
+ * Trims whitespace and drops empty entries. Duplicates are kept so they can be reported.
+ */
+export function normalizeBarcodes(input: unknown): string[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  return input
+    .filter((code): code is string => typeof code === "string")
+    .map((code) => code.trim())
+    .filter((code) => code.length > 0);
+}
+
+/**
+ * Find barcodes that appear more than once in the given list
+ */
+export function findDuplicateBarcodes(codes: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const code of codes) {
+    if (seen.has(code)) {
+      duplicates.add(code);
+    }
+    seen.add(code);
+  }
+
+  return Array.from(duplicates);
+}
+
+/**
+ * Find barcodes already assigned to another product
+ * @param codes - Barcodes to check
+ * @param excludeProductId - Product being edited (its own barcodes are not conflicts)
+ */
+export async function findBarcodeConflicts(
+  codes: string[],
+  excludeProductId?: number
+): Promise<{ code: string; productId: number; productName: string }[]> {
+  if (codes.length === 0) {
+    return [];
+  }
+
+  const existing = await prisma.productBarcode.findMany({
+    where: {
+      code: { in: codes },
+      ...(excludeProductId !== undefined && { productId: { not: excludeProductId } }),
+    },
+    include: {
+      product: {
+        select: { name: true },
+      },
+    },
+  });
+
+  return existing.map((barcode) => ({
+    code: barcode.code,
+    productId: barcode.productId,
+    productName: barcode.product.name,
+  }));
+}
@@ -0,0 +1,161 @@
+import { prisma } from "./prisma";
+import { ApiError } from "./utils/error";
+import { calculatePointsEarned } from "./loyalty";
+import type { Prisma } from "@/generated/prisma/client";
+
+/**
+ * Customers and the loyalty point ledger
+ * Every balance change writes a LoyaltyPointEntry and updates Customer.pointsBalance
+ * in the same database transaction as the sale it belongs to.
+ */
+
+export const PHONE_PATTERN = /^08\d{7,12}$/;
+
+/**
+ * Normalize an Indonesian phone number to the 08xx form used as the lookup key
+ * ("+62 812-3456-789", "62812..." and "812..." all become "0812...")
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+
+  if (digits.startsWith("62")) return `0${digits.slice(2)}`;
+  if (digits.startsWith("8")) return `0${digits}`;
+  return digits;
+}
+
+/**
+ * Customer attached to a sale request (null for walk-in sales)
+ * Checks that the customer is active and has the points they want to spend.
+ */
+export async function resolveSaleCustomer(customerId: unknown, redeemPoints: unknown) {
+  if (customerId === undefined || customerId === null) {
+    if (redeemPoints) {
+      return { error: "Poin hanya bisa ditukar oleh pelanggan terdaftar" };
+    }
+    return { customer: null };
+  }
+
+  if (typeof customerId !== "number" || !Number.isInteger(customerId)) {
+    return { error: "Invalid customer ID" };
+  }
+  if (
+    redeemPoints !== undefined &&
+    (typeof redeemPoints !== "number" || !Number.isInteger(redeemPoints) || redeemPoints < 0)
+  ) {
+    return { error: "Redeemed points must be a non-negative integer" };
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+  });
+
+  if (!customer || !customer.isActive) {
+    return { error: "Pelanggan tidak ditemukan" };
+  }
+  if ((redeemPoints || 0) > customer.pointsBalance) {
+    return { error: `Poin tidak mencukupi (saldo ${customer.pointsBalance})` };
+  }
+
+  return { customer };
+}
+
+/**
+ * Spend points on a sale; fails if the balance no longer covers them
+ */
+export async function redeemLoyaltyPoints(
+  tx: Prisma.TransactionClient,
+  customerId: number,
+  transactionId: number,
+  points: number
+) {
+  if (points <= 0) return;
+
+  const updated = await tx.customer.updateMany({
+    where: { id: customerId, pointsBalance: { gte: points } },
+    data: { pointsBalance: { decrement: points } },
+  });
+
+  if (updated.count === 0) {
+    throw new ApiError(409, "Poin pelanggan tidak mencukupi");
+  }
+
+  await tx.loyaltyPointEntry.create({
+    data: {
+      customerId,
+      transactionId,
+      type: "REDEEM",
+      points: -points,
+    },
+  });
+}
+
+/**
+ * Credit the points of a completed sale (once per sale)
+ * @returns Points earned
+ */
+export async function earnLoyaltyPoints(
+  tx: Prisma.TransactionClient,
+  transaction: { id: number; customerId: number | null; totalAmount: number }
+): Promise<number> {
+  if (!transaction.customerId) return 0;
+
+  const existing = await tx.loyaltyPointEntry.findFirst({
+    where: { transactionId: transaction.id, type: "EARN" },
+  });
+  if (existing) return existing.points;
+
+  const points = calculatePointsEarned(transaction.totalAmount);
+  if (points <= 0) return 0;
+
+  await tx.loyaltyPointEntry.create({
+    data: {
+      customerId: transaction.customerId,
+      transactionId: transaction.id,
+      type: "EARN",
+      points,
+    },
+  });
+  await tx.customer.update({
+    where: { id: transaction.customerId },
+    data: { pointsBalance: { increment: points } },
+  });
+  await tx.transaction.update({
+    where: { id: transaction.id },
+    data: { pointsEarned: points },
+  });
+
+  return points;
+}
+
+/**
+ * Undo the points a canceled sale earned and give back the points it spent
+ * The balance may go negative when earned points were already spent elsewhere.
+ */
+export async function reverseLoyaltyPoints(tx: Prisma.TransactionClient, transactionId: number) {
+  const entries = await tx.loyaltyPointEntry.findMany({
+    where: { transactionId },
+  });
+
+  if (entries.length === 0 || entries.some((e) => e.type === "REVERSAL")) {
+    return;
+  }
+
+  const points = -entries.reduce((sum, e) => sum + e.points, 0);
+  if (points === 0) return;
+
+  const { customerId } = entries[0];
+
+  await tx.loyaltyPointEntry.create({
+    data: {
+      customerId,
+      transactionId,
+      type: "REVERSAL",
+      points,
+      description: "Transaksi dibatalkan",
+    },
+  });
+  await tx.customer.update({
+    where: { id: customerId },
+    data: { pointsBalance: { increment: points } },
+  });
+}
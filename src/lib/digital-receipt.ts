@@ -0,0 +1,20 @@
+/**
+ * Digital receipt links
+ * Every transaction has an unguessable receipt token; the page at /receipt/[token] shows the
+ * receipt without logging in. Client-safe, used by the cashier receipt and the server.
+ */
+
+/** Receipt state shown on the digital receipt (and as a banner on reprints) */
+export type ReceiptState = "PAID" | "PENDING" | "CANCELED" | "REFUNDED" | "PARTIALLY_REFUNDED";
+
+/**
+ * Public URL of a transaction's digital receipt
+ * Uses NEXT_PUBLIC_APP_URL so the QR code points at the address customers can reach.
+ */
+export function getDigitalReceiptUrl(token: string): string {
+  const baseUrl =
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (typeof window !== "undefined" ? window.location.origin : "http://localhost:3000");
+
+  return `${baseUrl.replace(/\/$/, "")}/receipt/${token}`;
+}
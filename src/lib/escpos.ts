@@ -0,0 +1,282 @@
+/**
+ * ESC/POS receipt renderer
+ * Turns a receipt into the byte stream understood by 58mm and 80mm thermal printers
+ * (Epson-compatible command set). Keep this module free of server-only imports - the
+ * cashier renders its test page and drawer kick with it.
+ *
+ * Printers only know a single-byte code page, so text is reduced to printable ASCII.
+ */
+
+import { DEFAULT_STORE_SETTINGS, type CurrencyFormat } from "./store";
+
+export type PaperWidth = 58 | 80;
+
+/** Characters per line in the default font (Font A) */
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+/** Label and amount printed on one line (negative amounts are discounts) */
+export interface PrintableLine {
+  label: string;
+  amount: number;
+}
+
+export interface PrintableItem {
+  name: string;
+  quantity: number;
+  /** Price before item discounts; the line prints quantity x unitPrice */
+  unitPrice: number;
+  /** Item discounts and promotions printed under the line */
+  adjustments: PrintableLine[];
+}
+
+export interface PrintableReceipt {
+  store: {
+    name: string;
+    address?: string | null;
+    phone?: string | null;
+    /** Image data URL for HTML and digital receipts; not printed on thermal paper */
+    logo?: string | null;
+  };
+  /** Store header text printed under the store info */
+  header?: string[];
+  /** Status banner printed under the header, e.g. for canceled sales */
+  banner?: string | null;
+  invoiceNo: string;
+  /** Already formatted in store time */
+  date: string;
+  cashierName: string;
+  memberName?: string | null;
+  items: PrintableItem[];
+  /** Sum of the lines after their adjustments */
+  subtotal: number;
+  /** Cart discounts, service charge and exclusive tax, in print order */
+  adjustments: PrintableLine[];
+  total: number;
+  payments: PrintableLine[];
+  /** Lines after the payments, e.g. included tax or points earned */
+  notes: string[];
+  footer: string[];
+  /** Locale and decimals for the amounts (Indonesian Rupiah when omitted) */
+  currency?: CurrencyFormat;
+  /** Encoded in the QR code (the invoice number when omitted) */
+  qrContent?: string | null;
+}
+
+export interface EscPosOptions {
+  paperWidth: PaperWidth;
+  /** QR code (see qrContent) or the invoice number as a CODE128 barcode */
+  code?: "qr" | "barcode" | "none";
+  /** Pulse the cash drawer once the receipt is printed */
+  openDrawer?: boolean;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const COMMANDS = {
+  init: [ESC, 0x40],
+  alignLeft: [ESC, 0x61, 0],
+  alignCenter: [ESC, 0x61, 1],
+  boldOn: [ESC, 0x45, 1],
+  boldOff: [ESC, 0x45, 0],
+  doubleSize: [GS, 0x21, 0x11],
+  normalSize: [GS, 0x21, 0x00],
+  // Feed a few lines and cut, leaving a small tab
+  partialCut: [GS, 0x56, 0x42, 0x03],
+  // Pulse pin 2 for 50ms on / 500ms off
+  drawerKick: [ESC, 0x70, 0x00, 0x19, 0xfa],
+};
+
+/**
+ * Amount without the currency sign, grouped for the store locale (12.500 by default)
+ */
+export function formatPrintAmount(
+  amount: number,
+  format: CurrencyFormat = DEFAULT_STORE_SETTINGS
+): string {
+  const digits = new Intl.NumberFormat(format.locale, {
+    minimumFractionDigits: format.decimals,
+    maximumFractionDigits: format.decimals,
+  }).format(Math.abs(amount));
+  return amount < 0 ? `-${digits}` : digits;
+}
+
+/**
+ * Printable ASCII only; accents are stripped, anything else becomes "?"
+ */
+function toPrintable(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u00a0\u202f]/g, " ")
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+function encode(text: string): number[] {
+  return Array.from(toPrintable(text), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Word-wrap text to the line width (long words are split)
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of toPrintable(text).split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest.length > width) {
+      if (line) {
+        lines.push(line);
+        line = "";
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+
+    if (!line) {
+      line = rest;
+    } else if (line.length + 1 + rest.length <= width) {
+      line += ` ${rest}`;
+    } else {
+      lines.push(line);
+      line = rest;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+/**
+ * Label on the left, value on the right; the label wraps (keeping its indent) when both don't fit
+ */
+function columns(label: string, value: string, width: number): string[] {
+  const indent = label.match(/^ */)![0];
+  const labelWidth = Math.max(1, width - value.length - 1 - indent.length);
+  const labelLines = wrap(label, labelWidth).map((line) => indent + line);
+  const last = labelLines.pop()!;
+
+  return [...labelLines, last + " ".repeat(Math.max(1, width - last.length - value.length)) + value];
+}
+
+function qrCode(content: string): number[] {
+  const data = encode(content);
+  const length = data.length + 3;
+
+  return [
+    // Model 2, module size 6, error correction M
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 0x06,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    // Store the data, then print it
+    GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, 0x31, 0x50, 0x30, ...data,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ];
+}
+
+function barcode128(content: string): number[] {
+  // Code set B covers printable ASCII
+  const data = [0x7b, 0x42, ...encode(content)];
+
+  return [
+    GS, 0x68, 60, // height in dots
+    GS, 0x77, 2, // module width
+    GS, 0x48, 2, // human-readable text below
+    GS, 0x6b, 73, data.length, ...data,
+  ];
+}
+
+/**
+ * Render a receipt as an ESC/POS byte stream
+ */
+export function renderEscPosReceipt(receipt: PrintableReceipt, options: EscPosOptions): Uint8Array {
+  const width = PAPER_COLUMNS[options.paperWidth];
+  const bytes: number[] = [...COMMANDS.init];
+
+  const text = (value: string) => bytes.push(...encode(value), LF);
+  const row = (label: string, value: string) => columns(label, value, width).forEach(text);
+  const rule = () => text("-".repeat(width));
+  const amount = (value: number) => formatPrintAmount(value, receipt.currency);
+
+  // Header
+  bytes.push(...COMMANDS.alignCenter, ...COMMANDS.boldOn, ...COMMANDS.doubleSize);
+  wrap(receipt.store.name, width / 2).forEach(text);
+  bytes.push(...COMMANDS.normalSize, ...COMMANDS.boldOff);
+  if (receipt.store.address) wrap(receipt.store.address, width).forEach(text);
+  if (receipt.store.phone) text(receipt.store.phone);
+  receipt.header?.forEach((line) => wrap(line, width).forEach(text));
+  if (receipt.banner) {
+    bytes.push(LF, ...COMMANDS.boldOn);
+    wrap(receipt.banner, width).forEach(text);
+    bytes.push(...COMMANDS.boldOff);
+  }
+  bytes.push(...COMMANDS.alignLeft);
+  rule();
+
+  // Transaction info
+  row("No. Invoice", receipt.invoiceNo);
+  row("Tanggal", receipt.date);
+  row("Kasir", receipt.cashierName);
+  if (receipt.memberName) row("Member", receipt.memberName);
+  rule();
+
+  // Items
+  for (const item of receipt.items) {
+    bytes.push(...COMMANDS.boldOn);
+    wrap(item.name, width).forEach(text);
+    bytes.push(...COMMANDS.boldOff);
+    row(
+      `  ${item.quantity} x ${amount(item.unitPrice)}`,
+      amount(item.quantity * item.unitPrice)
+    );
+    item.adjustments.forEach((line) => row(`  ${line.label}`, amount(line.amount)));
+  }
+  rule();
+
+  // Summary
+  row("Subtotal", amount(receipt.subtotal));
+  receipt.adjustments.forEach((line) => row(line.label, amount(line.amount)));
+  bytes.push(...COMMANDS.boldOn);
+  row("TOTAL", amount(receipt.total));
+  bytes.push(...COMMANDS.boldOff);
+  receipt.payments.forEach((line) => row(line.label, amount(line.amount)));
+
+  if (receipt.notes.length > 0) {
+    rule();
+    receipt.notes.forEach((note) => wrap(note, width).forEach(text));
+  }
+  rule();
+
+  // Footer and invoice code
+  bytes.push(...COMMANDS.alignCenter);
+  receipt.footer.forEach((line) => wrap(line, width).forEach(text));
+
+  if (options.code === "qr") {
+    bytes.push(LF, ...qrCode(receipt.qrContent || receipt.invoiceNo), LF);
+  } else if (options.code === "barcode") {
+    bytes.push(LF, ...barcode128(receipt.invoiceNo), LF);
+  }
+
+  bytes.push(...COMMANDS.alignLeft, LF, LF, ...COMMANDS.partialCut);
+
+  if (options.openDrawer) {
+    bytes.push(...COMMANDS.drawerKick);
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Byte stream that only opens the cash drawer
+ */
+export function renderDrawerKick(): Uint8Array {
+  return Uint8Array.from([...COMMANDS.init, ...COMMANDS.drawerKick]);
+}
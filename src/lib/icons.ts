@@ -16,6 +16,16 @@ import {
   Receipt,
   TrendingUp,
   UserCircle,
+  Tag,
+  Ticket,
+  Contact,
+  Percent,
+  Store,
+  CreditCard,
+  Webhook,
+  Wallet,
+  Landmark,
+  FileCheck,
   type LucideIcon,
 } from "lucide-react"
 
@@ -37,6 +47,16 @@ const iconMap: Record<string, LucideIcon> = {
   Receipt,
   TrendingUp,
   UserCircle,
+  Tag,
+  Ticket,
+  Contact,
+  Percent,
+  Store,
+  CreditCard,
+  Webhook,
+  Wallet,
+  Landmark,
+  FileCheck,
   // Aliases for icons that don't exist in lucide-react
   CashRegister: Banknote,
   UsersCircle: Users,
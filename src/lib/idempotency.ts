@@ -0,0 +1,54 @@
+import type { NextRequest } from "next/server";
+import { prisma } from "./prisma";
+
+/**
+ * Idempotency keys for sale creation
+ * Clients send a key generated once per checkout attempt; repeating the request
+ * (double-click, retry after a timeout) returns the sale created by the first one.
+ */
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+const MAX_KEY_LENGTH = 100;
+
+/**
+ * Read the idempotency key from the request headers (null when not sent)
+ */
+export function getIdempotencyKey(
+  request: NextRequest
+): { key: string | null } | { error: string } {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+
+  if (!key) {
+    return { key: null };
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return { error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` };
+  }
+
+  return { key };
+}
+
+/**
+ * Find the transaction created earlier with this key by the same cashier
+ * Returns "conflict" when the key belongs to another cashier.
+ */
+export async function findIdempotentTransaction(key: string, cashierId: string) {
+  const transaction = await prisma.transaction.findUnique({
+    where: { idempotencyKey: key },
+  });
+
+  if (transaction && transaction.cashierId !== cashierId) {
+    return "conflict" as const;
+  }
+
+  return transaction;
+}
+
+/**
+ * Check if an error is a unique constraint violation (e.g. a concurrent request with the same key)
+ */
+export function isUniqueConstraintError(error: any): boolean {
+  return error?.code === "P2002";
+}
@@ -0,0 +1,124 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { getStoreSettings } from "./store-settings";
+import { ApiError } from "./utils/error";
+import {
+  RETURN_NUMBER_PATTERN,
+  formatDocumentNumber,
+  getSequencePeriod,
+  getTerminalCode,
+} from "./store";
+
+/**
+ * Document numbers
+ * Running numbers come from DocumentSequence rows, incremented inside the database
+ * transaction that saves the document. Concurrent sales wait on the row lock instead of
+ * counting the same rows, so no number is handed out twice, and a rolled-back sale
+ * releases its number. Numbers that already exist (e.g. from before the sequence existed
+ * or an earlier pattern) are skipped, and the sequence jumps past them.
+ */
+
+// Furthest jump past taken numbers before giving up (the pattern may only produce existing numbers)
+const MAX_NUMBER_JUMP = 1 << 20;
+
+/**
+ * Take the next running number of a sequence
+ * Prisma runs this upsert as INSERT ... ON CONFLICT DO UPDATE, which is atomic and locks
+ * the row until the surrounding transaction ends.
+ */
+async function nextSequenceValue(tx: Prisma.TransactionClient, key: string): Promise<number> {
+  const sequence = await tx.documentSequence.upsert({
+    where: { key },
+    create: { key, value: 1 },
+    update: { value: { increment: 1 } },
+  });
+
+  return sequence.value;
+}
+
+/**
+ * Take the next running number that formats to a number not used yet
+ * Past a taken number the step doubles until a free one is found, then narrows back to
+ * the first free one after a taken one, so a period with thousands of existing numbers
+ * costs a few dozen lookups. The sequence is moved there, and the next sale continues.
+ * @throws ApiError 409 when no free number is found within MAX_NUMBER_JUMP
+ */
+async function takeUnusedNumber(
+  tx: Prisma.TransactionClient,
+  key: string,
+  format: (value: number) => string,
+  isTaken: (number: string) => Promise<boolean>
+): Promise<string> {
+  let taken = await nextSequenceValue(tx, key);
+  if (!(await isTaken(format(taken)))) return format(taken);
+
+  let step = 1;
+  while (await isTaken(format(taken + step))) {
+    taken += step;
+    step *= 2;
+
+    if (step > MAX_NUMBER_JUMP) {
+      throw new ApiError(
+        409,
+        `Tidak ada nomor dokumen yang tersedia (${key}); periksa pola penomoran di pengaturan toko`
+      );
+    }
+  }
+
+  let free = taken + step;
+  while (free - taken > 1) {
+    const middle = Math.floor((taken + free) / 2);
+    if (await isTaken(format(middle))) {
+      taken = middle;
+    } else {
+      free = middle;
+    }
+  }
+
+  await tx.documentSequence.update({ where: { key }, data: { value: free } });
+  return format(free);
+}
+
+/**
+ * Generate the invoice number of a new sale
+ * Format: the store's invoice pattern (default INV-{YYYYMMDD}-{SEQ:4}), dates in store time.
+ * Call it inside the transaction that creates the sale.
+ * @param terminalId - Terminal of the cashier's shift, for per-terminal numbering
+ */
+export async function generateInvoiceNumber(
+  tx: Prisma.TransactionClient,
+  terminalId?: string | null
+): Promise<string> {
+  const { invoicePattern, invoiceReset, invoiceScope, timezone } = await getStoreSettings();
+  const now = new Date();
+  const terminalCode = getTerminalCode(terminalId);
+  const scope = invoiceScope === "TERMINAL" ? terminalCode : "STORE";
+  const key = `INVOICE:${scope}:${getSequencePeriod(invoiceReset, now, timezone)}`;
+
+  // Skip numbers already taken, e.g. from before the sequence existed or an earlier pattern
+  return takeUnusedNumber(
+    tx,
+    key,
+    (value) => formatDocumentNumber(invoicePattern, now, timezone, value, terminalCode),
+    async (invoiceNo) =>
+      !!(await tx.transaction.findUnique({ where: { invoiceNo }, select: { id: true } }))
+  );
+}
+
+/**
+ * Generate the number of a new sales return
+ * Format: RET-{YYYYMMDD}-{seq}, counted per day in store time.
+ * Call it inside the transaction that creates the return.
+ */
+export async function generateReturnNumber(tx: Prisma.TransactionClient): Promise<string> {
+  const { timezone } = await getStoreSettings();
+  const now = new Date();
+  const key = `RETURN:STORE:${getSequencePeriod("DAILY", now, timezone)}`;
+
+  return takeUnusedNumber(
+    tx,
+    key,
+    (value) => formatDocumentNumber(RETURN_NUMBER_PATTERN, now, timezone, value),
+    async (returnNo) =>
+      !!(await tx.salesReturn.findUnique({ where: { returnNo }, select: { id: true } }))
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Loyalty program rules
+ * Pure functions shared by the cashier cart and the sale APIs (see pricing.ts), so
+ * keep this module free of server-only imports.
+ *
+ * - Points are earned on the amount the customer actually pays, once the sale completes.
+ * - Redeemed points are a discount applied after every other discount.
+ */
+
+/** Rupiah spent per point earned */
+export const LOYALTY_EARN_RUPIAH = 10000;
+
+/** Rupiah discount per redeemed point */
+export const LOYALTY_POINT_VALUE = 100;
+
+export function calculatePointsEarned(amountPaid: number): number {
+  return Math.max(0, Math.floor(amountPaid / LOYALTY_EARN_RUPIAH));
+}
+
+/**
+ * Points that can be spent on a total, and their discount
+ * Never discounts more than the total, so the request may be reduced.
+ */
+export function calculatePointsRedemption(
+  requestedPoints: number,
+  total: number
+): { points: number; discount: number } {
+  if (!Number.isInteger(requestedPoints) || requestedPoints <= 0 || total <= 0) {
+    return { points: 0, discount: 0 };
+  }
+
+  const points = Math.min(requestedPoints, Math.floor(total / LOYALTY_POINT_VALUE));
+  return { points, discount: points * LOYALTY_POINT_VALUE };
+}
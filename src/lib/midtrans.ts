@@ -1,3 +1,11 @@
+import type { GatewayStatus } from "./payments";
+import type {
+  ChargeRequest,
+  DirectChargeResult,
+  PaymentGateway,
+  RefundRequest,
+} from "./payment-gateway";
+
 /**
  * Midtrans Payment Gateway Service
  * Handles Snap API integration for payment processing
@@ -23,6 +31,10 @@ interface SnapTransactionRequest {
     error?: string;
     pending?: string;
   };
+  expiry?: {
+    unit: "minute";
+    duration: number;
+  };
 }
 
 interface SnapTransactionResponse {
@@ -30,6 +42,12 @@ interface SnapTransactionResponse {
   redirect_url: string;
 }
 
+// Core API charge response: the status fields plus what the customer pays with
+type CoreChargeResponse = GatewayStatus & {
+  qr_string?: string;
+  actions?: { name: string; method: string; url: string }[];
+};
+
 interface MidtransNotificationPayload {
   transaction_time: string;
   transaction_status: string;
@@ -60,6 +78,7 @@ export async function createSnapTransaction(
     finishUrl?: string;
     errorUrl?: string;
     pendingUrl?: string;
+    expiryMinutes?: number; // Payment expires this long after the token is created
   }
 ): Promise<SnapTransactionResponse> {
   const serverKey = process.env.MIDTRANS_SERVER_KEY;
@@ -102,6 +121,9 @@ export async function createSnapTransaction(
         ...(options?.pendingUrl && { pending: options.pendingUrl }),
       },
     } : {}),
+    ...(options?.expiryMinutes && {
+      expiry: { unit: "minute", duration: options.expiryMinutes },
+    }),
   };
 
   try {
@@ -134,9 +156,14 @@ export async function createSnapTransaction(
 }
 
 /**
- * Get transaction status from Midtrans
+ * Call a Midtrans Core API endpoint (/v2/...)
+ * Unknown orders (status_code 404, sent with HTTP 404 or 200) come back as null.
  */
-export async function getTransactionStatus(orderId: string) {
+async function callCoreApi(
+  path: string,
+  method: "GET" | "POST" = "GET",
+  body?: unknown
+): Promise<GatewayStatus | null> {
   const serverKey = process.env.MIDTRANS_SERVER_KEY;
   const isProduction = process.env.MIDTRANS_IS_PRODUCTION === "true";
 
@@ -145,24 +172,118 @@ export async function getTransactionStatus(orderId: string) {
   }
 
   const apiUrl = isProduction
-    ? `https://api.midtrans.com/v2/${orderId}/status`
-    : `https://api.sandbox.midtrans.com/v2/${orderId}/status`;
+    ? `https://api.midtrans.com/v2/${path}`
+    : `https://api.sandbox.midtrans.com/v2/${path}`;
 
   const response = await fetch(apiUrl, {
-    method: "GET",
+    method,
     headers: {
       "Accept": "application/json",
       "Content-Type": "application/json",
       "Authorization": `Basic ${Buffer.from(`${serverKey}:`).toString("base64")}`,
     },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
   });
 
+  if (response.status === 404) {
+    return null;
+  }
+
   if (!response.ok) {
     const errorText = await response.text();
     throw new Error(`Midtrans API error: ${response.status} ${errorText}`);
   }
 
-  return await response.json();
+  const data = await response.json();
+  return data.status_code === "404" ? null : data;
+}
+
+/**
+ * Charge a QRIS or GoPay tender through the Core API
+ * QRIS returns the QR string to render ourselves, GoPay a deeplink into the app.
+ */
+export async function createCoreCharge(request: ChargeRequest): Promise<DirectChargeResult> {
+  const qris = request.method === "MIDTRANS_QRIS";
+  const result = (await callCoreApi("charge", "POST", {
+    payment_type: qris ? "qris" : "gopay",
+    transaction_details: {
+      order_id: request.orderId,
+      gross_amount: request.amount,
+    },
+    customer_details: {
+      first_name: request.customer.name,
+      email: request.customer.email,
+      phone: request.customer.phone,
+    },
+    custom_expiry: {
+      expiry_duration: request.expiryMinutes,
+      unit: "minute",
+    },
+    ...(qris
+      ? { qris: { acquirer: "gopay" } }
+      : { gopay: { enable_callback: true, callback_url: request.finishUrl } }),
+  })) as CoreChargeResponse | null;
+
+  const charge = ensureAccepted(request.orderId, result);
+
+  return {
+    transactionId: charge.transaction_id,
+    qrString: charge.qr_string,
+    deeplink: charge.actions?.find((a) => a.name === "deeplink-redirect")?.url,
+    expiresAt: new Date(Date.now() + request.expiryMinutes * 60 * 1000),
+  };
+}
+
+/**
+ * Get transaction status from Midtrans (null if Midtrans doesn't know the order)
+ */
+export async function getTransactionStatus(orderId: string) {
+  return callCoreApi(`${encodeURIComponent(orderId)}/status`);
+}
+
+// Channels refunded through the direct refund endpoint, which answers synchronously
+const DIRECT_REFUND_METHODS = ["gopay", "shopeepay", "qris"];
+
+/**
+ * Refund (part of) a settled transaction
+ * E-wallet and QRIS payments use direct refund; other channels are refunded by Midtrans
+ * later and confirmed by notification. Midtrans answers rejected requests with HTTP 200
+ * and an error status_code, so those throw.
+ */
+export async function refundTransaction(request: RefundRequest) {
+  const direct = DIRECT_REFUND_METHODS.includes(request.paymentMethod || "");
+  const result = await callCoreApi(
+    `${encodeURIComponent(request.orderId)}/refund${direct ? "/online/direct" : ""}`,
+    "POST",
+    {
+      refund_key: request.refundKey,
+      amount: request.amount,
+      reason: request.reason,
+    }
+  );
+
+  return ensureAccepted(request.orderId, result);
+}
+
+/**
+ * Cancel a transaction that has not settled yet
+ */
+export async function cancelTransaction(orderId: string) {
+  const result = await callCoreApi(`${encodeURIComponent(orderId)}/cancel`, "POST");
+
+  return ensureAccepted(orderId, result);
+}
+
+function ensureAccepted<T extends GatewayStatus>(orderId: string, result: T | null): T {
+  if (!result) {
+    throw new Error(`Midtrans API error: 404 order ${orderId} not found`);
+  }
+
+  if (!result.status_code?.startsWith("2")) {
+    throw new Error(`Midtrans API error: ${result.status_code} ${result.status_message}`);
+  }
+
+  return result;
 }
 
 /**
@@ -212,4 +333,35 @@ export function mapMidtransStatus(midtransStatus: string): "PENDING" | "PAID" |
   }
 }
 
+/**
+ * Midtrans as a PaymentGateway: Snap for hosted charges, Core API for direct charges,
+ * status, refund and cancel
+ */
+export const midtransGateway: PaymentGateway = {
+  name: "midtrans",
+
+  isConfigured() {
+    return !!process.env.MIDTRANS_SERVER_KEY;
+  },
+
+  async createCharge(request) {
+    const snap = await createSnapTransaction(request.orderId, request.amount, request.customer, {
+      enabledPayments: request.channels.length > 0 ? request.channels : undefined,
+      finishUrl: request.finishUrl,
+      errorUrl: request.errorUrl,
+      pendingUrl: request.pendingUrl,
+      expiryMinutes: request.expiryMinutes,
+    });
+
+    return { token: snap.token, redirectUrl: snap.redirect_url };
+  },
+
+  createDirectCharge: createCoreCharge,
+
+  getStatus: getTransactionStatus,
+  verifyNotification: verifyNotificationSignature,
+  refund: refundTransaction,
+  cancel: cancelTransaction,
+};
+
 export type { MidtransNotificationPayload };
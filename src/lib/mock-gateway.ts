@@ -0,0 +1,320 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { ChargeRequest, PaymentGateway } from "./payment-gateway";
+import { ApiError } from "./utils/error";
+
+/**
+ * Mock payment gateway for development (PAYMENT_GATEWAY=mock)
+ * Charges live in server memory and behave like Midtrans ones: the simulator page at
+ * /mock-payment/[orderId] pays, denies or expires them, unpaid charges expire on their own,
+ * and every change is posted to /api/payment/webhook after MOCK_GATEWAY_WEBHOOK_DELAY_MS
+ * (default 3000), signed like a Midtrans notification. Refunds follow Midtrans too: GoPay is
+ * refunded right away, QRIS is confirmed later by notification and virtual account payments
+ * can't be refunded. A server restart forgets all charges.
+ */
+
+const MOCK_SERVER_KEY = "mock-server-key";
+
+export type MockChannel = "qris" | "gopay" | "bank_transfer";
+
+/** Outcomes the simulator can force on a pending charge */
+export const MOCK_ACTIONS = ["settle", "deny", "expire"] as const;
+
+export type MockAction = (typeof MOCK_ACTIONS)[number];
+
+export interface MockCharge {
+  orderId: string;
+  transactionId: string;
+  token: string;
+  amount: number;
+  channel: MockChannel;
+  transactionStatus: string;
+  createdAt: Date;
+  expiresAt: Date;
+  refunds: MockRefund[];
+  /** What the customer scans, opens or transfers to */
+  qrString?: string;
+  deeplink?: string;
+  vaNumber?: string;
+}
+
+export interface MockRefund {
+  refundKey: string;
+  amount: number;
+  createdAt: string;
+}
+
+interface MockState {
+  charges: Map<string, MockCharge>;
+  expiryTimers: Map<string, NodeJS.Timeout>;
+}
+
+// Kept on globalThis so every route module (and dev reloads) share the same charges
+const globalForMock = globalThis as unknown as { mockGateway?: MockState };
+const state = (globalForMock.mockGateway ??= {
+  charges: new Map(),
+  expiryTimers: new Map(),
+});
+
+const CHANNELS: Record<ChargeRequest["method"], MockChannel> = {
+  MIDTRANS_QRIS: "qris",
+  MIDTRANS_EWALLET: "gopay",
+  MIDTRANS_BANK_TRANSFER: "bank_transfer",
+  MIDTRANS_ALL: "qris",
+};
+
+// Midtrans status codes per transaction status
+const STATUS_CODES: Record<string, string> = {
+  pending: "201",
+  settlement: "200",
+  deny: "202",
+  expire: "407",
+  cancel: "200",
+  refund: "200",
+  partial_refund: "200",
+};
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+}
+
+function sign(orderId: string, statusCode: string, grossAmount: string): string {
+  return createHash("sha512")
+    .update(`${orderId}${statusCode}${grossAmount}${MOCK_SERVER_KEY}`)
+    .digest("hex");
+}
+
+function getRefundedAmount(charge: MockCharge): number {
+  return charge.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+}
+
+/**
+ * The charge as a Midtrans-style notification / status response
+ */
+function toNotification(charge: MockCharge) {
+  const statusCode = STATUS_CODES[charge.transactionStatus] || "200";
+  const grossAmount = `${charge.amount}.00`;
+
+  return {
+    transaction_time: charge.createdAt.toISOString(),
+    transaction_status: charge.transactionStatus,
+    transaction_id: charge.transactionId,
+    status_message: `Mock ${charge.channel} ${charge.transactionStatus}`,
+    status_code: statusCode,
+    signature_key: sign(charge.orderId, statusCode, grossAmount),
+    payment_type: charge.channel,
+    order_id: charge.orderId,
+    merchant_id: "MOCK",
+    gross_amount: grossAmount,
+    ...(charge.transactionStatus === "settlement" && { fraud_status: "accept" }),
+    ...(charge.refunds.length > 0 && {
+      refund_amount: `${getRefundedAmount(charge)}.00`,
+      refunds: charge.refunds.map((refund) => ({
+        refund_key: refund.refundKey,
+        refund_amount: `${refund.amount}.00`,
+        created_at: refund.createdAt,
+      })),
+    }),
+  };
+}
+
+/**
+ * Post the charge's current status to our webhook after the configured delay
+ */
+function sendNotification(charge: MockCharge) {
+  const notification = toNotification(charge);
+  const delay = parseInt(process.env.MOCK_GATEWAY_WEBHOOK_DELAY_MS || "3000");
+
+  setTimeout(async () => {
+    try {
+      const response = await fetch(`${getAppUrl()}/api/payment/webhook`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(notification),
+      });
+      if (!response.ok) {
+        console.error(`Mock gateway webhook for ${charge.orderId} answered ${response.status}`);
+      }
+    } catch (error) {
+      console.error(`Mock gateway webhook for ${charge.orderId} failed:`, error);
+    }
+  }, Math.max(0, delay));
+}
+
+function setStatus(charge: MockCharge, transactionStatus: string, notify = true) {
+  charge.transactionStatus = transactionStatus;
+
+  if (transactionStatus !== "pending") {
+    clearTimeout(state.expiryTimers.get(charge.orderId));
+    state.expiryTimers.delete(charge.orderId);
+  }
+
+  if (notify) {
+    sendNotification(charge);
+  }
+}
+
+function findCharge(orderId: string): MockCharge {
+  const charge = state.charges.get(orderId);
+  if (!charge) {
+    throw new Error(`Mock gateway error: 404 order ${orderId} not found`);
+  }
+  return charge;
+}
+
+/**
+ * Charge details for the simulator page (null if unknown)
+ */
+export function getMockCharge(orderId: string): MockCharge | null {
+  return state.charges.get(orderId) || null;
+}
+
+/**
+ * Force an outcome on a pending charge, as if the customer paid, was declined or let it run out
+ * @param notify - Send the webhook; off to test a notification that never arrives
+ */
+export function simulateMockPayment(orderId: string, action: MockAction, notify: boolean) {
+  const charge = state.charges.get(orderId);
+
+  if (!charge) {
+    throw new ApiError(404, `Order ${orderId} tidak ditemukan di mock gateway`);
+  }
+
+  if (charge.transactionStatus !== "pending") {
+    throw new ApiError(400, `Order ${orderId} sudah ${charge.transactionStatus}`);
+  }
+
+  const statuses: Record<MockAction, string> = {
+    settle: "settlement",
+    deny: "deny",
+    expire: "expire",
+  };
+  setStatus(charge, statuses[action], notify);
+
+  return charge;
+}
+
+/**
+ * Create the charge for an order, or return its pending one
+ */
+function openCharge(request: ChargeRequest): MockCharge {
+  const existing = state.charges.get(request.orderId);
+  if (existing && existing.transactionStatus !== "pending") {
+    throw new Error(`Mock gateway error: 406 order ${request.orderId} has already been taken`);
+  }
+
+  // Like Snap, a second request for a pending order returns the same charge
+  const charge: MockCharge = existing || {
+    orderId: request.orderId,
+    transactionId: randomUUID(),
+    token: randomBytes(16).toString("hex"),
+    amount: request.amount,
+    channel: CHANNELS[request.method],
+    transactionStatus: "pending",
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + request.expiryMinutes * 60 * 1000),
+    refunds: [],
+  };
+
+  if (!existing) {
+    if (charge.channel === "qris") {
+      charge.qrString = `00020101021226MOCKQRIS${charge.transactionId}5204581253033605404${charge.amount}6304MOCK`;
+    } else if (charge.channel === "gopay") {
+      charge.deeplink = `gojek://gopay/merchanttransfer?tref=${charge.transactionId}`;
+    } else {
+      charge.vaNumber = `8808${Math.floor(Math.random() * 1e12).toString().padStart(12, "0")}`;
+    }
+
+    state.charges.set(charge.orderId, charge);
+    const timer = setTimeout(() => {
+      if (charge.transactionStatus === "pending") setStatus(charge, "expire");
+    }, charge.expiresAt.getTime() - Date.now());
+    timer.unref();
+    state.expiryTimers.set(charge.orderId, timer);
+  }
+
+  return charge;
+}
+
+export const mockGateway: PaymentGateway = {
+  name: "mock",
+
+  isConfigured() {
+    return true;
+  },
+
+  async createCharge(request) {
+    const charge = openCharge(request);
+
+    return {
+      token: charge.token,
+      redirectUrl: `${getAppUrl()}/mock-payment/${encodeURIComponent(charge.orderId)}`,
+    };
+  },
+
+  async createDirectCharge(request) {
+    const charge = openCharge(request);
+
+    return {
+      transactionId: charge.transactionId,
+      qrString: charge.qrString,
+      deeplink: charge.deeplink,
+      expiresAt: charge.expiresAt,
+    };
+  },
+
+  async getStatus(orderId) {
+    const charge = state.charges.get(orderId);
+    return charge ? toNotification(charge) : null;
+  },
+
+  verifyNotification(notification) {
+    return (
+      typeof notification?.signature_key === "string" &&
+      notification.signature_key ===
+        sign(notification.order_id, notification.status_code, notification.gross_amount)
+    );
+  },
+
+  async refund({ orderId, amount, refundKey }) {
+    const charge = findCharge(orderId);
+
+    if (!["settlement", "partial_refund"].includes(charge.transactionStatus)) {
+      throw new Error(`Mock gateway error: 412 order ${orderId} is ${charge.transactionStatus}`);
+    }
+    if (charge.channel === "bank_transfer") {
+      throw new Error("Mock gateway error: 412 payment type bank_transfer does not support refund");
+    }
+    if (amount <= 0 || amount > charge.amount - getRefundedAmount(charge)) {
+      throw new Error(`Mock gateway error: 413 refund amount ${amount} is not available`);
+    }
+
+    charge.refunds.push({ refundKey, amount, createdAt: new Date().toISOString() });
+    const previousStatus = charge.transactionStatus;
+    setStatus(charge, getRefundedAmount(charge) === charge.amount ? "refund" : "partial_refund");
+
+    if (charge.channel === "gopay") {
+      return { ...toNotification(charge), refund_key: refundKey };
+    }
+
+    // QRIS: accepted now, the notification sent by setStatus confirms it
+    return {
+      ...toNotification(charge),
+      transaction_status: previousStatus,
+      status_code: "201",
+      status_message: "Refund request is being processed",
+      refund_key: refundKey,
+    };
+  },
+
+  async cancel(orderId) {
+    const charge = findCharge(orderId);
+
+    if (charge.transactionStatus !== "pending") {
+      throw new Error(`Mock gateway error: 412 order ${orderId} is ${charge.transactionStatus}`);
+    }
+
+    setStatus(charge, "cancel");
+
+    return toNotification(charge);
+  },
+};
@@ -0,0 +1,239 @@
+import { getTerminalId } from "./terminal";
+import { calculateCartTotals, priceLine } from "./pricing";
+import { getSellableQuantity } from "./stock";
+
+/**
+ * Offline cashier storage (IndexedDB)
+ * Holds a product/price/stock snapshot for selling without network, and the queue
+ * of cash sales made offline until they are replayed to the server.
+ */
+
+const DB_NAME = "pos-offline";
+const DB_VERSION = 1;
+const PRODUCT_STORE = "products";
+const SALE_STORE = "sales";
+const INVOICE_SEQ_KEY = "pos-offline-invoice-seq";
+
+export interface SnapshotProduct {
+  id: number;
+  name: string;
+  sku: string;
+  price: number;
+  categoryId: number | null;
+  isActive: boolean;
+  taxExempt?: boolean;
+  stock?: { quantity: number; reserved?: number } | null;
+  category?: { id: number; title: string; taxExempt?: boolean } | null;
+  barcodes?: { id: number; code: string }[];
+}
+
+export interface OfflineSaleItem {
+  id: number;
+  productId: number;
+  name: string;
+  price: number;
+  quantity: number;
+  stock: number;
+  subtotal: number;
+  discountType?: "PERCENTAGE" | "NOMINAL" | null;
+  discountValue?: number;
+  discountedPrice?: number;
+  discountAmount?: number;
+}
+
+export interface StockConflict {
+  productId: number;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export type QueuedSaleStatus = "pending" | "conflict" | "error";
+
+export interface QueuedSale {
+  offlineId: string;
+  provisionalInvoiceNo: string;
+  shiftId: number | null;
+  soldAt: string;
+  items: OfflineSaleItem[];
+  totalAmount: number;
+  discount: { type: "PERCENTAGE" | "NOMINAL" | null; value: number; amount: number } | null;
+  /** Key of the online checkout attempt that may have reached the server before the connection dropped */
+  idempotencyKey?: string | null;
+  status: QueuedSaleStatus;
+  error?: string;
+  conflicts?: StockConflict[];
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PRODUCT_STORE)) {
+        db.createObjectStore(PRODUCT_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(SALE_STORE)) {
+        db.createObjectStore(SALE_STORE, { keyPath: "offlineId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one operation against an object store and resolve when its transaction completes
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : (undefined as T));
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Replace the product snapshot
+ */
+export async function saveProductSnapshot(products: SnapshotProduct[]): Promise<void> {
+  await withStore(PRODUCT_STORE, "readwrite", (store) => {
+    store.clear();
+    for (const product of products) {
+      store.put(product);
+    }
+  });
+}
+
+/**
+ * Search the product snapshot by name, SKU or barcode.
+ * Stock is reduced by quantities in sales still waiting to sync.
+ */
+export async function searchProductSnapshot(search: string, limit = 50): Promise<SnapshotProduct[]> {
+  const [products, queuedSales] = await Promise.all([
+    withStore<SnapshotProduct[]>(PRODUCT_STORE, "readonly", (store) => store.getAll()),
+    getQueuedSales(),
+  ]);
+
+  const term = search.trim().toLowerCase();
+  const matches = term
+    ? products.filter(
+        (p) =>
+          p.name.toLowerCase().includes(term) ||
+          p.sku.toLowerCase().includes(term) ||
+          p.barcodes?.some((b) => b.code.toLowerCase().includes(term))
+      )
+    : products;
+
+  const queued = getQueuedQuantities(queuedSales);
+
+  return matches.slice(0, limit).map((product) => ({
+    ...product,
+    stock: {
+      quantity: Math.max(0, getSellableQuantity(product.stock) - (queued.get(product.id) || 0)),
+    },
+  }));
+}
+
+/**
+ * Find a product in the snapshot by exact barcode
+ */
+export async function findSnapshotByBarcode(code: string): Promise<SnapshotProduct | null> {
+  const products = await searchProductSnapshot("", Number.MAX_SAFE_INTEGER);
+  return products.find((p) => p.barcodes?.some((b) => b.code === code)) || null;
+}
+
+function getQueuedQuantities(sales: QueuedSale[]): Map<number, number> {
+  const quantities = new Map<number, number>();
+  for (const sale of sales) {
+    for (const item of sale.items) {
+      quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+    }
+  }
+  return quantities;
+}
+
+/**
+ * List queued offline sales, oldest first
+ */
+export async function getQueuedSales(): Promise<QueuedSale[]> {
+  const sales = await withStore<QueuedSale[]>(SALE_STORE, "readonly", (store) => store.getAll());
+  return sales.sort((a, b) => a.soldAt.localeCompare(b.soldAt));
+}
+
+/**
+ * Add or update a queued sale
+ */
+export async function putQueuedSale(sale: QueuedSale): Promise<void> {
+  await withStore(SALE_STORE, "readwrite", (store) => store.put(sale));
+}
+
+/**
+ * Remove a queued sale (after it synced, or when discarded)
+ */
+export async function removeQueuedSale(offlineId: string): Promise<void> {
+  await withStore(SALE_STORE, "readwrite", (store) => store.delete(offlineId));
+}
+
+/**
+ * Next provisional invoice number for an offline sale
+ * Format: OFF-{YYYYMMDD}-{terminal}-{seq}, the sequence restarts every day per terminal
+ */
+export function nextProvisionalInvoiceNo(): string {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  const stored = JSON.parse(window.localStorage.getItem(INVOICE_SEQ_KEY) || "{}");
+  const seq = stored.date === dateStr ? stored.seq + 1 : 1;
+
+  window.localStorage.setItem(INVOICE_SEQ_KEY, JSON.stringify({ date: dateStr, seq }));
+
+  const terminal = getTerminalId().replace("TRM-", "").slice(0, 4);
+  return `OFF-${dateStr}-${terminal}-${String(seq).padStart(4, "0")}`;
+}
+
+/**
+ * Shrink a conflicting sale to the stock that is still available.
+ * Lines with no stock left are dropped; totals and the transaction discount are recalculated.
+ */
+export function adjustSaleToStock(sale: QueuedSale): QueuedSale {
+  const available = new Map((sale.conflicts || []).map((c) => [c.productId, c.available]));
+
+  const items = sale.items
+    .map((item) => {
+      const limit = available.get(item.productId);
+      if (limit === undefined || item.quantity <= limit) return item;
+
+      const line = priceLine(item.price, limit, {
+        type: item.discountType || null,
+        value: item.discountValue || 0,
+      });
+      return { ...item, quantity: limit, subtotal: line.subtotal, discountAmount: line.discountAmount };
+    })
+    .filter((item) => item.quantity > 0);
+
+  const totals = calculateCartTotals(items, sale.discount);
+
+  return {
+    ...sale,
+    items,
+    totalAmount: totals.finalTotal,
+    discount: sale.discount ? { ...sale.discount, amount: totals.transactionDiscountAmount } : null,
+    status: "pending",
+    error: undefined,
+    conflicts: undefined,
+  };
+}
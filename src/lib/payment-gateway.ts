@@ -0,0 +1,101 @@
+import type { GatewayStatus, TenderMethod } from "./payments";
+import { midtransGateway } from "./midtrans";
+import { mockGateway } from "./mock-gateway";
+
+/**
+ * Payment gateway
+ * Online tenders are charged through one provider, chosen with PAYMENT_GATEWAY:
+ * - midtrans (default) - Midtrans Snap and Core API (direct QRIS / GoPay charges)
+ * - mock - in-process simulator for development (see mock-gateway.ts)
+ * Every provider reports statuses in the Midtrans vocabulary (pending, settlement, expire,
+ * ...), so notifications and status checks go through recordGatewayStatus unchanged.
+ */
+
+export type PaymentGatewayName = "midtrans" | "mock";
+
+export interface ChargeRequest {
+  orderId: string;
+  amount: number;
+  method: Exclude<TenderMethod, "CASH">;
+  /** Channels the hosted page offers, from the payment method catalog */
+  channels: string[];
+  customer: {
+    name: string;
+    email: string;
+    phone: string;
+  };
+  /** The charge expires this long after it is created */
+  expiryMinutes: number;
+  /** Where the provider's payment page sends the customer afterwards */
+  finishUrl: string;
+  errorUrl: string;
+  pendingUrl: string;
+}
+
+export interface ChargeResult {
+  /** Token for the provider's payment popup (Snap token for Midtrans) */
+  token: string;
+  /** Hosted payment page */
+  redirectUrl: string;
+}
+
+export interface DirectChargeResult {
+  /** Provider's transaction ID */
+  transactionId?: string;
+  /** QRIS payload, rendered as a QR code in our own dialog */
+  qrString?: string;
+  /** Link that opens the e-wallet app */
+  deeplink?: string;
+  expiresAt: Date;
+}
+
+// Tender methods charged in-app (QR code or deeplink in the cashier's dialog) instead of
+// through the provider's hosted payment page
+export const DIRECT_CHARGE_METHODS: ChargeRequest["method"][] = [
+  "MIDTRANS_QRIS",
+  "MIDTRANS_EWALLET",
+];
+
+export interface RefundRequest {
+  orderId: string;
+  amount: number;
+  reason: string;
+  /** Idempotency key; the provider echoes it in refund notifications */
+  refundKey: string;
+  /** Payment channel reported by the provider (qris, gopay, ...), when known */
+  paymentMethod?: string | null;
+}
+
+export interface PaymentGateway {
+  name: PaymentGatewayName;
+  /** Credentials (if any) are set */
+  isConfigured(): boolean;
+  createCharge(request: ChargeRequest): Promise<ChargeResult>;
+  /** Charge a QRIS or e-wallet tender directly, for display in our own dialog */
+  createDirectCharge(request: ChargeRequest): Promise<DirectChargeResult>;
+  /** Current status of an order, null if the provider doesn't know it */
+  getStatus(orderId: string): Promise<GatewayStatus | null>;
+  /** Check the signature of an inbound notification */
+  verifyNotification(notification: any): boolean;
+  /**
+   * Return (part of) a settled payment to the customer
+   * Resolves with a refund status when the refund is done right away, or with the unchanged
+   * status when the provider confirms it later by notification; throws when rejected.
+   */
+  refund(request: RefundRequest): Promise<GatewayStatus>;
+  /** Void a payment that has not settled yet */
+  cancel(orderId: string): Promise<GatewayStatus>;
+}
+
+const gateways: Record<PaymentGatewayName, PaymentGateway> = {
+  midtrans: midtransGateway,
+  mock: mockGateway,
+};
+
+/**
+ * Provider selected by PAYMENT_GATEWAY
+ */
+export function getPaymentGateway(): PaymentGateway {
+  const name = process.env.PAYMENT_GATEWAY;
+  return name === "mock" ? gateways.mock : gateways.midtrans;
+}
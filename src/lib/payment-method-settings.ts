@@ -0,0 +1,38 @@
+import { prisma } from "@/lib/prisma";
+import type { TenderMethod } from "@/lib/payments";
+import { DEFAULT_PAYMENT_METHODS, type PaymentMethodConfig } from "@/lib/payment-methods";
+
+/**
+ * Payment method catalog in display order
+ * Saved rows override the defaults; methods never saved keep their default settings.
+ */
+export async function getPaymentMethods(): Promise<PaymentMethodConfig[]> {
+  const settings = await prisma.paymentMethodSetting.findMany();
+
+  return DEFAULT_PAYMENT_METHODS.map((method) => {
+    const setting = settings.find((s) => s.code === method.code);
+
+    if (!setting) {
+      return method;
+    }
+
+    return {
+      code: method.code,
+      name: setting.name,
+      description: setting.description ?? "",
+      isEnabled: setting.isEnabled,
+      sortOrder: setting.sortOrder,
+      mdrPercent: setting.mdrPercent,
+      mdrFixed: setting.mdrFixed,
+      channels: setting.channels,
+    };
+  }).sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+/**
+ * Catalog entry of one tender method
+ */
+export async function getPaymentMethod(code: TenderMethod): Promise<PaymentMethodConfig> {
+  const methods = await getPaymentMethods();
+  return methods.find((m) => m.code === code)!;
+}
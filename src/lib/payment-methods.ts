@@ -0,0 +1,118 @@
+import type { TenderMethod } from "./payments";
+
+/**
+ * Payment method catalog
+ * Which tender methods the cashier offers, in what order, and what the gateway charges for
+ * each (the merchant discount rate). Shared by the server and the settings page; the saved
+ * catalog is read with getPaymentMethods (payment-method-settings.ts).
+ */
+
+export interface PaymentMethodConfig {
+  code: TenderMethod;
+  name: string;
+  description: string;
+  isEnabled: boolean;
+  sortOrder: number;
+  /** MDR as a percent of the amount paid */
+  mdrPercent: number;
+  /** Fixed fee per payment, in rupiah */
+  mdrFixed: number;
+  /** Snap channels offered for the method (hosted page only) */
+  channels: string[];
+}
+
+// Every Snap channel a method can offer
+export const MIDTRANS_CHANNELS = [
+  "credit_card",
+  "gopay",
+  "shopeepay",
+  "ovo",
+  "dana",
+  "linkaja",
+  "qris",
+  "bca_va",
+  "bni_va",
+  "bri_va",
+  "mandiri_va",
+  "permata_va",
+  "cimb_va",
+] as const;
+
+// Used until the catalog is saved; the rates are Midtrans' published ones
+export const DEFAULT_PAYMENT_METHODS: PaymentMethodConfig[] = [
+  {
+    code: "CASH",
+    name: "Tunai",
+    description: "Bayar langsung dengan uang tunai",
+    isEnabled: true,
+    sortOrder: 1,
+    mdrPercent: 0,
+    mdrFixed: 0,
+    channels: [],
+  },
+  {
+    code: "MIDTRANS_QRIS",
+    name: "QRIS",
+    description: "Scan QRIS dengan GoPay, OVO, Dana, dll",
+    isEnabled: true,
+    sortOrder: 2,
+    mdrPercent: 0.7,
+    mdrFixed: 0,
+    channels: ["qris"],
+  },
+  {
+    code: "MIDTRANS_EWALLET",
+    name: "E-Wallet",
+    description: "GoPay, ShopeePay, OVO, Dana, LinkAja",
+    isEnabled: true,
+    sortOrder: 3,
+    mdrPercent: 2,
+    mdrFixed: 0,
+    channels: ["gopay", "shopeepay", "ovo", "dana", "linkaja"],
+  },
+  {
+    code: "MIDTRANS_BANK_TRANSFER",
+    name: "Transfer Bank",
+    description: "BCA, Mandiri, BNI, BRI, dll",
+    isEnabled: true,
+    sortOrder: 4,
+    mdrPercent: 0,
+    mdrFixed: 4000,
+    channels: ["bca_va", "bni_va", "bri_va", "mandiri_va", "permata_va", "cimb_va"],
+  },
+  {
+    code: "MIDTRANS_ALL",
+    name: "Semua Metode Online",
+    description: "Pelanggan memilih sendiri di halaman Midtrans",
+    isEnabled: false,
+    sortOrder: 5,
+    mdrPercent: 2.9,
+    mdrFixed: 0,
+    channels: [
+      "credit_card",
+      "gopay",
+      "shopeepay",
+      "ovo",
+      "dana",
+      "linkaja",
+      "qris",
+      "bca_va",
+      "bni_va",
+      "bri_va",
+      "mandiri_va",
+      "permata_va",
+    ],
+  },
+];
+
+/**
+ * Gateway fee for a payment: the percentage, rounded to whole rupiah, plus the fixed fee,
+ * never more than the amount itself
+ */
+export function calculateMdrFee(
+  amount: number,
+  method: Pick<PaymentMethodConfig, "mdrPercent" | "mdrFixed">
+): number {
+  const fee = Math.round((amount * method.mdrPercent) / 100) + method.mdrFixed;
+  return Math.min(Math.max(fee, 0), amount);
+}
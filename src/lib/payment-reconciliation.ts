@@ -0,0 +1,234 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import { getPaymentGateway } from "./payment-gateway";
+import {
+  SETTLED_STATUSES,
+  recordGatewayStatus,
+  releaseExpiredReservations,
+  type GatewayStatus,
+} from "./payments";
+import { cancelPartlyPaidTransactions } from "./payment-refunds";
+import { RESERVATION_MINUTES } from "./stock";
+import { ApiError } from "./utils/error";
+
+/**
+ * Pending payment reconciliation
+ * Online payments are settled by the gateway webhook. When a notification never reaches us
+ * the sale would stay PENDING, so pending gateway payments are checked against the status
+ * API and given the same transitions as a notification (recordGatewayStatus).
+ */
+
+// Payments checked per sweep, oldest first; the rest wait for the next run
+const RECONCILE_BATCH_SIZE = 100;
+
+/** Pending payments younger than this are left to the webhook */
+export function getReconcileAfterMinutes(): number {
+  const minutes = parseInt(process.env.PAYMENT_RECONCILE_AFTER_MINUTES || "10");
+  return minutes >= 0 ? minutes : 10;
+}
+
+export type ResyncOutcome = "UPDATED" | "UNCHANGED" | "EXPIRED" | "NOT_FOUND" | "ERROR";
+
+export interface ResyncResult {
+  paymentId: number;
+  orderId: string;
+  outcome: ResyncOutcome;
+  gatewayStatus?: string;
+  transactionStatus?: string;
+  error?: string;
+}
+
+export interface ReconcileSummary {
+  checked: number;
+  updated: number;
+  expired: number;
+  errors: number;
+  /** Sales canceled because their stock reservation ran out */
+  released: number;
+  /** Split sales canceled (or waiting on refunds) because a tender failed after another was paid */
+  partlyPaid: number;
+  results: ResyncResult[];
+}
+
+export const PAYMENT_ISSUES = [
+  "STUCK", // Still pending at the gateway or never reported
+  "SETTLED_NOT_COMPLETED", // Paid at the gateway, sale not completed here
+  "COMPLETED_NOT_SETTLED", // Sale completed here, gateway payment not settled
+] as const;
+
+export type PaymentIssue = (typeof PAYMENT_ISSUES)[number];
+
+/**
+ * Gateway payments that need a look: pending longer than the webhook should take, or
+ * whose status disagrees with their sale
+ */
+export function getPaymentIssueWhere(now = new Date()): Prisma.PaymentWhereInput {
+  const cutoff = new Date(now.getTime() - getReconcileAfterMinutes() * 60 * 1000);
+
+  return {
+    paymentType: "MIDTRANS",
+    OR: [
+      { paymentStatus: "pending", transaction: { status: "PENDING", createdAt: { lt: cutoff } } },
+      { paymentStatus: { in: SETTLED_STATUSES }, transaction: { status: { not: "COMPLETED" } } },
+      { paymentStatus: { notIn: SETTLED_STATUSES }, transaction: { status: "COMPLETED" } },
+    ],
+  };
+}
+
+/**
+ * Classify a payment matched by getPaymentIssueWhere
+ */
+export function getPaymentIssue(
+  payment: { paymentStatus: string },
+  transaction: { status: string }
+): PaymentIssue | null {
+  const settled = SETTLED_STATUSES.includes(payment.paymentStatus);
+
+  if (settled && transaction.status !== "COMPLETED") return "SETTLED_NOT_COMPLETED";
+  if (!settled && transaction.status === "COMPLETED") return "COMPLETED_NOT_SETTLED";
+  if (payment.paymentStatus === "pending" && transaction.status === "PENDING") return "STUCK";
+  return null;
+}
+
+/**
+ * End of the window in which a sale can still be paid
+ * The Snap payment expires before the sale's stock reservation (see RESERVATION_MINUTES).
+ */
+function getPaymentDeadline(transactionCreatedAt: Date): Date {
+  return new Date(transactionCreatedAt.getTime() + RESERVATION_MINUTES * 60 * 1000);
+}
+
+/**
+ * Query the gateway for one payment line and apply its status
+ * Past the payment window, an order the gateway never saw (Snap was not opened) or still
+ * reports as pending can no longer be paid, so it is recorded as expired.
+ */
+export async function resyncPayment(paymentId: number): Promise<ResyncResult> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { transaction: { select: { invoiceNo: true, createdAt: true } } },
+  });
+
+  if (!payment) {
+    throw new ApiError(404, "Pembayaran tidak ditemukan");
+  }
+
+  if (payment.paymentType !== "MIDTRANS") {
+    throw new ApiError(400, "Hanya pembayaran gateway yang dapat disinkronkan");
+  }
+
+  const orderId = payment.orderId || payment.transaction.invoiceNo;
+  const pastDeadline = Date.now() > getPaymentDeadline(payment.transaction.createdAt).getTime();
+
+  let status: GatewayStatus | null;
+  try {
+    status = await getPaymentGateway().getStatus(orderId);
+  } catch (error: any) {
+    return { paymentId, orderId, outcome: "ERROR", error: error.message };
+  }
+
+  const notFound = !status;
+  if (notFound && !pastDeadline) {
+    return { paymentId, orderId, outcome: "NOT_FOUND" };
+  }
+
+  const expired = notFound || (pastDeadline && status!.transaction_status === "pending");
+  if (expired) {
+    status = {
+      ...(notFound ? { status_code: "404" } : status),
+      transaction_status: "expire",
+      status_message: notFound
+        ? "Order tidak ditemukan di gateway setelah batas waktu pembayaran"
+        : "Masih pending setelah batas waktu pembayaran",
+    };
+  }
+
+  const { outcome, transaction } = await recordGatewayStatus(payment.id, status!);
+
+  return {
+    paymentId,
+    orderId,
+    outcome: outcome !== "APPLIED" ? "UNCHANGED" : expired ? "EXPIRED" : "UPDATED",
+    gatewayStatus: status!.transaction_status,
+    transactionStatus: transaction?.status,
+  };
+}
+
+/**
+ * Check every gateway payment that has been pending longer than the webhook should take,
+ * then cancel the sales whose stock reservation ran out, and refund and cancel split sales
+ * that were only partly paid
+ */
+export async function reconcilePendingPayments(): Promise<ReconcileSummary> {
+  const cutoff = new Date(Date.now() - getReconcileAfterMinutes() * 60 * 1000);
+  const payments = await prisma.payment.findMany({
+    where: {
+      paymentType: "MIDTRANS",
+      paymentStatus: "pending",
+      transaction: { status: "PENDING", createdAt: { lt: cutoff } },
+    },
+    select: { id: true },
+    orderBy: { id: "asc" },
+    take: RECONCILE_BATCH_SIZE,
+  });
+
+  // One at a time, to stay well inside the gateway's rate limits
+  const results: ResyncResult[] = [];
+  for (const payment of payments) {
+    results.push(await resyncPayment(payment.id));
+  }
+
+  const released = await releaseExpiredReservations();
+  const partlyPaid = await cancelPartlyPaidTransactions();
+
+  return {
+    checked: results.length,
+    updated: results.filter((r) => r.outcome === "UPDATED").length,
+    expired: results.filter((r) => r.outcome === "EXPIRED").length,
+    errors: results.filter((r) => r.outcome === "ERROR").length,
+    released: released.length,
+    partlyPaid: partlyPaid.length,
+    results,
+  };
+}
+
+let reconcilerStarted = false;
+let reconcilerRunning = false;
+
+/**
+ * Run reconcilePendingPayments in the background every PAYMENT_RECONCILE_INTERVAL_MINUTES
+ * (default 5, 0 turns it off). Started once per server process from instrumentation.ts;
+ * does nothing until the payment gateway is configured.
+ */
+export function startPaymentReconciler() {
+  const minutes = parseInt(process.env.PAYMENT_RECONCILE_INTERVAL_MINUTES || "5");
+
+  if (reconcilerStarted || !(minutes > 0) || !getPaymentGateway().isConfigured()) {
+    return;
+  }
+  reconcilerStarted = true;
+
+  const timer = setInterval(async () => {
+    // A slow gateway can make a run outlast the interval
+    if (reconcilerRunning) return;
+    reconcilerRunning = true;
+
+    try {
+      const summary = await reconcilePendingPayments();
+      if (summary.checked > 0 || summary.released > 0 || summary.partlyPaid > 0) {
+        console.log(
+          `Payment reconciliation: ${summary.checked} checked, ${summary.updated} updated, ` +
+            `${summary.expired} expired, ${summary.errors} errors, ${summary.released} released, ` +
+            `${summary.partlyPaid} partly paid`
+        );
+      }
+    } catch (error) {
+      console.error("Payment reconciliation failed:", error);
+    } finally {
+      reconcilerRunning = false;
+    }
+  }, minutes * 60 * 1000);
+
+  // Don't keep the process alive just for this
+  timer.unref();
+}
@@ -0,0 +1,286 @@
+import type { PaymentRefund, Prisma } from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import { getPaymentGateway } from "./payment-gateway";
+import {
+  REFUND_STATUSES,
+  SETTLED_STATUSES,
+  UNPAID_STATUSES,
+  assertNoReturns,
+  cancelSale,
+  finishRefundedCancellation,
+  isRefundOutstanding,
+  lockTransaction,
+  recordGatewayStatus,
+} from "./payments";
+
+/**
+ * Cancellation of sales paid online
+ * Money taken through the gateway is refunded before the sale is canceled. Each refund
+ * request is a PaymentRefund row; the sale is canceled (stock back, voucher and points
+ * reversed) once every paid gateway tender has a refund that succeeded, either right away
+ * or by a later refund notification, or that a user marked as handled manually.
+ */
+
+export type CancelOutcome =
+  | "CANCELED"
+  | "REFUND_PENDING" // Waiting for the gateway to confirm a refund
+  | "REFUND_STALE" // Still unconfirmed after STALE_REFUND_MINUTES; may be marked manual
+  | "REFUND_FAILED"; // A refund was rejected; retry or mark it for manual handling
+
+// A pending refund the gateway has not confirmed after this long may be resolved manually
+export const STALE_REFUND_MINUTES = 60;
+
+export interface CancelResult {
+  outcome: CancelOutcome;
+  refunds: PaymentRefund[];
+}
+
+type PaymentWithRefunds = Prisma.PaymentGetPayload<{ include: { refunds: true } }>;
+
+function getLatestRefund(payment: PaymentWithRefunds): PaymentRefund | undefined {
+  return payment.refunds.reduce<PaymentRefund | undefined>(
+    (latest, refund) => (!latest || refund.createdAt > latest.createdAt ? refund : latest),
+    undefined
+  );
+}
+
+function isStaleRefund(refund: PaymentRefund): boolean {
+  return Date.now() - refund.createdAt.getTime() > STALE_REFUND_MINUTES * 60 * 1000;
+}
+
+/**
+ * Ask the gateway to return a payment in full
+ * The request is recorded first, so a gateway that times out still leaves a trace;
+ * a refund that is done right away is recorded like its notification would be.
+ * The payment row is locked while the request is recorded, so concurrent cancellations
+ * ask for one refund and number it once; the sale is locked too, so no return slips in.
+ */
+async function requestRefund(
+  payment: PaymentWithRefunds,
+  orderId: string,
+  reason: string,
+  requestedBy: string
+) {
+  const refund = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Payment" WHERE "id" = ${payment.id} FOR UPDATE`;
+    await lockTransaction(tx, payment.transactionId);
+    await assertNoReturns(tx, payment.transactionId);
+
+    const refunds = await tx.paymentRefund.findMany({
+      where: { paymentId: payment.id },
+      select: { status: true },
+    });
+
+    // A concurrent cancellation already asked for it, or it is done
+    if (refunds.some((r) => r.status !== "FAILED")) {
+      return null;
+    }
+
+    return tx.paymentRefund.create({
+      data: {
+        paymentId: payment.id,
+        refundKey: `${orderId}-R${refunds.length + 1}`,
+        amount: payment.amount,
+        reason,
+        requestedBy,
+      },
+    });
+  });
+
+  if (!refund) return;
+
+  try {
+    const status = await getPaymentGateway().refund({
+      orderId,
+      amount: refund.amount,
+      reason,
+      refundKey: refund.refundKey,
+      paymentMethod: payment.paymentMethod,
+    });
+
+    if (REFUND_STATUSES.includes(status.transaction_status)) {
+      await recordGatewayStatus(payment.id, status);
+      return;
+    }
+
+    // Accepted; the notification may already have confirmed it
+    await prisma.paymentRefund.updateMany({
+      where: { id: refund.id, status: "PENDING" },
+      data: {
+        statusMessage: status.status_message,
+        rawResponse: status as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error: any) {
+    console.error(`Refund ${refund.refundKey} failed:`, error);
+    await prisma.paymentRefund.updateMany({
+      where: { id: refund.id, status: "PENDING" },
+      data: { status: "FAILED", statusMessage: error.message },
+    });
+  }
+}
+
+/**
+ * Ask the gateway whether a pending refund went through, in case its notification was lost
+ * Best effort: an unreachable gateway leaves the refund pending.
+ */
+async function resyncPendingRefund(payment: PaymentWithRefunds, orderId: string) {
+  try {
+    const status = await getPaymentGateway().getStatus(orderId);
+
+    if (status && REFUND_STATUSES.includes(status.transaction_status)) {
+      await recordGatewayStatus(payment.id, status);
+    }
+  } catch (error) {
+    console.error(`Could not check refund of ${orderId}:`, error);
+  }
+}
+
+/**
+ * Void gateway payments of a canceled sale that were never paid, so the customer can no
+ * longer pay them. Best effort: a payment the gateway never saw just expires.
+ */
+async function voidPendingPayments(payments: PaymentWithRefunds[], invoiceNo: string) {
+  for (const payment of payments) {
+    if (payment.paymentType === "CASH" || payment.paymentStatus !== "pending") continue;
+
+    try {
+      const status = await getPaymentGateway().cancel(payment.orderId || invoiceNo);
+      // The sale is already canceled, so this only updates the payment line
+      await recordGatewayStatus(payment.id, status);
+    } catch (error) {
+      console.error(`Could not void payment ${payment.orderId || invoiceNo}:`, error);
+    }
+  }
+}
+
+/**
+ * Cancel a sale, refunding its paid gateway tenders first
+ * Calling it again continues an unfinished cancellation: pending refunds are checked with
+ * the gateway, failed ones are retried. With `manualRefund`, failed refunds and refunds
+ * pending longer than STALE_REFUND_MINUTES are marked as returned outside the gateway.
+ */
+export async function cancelTransactionWithRefunds(
+  transactionId: number,
+  options: { reason: string; userId: string; manualRefund?: boolean }
+): Promise<CancelResult> {
+  const transaction = await prisma.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    include: { payments: { include: { refunds: true }, orderBy: { sequence: "asc" } } },
+  });
+
+  for (const payment of transaction.payments.filter(isRefundOutstanding)) {
+    const latest = getLatestRefund(payment);
+    const orderId = payment.orderId || transaction.invoiceNo;
+
+    if (latest?.status === "PENDING") {
+      await resyncPendingRefund(payment, orderId);
+
+      // Unless the check above just confirmed it
+      if (options.manualRefund && isStaleRefund(latest)) {
+        await prisma.paymentRefund.updateMany({
+          where: { id: latest.id, status: "PENDING" },
+          data: {
+            status: "MANUAL",
+            resolvedBy: options.userId,
+            resolvedAt: new Date(),
+          },
+        });
+      }
+      continue;
+    }
+
+    if (latest?.status === "FAILED" && options.manualRefund) {
+      await prisma.paymentRefund.update({
+        where: { id: latest.id },
+        data: {
+          status: "MANUAL",
+          resolvedBy: options.userId,
+          resolvedAt: new Date(),
+        },
+      });
+      continue;
+    }
+
+    await requestRefund(payment, orderId, options.reason, options.userId);
+  }
+
+  const hasRefunds = await prisma.paymentRefund.count({
+    where: { payment: { transactionId } },
+  });
+
+  await prisma.$transaction(async (tx) => {
+    if (hasRefunds > 0) {
+      await finishRefundedCancellation(tx, transactionId);
+    } else {
+      await cancelSale(tx, transactionId, {
+        reason: options.reason,
+        canceledBy: options.userId,
+      });
+    }
+  });
+
+  const updated = await prisma.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    include: { payments: { include: { refunds: true }, orderBy: { sequence: "asc" } } },
+  });
+  const refunds = updated.payments.flatMap((p) => p.refunds);
+
+  if (updated.status === "CANCELED") {
+    await voidPendingPayments(updated.payments, updated.invoiceNo);
+    return { outcome: "CANCELED", refunds };
+  }
+
+  const outstanding = updated.payments.filter(isRefundOutstanding).map(getLatestRefund);
+
+  if (outstanding.some((refund) => refund?.status === "FAILED")) {
+    return { outcome: "REFUND_FAILED", refunds };
+  }
+  if (outstanding.some((refund) => refund?.status === "PENDING" && isStaleRefund(refund))) {
+    return { outcome: "REFUND_STALE", refunds };
+  }
+  return { outcome: "REFUND_PENDING", refunds };
+}
+
+/**
+ * Cancel split sales where a gateway tender failed or expired after another one was paid
+ * The paid tenders are refunded first, as in a manual cancellation. Nobody asked for it,
+ * so the sale's cashier is recorded; a later run continues refunds that are still pending.
+ * @returns IDs of the sales handled, canceled or waiting on their refunds
+ */
+export async function cancelPartlyPaidTransactions(): Promise<number[]> {
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      status: "PENDING",
+      AND: [
+        {
+          payments: {
+            some: {
+              paymentType: "MIDTRANS",
+              paymentStatus: { in: SETTLED_STATUSES },
+              OR: [{ fraudStatus: null }, { fraudStatus: { not: "challenge" } }],
+            },
+          },
+        },
+        { payments: { some: { paymentType: "MIDTRANS", paymentStatus: { in: UNPAID_STATUSES } } } },
+      ],
+    },
+    select: { id: true, cashierId: true },
+    orderBy: { id: "asc" },
+  });
+  const handled: number[] = [];
+
+  for (const transaction of transactions) {
+    try {
+      await cancelTransactionWithRefunds(transaction.id, {
+        reason: "Pembayaran split tidak lengkap, pembayaran yang sudah masuk dikembalikan",
+        userId: transaction.cashierId,
+      });
+      handled.push(transaction.id);
+    } catch (error) {
+      console.error(`Could not cancel partly paid transaction ${transaction.id}:`, error);
+    }
+  }
+
+  return handled;
+}
@@ -0,0 +1,120 @@
+import type { PaymentWebhookEvent, Prisma } from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import { getPaymentGateway } from "./payment-gateway";
+import { findPaymentByOrderId, recordGatewayStatus } from "./payments";
+import { ApiError } from "./utils/error";
+
+/**
+ * Payment webhook event store
+ * Every inbound notification is saved as a PaymentWebhookEvent before anything else,
+ * with its signature check and, once processed, the outcome. Processing goes through
+ * recordGatewayStatus, so duplicates and backwards statuses leave the payment alone and
+ * the same event can safely be processed again.
+ */
+
+// Events an admin can run again: errors, and orders whose payment may exist by now
+export const REPLAYABLE_EVENT_STATUSES = ["RECEIVED", "FAILED", "UNMATCHED"] as const;
+
+/**
+ * Store a notification and check its signature
+ */
+export async function storeWebhookEvent(payload: any): Promise<PaymentWebhookEvent> {
+  const gateway = getPaymentGateway();
+  const signatureValid = gateway.verifyNotification(payload);
+
+  return prisma.paymentWebhookEvent.create({
+    data: {
+      provider: gateway.name,
+      orderId: typeof payload?.order_id === "string" ? payload.order_id : null,
+      transactionStatus:
+        typeof payload?.transaction_status === "string" ? payload.transaction_status : null,
+      statusCode: typeof payload?.status_code === "string" ? payload.status_code : null,
+      signatureValid,
+      status: signatureValid ? "RECEIVED" : "INVALID_SIGNATURE",
+      message: signatureValid ? null : "Signature tidak valid",
+      payload: (payload ?? {}) as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Apply a stored event to its payment line and record the outcome on the event
+ * Processing errors are stored as FAILED rather than thrown.
+ */
+export async function processWebhookEvent(eventId: number): Promise<PaymentWebhookEvent> {
+  const event = await prisma.paymentWebhookEvent.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!event) {
+    throw new ApiError(404, "Event webhook tidak ditemukan");
+  }
+
+  if (!event.signatureValid) {
+    throw new ApiError(400, "Event dengan signature tidak valid tidak dapat diproses");
+  }
+
+  let result: Pick<PaymentWebhookEvent, "status" | "message" | "paymentId">;
+
+  try {
+    const payment = event.orderId ? await findPaymentByOrderId(event.orderId) : null;
+
+    if (!payment) {
+      result = {
+        status: "UNMATCHED",
+        message: `Tidak ada pembayaran untuk order ${event.orderId ?? "-"}`,
+        paymentId: null,
+      };
+    } else {
+      const { outcome, previousStatus } = await recordGatewayStatus(
+        payment.id,
+        event.payload as any
+      );
+      const transition = `${previousStatus} → ${event.transactionStatus}`;
+
+      result = {
+        status: outcome === "APPLIED" ? "PROCESSED" : outcome,
+        message:
+          outcome === "APPLIED"
+            ? transition
+            : outcome === "DUPLICATE"
+              ? `Status ${previousStatus} sudah tercatat`
+              : `Transisi mundur ${transition} diabaikan`,
+        paymentId: payment.id,
+      };
+    }
+  } catch (error: any) {
+    console.error(`Error processing webhook event ${eventId}:`, error);
+    result = { status: "FAILED", message: error.message, paymentId: null };
+  }
+
+  return prisma.paymentWebhookEvent.update({
+    where: { id: eventId },
+    data: {
+      ...result,
+      paymentId: result.paymentId ?? event.paymentId,
+      attempts: { increment: 1 },
+      processedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Run a failed or unmatched event again
+ */
+export async function replayWebhookEvent(eventId: number): Promise<PaymentWebhookEvent> {
+  const event = await prisma.paymentWebhookEvent.findUnique({
+    where: { id: eventId },
+    select: { status: true },
+  });
+
+  if (!event) {
+    throw new ApiError(404, "Event webhook tidak ditemukan");
+  }
+
+  if (!(REPLAYABLE_EVENT_STATUSES as readonly string[]).includes(event.status)) {
+    throw new ApiError(400, `Event berstatus ${event.status} tidak dapat diproses ulang`);
+  }
+
+  return processWebhookEvent(eventId);
+}
@@ -0,0 +1,647 @@
+import type { Prisma, Transaction } from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import { mapMidtransStatus } from "./midtrans";
+import { restoreVoucherRedemptions } from "./vouchers";
+import { earnLoyaltyPoints, reverseLoyaltyPoints } from "./customers";
+import { consumeReservedStock, releaseReservedStock } from "./stock";
+import { calculateMdrFee, type PaymentMethodConfig } from "./payment-methods";
+import { ApiError } from "./utils/error";
+
+/**
+ * Payment (tender) helpers
+ * A transaction can be paid with several tenders, e.g. part cash and the rest by QRIS.
+ * The transaction completes only when the settled tenders cover its total amount.
+ */
+
+export const TENDER_METHODS = [
+  "CASH",
+  "MIDTRANS_QRIS",
+  "MIDTRANS_EWALLET",
+  "MIDTRANS_BANK_TRANSFER",
+  "MIDTRANS_ALL",
+] as const;
+
+export type TenderMethod = (typeof TENDER_METHODS)[number];
+
+export interface TenderInput {
+  method: TenderMethod;
+  amount: number;
+}
+
+// Midtrans statuses that mean the money has been received
+export const SETTLED_STATUSES = ["settlement", "capture"];
+
+// Gateway statuses that end a payment unpaid (a deny may still be captured or settled)
+export const UNPAID_STATUSES = ["cancel", "expire"];
+
+// Gateway statuses of a payment that was (partly) returned to the customer
+export const REFUND_STATUSES = ["refund", "partial_refund"];
+
+/**
+ * Check if a payment line has been settled
+ * Card payments flagged as fraud "challenge" are not settled until reviewed.
+ */
+export function isPaymentSettled(payment: {
+  paymentStatus: string;
+  fraudStatus?: string | null;
+}): boolean {
+  return (
+    SETTLED_STATUSES.includes(payment.paymentStatus) &&
+    payment.fraudStatus !== "challenge"
+  );
+}
+
+/**
+ * Check if a sale has a settled gateway tender, i.e. money to refund if it is canceled
+ */
+function hasSettledGatewayTender(
+  payments: { paymentType: string; paymentStatus: string; fraudStatus?: string | null }[]
+): boolean {
+  return payments.some((p) => p.paymentType !== "CASH" && isPaymentSettled(p));
+}
+
+/**
+ * Validate tender lines from a request body
+ * Falls back to a single tender of `defaultMethod` for the whole amount when none are given.
+ * Methods switched off in the payment method catalog are rejected.
+ */
+export function parseTenders(
+  input: unknown,
+  totalAmount: number,
+  defaultMethod: TenderMethod,
+  methods: PaymentMethodConfig[]
+): { tenders: TenderInput[] } | { error: string } {
+  const isEnabled = (method: TenderMethod) =>
+    methods.some((m) => m.code === method && m.isEnabled);
+
+  if (input === undefined || input === null) {
+    if (!isEnabled(defaultMethod)) {
+      return { error: `Payment method is disabled: ${defaultMethod}` };
+    }
+    return { tenders: [{ method: defaultMethod, amount: totalAmount }] };
+  }
+
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: "Payments must be a non-empty array" };
+  }
+
+  const tenders: TenderInput[] = [];
+  for (const line of input) {
+    if (!TENDER_METHODS.includes(line?.method)) {
+      return { error: `Unsupported payment method: ${line?.method}` };
+    }
+    if (!isEnabled(line.method)) {
+      return { error: `Payment method is disabled: ${line.method}` };
+    }
+    if (!Number.isInteger(line.amount) || line.amount <= 0) {
+      return { error: "Payment amount must be a positive integer" };
+    }
+    tenders.push({ method: line.method, amount: line.amount });
+  }
+
+  const tenderTotal = tenders.reduce((sum, t) => sum + t.amount, 0);
+  if (tenderTotal !== totalAmount) {
+    return {
+      error: `Payment total (${tenderTotal}) does not match transaction total (${totalAmount})`,
+    };
+  }
+
+  return { tenders };
+}
+
+/**
+ * Transaction-level payment type for a set of tenders
+ */
+export function getTransactionPaymentType(tenders: TenderInput[]): string {
+  return tenders.length === 1 ? tenders[0].method : "SPLIT";
+}
+
+/**
+ * Build Payment rows for tender lines
+ * Cash tenders are settled immediately, gateway tenders start pending with their own order ID.
+ * Each row records the method's fee (MDR) from the catalog and the net amount.
+ */
+export function buildPaymentRecords(
+  transactionId: number,
+  invoiceNo: string,
+  tenders: TenderInput[],
+  methods: PaymentMethodConfig[]
+): Prisma.PaymentCreateManyInput[] {
+  const now = new Date();
+
+  return tenders.map((tender, index) => {
+    const sequence = index + 1;
+    const method = methods.find((m) => m.code === tender.method);
+    const feeAmount = method ? calculateMdrFee(tender.amount, method) : 0;
+    const fee = {
+      tenderMethod: tender.method,
+      feeAmount,
+      netAmount: tender.amount - feeAmount,
+    };
+
+    if (tender.method === "CASH") {
+      return {
+        transactionId,
+        sequence,
+        amount: tender.amount,
+        ...fee,
+        paymentType: "CASH",
+        paymentMethod: "cash",
+        paymentStatus: "settlement",
+        transactionTime: now,
+        paidAt: now,
+      };
+    }
+
+    return {
+      transactionId,
+      sequence,
+      // Single-tender sales keep the invoice number as the gateway order ID
+      orderId: tenders.length === 1 ? invoiceNo : `${invoiceNo}-${sequence}`,
+      amount: tender.amount,
+      ...fee,
+      paymentType: "MIDTRANS",
+      paymentMethod: tender.method.toLowerCase().replace("midtrans_", ""),
+      paymentStatus: "pending",
+    };
+  });
+}
+
+/**
+ * Recalculate transaction status from its payment lines
+ * - settled tenders cover the total -> COMPLETED / PAID (member earns points, reserved
+ *   stock is taken)
+ * - a gateway tender failed or expired -> CANCELED (voucher uses, points and reserved
+ *   stock are given back); a completed sale whose capture was voided is canceled with
+ *   cancelSale, which puts its sold stock back. A split sale with another tender already
+ *   settled stays pending until cancelPartlyPaidTransactions refunds that tender
+ * - otherwise the transaction stays pending, also after a deny: the gateway may still
+ *   capture or settle it, so the sale waits for that or for its reservation to run out
+ */
+export async function syncTransactionPaymentStatus(
+  tx: Prisma.TransactionClient,
+  transactionId: number
+) {
+  const transaction = await tx.transaction.findUnique({
+    where: { id: transactionId },
+    include: { payments: true },
+  });
+
+  if (!transaction || transaction.status === "CANCELED") {
+    return transaction;
+  }
+
+  const settledAmount = transaction.payments
+    .filter(isPaymentSettled)
+    .reduce((sum, p) => sum + p.amount, 0);
+
+  const gatewayStatuses = transaction.payments
+    .filter((p) => p.paymentType !== "CASH" && p.paymentStatus !== "deny")
+    .map((p) => mapMidtransStatus(p.paymentStatus));
+
+  if (settledAmount >= transaction.totalAmount) {
+    await earnLoyaltyPoints(tx, transaction);
+    await consumeReservedStock(tx, transactionId);
+
+    return tx.transaction.update({
+      where: { id: transactionId },
+      data: {
+        status: "COMPLETED",
+        paymentStatus: "PAID",
+        paidAt: transaction.paidAt ?? new Date(),
+      },
+    });
+  }
+
+  const failedStatus = gatewayStatuses.find((s) => s === "FAILED" || s === "EXPIRED");
+  if (failedStatus && transaction.status === "COMPLETED") {
+    // Card captured, then voided at the gateway: the stock was already taken, so the sale
+    // is canceled like a manual one. The log needs a user; the sale's cashier is recorded.
+    await cancelSale(tx, transactionId, {
+      reason: "Pembayaran dibatalkan di payment gateway setelah capture",
+      canceledBy: transaction.cashierId,
+    });
+
+    return tx.transaction.update({
+      where: { id: transactionId },
+      data: { paymentStatus: failedStatus },
+    });
+  }
+  // The gateway refund can't run inside this database transaction
+  if (failedStatus && !hasSettledGatewayTender(transaction.payments)) {
+    return cancelUnpaidTransaction(tx, transactionId, failedStatus);
+  }
+
+  return tx.transaction.update({
+    where: { id: transactionId },
+    data: { paymentStatus: "PENDING" },
+  });
+}
+
+/**
+ * Cancel a sale whose payment will not come in
+ * The sale never completed, so its voucher, points and reserved stock can be used again.
+ * Pending sales from before stock reservations took their stock at checkout; it goes back.
+ */
+async function cancelUnpaidTransaction(
+  tx: Prisma.TransactionClient,
+  transactionId: number,
+  paymentStatus: "FAILED" | "EXPIRED"
+) {
+  await restoreVoucherRedemptions(tx, transactionId);
+  await reverseLoyaltyPoints(tx, transactionId);
+  await putBackSaleStock(tx, transactionId);
+
+  return tx.transaction.update({
+    where: { id: transactionId },
+    data: {
+      status: "CANCELED",
+      paymentStatus,
+    },
+  });
+}
+
+/**
+ * Give back the stock a canceled sale held: reserved units are released, and units it
+ * took (a settled payment consumed the reservations, or a sale from before reservations
+ * took them at checkout) go back to stock.
+ */
+async function putBackSaleStock(tx: Prisma.TransactionClient, transactionId: number) {
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    include: {
+      items: { include: { product: { include: { stock: true } } } },
+      stockReservations: { select: { status: true } },
+    },
+  });
+
+  // A sale with reservations only took its stock if the payment settled
+  const stockTaken =
+    transaction.stockReservations.length === 0 ||
+    transaction.stockReservations.some((r) => r.status === "CONSUMED");
+
+  await releaseReservedStock(tx, transactionId);
+
+  for (const item of transaction.items) {
+    if (stockTaken && item.product.stock) {
+      await tx.stock.update({
+        where: { productId: item.productId },
+        data: { quantity: { increment: item.quantity } },
+      });
+    }
+  }
+}
+
+/**
+ * Lock a sale row until the caller's database transaction ends
+ * Cancellations and returns take it first, so each one sees what the other wrote.
+ */
+export async function lockTransaction(tx: Prisma.TransactionClient, transactionId: number) {
+  await tx.$queryRaw`SELECT "id" FROM "Transaction" WHERE "id" = ${transactionId} FOR UPDATE`;
+}
+
+/**
+ * Refuse to cancel a sale with returned lines: they were already refunded and restocked
+ */
+export async function assertNoReturns(tx: Prisma.TransactionClient, transactionId: number) {
+  const returned = await tx.transactionItem.count({
+    where: { transactionId, returnedQuantity: { gt: 0 } },
+  });
+
+  if (returned > 0) {
+    throw new ApiError(400, "Transaksi sudah memiliki retur, gunakan retur untuk item lainnya");
+  }
+}
+
+/**
+ * Cancel a sale on request: put the stock back (or release the units held for an unpaid
+ * online payment), give back any redeemed voucher, reverse loyalty points and log the reason
+ * Paid online tenders must have been refunded first (see payment-refunds.ts).
+ */
+export async function cancelSale(
+  tx: Prisma.TransactionClient,
+  transactionId: number,
+  { reason, canceledBy }: { reason: string; canceledBy: string }
+) {
+  const now = new Date();
+
+  // Checked under the lock, so a concurrent return can't refund the same goods
+  await lockTransaction(tx, transactionId);
+  await assertNoReturns(tx, transactionId);
+
+  // Only one request can win; a concurrent cancel or webhook sees the count drop to 0
+  const updated = await tx.transaction.updateMany({
+    where: { id: transactionId, status: { not: "CANCELED" } },
+    data: { status: "CANCELED", canceledAt: now, canceledBy },
+  });
+
+  if (updated.count === 0) {
+    throw new ApiError(400, "Transaksi sudah dibatalkan sebelumnya");
+  }
+
+  await putBackSaleStock(tx, transactionId);
+
+  await restoreVoucherRedemptions(tx, transactionId);
+  await reverseLoyaltyPoints(tx, transactionId);
+
+  await tx.transactionCancelLog.create({
+    data: { transactionId, reason, canceledBy, canceledAt: now },
+  });
+}
+
+/**
+ * Check if a gateway payment still has to be returned before its sale can be canceled
+ * Settled (or already refund-requested) payments need a refund that succeeded or was
+ * marked for manual handling.
+ */
+export function isRefundOutstanding(payment: {
+  paymentType: string;
+  paymentStatus: string;
+  fraudStatus?: string | null;
+  refunds: { status: string }[];
+}): boolean {
+  if (payment.paymentType === "CASH") return false;
+  if (!isPaymentSettled(payment) && payment.refunds.length === 0) return false;
+
+  return !payment.refunds.some((r) => r.status === "SUCCEEDED" || r.status === "MANUAL");
+}
+
+/**
+ * Finish a cancellation that was waiting on refunds, once none is outstanding
+ * The reason and user come from the latest refund request.
+ * @returns true if the sale was canceled now
+ */
+export async function finishRefundedCancellation(
+  tx: Prisma.TransactionClient,
+  transactionId: number
+): Promise<boolean> {
+  const transaction = await tx.transaction.findUnique({
+    where: { id: transactionId },
+    include: { payments: { include: { refunds: true } } },
+  });
+
+  if (!transaction || transaction.status === "CANCELED") {
+    return false;
+  }
+
+  const refunds = transaction.payments.flatMap((p) => p.refunds);
+  if (refunds.length === 0 || transaction.payments.some(isRefundOutstanding)) {
+    return false;
+  }
+
+  const latest = refunds.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+  await cancelSale(tx, transactionId, {
+    reason: latest.reason,
+    canceledBy: latest.requestedBy,
+  });
+
+  return true;
+}
+
+/**
+ * Mark the refund requests a gateway refund status confirms as succeeded
+ * A full refund covers every open request of the payment, a partial one those it lists.
+ * Failed requests are included: a timed-out request may still have gone through.
+ */
+async function applyRefundStatus(
+  tx: Prisma.TransactionClient,
+  paymentId: number,
+  status: GatewayStatus
+) {
+  const refundKeys = [status.refund_key, ...(status.refunds || []).map((r) => r.refund_key)]
+    .filter((key): key is string => !!key);
+
+  await tx.paymentRefund.updateMany({
+    where: {
+      paymentId,
+      status: { in: ["PENDING", "FAILED"] },
+      ...(status.transaction_status !== "refund" && { refundKey: { in: refundKeys } }),
+    },
+    data: {
+      status: "SUCCEEDED",
+      statusMessage: status.status_message,
+      rawResponse: status as Prisma.InputJsonValue,
+      resolvedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Cancel pending sales whose stock reservation ran out (abandoned payments)
+ * Their gateway payments expire RESERVATION_GRACE_MINUTES earlier, so none can still be
+ * paid. Releasing the reservation first means a sale settled at the same moment (which
+ * consumes it) is left alone. Split sales with a settled tender are left to
+ * cancelPartlyPaidTransactions, which refunds it.
+ * @returns IDs of the canceled transactions
+ */
+export async function releaseExpiredReservations(): Promise<number[]> {
+  const expired = await prisma.stockReservation.findMany({
+    where: { status: "ACTIVE", expiresAt: { lte: new Date() } },
+    distinct: ["transactionId"],
+    select: { transactionId: true },
+  });
+  const canceled: number[] = [];
+
+  for (const { transactionId } of expired) {
+    await prisma.$transaction(async (tx) => {
+      const released = await releaseReservedStock(tx, transactionId);
+      const transaction = await tx.transaction.findUnique({
+        where: { id: transactionId },
+        select: {
+          status: true,
+          payments: { select: { paymentType: true, paymentStatus: true, fraudStatus: true } },
+        },
+      });
+
+      if (
+        released > 0 &&
+        transaction?.status === "PENDING" &&
+        !hasSettledGatewayTender(transaction.payments)
+      ) {
+        await cancelUnpaidTransaction(tx, transactionId, "EXPIRED");
+        canceled.push(transactionId);
+      }
+    });
+  }
+
+  return canceled;
+}
+
+/**
+ * Find the payment line for a gateway order ID
+ * Older single-tender payments have no order ID and are matched by invoice number.
+ */
+export async function findPaymentByOrderId(orderId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { orderId },
+  });
+
+  if (payment) {
+    return payment;
+  }
+
+  const transaction = await prisma.transaction.findFirst({
+    where: { invoiceNo: orderId },
+    include: {
+      payments: {
+        where: { paymentType: "MIDTRANS" },
+        orderBy: { sequence: "asc" },
+      },
+    },
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  if (transaction.payments.length > 0) {
+    return transaction.payments[0];
+  }
+
+  // Notification for a sale that never got a payment row (method and fee unknown)
+  return prisma.payment.create({
+    data: {
+      transactionId: transaction.id,
+      orderId,
+      amount: transaction.totalAmount,
+      netAmount: transaction.totalAmount,
+      paymentType: "MIDTRANS",
+      paymentStatus: "pending",
+    },
+  });
+}
+
+/** Gateway status fields, from a notification or the status API (stored as rawResponse) */
+export type GatewayStatus = {
+  transaction_status: string;
+  fraud_status?: string;
+  payment_type?: string;
+  transaction_time?: string;
+  transaction_id?: string;
+  status_code?: string;
+  status_message?: string;
+  // Refund responses and notifications
+  refund_key?: string;
+  refund_amount?: string;
+  refunds?: { refund_key?: string; refund_amount?: string | number; created_at?: string }[];
+};
+
+/**
+ * Gateway status changes a payment line accepts. Anything else would move it backwards
+ * (e.g. a late "pending" after "settlement") and is ignored. Snap lets the customer try
+ * again after a denied card, so a denied payment can still turn pending or paid.
+ */
+const GATEWAY_STATUS_TRANSITIONS: Record<string, string[]> = {
+  pending: ["authorize", "capture", "settlement", "deny", "cancel", "expire", "failure"],
+  authorize: ["capture", "settlement", "deny", "cancel", "expire"],
+  capture: ["settlement", "cancel", "refund", "partial_refund"],
+  settlement: ["refund", "partial_refund"],
+  partial_refund: ["partial_refund", "refund"],
+  deny: ["pending", "capture", "settlement", "cancel", "expire"],
+  refund: [],
+  cancel: [],
+  expire: [],
+  failure: [],
+};
+
+export type GatewayStatusOutcome = "APPLIED" | "DUPLICATE" | "OUT_OF_ORDER";
+
+export interface GatewayStatusResult {
+  outcome: GatewayStatusOutcome;
+  /** Payment line status before this one */
+  previousStatus: string;
+  transaction: Transaction | null;
+}
+
+/**
+ * Decide whether a gateway status may replace a payment line's current one
+ * Repeating the current status is a duplicate, except partial refunds (each is a new one)
+ * and a changed fraud verdict. Unknown current statuses accept anything.
+ */
+export function getGatewayTransition(
+  current: { paymentStatus: string; fraudStatus?: string | null },
+  status: GatewayStatus
+): GatewayStatusOutcome {
+  const next = status.transaction_status;
+
+  if (next === current.paymentStatus && next !== "partial_refund") {
+    const fraudChanged =
+      status.fraud_status !== undefined && status.fraud_status !== current.fraudStatus;
+    return fraudChanged ? "APPLIED" : "DUPLICATE";
+  }
+
+  const allowed = GATEWAY_STATUS_TRANSITIONS[current.paymentStatus];
+  return !allowed || allowed.includes(next) ? "APPLIED" : "OUT_OF_ORDER";
+}
+
+/**
+ * Store a gateway status (notification or status API response) on a payment line
+ * and recalculate the parent transaction.
+ * The line is locked first, so concurrent notifications apply one after another, and
+ * duplicate or backwards statuses (see getGatewayTransition) leave it untouched.
+ */
+export async function recordGatewayStatus(
+  paymentId: number,
+  status: GatewayStatus
+): Promise<GatewayStatusResult> {
+  return prisma.$transaction(async (tx) => {
+    const [current] = await tx.$queryRaw<
+      { paymentStatus: string; fraudStatus: string | null; transactionId: number }[]
+    >`
+      SELECT "paymentStatus", "fraudStatus", "transactionId"
+      FROM "Payment"
+      WHERE "id" = ${paymentId}
+      FOR UPDATE
+    `;
+
+    if (!current) {
+      throw new ApiError(404, `Payment ${paymentId} not found`);
+    }
+
+    const outcome = getGatewayTransition(current, status);
+    const previousStatus = current.paymentStatus;
+
+    if (outcome !== "APPLIED") {
+      const transaction = await tx.transaction.findUnique({
+        where: { id: current.transactionId },
+      });
+      return { outcome, previousStatus, transaction };
+    }
+
+    const payment = await tx.payment.update({
+      where: { id: paymentId },
+      data: {
+        paymentStatus: status.transaction_status,
+        fraudStatus: status.fraud_status,
+        ...(status.payment_type && { paymentMethod: status.payment_type }),
+        transactionTime: status.transaction_time
+          ? new Date(status.transaction_time)
+          : null,
+        midtransTransactionId: status.transaction_id,
+        statusCode: status.status_code,
+        statusMessage: status.status_message,
+        rawResponse: status as Prisma.InputJsonValue,
+      },
+    });
+
+    // Refunds don't change what was paid; they may finish a cancellation waiting on them
+    if (REFUND_STATUSES.includes(status.transaction_status)) {
+      await applyRefundStatus(tx, paymentId, status);
+      await finishRefundedCancellation(tx, payment.transactionId);
+      const transaction = await tx.transaction.findUnique({
+        where: { id: payment.transactionId },
+      });
+      return { outcome, previousStatus, transaction };
+    }
+
+    if (isPaymentSettled(payment) && !payment.paidAt) {
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: { paidAt: new Date() },
+      });
+    }
+
+    const transaction = await syncTransactionPaymentStatus(tx, payment.transactionId);
+    return { outcome, previousStatus, transaction };
+  });
+}
@@ -0,0 +1,310 @@
+/**
+ * Pricing rules shared by the cashier cart and the sale APIs
+ * The server recomputes every sale from Product.price with these functions, so the
+ * cart preview and the stored amounts always agree. Keep this module free of
+ * server-only imports - it is bundled into the cashier page.
+ *
+ * Order of application: manual item discount, item promotions, cart promotions,
+ * manual transaction discount or voucher, loyalty points, then service charge and
+ * tax (see promotions.ts for the stacking rules, loyalty.ts for points and tax.ts
+ * for tax).
+ */
+
+import {
+  applyCartPromotions,
+  applyLinePromotions,
+  type AppliedPromotion,
+  type PromotionRule,
+} from "./promotions";
+import { calculatePointsRedemption } from "./loyalty";
+import { calculateTaxes, type TaxRule } from "./tax";
+
+export type DiscountType = "PERCENTAGE" | "NOMINAL";
+
+export interface DiscountRule {
+  type: DiscountType | null;
+  value: number;
+  /** Transaction discounts only: no discount below this amount (vouchers) */
+  minPurchase?: number;
+}
+
+export interface PricedLine {
+  price: number;
+  quantity: number;
+  discountType: DiscountType | null;
+  discountValue: number;
+  /** Unit price after the item discount */
+  discountedPrice: number;
+  /** Item discount for the whole line (unit discount x quantity) */
+  discountAmount: number;
+  /** Automatic promotion discount for the whole line */
+  promotionDiscount: number;
+  promotionNames: string[];
+  subtotal: number;
+  /** Tax on the line's share of the sale (set by priceCart) */
+  taxAmount: number;
+}
+
+export interface CartTotals {
+  /** Sum of line subtotals (after item discounts and item promotions) */
+  subtotal: number;
+  totalItemDiscounts: number;
+  itemPromotionDiscount: number;
+  cartPromotionDiscount: number;
+  cartPromotionNames: string[];
+  transactionDiscountAmount: number;
+  /** Loyalty points spent and their rupiah discount */
+  pointsRedeemed: number;
+  pointsDiscount: number;
+  totalDiscount: number;
+  /** Added on top of the discounted amount */
+  serviceChargeAmount: number;
+  /** Added on top, or already in the prices when taxInclusive */
+  taxAmount: number;
+  taxInclusive: boolean;
+  finalTotal: number;
+}
+
+export interface SaleItemInput {
+  productId: number;
+  quantity: number;
+  discountType?: DiscountType | null;
+  discountValue?: number;
+}
+
+export interface CartItemInput extends SaleItemInput {
+  categoryId: number | null;
+  price: number;
+  taxExempt?: boolean;
+}
+
+export interface PricingContext {
+  promotions: PromotionRule[];
+  /** Moment the sale is priced at (time-window promotions) */
+  at: Date;
+  /** Store time zone of the promotion weekdays and windows (defaults to the store default) */
+  timeZone?: string;
+  /** Loyalty points the customer wants to spend (reduced if worth more than the total) */
+  redeemPoints?: number;
+  /** Store tax and service charge settings (none when omitted) */
+  tax?: TaxRule | null;
+}
+
+export type PricedCartLine = PricedLine & { productId: number };
+
+/**
+ * Validate a discount rule from a request body
+ * @returns Error message, or null when valid
+ */
+export function validateDiscountRule(rule: unknown): string | null {
+  if (rule === undefined || rule === null) {
+    return null;
+  }
+
+  const { type, value } = rule as { type?: unknown; value?: unknown };
+
+  if (type === null || type === undefined) {
+    return null;
+  }
+  if (type !== "PERCENTAGE" && type !== "NOMINAL") {
+    return `Unsupported discount type: ${type}`;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return "Discount value must be a non-negative number";
+  }
+  if (type === "PERCENTAGE" && value > 100) {
+    return "Percentage discount cannot exceed 100";
+  }
+
+  return null;
+}
+
+/**
+ * Discount per unit for an item discount rule (never more than the price)
+ */
+export function calculateUnitDiscount(price: number, rule?: DiscountRule | null): number {
+  if (!rule?.type || rule.value <= 0) {
+    return 0;
+  }
+
+  if (rule.type === "PERCENTAGE") {
+    return Math.min(Math.round((price * rule.value) / 100), price);
+  }
+  return Math.min(Math.round(rule.value), price);
+}
+
+/**
+ * Transaction-level discount on the subtotal (never more than the subtotal)
+ */
+export function calculateTransactionDiscount(subtotal: number, rule?: DiscountRule | null): number {
+  if (!rule?.type || rule.value <= 0 || subtotal < (rule.minPurchase || 0)) {
+    return 0;
+  }
+
+  if (rule.type === "PERCENTAGE") {
+    return Math.min(Math.round((subtotal * rule.value) / 100), subtotal);
+  }
+  return Math.min(Math.round(rule.value), subtotal);
+}
+
+/**
+ * Price one cart line from its unit price, quantity and item discount rule
+ */
+export function priceLine(price: number, quantity: number, rule?: DiscountRule | null): PricedLine {
+  const unitDiscount = calculateUnitDiscount(price, rule);
+  const discountedPrice = price - unitDiscount;
+
+  return {
+    price,
+    quantity,
+    discountType: unitDiscount > 0 && rule?.type ? rule.type : null,
+    discountValue: unitDiscount > 0 && rule ? rule.value : 0,
+    discountedPrice,
+    discountAmount: unitDiscount * quantity,
+    promotionDiscount: 0,
+    promotionNames: [],
+    subtotal: discountedPrice * quantity,
+    taxAmount: 0,
+  };
+}
+
+/**
+ * Totals for priced lines and an optional transaction discount
+ */
+export function calculateCartTotals(
+  lines: { subtotal: number; discountAmount?: number; promotionDiscount?: number }[],
+  transactionDiscount?: DiscountRule | null,
+  cartPromotion: AppliedPromotion = { discount: 0, names: [] }
+): CartTotals {
+  const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+  const totalItemDiscounts = lines.reduce((sum, line) => sum + (line.discountAmount || 0), 0);
+  const itemPromotionDiscount = lines.reduce((sum, line) => sum + (line.promotionDiscount || 0), 0);
+  const afterPromotions = subtotal - cartPromotion.discount;
+  const transactionDiscountAmount = calculateTransactionDiscount(afterPromotions, transactionDiscount);
+
+  return {
+    subtotal,
+    totalItemDiscounts,
+    itemPromotionDiscount,
+    cartPromotionDiscount: cartPromotion.discount,
+    cartPromotionNames: cartPromotion.names,
+    transactionDiscountAmount,
+    pointsRedeemed: 0,
+    pointsDiscount: 0,
+    totalDiscount:
+      totalItemDiscounts + itemPromotionDiscount + cartPromotion.discount + transactionDiscountAmount,
+    serviceChargeAmount: 0,
+    taxAmount: 0,
+    taxInclusive: false,
+    finalTotal: afterPromotions - transactionDiscountAmount,
+  };
+}
+
+/**
+ * Price a whole cart: item discounts, promotions, the transaction discount, points
+ * and tax. Inputs are assumed valid (see priceSale for request validation).
+ */
+export function priceCart(
+  items: CartItemInput[],
+  transactionDiscount?: DiscountRule | null,
+  context?: PricingContext
+): { lines: PricedCartLine[]; totals: CartTotals } {
+  const promotions = context?.promotions || [];
+  const at = context?.at || new Date();
+
+  const lines = items.map((item): PricedCartLine => {
+    const rule = item.discountType
+      ? { type: item.discountType, value: item.discountValue ?? 0 }
+      : null;
+    const line = priceLine(item.price, item.quantity, rule);
+
+    // A manual item discount replaces automatic promotions on that line
+    if (line.discountAmount > 0 || promotions.length === 0) {
+      return { productId: item.productId, ...line };
+    }
+
+    const promotion = applyLinePromotions(
+      { productId: item.productId, categoryId: item.categoryId, price: item.price, quantity: item.quantity },
+      promotions,
+      at,
+      context?.timeZone
+    );
+
+    return {
+      productId: item.productId,
+      ...line,
+      promotionDiscount: promotion.discount,
+      promotionNames: promotion.names,
+      subtotal: line.subtotal - promotion.discount,
+    };
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+  const cartPromotion = applyCartPromotions(subtotal, promotions, at, context?.timeZone);
+  const totals = calculateCartTotals(lines, transactionDiscount, cartPromotion);
+
+  // Loyalty points come off last
+  const redemption = calculatePointsRedemption(context?.redeemPoints || 0, totals.finalTotal);
+
+  // Service charge and tax on what is left to pay
+  const taxes = calculateTaxes(
+    lines.map((line, index) => ({ subtotal: line.subtotal, taxExempt: items[index].taxExempt })),
+    totals.finalTotal - redemption.discount,
+    context?.tax
+  );
+
+  return {
+    lines: lines.map((line, index) => ({ ...line, taxAmount: taxes.lineTaxes[index] })),
+    totals: {
+      ...totals,
+      pointsRedeemed: redemption.points,
+      pointsDiscount: redemption.discount,
+      totalDiscount: totals.totalDiscount + redemption.discount,
+      serviceChargeAmount: taxes.serviceChargeAmount,
+      taxAmount: taxes.taxAmount,
+      taxInclusive: !!context?.tax?.taxInclusive && taxes.taxAmount > 0,
+      finalTotal: taxes.total,
+    },
+  };
+}
+
+/**
+ * Price a sale request against current product prices and promotions
+ * Only the discount rules come from the client; prices and amounts are recomputed.
+ */
+export function priceSale(
+  items: SaleItemInput[],
+  catalog: Map<number, { price: number; categoryId: number | null; taxExempt?: boolean }>,
+  transactionDiscount?: DiscountRule | null,
+  context?: PricingContext
+): { lines: PricedCartLine[]; totals: CartTotals } | { error: string } {
+  const transactionDiscountError = validateDiscountRule(transactionDiscount);
+  if (transactionDiscountError) {
+    return { error: transactionDiscountError };
+  }
+
+  const cartItems: CartItemInput[] = [];
+
+  for (const item of items) {
+    const product = catalog.get(item.productId);
+    if (!product) {
+      return { error: `Product ${item.productId} not found` };
+    }
+
+    const ruleError = validateDiscountRule(
+      item.discountType ? { type: item.discountType, value: item.discountValue ?? 0 } : null
+    );
+    if (ruleError) {
+      return { error: ruleError };
+    }
+
+    cartItems.push({
+      ...item,
+      price: product.price,
+      categoryId: product.categoryId,
+      taxExempt: product.taxExempt,
+    });
+  }
+
+  return priceCart(cartItems, transactionDiscount, context);
+}
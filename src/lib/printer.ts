@@ -0,0 +1,256 @@
+import axiosInstance from "@/lib/axios";
+import type { PaperWidth } from "@/lib/escpos";
+
+/**
+ * Thermal printer connection for this terminal
+ * Settings live in localStorage (like the terminal ID) because each cashier PC has
+ * its own printer. ESC/POS bytes are sent one of three ways:
+ * - usb: WebUSB, straight to the printer's bulk OUT endpoint
+ * - serial: Web Serial, for printers on a (virtual) COM port
+ * - agent: HTTP POST of the raw bytes to a print agent running on the cashier PC
+ */
+
+export type PrinterConnection = "none" | "usb" | "serial" | "agent";
+
+export interface PrinterSettings {
+  connection: PrinterConnection;
+  paperWidth: PaperWidth;
+  code: "qr" | "barcode" | "none";
+  /** Open the cash drawer after printing a sale paid (partly) in cash */
+  openDrawer: boolean;
+  /** Endpoint of the local print agent */
+  agentUrl: string;
+  /** Remembered device, so the browser picker is only shown once */
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+const PRINTER_STORAGE_KEY = "pos-printer-settings";
+
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  connection: "none",
+  paperWidth: 80,
+  code: "qr",
+  openDrawer: true,
+  agentUrl: "http://localhost:9100/print",
+};
+
+// Minimal WebUSB / Web Serial shapes (not in the TypeScript DOM library yet)
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: "in" | "out";
+  type: "bulk" | "interrupt" | "isochronous";
+}
+
+interface UsbDevice {
+  vendorId: number;
+  productId: number;
+  opened: boolean;
+  configuration: {
+    interfaces: {
+      interfaceNumber: number;
+      alternate: { endpoints: UsbEndpoint[] };
+    }[];
+  } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+}
+
+interface DeviceNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+function deviceNavigator(): DeviceNavigator {
+  return navigator as unknown as DeviceNavigator;
+}
+
+/**
+ * Printer settings of this terminal
+ */
+export function getPrinterSettings(): PrinterSettings {
+  if (typeof window === "undefined") {
+    return DEFAULT_PRINTER_SETTINGS;
+  }
+
+  try {
+    const saved = window.localStorage.getItem(PRINTER_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PRINTER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PRINTER_SETTINGS;
+  } catch {
+    return DEFAULT_PRINTER_SETTINGS;
+  }
+}
+
+export function savePrinterSettings(settings: PrinterSettings): void {
+  window.localStorage.setItem(PRINTER_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Which connections this browser supports (WebUSB and Web Serial are Chromium-only)
+ */
+export function getSupportedConnections(): Record<PrinterConnection, boolean> {
+  const devices = typeof window === "undefined" ? {} : deviceNavigator();
+  return {
+    none: true,
+    usb: !!devices.usb,
+    serial: !!devices.serial,
+    agent: true,
+  };
+}
+
+/**
+ * Show the browser's device picker and remember the chosen printer
+ * Must be called from a user gesture (click).
+ */
+export async function pairPrinter(settings: PrinterSettings): Promise<PrinterSettings> {
+  const devices = deviceNavigator();
+
+  if (settings.connection === "usb" && devices.usb) {
+    const device = await devices.usb.requestDevice({ filters: [] });
+    return { ...settings, usbVendorId: device.vendorId, usbProductId: device.productId };
+  }
+
+  if (settings.connection === "serial" && devices.serial) {
+    const info = (await devices.serial.requestPort()).getInfo();
+    return { ...settings, usbVendorId: info.usbVendorId, usbProductId: info.usbProductId };
+  }
+
+  return settings;
+}
+
+function isRememberedDevice(
+  settings: PrinterSettings,
+  device: { usbVendorId?: number; usbProductId?: number }
+): boolean {
+  return (
+    settings.usbVendorId === undefined ||
+    (device.usbVendorId === settings.usbVendorId && device.usbProductId === settings.usbProductId)
+  );
+}
+
+async function sendOverUsb(bytes: Uint8Array, settings: PrinterSettings): Promise<void> {
+  const devices = await deviceNavigator().usb!.getDevices();
+  const device = devices.find((d) =>
+    isRememberedDevice(settings, { usbVendorId: d.vendorId, usbProductId: d.productId })
+  );
+
+  if (!device) {
+    throw new Error("Printer USB belum dipasangkan");
+  }
+
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+
+  // Printer class devices expose a single bulk OUT endpoint
+  const printerInterface = device.configuration!.interfaces.find((i) =>
+    i.alternate.endpoints.some((e) => e.direction === "out" && e.type === "bulk")
+  );
+  const endpoint = printerInterface?.alternate.endpoints.find(
+    (e) => e.direction === "out" && e.type === "bulk"
+  );
+
+  if (!printerInterface || !endpoint) {
+    throw new Error("Perangkat USB bukan printer");
+  }
+
+  await device.claimInterface(printerInterface.interfaceNumber);
+  try {
+    await device.transferOut(endpoint.endpointNumber, bytes);
+  } finally {
+    await device.releaseInterface(printerInterface.interfaceNumber);
+    await device.close();
+  }
+}
+
+async function sendOverSerial(bytes: Uint8Array, settings: PrinterSettings): Promise<void> {
+  const ports = await deviceNavigator().serial!.getPorts();
+  const port = ports.find((p) => isRememberedDevice(settings, p.getInfo()));
+
+  if (!port) {
+    throw new Error("Printer serial belum dipasangkan");
+  }
+
+  await port.open({ baudRate: 9600 });
+  try {
+    const writer = port.writable!.getWriter();
+    try {
+      await writer.write(bytes);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await port.close();
+  }
+}
+
+async function sendToAgent(bytes: Uint8Array, settings: PrinterSettings): Promise<void> {
+  const response = await fetch(settings.agentUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: bytes as BodyInit,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Print agent menolak (${response.status})`);
+  }
+}
+
+/**
+ * Send an ESC/POS byte stream to the configured printer
+ */
+export async function sendToPrinter(
+  bytes: Uint8Array,
+  settings: PrinterSettings = getPrinterSettings()
+): Promise<void> {
+  const supported = getSupportedConnections();
+
+  if (settings.connection === "none" || !supported[settings.connection]) {
+    throw new Error("Printer thermal belum diatur di terminal ini");
+  }
+
+  if (settings.connection === "usb") return sendOverUsb(bytes, settings);
+  if (settings.connection === "serial") return sendOverSerial(bytes, settings);
+  return sendToAgent(bytes, settings);
+}
+
+/**
+ * Fetch a saved transaction's receipt from the server and print it
+ * @param openDrawer Ask for a drawer kick (the server only adds it for cash sales)
+ */
+export async function printTransactionReceipt(
+  transactionId: number,
+  { openDrawer = false }: { openDrawer?: boolean } = {}
+): Promise<void> {
+  const settings = getPrinterSettings();
+
+  const response = await axiosInstance.get<ArrayBuffer>(
+    `/api/transactions/${transactionId}/receipt/escpos`,
+    {
+      params: {
+        width: settings.paperWidth,
+        code: settings.code,
+        drawer: openDrawer && settings.openDrawer ? 1 : 0,
+      },
+      responseType: "arraybuffer",
+    }
+  );
+
+  await sendToPrinter(new Uint8Array(response.data), settings);
+}
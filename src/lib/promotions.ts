@@ -0,0 +1,280 @@
+/**
+ * Automatic promotions engine
+ * Pure functions shared by the cashier cart and the sale APIs (see pricing.ts), so
+ * keep this module free of server-only imports.
+ *
+ * Stacking rules:
+ * - A line with a manual item discount from the cashier gets no item promotions.
+ * - Item promotions (BUY_X_GET_Y, BUNDLE_PRICE, CATEGORY_PERCENT) are evaluated per line.
+ *   Among non-stackable promotions the largest discount wins (ties: higher priority,
+ *   then the older promotion). Stackable promotions are added on top.
+ * - Cart promotions (MIN_SPEND) use the same rule against the subtotal after item promotions.
+ * - The manual transaction discount is applied last, on what is left.
+ * - A line or cart is never discounted below zero.
+ */
+
+import { DEFAULT_STORE_SETTINGS } from "./store";
+
+export type PromotionType = "BUY_X_GET_Y" | "BUNDLE_PRICE" | "CATEGORY_PERCENT" | "MIN_SPEND";
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  BUY_X_GET_Y: "Beli X Gratis Y",
+  BUNDLE_PRICE: "Harga Paket",
+  CATEGORY_PERCENT: "Diskon Kategori",
+  MIN_SPEND: "Minimal Belanja",
+};
+
+export interface PromotionRule {
+  id: number;
+  name: string;
+  type: PromotionType;
+  priority: number;
+  stackable: boolean;
+  /** Targets for item promotions: listed products and/or every product of a category */
+  productIds: number[];
+  categoryId: number | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  bundleQuantity: number | null;
+  bundlePrice: number | null;
+  minSpend: number | null;
+  /** CATEGORY_PERCENT uses a percentage; MIN_SPEND either type */
+  discountType: "PERCENTAGE" | "NOMINAL" | null;
+  discountValue: number | null;
+  startsAt: string | Date | null;
+  endsAt: string | Date | null;
+  /** Daily window in store time, "HH:mm" (end exclusive, may wrap past midnight) */
+  startTime: string | null;
+  endTime: string | null;
+  /** 0 = Sunday ... 6 = Saturday; empty means every day */
+  daysOfWeek: number[];
+}
+
+export interface PromotionLineInput {
+  productId: number;
+  categoryId: number | null;
+  price: number;
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  discount: number;
+  names: string[];
+}
+
+const NO_PROMOTION: AppliedPromotion = { discount: 0, names: [] };
+
+/**
+ * Day of week and minutes since midnight in the store time zone
+ */
+function getStoreClock(at: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+  return {
+    day: days.indexOf(get("weekday")),
+    minutes: parseInt(get("hour")) * 60 + parseInt(get("minute")),
+  };
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a promotion runs at the given moment (date range, weekdays and daily window)
+ * @param timeZone Store time zone the weekdays and daily window are in
+ */
+export function isPromotionActiveAt(
+  promotion: PromotionRule,
+  at: Date,
+  timeZone: string = DEFAULT_STORE_SETTINGS.timezone
+): boolean {
+  if (promotion.startsAt && at < new Date(promotion.startsAt)) return false;
+  if (promotion.endsAt && at > new Date(promotion.endsAt)) return false;
+
+  const clock = getStoreClock(at, timeZone);
+
+  if (promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(clock.day)) {
+    return false;
+  }
+
+  if (promotion.startTime && promotion.endTime) {
+    const start = parseTime(promotion.startTime);
+    const end = parseTime(promotion.endTime);
+    const inWindow =
+      start <= end
+        ? clock.minutes >= start && clock.minutes < end
+        : clock.minutes >= start || clock.minutes < end;
+    if (!inWindow) return false;
+  }
+
+  return true;
+}
+
+function targetsLine(promotion: PromotionRule, line: PromotionLineInput): boolean {
+  return (
+    promotion.productIds.includes(line.productId) ||
+    (promotion.categoryId !== null && promotion.categoryId === line.categoryId)
+  );
+}
+
+/**
+ * Discount one item promotion gives a line (0 when it does not apply)
+ */
+function lineDiscount(promotion: PromotionRule, line: PromotionLineInput): number {
+  if (!targetsLine(promotion, line)) return 0;
+
+  switch (promotion.type) {
+    case "BUY_X_GET_Y": {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy <= 0 || get <= 0) return 0;
+      const sets = Math.floor(line.quantity / (buy + get));
+      return sets * get * line.price;
+    }
+    case "BUNDLE_PRICE": {
+      const size = promotion.bundleQuantity || 0;
+      if (size <= 0 || promotion.bundlePrice === null) return 0;
+      const sets = Math.floor(line.quantity / size);
+      return Math.max(0, sets * (size * line.price - promotion.bundlePrice));
+    }
+    case "CATEGORY_PERCENT":
+      return Math.round((line.price * line.quantity * (promotion.discountValue || 0)) / 100);
+    default:
+      return 0;
+  }
+}
+
+function cartDiscount(promotion: PromotionRule, subtotal: number): number {
+  if (promotion.type !== "MIN_SPEND" || subtotal < (promotion.minSpend || 0)) return 0;
+
+  const value = promotion.discountValue || 0;
+  return promotion.discountType === "PERCENTAGE"
+    ? Math.round((subtotal * value) / 100)
+    : Math.round(value);
+}
+
+/**
+ * Pick the winning promotions from their individual discounts (see stacking rules above)
+ */
+function selectPromotions(
+  candidates: { promotion: PromotionRule; discount: number }[],
+  cap: number
+): AppliedPromotion {
+  const eligible = candidates
+    .filter((c) => c.discount > 0)
+    .sort(
+      (a, b) =>
+        b.discount - a.discount ||
+        b.promotion.priority - a.promotion.priority ||
+        a.promotion.id - b.promotion.id
+    );
+
+  const exclusive = eligible.find((c) => !c.promotion.stackable);
+  const applied = [
+    ...(exclusive ? [exclusive] : []),
+    ...eligible
+      .filter((c) => c.promotion.stackable)
+      .sort((a, b) => b.promotion.priority - a.promotion.priority || a.promotion.id - b.promotion.id),
+  ];
+
+  if (applied.length === 0) return NO_PROMOTION;
+
+  return {
+    discount: Math.min(
+      cap,
+      applied.reduce((sum, c) => sum + c.discount, 0)
+    ),
+    names: applied.map((c) => c.promotion.name),
+  };
+}
+
+/**
+ * Item promotions for one cart line, priced at its unit price before promotions
+ */
+export function applyLinePromotions(
+  line: PromotionLineInput,
+  promotions: PromotionRule[],
+  at: Date,
+  timeZone?: string
+): AppliedPromotion {
+  const candidates = promotions
+    .filter((p) => p.type !== "MIN_SPEND" && isPromotionActiveAt(p, at, timeZone))
+    .map((promotion) => ({ promotion, discount: lineDiscount(promotion, line) }));
+
+  return selectPromotions(candidates, line.price * line.quantity);
+}
+
+/**
+ * Cart promotions for a subtotal (after item promotions)
+ */
+export function applyCartPromotions(
+  subtotal: number,
+  promotions: PromotionRule[],
+  at: Date,
+  timeZone?: string
+): AppliedPromotion {
+  const candidates = promotions
+    .filter((p) => p.type === "MIN_SPEND" && isPromotionActiveAt(p, at, timeZone))
+    .map((promotion) => ({ promotion, discount: cartDiscount(promotion, subtotal) }));
+
+  return selectPromotions(candidates, subtotal);
+}
+
+/**
+ * Validate the type-specific fields of a promotion
+ * @returns Error message, or null when valid
+ */
+export function validatePromotionRule(
+  promotion: Omit<PromotionRule, "id" | "name" | "priority" | "stackable">
+): string | null {
+  const hasTarget = promotion.productIds.length > 0 || promotion.categoryId !== null;
+
+  switch (promotion.type) {
+    case "BUY_X_GET_Y":
+      if (!hasTarget) return "Pilih produk atau kategori promo";
+      if (!promotion.buyQuantity || !promotion.getQuantity) {
+        return "Jumlah beli dan gratis wajib diisi";
+      }
+      break;
+    case "BUNDLE_PRICE":
+      if (!hasTarget) return "Pilih produk atau kategori promo";
+      if (!promotion.bundleQuantity || promotion.bundleQuantity < 2) {
+        return "Isi paket minimal 2";
+      }
+      if (promotion.bundlePrice === null) return "Harga paket wajib diisi";
+      break;
+    case "CATEGORY_PERCENT":
+      if (promotion.categoryId === null) return "Pilih kategori promo";
+      if (!promotion.discountValue || promotion.discountValue > 100) {
+        return "Persentase diskon harus antara 1 dan 100";
+      }
+      break;
+    case "MIN_SPEND":
+      if (!promotion.minSpend) return "Minimal belanja wajib diisi";
+      if (!promotion.discountType || !promotion.discountValue) return "Diskon wajib diisi";
+      if (promotion.discountType === "PERCENTAGE" && promotion.discountValue > 100) {
+        return "Persentase diskon tidak boleh lebih dari 100";
+      }
+      break;
+  }
+
+  if ((promotion.startTime === null) !== (promotion.endTime === null)) {
+    return "Jam mulai dan jam selesai harus diisi bersamaan";
+  }
+  if (promotion.startsAt && promotion.endsAt && new Date(promotion.startsAt) > new Date(promotion.endsAt)) {
+    return "Tanggal selesai harus setelah tanggal mulai";
+  }
+
+  return null;
+}
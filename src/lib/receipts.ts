@@ -0,0 +1,234 @@
+import { randomBytes } from "crypto";
+import type { Prisma } from "@/generated/prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatPrintAmount, type PrintableLine, type PrintableReceipt } from "@/lib/escpos";
+import { getDigitalReceiptUrl, type ReceiptState } from "@/lib/digital-receipt";
+import { formatStoreDateTime, toReceiptLines, type StoreSettings } from "@/lib/store";
+import { getStoreSettings } from "@/lib/store-settings";
+
+/**
+ * Receipts for saved transactions
+ * Builds the printer-independent receipt (see escpos.ts) from what was stored at checkout,
+ * so a reprint or the digital receipt shows the same amounts as the original.
+ */
+
+const RECEIPT_BANNERS: Record<ReceiptState, string | null> = {
+  PAID: null,
+  PENDING: "*** MENUNGGU PEMBAYARAN ***",
+  CANCELED: "*** TRANSAKSI DIBATALKAN ***",
+  REFUNDED: "*** SELURUH ITEM DIRETUR ***",
+  PARTIALLY_REFUNDED: "*** SEBAGIAN DIRETUR ***",
+};
+
+const receiptInclude = {
+  items: { orderBy: { id: "asc" } },
+  payments: { orderBy: { sequence: "asc" } },
+  cashier: { select: { name: true, username: true } },
+  customer: { select: { name: true } },
+  returns: {
+    orderBy: { createdAt: "asc" },
+    include: { items: { select: { productName: true, quantity: true } } },
+  },
+} satisfies Prisma.TransactionInclude;
+
+type ReceiptTransaction = Prisma.TransactionGetPayload<{ include: typeof receiptInclude }>;
+
+export interface TransactionReceipt {
+  receipt: PrintableReceipt;
+  /** At least one tender was cash, so the drawer may be opened */
+  hasCashPayment: boolean;
+}
+
+/** Public receipt data (no internal IDs) for the digital receipt page */
+export interface DigitalReceipt {
+  receipt: PrintableReceipt;
+  state: ReceiptState;
+  canceledAt: string | null;
+  returns: {
+    returnNo: string;
+    date: string;
+    refundMethod: "CASH" | "STORE_CREDIT";
+    refundAmount: number;
+    items: { name: string; quantity: number }[];
+  }[];
+}
+
+/**
+ * New receipt token for a transaction (192 random bits, URL-safe)
+ */
+export function generateReceiptToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function getPaymentLabel(payment: { paymentType: string; paymentMethod: string | null }) {
+  if (payment.paymentType === "CASH") return "Tunai";
+  return payment.paymentMethod
+    ? payment.paymentMethod.replace(/_/g, " ").toUpperCase()
+    : "Midtrans";
+}
+
+function getReceiptState(transaction: ReceiptTransaction): ReceiptState {
+  if (transaction.status === "CANCELED") return "CANCELED";
+  if (transaction.status === "PENDING") return "PENDING";
+
+  const returnedUnits = transaction.items.reduce((sum, item) => sum + item.returnedQuantity, 0);
+  const soldUnits = transaction.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  if (returnedUnits === 0) return "PAID";
+  return returnedUnits >= soldUnits ? "REFUNDED" : "PARTIALLY_REFUNDED";
+}
+
+/**
+ * Receipt with the current store profile, header and footer (same as the cashier's HTML receipt)
+ */
+function buildPrintableReceipt(
+  transaction: ReceiptTransaction,
+  settings: StoreSettings
+): PrintableReceipt {
+  const adjustments: PrintableLine[] = [];
+
+  if (transaction.promotionDiscount > 0) {
+    adjustments.push({
+      label: `Promo (${transaction.promotionNames.join(", ")})`,
+      amount: -transaction.promotionDiscount,
+    });
+  }
+  if (transaction.discountAmount > 0) {
+    const value =
+      transaction.discountType === "PERCENTAGE"
+        ? ` (${transaction.discountValue}%)`
+        : "";
+    adjustments.push({
+      label: transaction.voucherCode
+        ? `Voucher ${transaction.voucherCode}${value}`
+        : `Diskon Transaksi${value}`,
+      amount: -transaction.discountAmount,
+    });
+  }
+  if (transaction.pointsDiscount > 0) {
+    adjustments.push({
+      label: `Tukar Poin (${transaction.pointsRedeemed})`,
+      amount: -transaction.pointsDiscount,
+    });
+  }
+  if (transaction.serviceChargeAmount > 0) {
+    adjustments.push({
+      label: `Service Charge (${transaction.serviceChargeRate}%)`,
+      amount: transaction.serviceChargeAmount,
+    });
+  }
+
+  const taxLabel = `${transaction.taxName || "Pajak"} ${transaction.taxRate}%`;
+  const notes: string[] = [];
+
+  if (transaction.taxAmount > 0) {
+    if (transaction.taxInclusive) {
+      notes.push(`Termasuk ${taxLabel}: ${formatPrintAmount(transaction.taxAmount, settings)}`);
+    } else {
+      adjustments.push({ label: taxLabel, amount: transaction.taxAmount });
+    }
+  }
+  if (transaction.pointsEarned > 0) {
+    notes.push(`Poin Didapat: +${transaction.pointsEarned}`);
+  }
+
+  return {
+    store: {
+      name: settings.storeName,
+      address: settings.address,
+      phone: settings.phone,
+      logo: settings.logo,
+    },
+    header: toReceiptLines(settings.receiptHeader),
+    banner: RECEIPT_BANNERS[getReceiptState(transaction)],
+    invoiceNo: transaction.invoiceNo,
+    date: formatStoreDateTime(transaction.offlineSoldAt || transaction.createdAt, settings.timezone),
+    cashierName: transaction.cashier.name || transaction.cashier.username,
+    memberName: transaction.customer?.name,
+    items: transaction.items.map((item) => {
+      const itemAdjustments: PrintableLine[] = [];
+
+      if (item.discountAmount > 0) {
+        itemAdjustments.push({ label: "Diskon", amount: -item.discountAmount });
+      }
+      if (item.promotionDiscount > 0) {
+        itemAdjustments.push({
+          label: item.promotionNames.join(", ") || "Promo",
+          amount: -item.promotionDiscount,
+        });
+      }
+
+      return {
+        name: item.productName,
+        quantity: item.quantity,
+        unitPrice: item.price,
+        adjustments: itemAdjustments,
+      };
+    }),
+    subtotal: transaction.items.reduce((sum, item) => sum + item.subtotal, 0),
+    adjustments,
+    total: transaction.totalAmount,
+    payments: transaction.payments.map((payment) => ({
+      label: getPaymentLabel(payment),
+      amount: payment.amount,
+    })),
+    notes,
+    footer: toReceiptLines(settings.receiptFooter),
+    currency: { locale: settings.locale, currency: settings.currency, decimals: settings.decimals },
+    qrContent: getDigitalReceiptUrl(transaction.receiptToken),
+  };
+}
+
+/**
+ * Load a transaction as a printable receipt
+ * @returns null when the transaction does not exist
+ */
+export async function getTransactionReceipt(
+  transactionId: number
+): Promise<TransactionReceipt | null> {
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: receiptInclude,
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  return {
+    receipt: buildPrintableReceipt(transaction, await getStoreSettings()),
+    hasCashPayment: transaction.payments.some((payment) => payment.paymentType === "CASH"),
+  };
+}
+
+/**
+ * Load the digital receipt behind a receipt token
+ * @returns null when no transaction has this token
+ */
+export async function getDigitalReceipt(token: string): Promise<DigitalReceipt | null> {
+  const transaction = await prisma.transaction.findUnique({
+    where: { receiptToken: token },
+    include: receiptInclude,
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  const settings = await getStoreSettings();
+
+  return {
+    receipt: buildPrintableReceipt(transaction, settings),
+    state: getReceiptState(transaction),
+    canceledAt: transaction.canceledAt
+      ? formatStoreDateTime(transaction.canceledAt, settings.timezone)
+      : null,
+    returns: transaction.returns.map((salesReturn) => ({
+      returnNo: salesReturn.returnNo,
+      date: formatStoreDateTime(salesReturn.createdAt, settings.timezone),
+      refundMethod: salesReturn.refundMethod,
+      refundAmount: salesReturn.refundAmount,
+      items: salesReturn.items.map((item) => ({ name: item.productName, quantity: item.quantity })),
+    })),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Refund amounts for returned goods
+ * Pure functions shared by the return dialog preview and the returns API, so keep
+ * this module free of server-only imports.
+ *
+ * A sale's paid total is spread over its lines in proportion to their subtotals, so
+ * cart promotions, the transaction discount and redeemed points lower every refund.
+ * Returning every unit of a line refunds exactly that line's share.
+ */
+
+export interface RefundableLine {
+  id: number;
+  quantity: number;
+  subtotal: number;
+}
+
+/**
+ * Share of the paid total carried by each line (shares add up to the total)
+ */
+export function allocateLineTotals(
+  lines: RefundableLine[],
+  totalAmount: number
+): Map<number, number> {
+  const shares = new Map<number, number>();
+  const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+
+  if (subtotal <= 0 || totalAmount <= 0) {
+    lines.forEach((line) => shares.set(line.id, 0));
+    return shares;
+  }
+
+  let allocated = 0;
+  for (const line of lines) {
+    const share = Math.floor((line.subtotal * totalAmount) / subtotal);
+    shares.set(line.id, share);
+    allocated += share;
+  }
+
+  // Hand the rounding remainder to the first lines, one rupiah each
+  let remainder = totalAmount - allocated;
+  for (const line of lines) {
+    if (remainder <= 0) break;
+    shares.set(line.id, (shares.get(line.id) || 0) + 1);
+    remainder -= 1;
+  }
+
+  return shares;
+}
+
+/**
+ * Refund for returning `quantity` more units of a line
+ * Computed on cumulative units, so partial returns of one line never add up to
+ * more (or less) than the line's share.
+ */
+export function calculateLineRefund(
+  lineTotal: number,
+  lineQuantity: number,
+  returnedQuantity: number,
+  quantity: number
+): number {
+  if (lineQuantity <= 0 || quantity <= 0) return 0;
+
+  const after = Math.min(returnedQuantity + quantity, lineQuantity);
+  return (
+    Math.floor((lineTotal * after) / lineQuantity) -
+    Math.floor((lineTotal * returnedQuantity) / lineQuantity)
+  );
+}
@@ -0,0 +1,178 @@
+import { ApiError } from "./utils/error";
+import { allocateLineTotals, calculateLineRefund } from "./refunds";
+import { calculatePointsEarned } from "./loyalty";
+import { lockTransaction } from "./payments";
+import type { Prisma, RefundMethod, Transaction, TransactionItem } from "@/generated/prisma/client";
+
+/**
+ * Sales returns
+ * A return takes back some units of a completed sale as its own document (returnNo).
+ * The refund is paid from the cashier's drawer or credited to the customer, and is
+ * counted as negative revenue. Canceling a sale stays for voiding it as a whole.
+ */
+
+export interface ReturnLineInput {
+  transactionItemId: number;
+  quantity: number;
+  /** true = back to stock, false = written off */
+  restock: boolean;
+}
+
+export interface CreateReturnInput {
+  returnNo: string;
+  transaction: Transaction & { items: TransactionItem[] };
+  lines: ReturnLineInput[];
+  reason: string;
+  refundMethod: RefundMethod;
+  shiftId: number | null;
+  userId: string;
+}
+
+/**
+ * Record a return inside the caller's database transaction
+ * Returned quantities are claimed with a conditional update, so two returns of the
+ * same line can't take back more units than were sold. The sale is locked and its status
+ * read again, so a return can't race a cancellation of the same sale.
+ */
+export async function createSalesReturn(tx: Prisma.TransactionClient, input: CreateReturnInput) {
+  const { transaction, lines } = input;
+
+  await lockTransaction(tx, transaction.id);
+  const { status } = await tx.transaction.findUniqueOrThrow({
+    where: { id: transaction.id },
+    select: { status: true },
+  });
+
+  if (status !== "COMPLETED") {
+    throw new ApiError(400, "Hanya transaksi selesai yang bisa diretur");
+  }
+
+  // Refunds are only asked for when a sale paid online is being canceled
+  const cancelRefunds = await tx.paymentRefund.count({
+    where: { payment: { transactionId: transaction.id } },
+  });
+  if (cancelRefunds > 0) {
+    throw new ApiError(400, "Transaksi sedang dibatalkan, retur tidak bisa dibuat");
+  }
+  if (input.refundMethod === "STORE_CREDIT" && !transaction.customerId) {
+    throw new ApiError(400, "Kredit toko hanya untuk transaksi member");
+  }
+
+  const lineTotals = allocateLineTotals(transaction.items, transaction.totalAmount);
+
+  const returnItems: Prisma.SalesReturnItemCreateManySalesReturnInput[] = [];
+
+  for (const line of lines) {
+    const item = transaction.items.find((i) => i.id === line.transactionItemId);
+    if (!item) {
+      throw new ApiError(400, `Item ${line.transactionItemId} bukan bagian dari transaksi ini`);
+    }
+
+    const claimed = await tx.transactionItem.updateMany({
+      where: { id: item.id, returnedQuantity: { lte: item.quantity - line.quantity } },
+      data: { returnedQuantity: { increment: line.quantity } },
+    });
+    if (claimed.count === 0) {
+      throw new ApiError(409, `Jumlah retur ${item.productName} melebihi sisa yang bisa diretur`);
+    }
+
+    // Units returned before this one, read after the claim so concurrent returns line up
+    const { returnedQuantity } = await tx.transactionItem.findUniqueOrThrow({
+      where: { id: item.id },
+      select: { returnedQuantity: true },
+    });
+
+    returnItems.push({
+      transactionItemId: item.id,
+      productId: item.productId,
+      productName: item.productName,
+      quantity: line.quantity,
+      refundAmount: calculateLineRefund(
+        lineTotals.get(item.id) || 0,
+        item.quantity,
+        returnedQuantity - line.quantity,
+        line.quantity
+      ),
+      restock: line.restock,
+    });
+
+    if (line.restock) {
+      await tx.stock.updateMany({
+        where: { productId: item.productId },
+        data: { quantity: { increment: line.quantity } },
+      });
+    }
+  }
+
+  const refundAmount = returnItems.reduce((sum, item) => sum + item.refundAmount, 0);
+
+  const salesReturn = await tx.salesReturn.create({
+    data: {
+      returnNo: input.returnNo,
+      transactionId: transaction.id,
+      reason: input.reason,
+      refundMethod: input.refundMethod,
+      refundAmount,
+      customerId: input.refundMethod === "STORE_CREDIT" ? transaction.customerId : null,
+      shiftId: input.shiftId,
+      createdBy: input.userId,
+      items: { createMany: { data: returnItems } },
+    },
+    include: { items: true },
+  });
+
+  if (input.refundMethod === "STORE_CREDIT" && transaction.customerId) {
+    await tx.customer.update({
+      where: { id: transaction.customerId },
+      data: { storeCredit: { increment: refundAmount } },
+    });
+  }
+
+  const pointsReversed = await reverseReturnedPoints(tx, transaction, salesReturn.id);
+
+  return { ...salesReturn, pointsReversed };
+}
+
+/**
+ * Take back the points earned on goods that were returned
+ * Points are recomputed on what the customer kept paying for, so several partial
+ * returns never take back more than the sale earned.
+ */
+async function reverseReturnedPoints(
+  tx: Prisma.TransactionClient,
+  transaction: Transaction,
+  returnId: number
+): Promise<number> {
+  if (!transaction.customerId || transaction.pointsEarned <= 0) return 0;
+
+  const refunded = await tx.salesReturn.aggregate({
+    where: { transactionId: transaction.id },
+    _sum: { refundAmount: true, pointsReversed: true },
+  });
+
+  const keptPoints = calculatePointsEarned(
+    transaction.totalAmount - (refunded._sum.refundAmount ?? 0)
+  );
+  const points = transaction.pointsEarned - keptPoints - (refunded._sum.pointsReversed ?? 0);
+  if (points <= 0) return 0;
+
+  await tx.loyaltyPointEntry.create({
+    data: {
+      customerId: transaction.customerId,
+      transactionId: transaction.id,
+      type: "RETURN",
+      points: -points,
+      description: "Barang diretur",
+    },
+  });
+  await tx.customer.update({
+    where: { id: transaction.customerId },
+    data: { pointsBalance: { decrement: points } },
+  });
+  await tx.salesReturn.update({
+    where: { id: returnId },
+    data: { pointsReversed: points },
+  });
+
+  return points;
+}
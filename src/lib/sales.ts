@@ -0,0 +1,260 @@
+import type { Customer, Prisma, Shift, Transaction } from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import {
+  priceSale,
+  type CartTotals,
+  type DiscountRule,
+  type PricedCartLine,
+  type SaleItemInput,
+} from "./pricing";
+import { getActivePromotions } from "./active-promotions";
+import { getTaxRule } from "./tax-settings";
+import { getStoreSettings } from "./store-settings";
+import { isTaxExempt, type TaxRule } from "./tax";
+import {
+  resolveTransactionDiscount,
+  redeemVoucher,
+  type VoucherWithCampaign,
+} from "./vouchers";
+import { resolveSaleCustomer, redeemLoyaltyPoints } from "./customers";
+import { buildPaymentRecords, type TenderInput } from "./payments";
+import type { PaymentMethodConfig } from "./payment-methods";
+import { generateInvoiceNumber } from "./invoice";
+import { generateReceiptToken } from "./receipts";
+
+/**
+ * Sale checkout shared by the cash, pending (gateway) and offline sale APIs
+ * The cart is priced on the server and the sale is written with its items and tenders
+ * in one place. Stock is left to the caller: cash sales take it at once, gateway sales
+ * reserve it until the payment settles.
+ */
+
+export type SaleProduct = Prisma.ProductGetPayload<{
+  include: { category: { select: { taxExempt: true } } };
+}>;
+
+export const saleProductInclude = {
+  category: { select: { taxExempt: true } },
+} satisfies Prisma.ProductInclude;
+
+/** A priced cart, ready to be saved */
+export interface SaleDraft {
+  products: SaleProduct[];
+  lines: PricedCartLine[];
+  totals: CartTotals;
+  taxRule: TaxRule;
+  discountRule: DiscountRule | null;
+  voucher: VoucherWithCampaign | null;
+  customer: Customer | null;
+}
+
+/** Why a checkout was refused, as the API reports it */
+export interface SaleRejection {
+  status: number;
+  error: string;
+  details?: string;
+  pricing?: CartTotals;
+}
+
+/**
+ * Price cart lines at current prices, promotions, tax and service charge
+ */
+export async function priceSaleItems(
+  items: SaleItemInput[],
+  products: SaleProduct[],
+  discountRule: DiscountRule | null | undefined,
+  options: { at: Date; redeemPoints?: number }
+): Promise<{ lines: PricedCartLine[]; totals: CartTotals; taxRule: TaxRule } | { error: string }> {
+  const taxRule = await getTaxRule();
+  const { timezone } = await getStoreSettings();
+
+  const priced = priceSale(
+    items,
+    new Map(products.map((p) => [p.id, { ...p, taxExempt: isTaxExempt(p) }])),
+    discountRule,
+    {
+      promotions: await getActivePromotions(),
+      at: options.at,
+      redeemPoints: options.redeemPoints,
+      tax: taxRule,
+      timeZone: timezone,
+    }
+  );
+
+  return "error" in priced ? priced : { ...priced, taxRule };
+}
+
+/**
+ * Check and price a cashier checkout
+ * Every product must be active, the customer and voucher must be usable, and the
+ * client total must match the server's price.
+ */
+export async function prepareCheckout(input: {
+  items: SaleItemInput[];
+  totalAmount: unknown;
+  discount: unknown;
+  customerId: unknown;
+  redeemPoints: unknown;
+}): Promise<SaleDraft | { rejection: SaleRejection }> {
+  const { items, totalAmount, customerId, redeemPoints } = input;
+
+  // Verify products exist (stock is checked when it is taken, inside the transaction)
+  const productIds = items.map((item) => item.productId);
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, isActive: true },
+    include: saleProductInclude,
+  });
+
+  if (products.length !== productIds.length) {
+    return { rejection: { status: 400, error: "Some products are not available" } };
+  }
+
+  // Member sale: the customer earns points and may spend some as a discount
+  const customerResult = await resolveSaleCustomer(customerId, redeemPoints);
+  if ("error" in customerResult) {
+    return {
+      rejection: { status: 400, error: "Invalid customer", details: customerResult.error },
+    };
+  }
+  const { customer } = customerResult;
+
+  // A voucher code replaces the manual transaction discount with its campaign rule
+  const pricedAt = new Date();
+  const transactionDiscount = await resolveTransactionDiscount(
+    input.discount as Parameters<typeof resolveTransactionDiscount>[0],
+    pricedAt
+  );
+  if ("error" in transactionDiscount) {
+    return {
+      rejection: { status: 400, error: "Invalid voucher", details: transactionDiscount.error },
+    };
+  }
+  const { rule: discountRule, voucher } = transactionDiscount;
+
+  // Recompute prices, discounts and tax on the server; the client total must match
+  const priced = await priceSaleItems(items, products, discountRule, {
+    at: pricedAt,
+    redeemPoints: customer ? (redeemPoints as number | undefined) : 0,
+  });
+  if ("error" in priced) {
+    return { rejection: { status: 400, error: "Invalid discount", details: priced.error } };
+  }
+  if (voucher && priced.totals.transactionDiscountAmount === 0) {
+    return {
+      rejection: {
+        status: 400,
+        error: "Invalid voucher",
+        details: `Minimal belanja untuk voucher ${voucher.code} adalah ${voucher.campaign.minPurchase}`,
+      },
+    };
+  }
+  if (priced.totals.finalTotal !== totalAmount) {
+    return {
+      rejection: {
+        status: 409,
+        error: "Price mismatch",
+        details: `Client total (${totalAmount}) does not match server total (${priced.totals.finalTotal})`,
+        pricing: priced.totals,
+      },
+    };
+  }
+
+  return { ...priced, products, discountRule, voucher, customer };
+}
+
+/**
+ * Save a priced sale with its items and payment lines
+ * Numbers the invoice and spends the customer's points and the voucher inside the
+ * caller's database transaction; stock is not touched.
+ * @param data - Status and origin fields that differ per sale API
+ */
+export async function createSale(
+  tx: Prisma.TransactionClient,
+  sale: {
+    draft: SaleDraft;
+    shift: Shift;
+    cashierId: string;
+    tenders: TenderInput[];
+    paymentMethods: PaymentMethodConfig[];
+    data: Pick<
+      Prisma.TransactionUncheckedCreateInput,
+      | "status"
+      | "paymentType"
+      | "paymentStatus"
+      | "paidAt"
+      | "idempotencyKey"
+      | "offlineId"
+      | "provisionalInvoiceNo"
+      | "offlineSoldAt"
+      | "clientTotalAmount"
+    >;
+  }
+): Promise<Transaction> {
+  const { draft, shift, tenders, paymentMethods } = sale;
+  const { totals, taxRule, discountRule, voucher, customer } = draft;
+
+  // Numbered inside the transaction so concurrent sales can't take the same number
+  const invoiceNo = await generateInvoiceNumber(tx, shift.terminalId);
+
+  const transaction = await tx.transaction.create({
+    data: {
+      ...sale.data,
+      invoiceNo,
+      receiptToken: generateReceiptToken(),
+      totalAmount: totals.finalTotal,
+      cashierId: sale.cashierId,
+      shiftId: shift.id,
+      // Discount fields
+      discountAmount: totals.transactionDiscountAmount,
+      discountType: totals.transactionDiscountAmount > 0 ? discountRule?.type : null,
+      discountValue: totals.transactionDiscountAmount > 0 ? discountRule?.value : null,
+      promotionDiscount: totals.cartPromotionDiscount,
+      promotionNames: totals.cartPromotionNames,
+      voucherCode: voucher?.code ?? null,
+      customerId: customer?.id ?? null,
+      pointsRedeemed: totals.pointsRedeemed,
+      pointsDiscount: totals.pointsDiscount,
+      // Service charge and tax
+      serviceChargeAmount: totals.serviceChargeAmount,
+      serviceChargeRate: taxRule.serviceChargeEnabled ? taxRule.serviceChargeRate : 0,
+      taxName: totals.taxAmount > 0 ? taxRule.taxName : null,
+      taxAmount: totals.taxAmount,
+      taxRate: taxRule.taxEnabled ? taxRule.taxRate : 0,
+      taxInclusive: totals.taxInclusive,
+    },
+  });
+
+  if (customer) {
+    await redeemLoyaltyPoints(tx, customer.id, transaction.id, totals.pointsRedeemed);
+  }
+
+  // Use up the voucher together with the sale; fails if its last use was just taken
+  if (voucher) {
+    await redeemVoucher(tx, voucher.id, transaction.id, totals.transactionDiscountAmount);
+  }
+
+  // Payment lines (cash settled, gateway pending)
+  await tx.payment.createMany({
+    data: buildPaymentRecords(transaction.id, invoiceNo, tenders, paymentMethods),
+  });
+
+  // Items in one insert
+  await tx.transactionItem.createMany({
+    data: draft.lines.map((line) => ({
+      transactionId: transaction.id,
+      productId: line.productId,
+      productName: draft.products.find((p) => p.id === line.productId)?.name || "",
+      price: line.price,
+      quantity: line.quantity,
+      subtotal: line.subtotal,
+      // Discount fields
+      discountPrice: line.discountedPrice,
+      discountAmount: line.discountAmount,
+      promotionDiscount: line.promotionDiscount,
+      promotionNames: line.promotionNames,
+      taxAmount: line.taxAmount,
+    })),
+  });
+
+  return transaction;
+}
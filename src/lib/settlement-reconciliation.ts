@@ -0,0 +1,386 @@
+import * as XLSX from "xlsx";
+import type {
+  Prisma,
+  SettlementMatchStatus,
+  SettlementUpload,
+} from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import { REFUND_STATUSES, SETTLED_STATUSES, isPaymentSettled } from "./payments";
+import { getStoreSettings } from "./store-settings";
+import { ApiError } from "./utils/error";
+
+/**
+ * Settlement file reconciliation
+ * Finance uploads the settlement report downloaded from the Midtrans dashboard (CSV or
+ * XLSX). Each row is matched to a payment line by Midtrans transaction ID, then by order ID
+ * or invoice number, and its gateway status (settled, refunded or unpaid) and amount are
+ * checked against the payment. Settled gateway payments within the file's
+ * days that no row mentions are flagged too. Every payment involved keeps the result of
+ * the latest file in `settlementStatus`.
+ */
+
+// Statuses that need someone to look at them
+export const SETTLEMENT_ISSUE_STATUSES: SettlementMatchStatus[] = [
+  "AMOUNT_MISMATCH",
+  "NOT_SETTLED_LOCALLY",
+  "STATUS_MISMATCH",
+  "MISSING_LOCALLY",
+  "MISSING_IN_FILE",
+  "INVALID",
+];
+
+// Midtrans reports times in WIB without an offset
+const MIDTRANS_UTC_OFFSET = "+07:00";
+
+// Accepted header names per field, compared lowercase without spaces or punctuation
+const COLUMN_ALIASES = {
+  orderId: ["orderid", "merchantorderid"],
+  transactionId: ["transactionid", "midtranstransactionid"],
+  amount: ["grossamount", "amount", "transactionamount"],
+  status: ["transactionstatus", "status"],
+  paymentType: ["paymenttype", "paymentmethod", "channel"],
+  settledAt: ["settlementtime", "settlementdate", "transactiontime", "transactiondate"],
+} as const;
+
+type SettlementField = keyof typeof COLUMN_ALIASES;
+
+interface SettlementRow {
+  rowNumber: number;
+  orderId: string | null;
+  transactionId: string | null;
+  amount: number | null;
+  status: string | null;
+  paymentType: string | null;
+  settledAt: Date | null;
+  raw: Record<string, unknown>;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+}
+
+/**
+ * Parse an amount cell: a number, or text like "150000.00", "150,000" or "Rp 150.000"
+ */
+function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") return Math.round(value);
+
+  let text = toText(value)?.replace(/[^0-9.,-]/g, "");
+  if (!text) return null;
+
+  // The last separator followed by one or two digits is the decimal point
+  const decimal = text.match(/[.,](\d{1,2})$/);
+  if (decimal) {
+    text = text.slice(0, -decimal[0].length).replace(/[.,]/g, "") + "." + decimal[1];
+  } else {
+    text = text.replace(/[.,]/g, "");
+  }
+
+  const amount = Number(text);
+  return Number.isFinite(amount) ? Math.round(amount) : null;
+}
+
+/**
+ * Parse a date cell: a spreadsheet date serial, or text such as "2026-03-15 10:20:30" (WIB)
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value === "number") {
+    const parts = XLSX.SSF.parse_date_code(value);
+    if (!parts) return null;
+    const pad = (n: number) => String(n).padStart(2, "0");
+    value = `${parts.y}-${pad(parts.m)}-${pad(parts.d)} ${pad(parts.H)}:${pad(parts.M)}:${pad(Math.floor(parts.S))}`;
+  }
+
+  const text = toText(value);
+  if (!text) return null;
+
+  const local = text.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/);
+  const date = local
+    ? new Date(`${local[1]}T${local[2] ?? "00:00"}${MIDTRANS_UTC_OFFSET}`)
+    : new Date(text);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read the first sheet of the file, with the header on the first row
+ */
+function readSettlementRows(buffer: Buffer): SettlementRow[] {
+  let workbook: XLSX.WorkBook;
+  try {
+    // CSV cells stay text; spreadsheet dates stay serials, read as WIB in parseDate
+    workbook = XLSX.read(buffer, { type: "buffer", raw: true });
+  } catch {
+    throw new ApiError(400, "File tidak dapat dibaca, gunakan CSV atau XLSX");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const records = sheet
+    ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null, raw: true })
+    : [];
+
+  if (records.length === 0) {
+    throw new ApiError(400, "File tidak berisi baris settlement");
+  }
+
+  // Map each field to the file's own header
+  const headers = Object.keys(records[0]);
+  const columns = {} as Record<SettlementField, string | undefined>;
+  for (const field of Object.keys(COLUMN_ALIASES) as SettlementField[]) {
+    columns[field] = headers.find((header) =>
+      (COLUMN_ALIASES[field] as readonly string[]).includes(normalizeHeader(header))
+    );
+  }
+
+  if (!columns.amount || (!columns.orderId && !columns.transactionId)) {
+    throw new ApiError(
+      400,
+      "Kolom Gross Amount dan Order ID atau Transaction ID tidak ditemukan di baris pertama"
+    );
+  }
+
+  const cell = (record: Record<string, unknown>, field: SettlementField) =>
+    columns[field] ? record[columns[field]!] : null;
+
+  return records.map((record, index) => ({
+    // The header is row 1
+    rowNumber: index + 2,
+    orderId: toText(cell(record, "orderId")),
+    transactionId: toText(cell(record, "transactionId")),
+    amount: parseAmount(cell(record, "amount")),
+    status: toText(cell(record, "status"))?.toLowerCase() ?? null,
+    paymentType: toText(cell(record, "paymentType")),
+    settledAt: parseDate(cell(record, "settledAt")),
+    raw: record,
+  }));
+}
+
+/** Where the money of a payment stands on one side */
+type MoneyState = "SETTLED" | "REFUNDED" | "UNPAID";
+
+/** State the file reports; files without a status column only list settled payments */
+function getGatewayState(status: string | null): MoneyState {
+  if (!status || SETTLED_STATUSES.includes(status)) return "SETTLED";
+  if (REFUND_STATUSES.includes(status)) return "REFUNDED";
+  return "UNPAID";
+}
+
+/** State recorded here; a paid tender of a canceled sale was refunded before it could be */
+function getLocalState(payment: {
+  paymentStatus: string;
+  fraudStatus: string | null;
+  transaction: { status: string };
+}): MoneyState {
+  if (REFUND_STATUSES.includes(payment.paymentStatus)) return "REFUNDED";
+  if (!isPaymentSettled(payment)) return "UNPAID";
+  return payment.transaction.status === "CANCELED" ? "REFUNDED" : "SETTLED";
+}
+
+/** Calendar day of a moment in the store's time zone (YYYY-MM-DD) */
+function toStoreDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone }).format(date);
+}
+
+/**
+ * Match a settlement file against the payments and store the result
+ */
+export async function reconcileSettlementFile(
+  file: { name: string; buffer: Buffer },
+  userId: string
+): Promise<SettlementUpload> {
+  const rows = readSettlementRows(file.buffer);
+  const { timezone } = await getStoreSettings();
+
+  const transactionIds = rows.flatMap((row) => (row.transactionId ? [row.transactionId] : []));
+  const orderIds = rows.flatMap((row) => (row.orderId ? [row.orderId] : []));
+
+  const paymentInclude = {
+    transaction: { select: { invoiceNo: true, status: true } },
+  } satisfies Prisma.PaymentInclude;
+
+  const [payments, invoiceTransactions] = await Promise.all([
+    prisma.payment.findMany({
+      where: {
+        paymentType: "MIDTRANS",
+        OR: [
+          { midtransTransactionId: { in: transactionIds } },
+          { orderId: { in: orderIds } },
+        ],
+      },
+      include: paymentInclude,
+    }),
+    // Older single-tender sales used the invoice number as the order ID
+    prisma.transaction.findMany({
+      where: { invoiceNo: { in: orderIds } },
+      select: {
+        invoiceNo: true,
+        payments: {
+          where: { paymentType: "MIDTRANS" },
+          orderBy: { sequence: "asc" },
+          take: 1,
+          include: paymentInclude,
+        },
+      },
+    }),
+  ]);
+
+  const findPayment = (row: SettlementRow) =>
+    (row.transactionId && payments.find((p) => p.midtransTransactionId === row.transactionId)) ||
+    (row.orderId && payments.find((p) => p.orderId === row.orderId)) ||
+    (row.orderId &&
+      invoiceTransactions.find((t) => t.invoiceNo === row.orderId)?.payments[0]) ||
+    null;
+
+  const matchedPaymentIds = new Set<number>();
+  const lines: Prisma.SettlementLineCreateManyUploadInput[] = rows.map((row) => {
+    const line = {
+      rowNumber: row.rowNumber,
+      orderId: row.orderId,
+      gatewayTransactionId: row.transactionId,
+      amount: row.amount,
+      gatewayStatus: row.status,
+      paymentType: row.paymentType,
+      settledAt: row.settledAt,
+      raw: row.raw as Prisma.InputJsonValue,
+    };
+
+    if (row.amount === null || (!row.orderId && !row.transactionId)) {
+      return { ...line, status: "INVALID", message: "Baris tanpa nominal atau order ID" };
+    }
+
+    const payment = findPayment(row);
+
+    if (!payment) {
+      return {
+        ...line,
+        status: "MISSING_LOCALLY",
+        message: `Tidak ada pembayaran untuk ${row.orderId ?? row.transactionId}`,
+      };
+    }
+
+    const matched = { ...line, paymentId: payment.id };
+
+    if (matchedPaymentIds.has(payment.id)) {
+      return { ...matched, status: "DUPLICATE", message: "Pembayaran sudah ada di baris sebelumnya" };
+    }
+    matchedPaymentIds.add(payment.id);
+
+    const gatewayState = getGatewayState(row.status);
+    const localState = getLocalState(payment);
+    const localStatus = `${payment.paymentStatus} / ${payment.transaction.status}`;
+
+    if (gatewayState === "SETTLED" && localState !== "SETTLED") {
+      return {
+        ...matched,
+        status: "NOT_SETTLED_LOCALLY",
+        message: `Settle di gateway, di sistem ${localStatus}`,
+      };
+    }
+
+    // Refunded or never paid: no payout, so only the states are compared
+    if (gatewayState !== "SETTLED") {
+      return gatewayState === localState
+        ? {
+            ...matched,
+            status: "MATCHED",
+            message: gatewayState === "REFUNDED" ? "Refund di kedua sisi" : "Tidak dibayar di kedua sisi",
+          }
+        : {
+            ...matched,
+            status: "STATUS_MISMATCH",
+            message: `Status gateway ${row.status}, di sistem ${localStatus}`,
+          };
+    }
+
+    if (row.amount !== payment.amount) {
+      return {
+        ...matched,
+        status: "AMOUNT_MISMATCH",
+        message: `Nominal file ${row.amount}, pembayaran ${payment.amount}`,
+      };
+    }
+
+    return { ...matched, status: "MATCHED", message: null };
+  });
+
+  // Days the file covers, in store time
+  const days = rows
+    .flatMap((row) => (row.settledAt ? [toStoreDate(row.settledAt, timezone)] : []))
+    .sort();
+  const periodStart = days[0] ?? null;
+  const periodEnd = days[days.length - 1] ?? null;
+
+  // Settled here within those days but absent from the file
+  if (periodStart && periodEnd) {
+    const missing = await prisma.$queryRaw<
+      { id: number; orderId: string | null; amount: number; paidAt: Date }[]
+    >`
+      SELECT p."id", p."orderId", p."amount", p."paidAt"
+      FROM "Payment" p
+      JOIN "Transaction" t ON t."id" = p."transactionId"
+      WHERE p."paymentType" = 'MIDTRANS'
+        AND p."paymentStatus" = ANY(${SETTLED_STATUSES}::text[])
+        AND t."status" <> 'CANCELED'
+        AND (p."paidAt" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone})::date
+          BETWEEN ${periodStart}::date AND ${periodEnd}::date
+      ORDER BY p."paidAt"
+    `;
+
+    for (const payment of missing) {
+      if (matchedPaymentIds.has(payment.id)) continue;
+
+      lines.push({
+        orderId: payment.orderId,
+        amount: payment.amount,
+        settledAt: payment.paidAt,
+        paymentId: payment.id,
+        status: "MISSING_IN_FILE",
+        message: "Settle di sistem, tidak ada di file settlement",
+      });
+    }
+  }
+
+  const checkedAt = new Date();
+  const matchedLines = lines.filter((line) => line.status === "MATCHED").length;
+  const issueLines = lines.filter((line) => SETTLEMENT_ISSUE_STATUSES.includes(line.status)).length;
+
+  // Payments keep the result of their first row (later rows are duplicates)
+  const paymentIdsByStatus = new Map<SettlementMatchStatus, number[]>();
+  for (const line of lines) {
+    if (!line.paymentId || line.status === "DUPLICATE") continue;
+    paymentIdsByStatus.set(line.status, [
+      ...(paymentIdsByStatus.get(line.status) ?? []),
+      line.paymentId,
+    ]);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const upload = await tx.settlementUpload.create({
+      data: {
+        fileName: file.name,
+        periodStart: periodStart ? new Date(`${periodStart}T00:00:00Z`) : null,
+        periodEnd: periodEnd ? new Date(`${periodEnd}T00:00:00Z`) : null,
+        totalLines: rows.length,
+        matchedLines,
+        issueLines,
+        uploadedBy: userId,
+        lines: { createMany: { data: lines } },
+      },
+    });
+
+    for (const [status, ids] of paymentIdsByStatus) {
+      await tx.payment.updateMany({
+        where: { id: { in: ids } },
+        data: { settlementStatus: status, settlementCheckedAt: checkedAt },
+      });
+    }
+
+    return upload;
+  });
+}
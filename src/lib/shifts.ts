@@ -0,0 +1,178 @@
+import { prisma } from "./prisma";
+import { isPaymentSettled } from "./payments";
+
+/**
+ * Shift (cash drawer session) helpers
+ * Every sale is rung up against the cashier's open shift; closing the shift
+ * produces a Z-report comparing expected and counted cash.
+ */
+
+export interface ZReport {
+  shiftId: number;
+  cashierName: string;
+  openedAt: string;
+  closedAt: string | null;
+  openingFloat: number;
+  cashSales: number;
+  expectedCash: number;
+  countedCash: number | null;
+  variance: number | null;
+  transactionCount: number;
+  totalSales: number;
+  discounts: {
+    item: number;
+    transaction: number;
+    /** Automatic promotions (item and cart level) */
+    promotion: number;
+    /** Redeemed loyalty points */
+    points: number;
+    total: number;
+  };
+  salesByPaymentType: {
+    paymentType: string;
+    count: number;
+    amount: number;
+  }[];
+  cancellations: {
+    count: number;
+    amount: number;
+  };
+  /** Returns processed in the shift; only cash refunds leave the drawer */
+  refunds: {
+    count: number;
+    cash: number;
+    storeCredit: number;
+  };
+  pending: {
+    count: number;
+    amount: number;
+  };
+}
+
+/**
+ * Get the open shift of a cashier, if any
+ */
+export async function getOpenShift(cashierId: string) {
+  return prisma.shift.findFirst({
+    where: { cashierId, status: "OPEN" },
+    orderBy: { openedAt: "desc" },
+  });
+}
+
+/**
+ * Whether the cashier's open shift runs on the given terminal
+ */
+export async function isOnTerminal(cashierId: string, terminalId: string): Promise<boolean> {
+  const shift = await getOpenShift(cashierId);
+  return !!shift?.terminalId && shift.terminalId === terminalId;
+}
+
+/**
+ * Build the Z-report of a shift from its transactions
+ * @param shiftId - Shift to report on
+ * @param countedCash - Cash counted on close (null for a running report of an open shift)
+ * @param closedAt - Close time to stamp on the report
+ */
+export async function buildZReport(
+  shiftId: number,
+  countedCash: number | null = null,
+  closedAt: Date | null = null
+): Promise<ZReport> {
+  const shift = await prisma.shift.findUniqueOrThrow({
+    where: { id: shiftId },
+    include: {
+      cashier: { select: { name: true, username: true } },
+      transactions: {
+        include: {
+          items: { select: { discountAmount: true, promotionDiscount: true } },
+          payments: true,
+        },
+      },
+      returns: { select: { refundMethod: true, refundAmount: true } },
+    },
+  });
+
+  const completed = shift.transactions.filter((t) => t.status === "COMPLETED");
+  const canceled = shift.transactions.filter((t) => t.status === "CANCELED");
+  const pending = shift.transactions.filter((t) => t.status === "PENDING");
+
+  // Settled tenders of completed sales, grouped by payment type
+  const byPaymentType = new Map<string, { count: number; amount: number }>();
+  let cashSales = 0;
+
+  for (const transaction of completed) {
+    for (const payment of transaction.payments.filter(isPaymentSettled)) {
+      const paymentType =
+        payment.paymentType === "CASH" ? "CASH" : (payment.paymentMethod || "midtrans").toUpperCase();
+      const entry = byPaymentType.get(paymentType) || { count: 0, amount: 0 };
+      entry.count += 1;
+      entry.amount += payment.amount;
+      byPaymentType.set(paymentType, entry);
+
+      if (payment.paymentType === "CASH") {
+        cashSales += payment.amount;
+      }
+    }
+  }
+
+  const itemDiscounts = completed.reduce(
+    (sum, t) => sum + t.items.reduce((itemSum, item) => itemSum + item.discountAmount, 0),
+    0
+  );
+  const transactionDiscounts = completed.reduce((sum, t) => sum + t.discountAmount, 0);
+  const promotionDiscounts = completed.reduce(
+    (sum, t) =>
+      sum +
+      t.promotionDiscount +
+      t.items.reduce((itemSum, item) => itemSum + item.promotionDiscount, 0),
+    0
+  );
+  const pointsDiscounts = completed.reduce((sum, t) => sum + t.pointsDiscount, 0);
+
+  const cashRefunds = shift.returns
+    .filter((r) => r.refundMethod === "CASH")
+    .reduce((sum, r) => sum + r.refundAmount, 0);
+  const storeCreditRefunds = shift.returns
+    .filter((r) => r.refundMethod === "STORE_CREDIT")
+    .reduce((sum, r) => sum + r.refundAmount, 0);
+
+  const expectedCash = shift.openingFloat + cashSales - cashRefunds;
+
+  return {
+    shiftId: shift.id,
+    cashierName: shift.cashier.name || shift.cashier.username,
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: closedAt ? closedAt.toISOString() : null,
+    openingFloat: shift.openingFloat,
+    cashSales,
+    expectedCash,
+    countedCash,
+    variance: countedCash === null ? null : countedCash - expectedCash,
+    transactionCount: completed.length,
+    totalSales: completed.reduce((sum, t) => sum + t.totalAmount, 0),
+    discounts: {
+      item: itemDiscounts,
+      transaction: transactionDiscounts,
+      promotion: promotionDiscounts,
+      points: pointsDiscounts,
+      total: itemDiscounts + transactionDiscounts + promotionDiscounts + pointsDiscounts,
+    },
+    salesByPaymentType: Array.from(byPaymentType.entries()).map(([paymentType, entry]) => ({
+      paymentType,
+      ...entry,
+    })),
+    cancellations: {
+      count: canceled.length,
+      amount: canceled.reduce((sum, t) => sum + t.totalAmount, 0),
+    },
+    refunds: {
+      count: shift.returns.length,
+      cash: cashRefunds,
+      storeCredit: storeCreditRefunds,
+    },
+    pending: {
+      count: pending.length,
+      amount: pending.reduce((sum, t) => sum + t.totalAmount, 0),
+    },
+  };
+}
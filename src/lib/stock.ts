@@ -0,0 +1,242 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { ApiError } from "./utils/error";
+
+/**
+ * Stock for sales
+ * The units of a sale are taken out of stock inside the sale's database transaction with
+ * conditional writes, so concurrent checkouts can never sell the same last units twice.
+ * Sales waiting on an online payment hold their units with a StockReservation instead;
+ * those units are not available to other sales until the reservation is released.
+ */
+
+export interface StockLine {
+  productId: number;
+  quantity: number;
+}
+
+/** A line that could not be fulfilled (same shape as the offline sync conflicts) */
+export interface StockShortage {
+  productId: number;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Not enough stock for one or more lines; lists every short line, not just the first
+ */
+export class InsufficientStockError extends ApiError {
+  constructor(public shortages: StockShortage[]) {
+    super(
+      409,
+      `Stok tidak mencukupi: ${shortages
+        .map((s) => `${s.name} (sisa ${s.available}, diminta ${s.requested})`)
+        .join(", ")}`,
+      shortages
+    );
+    this.name = "InsufficientStockError";
+  }
+}
+
+/** How long a pending online payment holds its stock */
+export const RESERVATION_MINUTES = 20;
+
+/**
+ * The gateway payment expires this long before its reservation, so a payment can't settle
+ * after the units were given back
+ */
+export const RESERVATION_GRACE_MINUTES = 5;
+
+/**
+ * Units a cashier can still sell: stock on hand minus active reservations
+ * (the product APIs send both)
+ */
+export function getSellableQuantity(
+  stock: { quantity: number; reserved?: number } | null | undefined
+): number {
+  return Math.max(0, (stock?.quantity ?? 0) - (stock?.reserved ?? 0));
+}
+
+/**
+ * Lock the stock rows of a sale and check that every line can be fulfilled
+ *
+ * The rows are locked in product order (so two carts with the same products can't
+ * deadlock). Units held by active reservations are not available. Throws
+ * InsufficientStockError listing every short line; the caller's transaction then rolls back.
+ */
+async function lockAvailableStock(tx: Prisma.TransactionClient, lines: StockLine[]) {
+  // A product may appear on several lines
+  const requested = new Map<number, number>();
+  for (const line of lines) {
+    requested.set(line.productId, (requested.get(line.productId) || 0) + line.quantity);
+  }
+  const productIds = [...requested.keys()].sort((a, b) => a - b);
+  if (productIds.length === 0) return [];
+
+  const rows = await tx.$queryRaw<
+    { productId: number; name: string; quantity: number; reserved: number }[]
+  >`
+    SELECT s."productId", p."name", s."quantity",
+      COALESCE((
+        SELECT SUM(r."quantity")
+        FROM "StockReservation" r
+        WHERE r."productId" = s."productId" AND r."status" = 'ACTIVE' AND r."expiresAt" > NOW()
+      ), 0)::int AS "reserved"
+    FROM "Stock" s
+    JOIN "Product" p ON p."id" = s."productId"
+    WHERE s."productId" = ANY(${productIds}::int[])
+    ORDER BY s."productId"
+    FOR UPDATE OF s
+  `;
+  const stock = new Map(rows.map((row) => [row.productId, row]));
+
+  const shortages = productIds
+    .map((productId) => {
+      const row = stock.get(productId);
+      return {
+        productId,
+        name: row?.name || `Produk #${productId}`,
+        requested: requested.get(productId)!,
+        available: row ? Math.max(0, row.quantity - row.reserved) : 0,
+      };
+    })
+    .filter((line) => line.available < line.requested);
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+
+  return productIds.map((productId) => ({ productId, quantity: requested.get(productId)! }));
+}
+
+/**
+ * Take the units of a sale out of stock, all lines or none
+ *
+ * Two statements whatever the cart size: the stock rows are locked and checked (see
+ * lockAvailableStock), then every line is decremented in one conditional UPDATE.
+ */
+export async function decrementStock(
+  tx: Prisma.TransactionClient,
+  lines: StockLine[]
+): Promise<void> {
+  const totals = await lockAvailableStock(tx, lines);
+  if (totals.length === 0) return;
+
+  const updated = await tx.$executeRaw`
+    UPDATE "Stock" AS s
+    SET "quantity" = s."quantity" - v."quantity", "updatedAt" = NOW()
+    FROM unnest(
+      ${totals.map((t) => t.productId)}::int[],
+      ${totals.map((t) => t.quantity)}::int[]
+    ) AS v("productId", "quantity")
+    WHERE s."productId" = v."productId" AND s."quantity" >= v."quantity"
+  `;
+
+  // The rows are locked, so this only trips if the check above is wrong
+  if (updated !== totals.length) {
+    throw new ApiError(409, "Stok berubah saat transaksi diproses, silakan coba lagi");
+  }
+}
+
+/**
+ * Hold the units of a sale that waits on an online payment, all lines or none
+ * Stock on hand is left alone until the payment settles (see consumeReservedStock).
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  transactionId: number,
+  lines: StockLine[],
+  expiresAt: Date
+): Promise<void> {
+  const totals = await lockAvailableStock(tx, lines);
+  if (totals.length === 0) return;
+
+  await tx.stockReservation.createMany({
+    data: totals.map((t) => ({
+      transactionId,
+      productId: t.productId,
+      quantity: t.quantity,
+      expiresAt,
+    })),
+  });
+}
+
+/**
+ * Turn the active reservations of a paid sale into a permanent stock decrement
+ *
+ * The reservations are marked consumed first: a concurrent call (webhook and status check
+ * for the same payment) waits on those rows and then finds nothing left to consume.
+ * A reservation that expired but was not released yet is still consumed, since the
+ * customer has paid.
+ */
+export async function consumeReservedStock(
+  tx: Prisma.TransactionClient,
+  transactionId: number
+): Promise<void> {
+  const consumed = await tx.$queryRaw<{ productId: number; quantity: number }[]>`
+    UPDATE "StockReservation"
+    SET "status" = 'CONSUMED', "resolvedAt" = NOW()
+    WHERE "transactionId" = ${transactionId} AND "status" = 'ACTIVE'
+    RETURNING "productId", "quantity"
+  `;
+  if (consumed.length === 0) return;
+
+  const totals = new Map<number, number>();
+  for (const row of consumed) {
+    totals.set(row.productId, (totals.get(row.productId) || 0) + row.quantity);
+  }
+  const productIds = [...totals.keys()].sort((a, b) => a - b);
+
+  // Same lock order as every other stock write
+  await tx.$queryRaw`
+    SELECT 1 FROM "Stock"
+    WHERE "productId" = ANY(${productIds}::int[])
+    ORDER BY "productId"
+    FOR UPDATE
+  `;
+  await tx.$executeRaw`
+    UPDATE "Stock" AS s
+    SET "quantity" = s."quantity" - v."quantity", "updatedAt" = NOW()
+    FROM unnest(
+      ${productIds}::int[],
+      ${productIds.map((productId) => totals.get(productId)!)}::int[]
+    ) AS v("productId", "quantity")
+    WHERE s."productId" = v."productId"
+  `;
+}
+
+/**
+ * Give back the active reservations of a sale that will not be paid
+ * @returns the number of reservations released
+ */
+export async function releaseReservedStock(
+  tx: Prisma.TransactionClient,
+  transactionId: number
+): Promise<number> {
+  const { count } = await tx.stockReservation.updateMany({
+    where: { transactionId, status: "ACTIVE" },
+    data: { status: "RELEASED", resolvedAt: new Date() },
+  });
+
+  return count;
+}
+
+/**
+ * Units held by active reservations, per product
+ */
+export async function getReservedQuantities(
+  db: Prisma.TransactionClient,
+  productIds: number[]
+): Promise<Map<number, number>> {
+  const rows = await db.stockReservation.groupBy({
+    by: ["productId"],
+    where: {
+      productId: { in: productIds },
+      status: "ACTIVE",
+      expiresAt: { gt: new Date() },
+    },
+    _sum: { quantity: true },
+  });
+
+  return new Map(rows.map((row) => [row.productId, row._sum.quantity || 0]));
+}
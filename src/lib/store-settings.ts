@@ -0,0 +1,51 @@
+import { prisma } from "@/lib/prisma";
+import {
+  DEFAULT_STORE_SETTINGS,
+  SEQUENCE_RESETS,
+  SEQUENCE_SCOPES,
+  type SequenceReset,
+  type SequenceScope,
+  type StoreSettings,
+} from "@/lib/store";
+import { TENDER_METHODS, type TenderMethod } from "@/lib/payments";
+
+/** The settings row (the table holds a single row) */
+export const STORE_SETTING_ID = 1;
+
+/**
+ * Store profile, receipt text, invoice pattern and regional formats
+ * Falls back to the defaults until saved.
+ */
+export async function getStoreSettings(): Promise<StoreSettings> {
+  const setting = await prisma.storeSetting.findUnique({
+    where: { id: STORE_SETTING_ID },
+  });
+
+  if (!setting) {
+    return DEFAULT_STORE_SETTINGS;
+  }
+
+  return {
+    storeName: setting.storeName,
+    address: setting.address,
+    phone: setting.phone,
+    email: setting.email,
+    logo: setting.logo,
+    receiptHeader: setting.receiptHeader,
+    receiptFooter: setting.receiptFooter,
+    invoicePattern: setting.invoicePattern,
+    invoiceReset: SEQUENCE_RESETS.includes(setting.invoiceReset as SequenceReset)
+      ? (setting.invoiceReset as SequenceReset)
+      : DEFAULT_STORE_SETTINGS.invoiceReset,
+    invoiceScope: SEQUENCE_SCOPES.includes(setting.invoiceScope as SequenceScope)
+      ? (setting.invoiceScope as SequenceScope)
+      : DEFAULT_STORE_SETTINGS.invoiceScope,
+    timezone: setting.timezone,
+    locale: setting.locale,
+    currency: setting.currency,
+    decimals: setting.decimals,
+    defaultPaymentMethod: TENDER_METHODS.includes(setting.defaultPaymentMethod as TenderMethod)
+      ? (setting.defaultPaymentMethod as TenderMethod)
+      : DEFAULT_STORE_SETTINGS.defaultPaymentMethod,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Store settings: profile, receipt text, document numbers and regional formats
+ * Pure helpers shared by the cashier, the receipts and the sale APIs, so keep this
+ * module free of server-only imports (see store-settings.ts for loading them).
+ */
+
+import type { TenderMethod } from "./payments";
+
+export interface CurrencyFormat {
+  /** BCP 47 locale for grouping and decimals, e.g. "id-ID" */
+  locale: string;
+  /** ISO 4217 code, e.g. "IDR" */
+  currency: string;
+  /** Digits after the decimal separator */
+  decimals: number;
+}
+
+/** When the invoice running number starts again from 1 */
+export const SEQUENCE_RESETS = ["DAILY", "MONTHLY", "YEARLY", "NEVER"] as const;
+export type SequenceReset = (typeof SEQUENCE_RESETS)[number];
+
+/** Whether invoices are counted for the whole store or per cashier terminal */
+export const SEQUENCE_SCOPES = ["STORE", "TERMINAL"] as const;
+export type SequenceScope = (typeof SEQUENCE_SCOPES)[number];
+
+export interface StoreSettings extends CurrencyFormat {
+  storeName: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  /** Image data URL shown on HTML and digital receipts */
+  logo: string | null;
+  /** Extra lines under the store info on receipts */
+  receiptHeader: string | null;
+  /** Closing lines of every receipt */
+  receiptFooter: string | null;
+  /** See formatDocumentNumber for the tokens */
+  invoicePattern: string;
+  invoiceReset: SequenceReset;
+  invoiceScope: SequenceScope;
+  /** IANA time zone of the store, e.g. "Asia/Jakarta" */
+  timezone: string;
+  /** Tender preselected in the cashier payment dialog */
+  defaultPaymentMethod: TenderMethod;
+}
+
+/** Used when no settings have been saved yet */
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  storeName: "POS System",
+  address: "Jalan Contoh No. 123",
+  phone: "(021) 1234-5678",
+  email: null,
+  logo: null,
+  receiptHeader: null,
+  receiptFooter: "Terima kasih atas kunjungan Anda!\nBarang yang sudah dibeli tidak dapat ditukar",
+  invoicePattern: "INV-{YYYYMMDD}-{SEQ:4}",
+  invoiceReset: "DAILY",
+  invoiceScope: "STORE",
+  timezone: "Asia/Jakarta",
+  locale: "id-ID",
+  currency: "IDR",
+  decimals: 0,
+  defaultPaymentMethod: "CASH",
+};
+
+/** Return documents keep their own fixed pattern */
+export const RETURN_NUMBER_PATTERN = "RET-{YYYYMMDD}-{SEQ:4}";
+
+const SEQUENCE_TOKEN = /\{SEQ(?::(\d))?\}/;
+
+const DATE_TOKENS = ["{YYYY}", "{YY}", "{MM}", "{DD}", "{YYYYMMDD}"];
+
+/**
+ * Split multi-line receipt text into its non-empty lines
+ */
+export function toReceiptLines(text: string | null | undefined): string[] {
+  return (text || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Calendar date parts of a moment in the store time zone
+ */
+export function getStoreDateParts(
+  at: Date,
+  timeZone: string
+): { year: string; month: string; day: string; hour: string; minute: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", {
+      timeZone,
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+/**
+ * dd/MM/yyyy HH:mm in the store time zone
+ */
+export function formatStoreDateTime(at: Date, timeZone: string): string {
+  const { year, month, day, hour, minute } = getStoreDateParts(at, timeZone);
+  return `${day}/${month}/${year} ${hour}:${minute}`;
+}
+
+/**
+ * Fill a document number pattern
+ *
+ * Tokens (dates in store time): {YYYY} {YY} {MM} {DD} {YYYYMMDD}, {TERMINAL} for the
+ * cashier terminal, and {SEQ} or {SEQ:n} for the running number zero-padded to n digits.
+ * Everything else is literal.
+ */
+export function formatDocumentNumber(
+  pattern: string,
+  at: Date,
+  timeZone: string,
+  sequence: number,
+  terminalCode = ""
+): string {
+  const { year, month, day } = getStoreDateParts(at, timeZone);
+
+  return pattern
+    .replace(SEQUENCE_TOKEN, (_, digits?: string) =>
+      String(sequence).padStart(digits ? parseInt(digits) : 1, "0")
+    )
+    .replace(/\{YYYYMMDD\}/g, `${year}${month}${day}`)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(2))
+    .replace(/\{MM\}/g, month)
+    .replace(/\{DD\}/g, day)
+    .replace(/\{TERMINAL\}/g, terminalCode);
+}
+
+/**
+ * Period a running number belongs to, e.g. "20260314" for a daily reset
+ * Numbers are counted separately per period, so the pattern must show it (see validateDocumentPattern).
+ */
+export function getSequencePeriod(reset: SequenceReset, at: Date, timeZone: string): string {
+  const { year, month, day } = getStoreDateParts(at, timeZone);
+
+  switch (reset) {
+    case "DAILY":
+      return `${year}${month}${day}`;
+    case "MONTHLY":
+      return `${year}${month}`;
+    case "YEARLY":
+      return year;
+    case "NEVER":
+      return "ALL";
+  }
+}
+
+/**
+ * Short terminal code for {TERMINAL}, e.g. "1A2B3C4D" for terminal TRM-1A2B3C4D
+ */
+export function getTerminalCode(terminalId: string | null | undefined): string {
+  return (terminalId || "").replace(/^TRM-/, "") || "00";
+}
+
+/**
+ * Validate an invoice number pattern against its reset period and scope
+ * The pattern has to tell numbers of different periods and terminals apart, or a reset
+ * would hand out an invoice number that already exists.
+ * @returns Error message, or null when valid
+ */
+export function validateDocumentPattern(
+  pattern: string,
+  reset: SequenceReset = "DAILY",
+  scope: SequenceScope = "STORE"
+): string | null {
+  const sequences = pattern.match(new RegExp(SEQUENCE_TOKEN.source, "g")) || [];
+
+  if (sequences.length !== 1) {
+    return "Pola harus berisi tepat satu {SEQ} atau {SEQ:n}";
+  }
+
+  const unknown = pattern
+    .replace(SEQUENCE_TOKEN, "")
+    .match(/\{[^}]*\}/g)
+    ?.find((token) => ![...DATE_TOKENS, "{TERMINAL}"].includes(token));
+
+  if (unknown) {
+    return `Token tidak dikenal: ${unknown}`;
+  }
+
+  if (!/^[A-Za-z0-9{}:/_.-]+$/.test(pattern)) {
+    return "Gunakan huruf, angka, token dan tanda - _ . / saja";
+  }
+
+  const hasYear = /\{YYYY\}|\{YY\}|\{YYYYMMDD\}/.test(pattern);
+  const hasMonth = /\{MM\}|\{YYYYMMDD\}/.test(pattern);
+  const hasDay = /\{DD\}|\{YYYYMMDD\}/.test(pattern);
+
+  if (reset === "DAILY" && !(hasYear && hasMonth && hasDay)) {
+    return "Reset harian membutuhkan tanggal lengkap, mis. {YYYYMMDD}";
+  }
+  if (reset === "MONTHLY" && !(hasYear && hasMonth)) {
+    return "Reset bulanan membutuhkan tahun dan bulan, mis. {YYYY}{MM}";
+  }
+  if (reset === "YEARLY" && !hasYear) {
+    return "Reset tahunan membutuhkan tahun, mis. {YYYY}";
+  }
+  if (scope === "TERMINAL" && !pattern.includes("{TERMINAL}")) {
+    return "Nomor per terminal membutuhkan token {TERMINAL}";
+  }
+
+  return null;
+}
+
+/**
+ * Whether the runtime knows an IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a locale and currency code can be formatted
+ */
+export function isValidCurrencyFormat(format: CurrencyFormat): boolean {
+  try {
+    new Intl.NumberFormat(format.locale, { style: "currency", currency: format.currency });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Amount with the currency symbol, e.g. "Rp 12.500"
+ */
+export function formatMoney(amount: number, format: CurrencyFormat): string {
+  return new Intl.NumberFormat(format.locale, {
+    style: "currency",
+    currency: format.currency,
+    minimumFractionDigits: format.decimals,
+    maximumFractionDigits: format.decimals,
+  }).format(amount);
+}
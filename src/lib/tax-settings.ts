@@ -0,0 +1,28 @@
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_TAX_RULE, type TaxRule } from "@/lib/tax";
+
+/** The settings row (the table holds a single row) */
+export const TAX_SETTING_ID = 1;
+
+/**
+ * Store tax and service charge rules for pricing a sale
+ * Falls back to the defaults (PPN 11%, exclusive, no service charge) until saved.
+ */
+export async function getTaxRule(): Promise<TaxRule> {
+  const setting = await prisma.taxSetting.findUnique({
+    where: { id: TAX_SETTING_ID },
+  });
+
+  if (!setting) {
+    return DEFAULT_TAX_RULE;
+  }
+
+  return {
+    taxEnabled: setting.taxEnabled,
+    taxName: setting.taxName,
+    taxRate: setting.taxRate,
+    taxInclusive: setting.taxInclusive,
+    serviceChargeEnabled: setting.serviceChargeEnabled,
+    serviceChargeRate: setting.serviceChargeRate,
+  };
+}
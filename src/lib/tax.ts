@@ -0,0 +1,155 @@
+/**
+ * Tax (PPN) and service charge rules
+ * Pure functions shared by the cashier cart and the sale APIs (see pricing.ts), so
+ * keep this module free of server-only imports.
+ *
+ * - Both are applied last, on the amount after every discount and redeemed points.
+ * - The service charge is a percentage of that amount and is itself taxed.
+ * - Exclusive tax is added on top; inclusive tax is already in the prices and is
+ *   only extracted for the receipt and reports.
+ * - Exempt products (or products in an exempt category) carry no tax. The service
+ *   charge is taxed in proportion to the taxable goods.
+ */
+
+import { allocateLineTotals } from "./refunds";
+
+export interface TaxRule {
+  taxEnabled: boolean;
+  taxName: string;
+  /** Percent, e.g. 11 for PPN 11% */
+  taxRate: number;
+  taxInclusive: boolean;
+  serviceChargeEnabled: boolean;
+  /** Percent of the amount after discounts */
+  serviceChargeRate: number;
+}
+
+export interface TaxableLine {
+  subtotal: number;
+  taxExempt?: boolean;
+}
+
+export interface TaxBreakdown {
+  serviceChargeAmount: number;
+  taxAmount: number;
+  /** Tax carried by each line's share of the goods, same order as the lines */
+  lineTaxes: number[];
+  /** Amount to pay: exclusive tax and the service charge added */
+  total: number;
+}
+
+/** Service charge and tax lines printed on carts and receipts */
+export interface TaxSummary {
+  serviceChargeRate: number;
+  serviceChargeAmount: number;
+  taxName: string;
+  taxRate: number;
+  taxAmount: number;
+  taxInclusive: boolean;
+}
+
+/** Used when no settings have been saved yet */
+export const DEFAULT_TAX_RULE: TaxRule = {
+  taxEnabled: true,
+  taxName: "PPN",
+  taxRate: 11,
+  taxInclusive: false,
+  serviceChargeEnabled: false,
+  serviceChargeRate: 0,
+};
+
+/**
+ * Whether a product is exempt, on its own or through its category
+ */
+export function isTaxExempt(product: {
+  taxExempt?: boolean;
+  category?: { taxExempt?: boolean } | null;
+}): boolean {
+  return !!product.taxExempt || !!product.category?.taxExempt;
+}
+
+/**
+ * Tax carried by an amount: added on top (exclusive) or already in it (inclusive)
+ */
+function taxOn(amount: number, rate: number, inclusive: boolean): number {
+  if (amount <= 0 || rate <= 0) return 0;
+
+  if (inclusive) {
+    return amount - Math.round((amount * 100) / (100 + rate));
+  }
+  return Math.round((amount * rate) / 100);
+}
+
+/**
+ * Service charge and tax for a sale
+ * @param lines Priced lines (subtotals before cart-level discounts)
+ * @param amount Amount after every discount, which is spread over the lines
+ */
+export function calculateTaxes(
+  lines: TaxableLine[],
+  amount: number,
+  rule?: TaxRule | null
+): TaxBreakdown {
+  const noTax = {
+    serviceChargeAmount: 0,
+    taxAmount: 0,
+    lineTaxes: lines.map(() => 0),
+    total: amount,
+  };
+
+  if (!rule || amount <= 0) {
+    return noTax;
+  }
+
+  const serviceChargeAmount =
+    rule.serviceChargeEnabled && rule.serviceChargeRate > 0
+      ? Math.round((amount * rule.serviceChargeRate) / 100)
+      : 0;
+  const total = amount + serviceChargeAmount;
+
+  if (!rule.taxEnabled || rule.taxRate <= 0) {
+    return { ...noTax, serviceChargeAmount, total };
+  }
+
+  // Each line's share of the discounted amount, then the part that is taxable
+  const shares = allocateLineTotals(
+    lines.map((line, index) => ({ id: index, quantity: 1, subtotal: line.subtotal })),
+    amount
+  );
+  const taxableShares = lines.map((line, index) => (line.taxExempt ? 0 : shares.get(index) || 0));
+  const taxableGoods = taxableShares.reduce((sum, share) => sum + share, 0);
+  const taxableService = Math.round((serviceChargeAmount * taxableGoods) / amount);
+
+  const goodsTax = taxOn(taxableGoods, rule.taxRate, rule.taxInclusive);
+  const serviceTax = taxOn(taxableService, rule.taxRate, rule.taxInclusive);
+  const taxAmount = goodsTax + serviceTax;
+
+  const lineTaxShares = allocateLineTotals(
+    taxableShares.map((share, index) => ({ id: index, quantity: 1, subtotal: share })),
+    goodsTax
+  );
+
+  return {
+    serviceChargeAmount,
+    taxAmount,
+    lineTaxes: lines.map((_, index) => lineTaxShares.get(index) || 0),
+    total: rule.taxInclusive ? total : total + taxAmount,
+  };
+}
+
+/**
+ * Receipt lines for a priced sale
+ */
+export function summarizeTaxes(
+  rule: TaxRule | null | undefined,
+  amounts: { serviceChargeAmount: number; taxAmount: number; taxInclusive: boolean }
+): TaxSummary {
+  return {
+    serviceChargeRate: rule?.serviceChargeRate ?? 0,
+    serviceChargeAmount: amounts.serviceChargeAmount,
+    taxName: rule?.taxName ?? DEFAULT_TAX_RULE.taxName,
+    taxRate: rule?.taxRate ?? 0,
+    taxAmount: amounts.taxAmount,
+    taxInclusive: amounts.taxInclusive,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Cashier terminal identity
+ * Each browser gets a generated ID kept in localStorage so data can be scoped per terminal
+ */
+
+const TERMINAL_STORAGE_KEY = "pos-terminal-id";
+
+/**
+ * Get (or create) the ID of the current browser terminal
+ */
+export function getTerminalId(): string {
+  if (typeof window === "undefined") {
+    return "";
+  }
+
+  let terminalId = window.localStorage.getItem(TERMINAL_STORAGE_KEY);
+
+  if (!terminalId) {
+    terminalId = `TRM-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+    window.localStorage.setItem(TERMINAL_STORAGE_KEY, terminalId);
+  }
+
+  return terminalId;
+}
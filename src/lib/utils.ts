@@ -1,15 +1,22 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DEFAULT_STORE_SETTINGS, formatMoney, type CurrencyFormat } from "./store"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Replaced with the store's format once the settings load (see StoreSettingsProvider)
+let currencyFormat: CurrencyFormat = {
+  locale: DEFAULT_STORE_SETTINGS.locale,
+  currency: DEFAULT_STORE_SETTINGS.currency,
+  decimals: DEFAULT_STORE_SETTINGS.decimals,
+}
+
+export function setCurrencyFormat(format: CurrencyFormat) {
+  currencyFormat = format
+}
+
 export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("id-ID", {
-    style: "currency",
-    currency: "IDR",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount)
+  return formatMoney(amount, currencyFormat)
 }
@@ -0,0 +1,11 @@
+import * as z from "zod";
+
+// Cart line sent by the cashier; quantities are whole units (stock is counted in integers)
+export const saleItemSchema = z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().positive("Quantity must be greater than 0"),
+  discountType: z.enum(["PERCENTAGE", "NOMINAL"]).nullable().optional(),
+  discountValue: z.number().min(0).optional(),
+});
+
+export const saleItemsSchema = z.array(saleItemSchema).min(1, "Items must be a non-empty array");
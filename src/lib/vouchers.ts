@@ -0,0 +1,164 @@
+import { randomInt } from "crypto";
+import { prisma } from "./prisma";
+import { ApiError } from "./utils/error";
+import type { DiscountRule, DiscountType } from "./pricing";
+import type { Prisma, Voucher, VoucherCampaign } from "@/generated/prisma/client";
+
+/**
+ * Voucher codes
+ * A campaign holds the discount rule (percent or nominal, minimum purchase, validity
+ * window); each printed code carries its own usage limit. A sale that uses a code
+ * replaces the manual transaction discount with the campaign rule, and the use is
+ * recorded in the same database transaction as the sale.
+ */
+
+export type VoucherWithCampaign = Voucher & { campaign: VoucherCampaign };
+
+export const VOUCHER_CODE_PATTERN = /^[A-Z0-9-]{4,32}$/;
+
+// No 0/O or 1/I/L, so printed codes can be typed back without guessing
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Random codes for a campaign, e.g. "RAMADAN-7KQ2MX9P"
+ * Collisions with existing codes are skipped on insert (see createMany skipDuplicates).
+ */
+export function generateVoucherCodes(prefix: string, count: number, length = 8): string[] {
+  const normalizedPrefix = prefix ? `${normalizeVoucherCode(prefix)}-` : "";
+  const codes = new Set<string>();
+
+  while (codes.size < count) {
+    let random = "";
+    for (let i = 0; i < length; i++) {
+      random += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    codes.add(normalizedPrefix + random);
+  }
+
+  return [...codes];
+}
+
+/**
+ * Why a voucher cannot be used at the given moment
+ * @returns Error message, or null when the voucher is redeemable
+ */
+export function getVoucherError(voucher: VoucherWithCampaign, at: Date): string | null {
+  const { campaign } = voucher;
+
+  if (!campaign.isActive) return "Voucher tidak aktif";
+  if (campaign.startsAt && at < campaign.startsAt) return "Voucher belum berlaku";
+  if (campaign.expiresAt && at > campaign.expiresAt) return "Voucher sudah kedaluwarsa";
+  if (voucher.usedCount >= voucher.usageLimit) return "Voucher sudah habis digunakan";
+
+  return null;
+}
+
+/**
+ * Transaction discount rule of a voucher's campaign
+ */
+export function toVoucherDiscountRule(voucher: VoucherWithCampaign): DiscountRule {
+  return {
+    type: voucher.campaign.discountType as DiscountType,
+    value: voucher.campaign.discountValue,
+    minPurchase: voucher.campaign.minPurchase,
+  };
+}
+
+/**
+ * Look up a code that can be redeemed now
+ */
+export async function findRedeemableVoucher(
+  code: string,
+  at: Date
+): Promise<{ voucher: VoucherWithCampaign } | { error: string }> {
+  const voucher = await prisma.voucher.findUnique({
+    where: { code: normalizeVoucherCode(code) },
+    include: { campaign: true },
+  });
+
+  if (!voucher) {
+    return { error: "Kode voucher tidak ditemukan" };
+  }
+
+  const error = getVoucherError(voucher, at);
+  return error ? { error } : { voucher };
+}
+
+/**
+ * Transaction discount for a sale request
+ * A `voucherCode` in the request replaces the client's discount rule with the campaign rule.
+ */
+export async function resolveTransactionDiscount(
+  discount: { type?: unknown; value?: unknown; voucherCode?: unknown } | null | undefined,
+  at: Date
+): Promise<{ rule: DiscountRule | null; voucher: VoucherWithCampaign | null } | { error: string }> {
+  if (!discount?.voucherCode) {
+    return { rule: (discount as DiscountRule | null | undefined) ?? null, voucher: null };
+  }
+
+  if (typeof discount.voucherCode !== "string") {
+    return { error: "Kode voucher tidak valid" };
+  }
+
+  const result = await findRedeemableVoucher(discount.voucherCode, at);
+  if ("error" in result) {
+    return result;
+  }
+
+  return { rule: toVoucherDiscountRule(result.voucher), voucher: result.voucher };
+}
+
+/**
+ * Record one use of a voucher inside the sale's database transaction
+ * The usage check and increment are a single conditional update, so two sales
+ * can never both take the last use of a code.
+ */
+export async function redeemVoucher(
+  tx: Prisma.TransactionClient,
+  voucherId: number,
+  transactionId: number,
+  discountAmount: number
+) {
+  const updated = await tx.voucher.updateMany({
+    where: { id: voucherId, usedCount: { lt: tx.voucher.fields.usageLimit } },
+    data: { usedCount: { increment: 1 } },
+  });
+
+  if (updated.count === 0) {
+    throw new ApiError(409, "Voucher sudah habis digunakan");
+  }
+
+  await tx.voucherRedemption.create({
+    data: { voucherId, transactionId, discountAmount },
+  });
+}
+
+/**
+ * Give back the voucher uses of a canceled sale (safe to call more than once)
+ */
+export async function restoreVoucherRedemptions(
+  tx: Prisma.TransactionClient,
+  transactionId: number
+) {
+  const redemptions = await tx.voucherRedemption.findMany({
+    where: { transactionId, restoredAt: null },
+  });
+
+  for (const redemption of redemptions) {
+    const restored = await tx.voucherRedemption.updateMany({
+      where: { id: redemption.id, restoredAt: null },
+      data: { restoredAt: new Date() },
+    });
+
+    if (restored.count > 0) {
+      await tx.voucher.update({
+        where: { id: redemption.voucherId },
+        data: { usedCount: { decrement: 1 } },
+      });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { createContext, useContext, Fragment, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import axios from "@/lib/axios";
+import { setCurrencyFormat } from "@/lib/utils";
+import { DEFAULT_STORE_SETTINGS, type StoreSettings } from "@/lib/store";
+
+interface StoreSettingsContextValue {
+  settings: StoreSettings;
+  isLoading: boolean;
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextValue | undefined>(
+  undefined
+);
+
+async function fetchStoreSettings(): Promise<StoreSettings> {
+  const response = await axios.get<{ data: StoreSettings }>("/api/store-settings");
+  return response.data.data;
+}
+
+export function StoreSettingsProvider({ children }: { children: ReactNode }) {
+  const { status } = useSession();
+
+  const { data, isLoading } = useQuery<StoreSettings, Error>({
+    queryKey: ["store-settings"],
+    queryFn: fetchStoreSettings,
+    enabled: status === "authenticated",
+    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+    retry: 1,
+  });
+
+  const settings = data ?? DEFAULT_STORE_SETTINGS;
+
+  // formatCurrency reads the module-level format, so apply it before children render
+  setCurrencyFormat(settings);
+
+  const value: StoreSettingsContextValue = {
+    settings,
+    isLoading: status === "loading" || isLoading,
+  };
+
+  return (
+    <StoreSettingsContext.Provider value={value}>
+      {/* Remount when the money format changes so memoized amounts are redrawn */}
+      <Fragment key={`${settings.locale}|${settings.currency}|${settings.decimals}`}>
+        {children}
+      </Fragment>
+    </StoreSettingsContext.Provider>
+  );
+}
+
+export function useStoreSettings() {
+  const context = useContext(StoreSettingsContext);
+  if (context === undefined) {
+    throw new Error(
+      "useStoreSettings must be used within a StoreSettingsProvider"
+    );
+  }
+  return context;
+}